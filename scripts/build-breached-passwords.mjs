@@ -0,0 +1,60 @@
+// Builds the breached password ranges in public/breached-passwords from a list
+// of passwords, one per line, or of SHA-1 hashes with counts as in the Pwned
+// Passwords downloads (HASH:COUNT). Each range file is named after the first
+// characters of the hashes it holds and lists their suffixes with counts, in
+// the format of the Pwned Passwords range API.
+//
+//   node scripts/build-breached-passwords.mjs [input] [--prefix-length N]
+//
+// A longer prefix means smaller files for a large list; one character keeps
+// the shipped list in 16 files, each covering a sixteenth of it.
+//
+// The shipped list is only a sample of the most common passwords. Deployments
+// should build the ranges from a Pwned Passwords download instead, e.g. with
+// --prefix-length 3 or more; ranges built from the sample are marked as such
+// and the app warns about them.
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const outputDir = join(root, 'public', 'breached-passwords');
+
+const args = process.argv.slice(2);
+const prefixIndex = args.indexOf('--prefix-length');
+const prefixLength = prefixIndex >= 0 ? Number(args.splice(prefixIndex, 2)[1]) : 1;
+const sampleInput = join(root, 'scripts', 'breached-passwords.txt');
+const input = args[0] ?? sampleInput;
+const sample = input === sampleInput;
+
+if (!Number.isInteger(prefixLength) || prefixLength < 1 || prefixLength > 5) {
+  console.error('--prefix-length must be between 1 and 5');
+  process.exit(1);
+}
+
+const counts = new Map();
+for (const line of (await readFile(input, 'utf8')).split(/\r?\n/)) {
+  if (!line || line.startsWith('#')) continue;
+
+  const hashed = line.match(/^([0-9a-fA-F]{40})(?::(\d+))?$/);
+  const hash = hashed ? hashed[1].toUpperCase() : createHash('sha1').update(line).digest('hex').toUpperCase();
+  const count = hashed?.[2] ? Number(hashed[2]) : 1;
+  counts.set(hash, (counts.get(hash) ?? 0) + count);
+}
+
+const ranges = new Map();
+for (const [hash, count] of [...counts].sort(([a], [b]) => a.localeCompare(b))) {
+  const prefix = hash.slice(0, prefixLength);
+  ranges.set(prefix, [...(ranges.get(prefix) ?? []), `${hash.slice(prefixLength)}:${count}`]);
+}
+
+await rm(outputDir, { recursive: true, force: true });
+await mkdir(outputDir, { recursive: true });
+await Promise.all([...ranges].map(([prefix, lines]) => writeFile(join(outputDir, `${prefix}.txt`), `${lines.join('\n')}\n`)));
+await writeFile(join(outputDir, 'index.json'), `${JSON.stringify({ prefixLength, sample }, null, 2)}\n`);
+
+console.log(`Wrote ${counts.size} hashes in ${ranges.size} ranges to ${outputDir}`);
+if (sample) {
+  console.warn('These ranges hold only the sample list. Build them from a Pwned Passwords download before deploying.');
+}
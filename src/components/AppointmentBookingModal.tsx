@@ -1,6 +1,10 @@
 import { X, Calendar, Clock } from 'lucide-react';
-import { useState, useEffect } from 'react';
+import { useState, useMemo } from 'react';
 import { api } from '../services/api';
+import { supabaseData } from '../services/supabaseData';
+import { queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import { assertNotDemo } from '../services/demo';
 
 interface AppointmentBookingModalProps {
   isOpen: boolean;
@@ -10,7 +14,7 @@ interface AppointmentBookingModalProps {
     time: string;
     type: string;
     provider: string;
-  }) => void;
+  }) => Promise<void>;
 }
 
 // Default appointment types
@@ -23,14 +27,6 @@ const defaultAppointmentTypes = [
   'Consultation'
 ];
 
-// Default providers list
-const defaultProviders = [
-  'Dr. Johnson - Primary Care',
-  'Dr. Smith - Cardiology',
-  'Dr. Chen - Internal Medicine',
-  'Dr. Patel - Family Medicine'
-];
-
 // Generate time slots from 9 AM to 5 PM in 30-minute intervals
 const generateTimeSlots = () => {
   const slots = [];
@@ -48,46 +44,14 @@ export default function AppointmentBookingModal({ isOpen, onClose, onBook }: App
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [appointmentTypes, setAppointmentTypes] = useState(defaultAppointmentTypes);
-  const [providers, setProviders] = useState(defaultProviders);
   const timeSlots = generateTimeSlots();
 
-  // Fetch providers and appointment types when modal opens
-  useEffect(() => {
-    if (isOpen) {
-      fetchProviders();
-    }
-  }, [isOpen]);
-
-  // Fetch available providers from the API
-  const fetchProviders = async () => {
-    try {
-      setLoading(true);
-      
-      // Get companies to use as providers
-      const response = await api.post<{ companies: any[] }>('company/list', {});
-      
-      if (response.companies && response.companies.length > 0) {
-        // Map company data to provider format
-        const mappedProviders = response.companies
-          .filter(company => company.active)
-          .map(company => `${company.name} - Healthcare Provider`);
-        
-        // If we found providers, use them
-        if (mappedProviders.length > 0) {
-          setProviders(mappedProviders);
-        }
-      }
-      
-      // Here we could also fetch appointment types from an API endpoint if available
-      // For now, we'll keep using the default types
-      
-    } catch (err) {
-      console.error('Error fetching providers:', err);
-      // We'll keep using the default providers if API fails
-    } finally {
-      setLoading(false);
-    }
-  };
+  // The user's providers, shared with the page through the query cache
+  const providersQuery = useQuery(queryKeys.providers, supabaseData.getProviders);
+  const providers = useMemo(
+    () => (providersQuery.data ?? []).map(provider => `${provider.name} - ${provider.category}`),
+    [providersQuery.data]
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -105,6 +69,9 @@ export default function AppointmentBookingModal({ isOpen, onClose, onBook }: App
     };
     
     try {
+      // The proposal below goes straight to the legacy API
+      assertNotDemo();
+
       // In a real implementation, we would call an API endpoint to book the appointment
       // Since there's no direct appointment booking endpoint in your API list,
       // we'll simulate it by creating a contract proposal
@@ -121,8 +88,9 @@ export default function AppointmentBookingModal({ isOpen, onClose, onBook }: App
         providerName: providerName
       });
       
-      // Call the onBook callback with the appointment data
-      onBook(appointmentData);
+      // Call the onBook callback with the appointment data; a failure keeps
+      // the form open with its message
+      await onBook(appointmentData);
       
       // Reset form and close modal
       form.reset();
@@ -169,7 +137,7 @@ export default function AppointmentBookingModal({ isOpen, onClose, onBook }: App
           </div>
         )}
 
-        {loading && !error && (
+        {(loading || providersQuery.loading) && !error && (
           <div className="mx-6 mt-4 px-4 py-3 bg-blue-50 border border-blue-200 text-blue-600 rounded-md text-sm flex items-center">
             <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mr-2"></div>
             Loading providers...
@@ -212,6 +180,11 @@ export default function AppointmentBookingModal({ isOpen, onClose, onBook }: App
                   <option key={provider} value={provider}>{provider}</option>
                 ))}
               </select>
+              {providersQuery.error ? (
+                <p className="mt-1 text-sm text-red-600">Your providers could not be loaded.</p>
+              ) : !providersQuery.loading && providers.length === 0 && (
+                <p className="mt-1 text-sm text-gray-500">Add a provider before booking an appointment.</p>
+              )}
             </div>
 
             <div>
@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react';
+import { X, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
+import { consentPurposes, DEFAULT_PURPOSES } from '../services/consent';
+import { useStepUp } from '../hooks/useStepUp';
+import type {
+  BulkConsentAction,
+  BulkConsentResult,
+  ConsentGrant,
+  ConsentPurpose
+} from '../types/consent';
+
+export type BulkConsentKind = BulkConsentAction['kind'];
+
+interface BulkConsentProvider {
+  id: string;
+  name: string;
+  permissions: ConsentGrant[];
+  consentExpired: boolean;
+}
+
+interface BulkConsentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: BulkConsentKind;
+  providers: BulkConsentProvider[];
+  onConfirm: (providerIds: string[], action: BulkConsentAction) => Promise<BulkConsentResult[]>;
+}
+
+const actionTitles: Record<BulkConsentKind, string> = {
+  revoke: 'Revoke all access',
+  grant: 'Grant access',
+  disconnect: 'Disconnect providers'
+};
+
+// What the action will do to one provider, or why it will be skipped
+const describeChange = (
+  provider: BulkConsentProvider,
+  kind: BulkConsentKind,
+  dataTypeId: string
+): { summary: string; skipReason?: string } => {
+  const granted = provider.permissions.filter(grant => grant.granted);
+
+  switch (kind) {
+    case 'revoke':
+      return granted.length > 0
+        ? { summary: `Stops sharing ${granted.map(grant => grant.name).join(', ')}` }
+        : { summary: 'Nothing is shared; no change' };
+    case 'disconnect':
+      return { summary: 'Removes all access and the consent record' };
+    case 'grant': {
+      const grant = provider.permissions.find(g => g.dataTypeId === dataTypeId);
+      if (!grant) return { summary: '', skipReason: 'Does not offer this data type' };
+      if (provider.consentExpired) return { summary: '', skipReason: 'Consent has expired; renew it first' };
+      return { summary: grant.granted ? `Updates ${grant.name} purposes` : `Starts sharing ${grant.name}` };
+    }
+  }
+};
+
+export default function BulkConsentModal({
+  isOpen,
+  onClose,
+  kind,
+  providers,
+  onConfirm
+}: BulkConsentModalProps) {
+  const { requireStepUp } = useStepUp();
+  const [dataTypeId, setDataTypeId] = useState('');
+  const [purposes, setPurposes] = useState<ConsentPurpose[]>(DEFAULT_PURPOSES);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<BulkConsentResult[] | null>(null);
+
+  // Every data type offered by at least one selected provider
+  const dataTypes = providers
+    .flatMap(provider => provider.permissions)
+    .filter((grant, index, all) => all.findIndex(g => g.dataTypeId === grant.dataTypeId) === index);
+
+  // Reset local state whenever the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDataTypeId('');
+      setPurposes(DEFAULT_PURPOSES);
+      setError(null);
+      setResults(null);
+    }
+  }, [isOpen, kind]);
+
+  if (!isOpen) return null;
+
+  const changes = providers.map(provider => ({
+    provider,
+    ...describeChange(provider, kind, dataTypeId)
+  }));
+  const eligible = changes.filter(change => !change.skipReason);
+  const canConfirm = eligible.length > 0 && (kind !== 'grant' || (!!dataTypeId && purposes.length > 0));
+
+  const handlePurposeToggle = (purpose: ConsentPurpose) => {
+    setPurposes(prev =>
+      prev.includes(purpose) ? prev.filter(p => p !== purpose) : [...prev, purpose]
+    );
+  };
+
+  const handleConfirm = async () => {
+    const action: BulkConsentAction = kind === 'grant'
+      ? { kind, dataTypeId, purposes }
+      : { kind };
+
+    if (kind === 'disconnect' && !(await requireStepUp('disconnect these providers'))) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setResults(await onConfirm(eligible.map(change => change.provider.id), action));
+    } catch (err) {
+      console.error('Error applying bulk consent change:', err);
+      setError('Failed to apply changes. No providers were updated.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getProviderName = (providerId: string) =>
+    providers.find(provider => provider.id === providerId)?.name || 'Unknown provider';
+
+  const failed = results?.filter(result => !result.succeeded) ?? [];
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-40"
+        onClick={loading ? undefined : onClose}
+      />
+      <div className="fixed inset-x-4 top-[10%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-lg bg-white rounded-xl shadow-xl z-50 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold">{actionTitles[kind]}</h2>
+            <p className="text-sm text-gray-600">
+              {providers.length} {providers.length === 1 ? 'provider' : 'providers'} selected
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            type="button"
+            disabled={loading}
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 px-4 py-3 bg-red-50 border border-red-200 text-red-600 rounded-md text-sm flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        )}
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {results ? (
+            <div>
+              <p className={`text-sm mb-4 ${failed.length > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                {failed.length === 0
+                  ? `All ${results.length} ${results.length === 1 ? 'provider was' : 'providers were'} updated.`
+                  : `${results.length - failed.length} of ${results.length} providers were updated. The rest are still selected so you can try again.`}
+              </p>
+              <ul className="space-y-2">
+                {results.map(result => (
+                  <li key={result.providerId} className="flex items-start gap-2 text-sm">
+                    {result.succeeded ? (
+                      <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                    ) : (
+                      <XCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />
+                    )}
+                    <div>
+                      <p className="font-medium">{getProviderName(result.providerId)}</p>
+                      {result.error && <p className="text-red-600">{result.error}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <>
+              {kind === 'grant' && (
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="bulk-data-type" className="block text-sm font-medium text-gray-700 mb-1">
+                      Data type
+                    </label>
+                    <select
+                      id="bulk-data-type"
+                      value={dataTypeId}
+                      onChange={(e) => setDataTypeId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      disabled={loading}
+                    >
+                      <option value="">Select a data type</option>
+                      {dataTypes.map(dataType => (
+                        <option key={dataType.dataTypeId} value={dataType.dataTypeId}>
+                          {dataType.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-2">Allowed uses</p>
+                    <div className="flex flex-wrap gap-2">
+                      {consentPurposes.map(purpose => {
+                        const allowed = purposes.includes(purpose.value);
+                        return (
+                          <button
+                            key={purpose.value}
+                            onClick={() => handlePurposeToggle(purpose.value)}
+                            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                              allowed
+                                ? 'bg-blue-50 border-blue-200 text-blue-700'
+                                : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                            }`}
+                            type="button"
+                            disabled={loading}
+                            aria-pressed={allowed}
+                            title={purpose.description}
+                          >
+                            {purpose.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {(kind !== 'grant' || dataTypeId) && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Summary</h3>
+                  <ul className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+                    {changes.map(change => (
+                      <li key={change.provider.id} className="px-4 py-3 text-sm">
+                        <p className="font-medium">{change.provider.name}</p>
+                        <p className={change.skipReason ? 'text-yellow-700' : 'text-gray-600'}>
+                          {change.skipReason ? `Skipped: ${change.skipReason}` : change.summary}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                  {kind === 'disconnect' && (
+                    <p className="text-sm text-red-600 mt-3">
+                      Disconnecting revokes all access to your health information. This action cannot be undone.
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200">
+          <div className="flex justify-end gap-3">
+            {results ? (
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                type="button"
+              >
+                Done
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  type="button"
+                  disabled={loading}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  className={`px-4 py-2 text-white rounded-lg transition-colors flex items-center ${
+                    kind === 'grant' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'
+                  } disabled:opacity-70 disabled:cursor-not-allowed`}
+                  type="button"
+                  disabled={loading || !canConfirm}
+                >
+                  {loading ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                      Applying...
+                    </>
+                  ) : (
+                    `Apply to ${eligible.length} ${eligible.length === 1 ? 'provider' : 'providers'}`
+                  )}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UserPlus, X } from 'lucide-react';
+import { useSession } from '../hooks/useSession';
+import { useSettingsAction } from '../hooks/useSettingsAction';
+import { useStepUp } from '../hooks/useStepUp';
+import { actingAs } from '../services/actingAs';
+import { caregiverRoles, delegationService } from '../services/delegation';
+import type { CaregiverDelegation, CaregiverRole } from '../types/delegation';
+import { getErrorMessage } from '../utils/errors';
+
+const statusBadge = (delegation: CaregiverDelegation) =>
+  delegation.status === 'active'
+    ? <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded-full">Active</span>
+    : <span className="ml-2 px-2 py-0.5 text-xs bg-yellow-100 text-yellow-700 rounded-full">Invited</span>;
+
+const toggleRole = (roles: CaregiverRole[], role: CaregiverRole) =>
+  roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role];
+
+// Caregivers, in the Privacy & Security settings: people the user lets see
+// or manage parts of their account, and the accounts the user helps with.
+// Giving someone access needs a fresh verification; taking it away does not.
+export default function CaregiverSettings() {
+  const { user } = useSession();
+  const { requireStepUp } = useStepUp();
+  const [caregivers, setCaregivers] = useState<CaregiverDelegation[]>([]);
+  const [accounts, setAccounts] = useState<CaregiverDelegation[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [email, setEmail] = useState('');
+  const [roles, setRoles] = useState<CaregiverRole[]>(['view_records']);
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+  // Actions share the busy and error state, and reload the section afterwards
+  const { busy, error, setError, run } = useSettingsAction(() => load());
+
+  const load = useCallback(async () => {
+    try {
+      const [invited, helping] = await Promise.all([
+        delegationService.listCaregivers(),
+        delegationService.listAccounts()
+      ]);
+      setCaregivers(invited);
+      setAccounts(helping);
+    } catch (err) {
+      console.error('Error loading caregivers:', err);
+      setError(getErrorMessage(err, 'Failed to load your caregivers'));
+    } finally {
+      setLoaded(true);
+    }
+  }, [setError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    const address = email.trim().toLowerCase();
+    if (address === user.email.toLowerCase()) {
+      setError("You can't be your own caregiver");
+      return;
+    }
+    if (caregivers.some(caregiver => caregiver.caregiverEmail === address)) {
+      setError('That person has already been invited');
+      return;
+    }
+    if (!(await requireStepUp('give someone access to your account'))) return;
+
+    run(async () => {
+      await delegationService.invite(user.name, email, roles);
+      setEmail('');
+      setRoles(['view_records']);
+    }, 'Could not send the invitation');
+  };
+
+  const handleRoleChange = async (delegation: CaregiverDelegation, role: CaregiverRole) => {
+    const next = toggleRole(delegation.roles, role);
+    if (!delegation.roles.includes(role) && !(await requireStepUp('give a caregiver more access'))) return;
+    run(() => delegationService.updateRoles(delegation.id, next), 'Could not change what they can do');
+  };
+
+  const handleRemove = (delegation: CaregiverDelegation) => {
+    run(async () => {
+      await delegationService.remove(delegation.id);
+      setConfirmRemoveId(null);
+      if (actingAs.getSnapshot()?.delegationId === delegation.id) actingAs.set(null);
+    }, 'Could not remove access');
+  };
+
+  const removeControls = (delegation: CaregiverDelegation, label: string, confirmText: string) =>
+    confirmRemoveId === delegation.id ? (
+      <div className="flex items-center space-x-2">
+        <span className="text-xs text-gray-600">{confirmText}</span>
+        <button
+          type="button"
+          onClick={() => handleRemove(delegation)}
+          className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+          disabled={busy}
+        >
+          Remove
+        </button>
+        <button
+          type="button"
+          onClick={() => setConfirmRemoveId(null)}
+          className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+          disabled={busy}
+        >
+          Keep
+        </button>
+      </div>
+    ) : (
+      <button
+        type="button"
+        onClick={() => setConfirmRemoveId(delegation.id)}
+        className="p-2 text-gray-400 hover:text-red-600"
+        aria-label={label}
+        disabled={busy}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="font-medium">Caregivers</h4>
+        <p className="text-sm text-gray-500">
+          Let someone you trust help with your health records, appointments or consent.
+          They switch to your account from their profile menu.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!loaded && (
+        <div className="flex justify-center py-4">
+          <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      )}
+
+      {caregivers.length > 0 && (
+        <div className="space-y-2">
+          {caregivers.map(caregiver => (
+            <div key={caregiver.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">
+                  {caregiver.caregiverEmail}
+                  {statusBadge(caregiver)}
+                </p>
+                {removeControls(caregiver, `Remove ${caregiver.caregiverEmail}`, 'Remove their access?')}
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {caregiverRoles.map(role => (
+                  <label key={role.value} className="flex items-center text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={caregiver.roles.includes(role.value)}
+                      onChange={() => handleRoleChange(caregiver, role.value)}
+                      className="mr-1 h-3 w-3 text-blue-600 rounded"
+                      // A caregiver keeps at least one role; remove them instead
+                      disabled={busy || (caregiver.roles.length === 1 && caregiver.roles.includes(role.value))}
+                    />
+                    {role.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleInvite} className="p-3 bg-gray-50 rounded-lg space-y-3">
+        <div className="flex space-x-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Caregiver's email address"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            required
+          />
+          <button
+            type="submit"
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            disabled={busy || roles.length === 0}
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite
+          </button>
+        </div>
+        <div className="space-y-1">
+          {caregiverRoles.map(role => (
+            <label key={role.value} className="flex items-start text-sm">
+              <input
+                type="checkbox"
+                checked={roles.includes(role.value)}
+                onChange={() => setRoles(current => toggleRole(current, role.value))}
+                className="mt-1 mr-2 h-4 w-4 text-blue-600 rounded"
+              />
+              <span>
+                {role.label}
+                <span className="block text-xs text-gray-500">{role.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {accounts.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Accounts you help with</h4>
+          {accounts.map(account => (
+            <div key={account.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div>
+                <p className="text-sm font-medium">
+                  {account.ownerName}
+                  {statusBadge(account)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {caregiverRoles.filter(role => account.roles.includes(role.value)).map(role => role.label).join(', ')}
+                </p>
+              </div>
+              {account.status === 'pending' ? (
+                <div className="flex items-center space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => run(() => delegationService.accept(account.id), 'Could not accept the invitation')}
+                    className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                    disabled={busy}
+                  >
+                    Accept
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(account)}
+                    className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                    disabled={busy}
+                  >
+                    Decline
+                  </button>
+                </div>
+              ) : (
+                removeControls(account, `Stop helping ${account.ownerName}`, 'Stop helping?')
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
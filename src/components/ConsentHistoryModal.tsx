@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { X, AlertCircle, ShieldCheck, ShieldOff, RefreshCw, Unlink } from 'lucide-react';
+import { consentPurposes, consentService } from '../services/consent';
+import type { ConsentEvent, ConsentEventType, ConsentScope } from '../types/consent';
+
+interface ConsentHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  provider: {
+    id: string;
+    name: string;
+    logo: string;
+  };
+}
+
+const eventStyles: Record<ConsentEventType, { label: string; icon: typeof ShieldCheck; className: string }> = {
+  grant: { label: 'Access granted', icon: ShieldCheck, className: 'bg-green-100 text-green-700' },
+  revoke: { label: 'Access revoked', icon: ShieldOff, className: 'bg-red-100 text-red-700' },
+  modify: { label: 'Access changed', icon: RefreshCw, className: 'bg-blue-100 text-blue-700' },
+  disconnect: { label: 'Provider disconnected', icon: Unlink, className: 'bg-gray-200 text-gray-700' }
+};
+
+const formatScope = (scope: ConsentScope) => {
+  const purposes = consentPurposes
+    .filter(purpose => scope.purposes?.includes(purpose.value))
+    .map(purpose => purpose.label);
+  return purposes.length > 0 ? `${scope.name} (${purposes.join(', ')})` : scope.name;
+};
+
+const formatScopes = (scopes: ConsentScope[]) =>
+  scopes.length > 0 ? scopes.map(formatScope).join(', ') : 'No data';
+
+export default function ConsentHistoryModal({ isOpen, onClose, provider }: ConsentHistoryModalProps) {
+  const [events, setEvents] = useState<ConsentEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the ledger whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        setEvents(await consentService.getHistory(provider.id));
+      } catch (err) {
+        console.error('Error fetching consent history:', err);
+        setError('Failed to load consent history. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [isOpen, provider.id]);
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-40"
+        onClick={onClose}
+      />
+      <div className="fixed inset-x-4 top-[10%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-lg bg-white rounded-xl shadow-xl z-50 max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <img
+              src={provider.logo}
+              alt={provider.name}
+              className="w-10 h-10"
+              onError={(e) => {
+                // Fallback if image fails to load
+                e.currentTarget.src = '/elroi-logo.svg';
+              }}
+            />
+            <div>
+              <h2 className="text-xl font-semibold">{provider.name}</h2>
+              <p className="text-sm text-gray-600">Consent history</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            type="button"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 px-4 py-3 bg-red-50 border border-red-200 text-red-600 rounded-md text-sm flex items-center">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {error}
+          </div>
+        )}
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : events.length === 0 ? (
+            !error && <p className="text-center text-gray-500 py-8">No consent changes recorded for this provider yet.</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-4 space-y-6">
+              {events.map(event => {
+                const style = eventStyles[event.type];
+                const Icon = style.icon;
+                return (
+                  <li key={event.id} className="ml-6">
+                    <span className={`absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full ${style.className}`}>
+                      <Icon className="h-4 w-4" />
+                    </span>
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-medium">{style.label}</h3>
+                      <time className="text-xs text-gray-500">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </time>
+                    </div>
+                    <dl className="mt-2 text-sm text-gray-600 space-y-1">
+                      <div>
+                        <dt className="inline font-medium text-gray-700">Before: </dt>
+                        <dd className="inline">{formatScopes(event.scopesBefore)}</dd>
+                      </div>
+                      <div>
+                        <dt className="inline font-medium text-gray-700">After: </dt>
+                        <dd className="inline">{formatScopes(event.scopesAfter)}</dd>
+                      </div>
+                      {event.expiresAt && (
+                        <div>
+                          <dt className="inline font-medium text-gray-700">Expires: </dt>
+                          <dd className="inline">{new Date(event.expiresAt).toLocaleDateString()}</dd>
+                        </div>
+                      )}
+                    </dl>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200">
+          <div className="flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              type="button"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
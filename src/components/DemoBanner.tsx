@@ -0,0 +1,14 @@
+import { Info } from 'lucide-react';
+import { DEMO_MODE } from '../config/constants';
+
+// Make it obvious that nothing on screen is the user's real data
+export default function DemoBanner() {
+  if (!DEMO_MODE) return null;
+
+  return (
+    <div className="relative z-10 flex items-center gap-2 px-6 py-2 bg-purple-50 border-b border-purple-200 text-sm text-purple-800">
+      <Info className="h-4 w-4 flex-shrink-0" />
+      <span>Demo mode: all health data shown is sample data and changes are not saved.</span>
+    </div>
+  );
+}
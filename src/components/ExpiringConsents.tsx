@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { Clock, RefreshCw } from 'lucide-react';
+import { consentService } from '../services/consent';
+import type { ExpiringConsent } from '../types/consent';
+
+interface ExpiringConsentsProps {
+  withinDays?: number;
+  // Called with the number of consents needing attention once loaded
+  onLoaded?: (count: number) => void;
+}
+
+const getExpiryLabel = (consent: ExpiringConsent): string => {
+  if (consent.expired) {
+    return `Expired ${new Date(consent.endDate).toLocaleDateString()}`;
+  }
+  const days = Math.ceil((new Date(consent.endDate).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? 'Expires within a day' : `Expires in ${days} days`;
+};
+
+// Consents that have expired or are about to, each with a one-click renew
+export default function ExpiringConsents({ withinDays = 7, onLoaded }: ExpiringConsentsProps) {
+  const [consents, setConsents] = useState<ExpiringConsent[]>([]);
+  const [renewingId, setRenewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchExpiring = async () => {
+      try {
+        const expiring = await consentService.getExpiring(withinDays);
+        setConsents(expiring);
+        onLoaded?.(expiring.length);
+      } catch (err) {
+        console.error('Error fetching expiring consents:', err);
+      }
+    };
+
+    fetchExpiring();
+  }, [withinDays, onLoaded]);
+
+  const handleRenew = async (providerId: string) => {
+    try {
+      setRenewingId(providerId);
+      setError(null);
+      await consentService.renew(providerId);
+      const remaining = consents.filter(consent => consent.providerId !== providerId);
+      setConsents(remaining);
+      onLoaded?.(remaining.length);
+    } catch (err) {
+      console.error('Error renewing consent:', err);
+      setError('Failed to renew access. Please try again.');
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
+  if (consents.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {consents.map(consent => (
+        <div key={consent.providerId} className="flex items-center justify-between p-3 bg-yellow-50 rounded-xl">
+          <div className="flex items-center space-x-3">
+            <Clock className={`h-5 w-5 ${consent.expired ? 'text-red-600' : 'text-yellow-600'}`} />
+            <div>
+              <p className="text-sm font-medium">{consent.providerName}</p>
+              <p className="text-xs text-gray-500">{getExpiryLabel(consent)}</p>
+            </div>
+          </div>
+          <button
+            onClick={() => handleRenew(consent.providerId)}
+            className="inline-flex items-center gap-1 px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-70"
+            type="button"
+            disabled={renewingId === consent.providerId}
+          >
+            <RefreshCw className={`h-4 w-4 ${renewingId === consent.providerId ? 'animate-spin' : ''}`} />
+            Renew
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
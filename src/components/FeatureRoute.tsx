@@ -0,0 +1,20 @@
+import { Navigate, Outlet } from 'react-router-dom';
+import { useFlags } from '../hooks/useFlag';
+import type { FlagName } from '../config/flags';
+
+// Layout route for a module behind a feature flag; with the flag off, its
+// pages send the user back to the dashboard. A flag that is off by default
+// may be turned on for the user, so wait for their overrides first.
+export default function FeatureRoute({ flag }: { flag: FlagName }) {
+  const { flags, loaded } = useFlags();
+
+  if (flags[flag]) return <Outlet />;
+  if (!loaded) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+  return <Navigate to="/" replace />;
+}
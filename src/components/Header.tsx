@@ -1,13 +1,36 @@
-import { Search, Bell, Home, Menu } from 'lucide-react';
+import { Search, Bell, Home, Menu, Check, Users } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useSidebar } from '../hooks/useSidebar';
 import { useState } from 'react';
 import NotificationsModal from './NotificationsModal';
+import { useSession } from '../hooks/useSession';
+import { useActingAs } from '../hooks/useActingAs';
+import { caregiverRoles } from '../services/delegation';
+import type { CaregiverDelegation, CaregiverRole } from '../types/delegation';
+
+const describeRoles = (roles: CaregiverRole[]) =>
+  caregiverRoles.filter(role => roles.includes(role.value)).map(role => role.label).join(', ');
+
+const avatarUrl = (name: string) => `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}`;
 
 export default function Header() {
   const { toggleSidebar } = useSidebar();
   const navigate = useNavigate();
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [isAccountMenuOpen, setIsAccountMenuOpen] = useState(false);
+  const { user } = useSession();
+  const { actingFor, accounts, switchTo, reload } = useActingAs();
+
+  // Check for new or removed delegations each time the menu opens
+  const toggleAccountMenu = () => {
+    if (!isAccountMenuOpen) reload();
+    setIsAccountMenuOpen(open => !open);
+  };
+
+  const selectAccount = (account: CaregiverDelegation | null) => {
+    switchTo(account);
+    setIsAccountMenuOpen(false);
+  };
 
   return (
     <header className="bg-white border-b border-gray-200 relative z-20">
@@ -45,15 +68,86 @@ export default function Header() {
             <Bell className="h-6 w-6 text-gray-600" />
             <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full" />
           </button>
-          <button className="p-2 hover:bg-gray-100 rounded-full">
-            <img
-              src="https://ui-avatars.com/api/?name=Rachel+Connor"
-              alt="Profile"
-              className="h-8 w-8 rounded-full border-2 border-gray-200"
-            />
-          </button>
+          <div className="relative">
+            <button
+              onClick={toggleAccountMenu}
+              className="p-2 hover:bg-gray-100 rounded-full relative"
+              aria-haspopup="menu"
+              aria-expanded={isAccountMenuOpen}
+              aria-label={actingFor ? `Acting on behalf of ${actingFor.name}` : 'Your account'}
+            >
+              <img
+                src={avatarUrl(actingFor?.name || user?.name || 'User')}
+                alt="Profile"
+                className={`h-8 w-8 rounded-full border-2 ${actingFor ? 'border-amber-400' : 'border-gray-200'}`}
+              />
+              {actingFor && (
+                <span className="absolute bottom-1 right-1 flex h-4 w-4 items-center justify-center rounded-full bg-amber-400">
+                  <Users className="h-3 w-3 text-white" />
+                </span>
+              )}
+            </button>
+
+            {isAccountMenuOpen && (
+              <>
+                <div className="fixed inset-0 z-30" onClick={() => setIsAccountMenuOpen(false)} />
+                <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 py-2 z-40" role="menu">
+                  <p className="px-4 py-1 text-xs font-medium text-gray-500 uppercase">Acting as</p>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onClick={() => selectAccount(null)}
+                    className="w-full flex items-center px-4 py-2 text-left hover:bg-gray-50"
+                  >
+                    <img src={avatarUrl(user?.name || 'User')} alt="" className="h-8 w-8 rounded-full mr-3" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{user?.name || 'You'}</p>
+                      <p className="text-xs text-gray-500">Your account</p>
+                    </div>
+                    {!actingFor && <Check className="h-4 w-4 text-blue-600" />}
+                  </button>
+                  {accounts.map(account => (
+                    <button
+                      key={account.id}
+                      type="button"
+                      role="menuitem"
+                      onClick={() => selectAccount(account)}
+                      className="w-full flex items-center px-4 py-2 text-left hover:bg-gray-50"
+                    >
+                      <img src={avatarUrl(account.ownerName)} alt="" className="h-8 w-8 rounded-full mr-3" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{account.ownerName}</p>
+                        <p className="text-xs text-gray-500 truncate">{describeRoles(account.roles)}</p>
+                      </div>
+                      {actingFor?.delegationId === account.id && <Check className="h-4 w-4 text-blue-600" />}
+                    </button>
+                  ))}
+                  {accounts.length === 0 && (
+                    <p className="px-4 py-2 text-xs text-gray-500">
+                      When someone makes you their caregiver, you can switch to their account here.
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
         </div>
       </div>
+      {actingFor && (
+        <div className="flex items-center justify-between px-6 py-2 bg-amber-50 border-t border-amber-200 text-sm text-amber-800">
+          <p>
+            Acting on behalf of <span className="font-medium">{actingFor.name}</span>
+            <span className="hidden md:inline"> • {describeRoles(actingFor.roles)}</span>
+          </p>
+          <button
+            type="button"
+            onClick={() => switchTo(null)}
+            className="font-medium hover:underline"
+          >
+            Back to my account
+          </button>
+        </div>
+      )}
       <NotificationsModal 
         isOpen={isNotificationsOpen}
         onClose={() => setIsNotificationsOpen(false)}
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+
+interface IdleTimeoutDialogProps {
+  // When the session will be signed out, in epoch milliseconds
+  deadline: number;
+  onStayActive: () => void;
+  onSignOut: () => Promise<void>;
+}
+
+// The last minute before an idle session is signed out. Clicking elsewhere
+// doesn't dismiss it, so a stray click can't keep an unattended session open;
+// it sits above every other modal for the same reason.
+export default function IdleTimeoutDialog({ deadline, onStayActive, onSignOut }: IdleTimeoutDialogProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [signingOut, setSigningOut] = useState(false);
+  const { pending } = useOfflineStatus();
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const seconds = Math.max(0, Math.ceil((deadline - now) / 1000));
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    try {
+      await onSignOut();
+    } finally {
+      setSigningOut(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black bg-opacity-50 z-[80]" />
+      <div
+        className="fixed inset-x-4 top-[20%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-md bg-white rounded-xl shadow-xl z-[90]"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        aria-describedby="idle-timeout-description"
+      >
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <Clock className="h-6 w-6 text-yellow-600" />
+            <h2 id="idle-timeout-title" className="text-xl font-semibold">Are you still there?</h2>
+          </div>
+          <p id="idle-timeout-description" className="text-sm text-gray-600">
+            To protect your health information, you'll be signed out in{' '}
+            <span className="font-medium text-gray-900">
+              {seconds} {seconds === 1 ? 'second' : 'seconds'}
+            </span>{' '}
+            because you haven't used the app for a while.
+          </p>
+          {pending > 0 && (
+            <p className="text-sm text-gray-600">
+              Changes you made offline are kept for when you sign in again, unless you sign out now.
+            </p>
+          )}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              disabled={signingOut}
+            >
+              Sign out now
+            </button>
+            <button
+              type="button"
+              onClick={onStayActive}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              disabled={signingOut}
+              autoFocus
+            >
+              Stay signed in
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,7 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { X, MessageSquare, Calendar, Trophy, AlertCircle, BellRing, CheckCircle, Loader } from 'lucide-react';
-import { api } from '../services/api';
+import { api, isApiError } from '../services/api';
+import { useAbortSignal } from '../hooks/useAbortSignal';
+import ExpiringConsents from './ExpiringConsents';
+import { demoData } from '../services/demo';
+import { DEMO_MODE } from '../config/constants';
+import { getRelativeTime } from '../utils/relativeTime';
+import type { NotificationItem } from '../types';
 
 interface Notification {
   id: string;
@@ -34,96 +40,39 @@ const getNotificationIcon = (icon: string) => {
   }
 };
 
-// Helper to format relative time (e.g., "5 minutes ago")
-const getRelativeTime = (dateString: string): string => {
-  const date = new Date(dateString);
-  const now = new Date();
-  const diffInMilliseconds = now.getTime() - date.getTime();
-  
-  // Convert to seconds
-  const diffInSeconds = Math.floor(diffInMilliseconds / 1000);
-  
-  if (diffInSeconds < 60) {
-    return 'Just now';
-  }
-  
-  // Convert to minutes
-  const diffInMinutes = Math.floor(diffInSeconds / 60);
-  
-  if (diffInMinutes < 60) {
-    return `${diffInMinutes} ${diffInMinutes === 1 ? 'minute' : 'minutes'} ago`;
-  }
-  
-  // Convert to hours
-  const diffInHours = Math.floor(diffInMinutes / 60);
-  
-  if (diffInHours < 24) {
-    return `${diffInHours} ${diffInHours === 1 ? 'hour' : 'hours'} ago`;
-  }
-  
-  // Convert to days
-  const diffInDays = Math.floor(diffInHours / 24);
-  
-  if (diffInDays < 30) {
-    return `${diffInDays} ${diffInDays === 1 ? 'day' : 'days'} ago`;
-  }
-  
-  // For older dates, just return the formatted date
-  return date.toLocaleDateString();
-};
-
-// Default notifications in case API fails
-const defaultNotifications: Notification[] = [
-  {
-    id: '1',
-    title: 'New Message',
-    message: 'Dr. Johnson has sent you a new message regarding your recent lab results.',
-    time: '5 minutes ago',
-    read: false,
-    type: 'info',
-    icon: 'message'
-  },
-  {
-    id: '2',
-    title: 'Appointment Reminder',
-    message: 'Your appointment with Dr. Smith is tomorrow at 2:00 PM.',
-    time: '1 hour ago',
-    read: false,
-    type: 'warning',
-    icon: 'calendar'
-  },
-  {
-    id: '3',
-    title: 'Health Goal Achieved',
-    message: "Congratulations! You've reached your daily step goal.",
-    time: '2 hours ago',
-    read: true,
-    type: 'success',
-    icon: 'trophy'
-  }
-];
+// Show the demo notifications in the modal's format
+const toModalNotification = (item: NotificationItem): Notification => ({
+  id: item.id,
+  title: item.linkText || 'Notification',
+  message: item.message,
+  time: getRelativeTime(item.createdAt),
+  read: false,
+  type: 'info',
+  icon: item.kind === 'appointment' ? 'calendar' : item.kind === 'activity' ? 'trophy' : 'message'
+});
 
 export default function NotificationsModal({ isOpen, onClose }: NotificationsModalProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [expiringConsentCount, setExpiringConsentCount] = useState(0);
   const navigate = useNavigate();
-
-  // Fetch notifications when modal opens
-  useEffect(() => {
-    if (isOpen) {
-      fetchNotifications();
-    }
-  }, [isOpen]);
+  const getSignal = useAbortSignal();
 
   // Fetch notifications from API
-  const fetchNotifications = async () => {
+  const fetchNotifications = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
+
+      if (DEMO_MODE) {
+        const demoNotifications = await demoData.getNotifications();
+        setNotifications(demoNotifications.map(toModalNotification));
+        return;
+      }
       
       // We'll use contracts and their updates as "notifications" since there's no dedicated notifications endpoint
-      const contractsResponse = await api.get<{ contracts: any[] }>('contracts');
+      const contractsResponse = await api.get<{ contracts: any[] }>('contracts', { signal: getSignal() });
       
       if (contractsResponse.contracts && Array.isArray(contractsResponse.contracts)) {
         // Convert contracts to notifications format
@@ -156,24 +105,28 @@ export default function NotificationsModal({ isOpen, onClose }: NotificationsMod
           });
         }
         
-        // Set notifications if we have any, otherwise use defaults
-        if (mappedNotifications.length > 0) {
-          setNotifications(mappedNotifications);
-        } else {
-          setNotifications(defaultNotifications);
-        }
+        setNotifications(mappedNotifications);
       } else {
-        // Fallback to default notifications
-        setNotifications(defaultNotifications);
+        setNotifications([]);
       }
     } catch (err) {
+      // The modal was closed before the request finished
+      if (isApiError(err) && err.kind === 'aborted') return;
+
       console.error('Error fetching notifications:', err);
-      setError('Failed to load notifications');
-      setNotifications(defaultNotifications);
+      setError(isApiError(err) && err.kind !== 'http' ? err.message : 'Failed to load notifications');
+      setNotifications([]);
     } finally {
       setLoading(false);
     }
-  };
+  }, [getSignal]);
+
+  // Fetch notifications when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      fetchNotifications();
+    }
+  }, [isOpen, fetchNotifications]);
 
   // Mark a notification as read
   const markAsRead = async (notificationId: string) => {
@@ -224,6 +177,10 @@ export default function NotificationsModal({ isOpen, onClose }: NotificationsMod
         </div>
 
         <div className="overflow-y-auto flex-1">
+          <div className={`p-4 border-b border-gray-100 ${expiringConsentCount === 0 ? 'hidden' : ''}`}>
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Consent renewals</h3>
+            <ExpiringConsents onLoaded={setExpiringConsentCount} />
+          </div>
           {loading ? (
             <div className="p-8 flex justify-center items-center">
               <div className="flex flex-col items-center">
@@ -0,0 +1,71 @@
+import { AlertCircle, RefreshCw, WifiOff, X } from 'lucide-react';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import { outbox } from '../services/outbox';
+import type { OutboxOperation } from '../types/offline';
+
+const describeOperation = (operation: OutboxOperation) => {
+  switch (operation.kind) {
+    case 'updateGrants':
+      return 'Consent change';
+    case 'addHealthMetric':
+      return `${operation.metric.type} reading`;
+    case 'bookAppointment':
+      return `${operation.appointment.type} on ${operation.appointment.date}`;
+  }
+};
+
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export default function OfflineBanner() {
+  const { online, pending, issues, syncing } = useOfflineStatus();
+
+  const handleDismiss = async (id: string) => {
+    try {
+      await outbox.dismiss(id);
+    } catch (err) {
+      console.error('Error dismissing offline change:', err);
+    }
+  };
+
+  if (online && !syncing && issues.length === 0) return null;
+
+  return (
+    <div className="relative z-10">
+      {!online && (
+        <div className="flex items-center gap-2 px-6 py-2 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+          <WifiOff className="h-4 w-4 flex-shrink-0" />
+          <span>
+            You're offline. Showing your last saved data
+            {pending > 0 && `; ${pluralize(pending, 'change')} will sync when you reconnect`}.
+          </span>
+        </div>
+      )}
+
+      {online && syncing && (
+        <div className="flex items-center gap-2 px-6 py-2 bg-blue-50 border-b border-blue-200 text-sm text-blue-700">
+          <RefreshCw className="h-4 w-4 flex-shrink-0 animate-spin" />
+          <span>Syncing {pending > 0 ? pluralize(pending, 'change') : 'changes'} made while offline...</span>
+        </div>
+      )}
+
+      {issues.map(entry => (
+        <div
+          key={entry.id}
+          className="flex items-center gap-2 px-6 py-2 bg-red-50 border-b border-red-200 text-sm text-red-700"
+        >
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="flex-1">
+            {describeOperation(entry.operation)} made offline was not saved: {entry.error}
+          </span>
+          <button
+            onClick={() => handleDismiss(entry.id)}
+            className="p-1 hover:bg-red-100 rounded-full"
+            aria-label="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Fingerprint, Trash2 } from 'lucide-react';
+import { useSettingsAction } from '../hooks/useSettingsAction';
+import { passkeyService, type Passkey } from '../services/passkeys';
+import { getErrorMessage } from '../utils/errors';
+
+// Passkeys for signing in without a password, in the Privacy & Security
+// settings. Like the authenticator apps, changes apply straight away.
+export default function PasskeySettings() {
+  const supported = passkeyService.isSupported();
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+  // Actions share the busy and error state, and reload the section afterwards
+  const { busy, error, setError, run } = useSettingsAction(() => load());
+
+  const load = useCallback(async () => {
+    try {
+      setPasskeys(await passkeyService.list());
+    } catch (err) {
+      console.error('Error loading passkeys:', err);
+      setError(getErrorMessage(err, 'Failed to load passkeys'));
+    }
+  }, [setError]);
+
+  useEffect(() => {
+    if (supported) load();
+  }, [supported, load]);
+
+  const handleStart = () => {
+    setName(passkeys.length === 0 ? 'Passkey' : `Passkey ${passkeys.length + 1}`);
+    setNaming(true);
+    setError(null);
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await passkeyService.register(name.trim());
+      setNaming(false);
+    }, 'Could not add the passkey');
+  };
+
+  const handleRemove = (id: string) => run(async () => {
+    await passkeyService.remove(id);
+    setConfirmRemoveId(null);
+  }, 'Could not remove the passkey');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Passkeys</h4>
+          <p className="text-sm text-gray-500">
+            {supported
+              ? 'Sign in with your fingerprint, face or device PIN instead of a password'
+              : "This browser doesn't support passkeys"}
+          </p>
+        </div>
+        {supported && !naming && (
+          <button
+            onClick={handleStart}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            type="button"
+            disabled={busy}
+          >
+            Add Passkey
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {naming && (
+        <form onSubmit={handleRegister} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <label htmlFor="passkey-name" className="block text-sm text-gray-600">
+            Name this passkey so you can tell it apart later, then follow your browser's prompts.
+          </label>
+          <input
+            id="passkey-name"
+            type="text"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            disabled={busy}
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setNaming(false)}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              disabled={busy}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              disabled={busy || !name.trim()}
+            >
+              {busy ? 'Waiting for your device...' : 'Continue'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {passkeys.length > 0 && (
+        <div className="space-y-2">
+          {passkeys.map(passkey => (
+            <div key={passkey.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center">
+                <Fingerprint className="h-5 w-5 text-gray-400 mr-3" />
+                <div>
+                  <p className="text-sm font-medium">{passkey.name}</p>
+                  <p className="text-xs text-gray-500">
+                    Added {new Date(passkey.createdAt).toLocaleDateString()}
+                    {passkey.lastUsedAt && ` • Last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+              </div>
+              {confirmRemoveId === passkey.id ? (
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs text-gray-600">Remove?</span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(passkey.id)}
+                    className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+                    disabled={busy}
+                  >
+                    Remove
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmRemoveId(null)}
+                    className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                    disabled={busy}
+                  >
+                    Keep
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmRemoveId(passkey.id)}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${passkey.name}`}
+                  disabled={busy}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
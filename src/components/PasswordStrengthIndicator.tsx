@@ -1,51 +1,36 @@
-import { useState, useEffect } from 'react';
-import { Check, X } from 'lucide-react';
-import { PasswordRequirements } from '../types/auth';
+import { AlertTriangle, Check, Loader2, X } from 'lucide-react';
+import { PASSWORD_POLICY } from '../config/passwordPolicy';
+import type { BreachStatus, PasswordCheck } from '../types/auth';
 
 interface PasswordStrengthIndicatorProps {
-  requirements: PasswordRequirements;
+  check: PasswordCheck;
   showDetails?: boolean;
 }
 
-export default function PasswordStrengthIndicator({ 
-  requirements, 
-  showDetails = true 
-}: PasswordStrengthIndicatorProps) {
-  const [strength, setStrength] = useState<{
-    score: number;
-    text: string;
-    color: string;
-    percentage: number;
-  }>({
-    score: 0,
-    text: 'Weak',
-    color: 'bg-red-500',
-    percentage: 0
-  });
+// Label, bar colour and text colour for each score of the estimate
+const SCORES = [
+  { text: 'Very weak', color: 'bg-red-500', textColor: 'text-red-600' },
+  { text: 'Weak', color: 'bg-red-500', textColor: 'text-red-600' },
+  { text: 'Fair', color: 'bg-yellow-500', textColor: 'text-yellow-600' },
+  { text: 'Good', color: 'bg-green-400', textColor: 'text-green-600' },
+  { text: 'Strong', color: 'bg-green-500', textColor: 'text-green-600' }
+];
 
-  // Update strength calculation when requirements change
-  useEffect(() => {
-    const passedChecks = Object.values(requirements).filter(Boolean).length;
-    const percentage = (passedChecks / 5) * 100;
-    
-    let text = 'Weak';
-    let color = 'bg-red-500';
-    
-    if (passedChecks === 5) {
-      text = 'Strong';
-      color = 'bg-green-500';
-    } else if (passedChecks >= 3) {
-      text = 'Moderate';
-      color = 'bg-yellow-500';
-    }
-    
-    setStrength({
-      score: passedChecks,
-      text,
-      color,
-      percentage
-    });
-  }, [requirements]);
+const BREACH_TEXT: Record<BreachStatus, string> = {
+  checking: 'Checking known data breaches',
+  breached: 'Found in a known data breach',
+  clear: 'Not found in known data breaches',
+  unknown: "Couldn't check known data breaches"
+};
+
+export default function PasswordStrengthIndicator({
+  check,
+  showDetails = true
+}: PasswordStrengthIndicatorProps) {
+  const { requirements, strength, breach } = check;
+  const score = SCORES[strength.score];
+  // Nothing typed yet
+  const empty = strength.guessesLog10 === 0;
 
   // Determine icon based on requirement status
   const getRequirementIcon = (fulfilled: boolean) => {
@@ -55,58 +40,74 @@ export default function PasswordStrengthIndicator({
     return <X className="w-3 h-3 text-gray-400" />;
   };
 
+  const getBreachIcon = () => {
+    switch (breach) {
+      case 'checking':
+        return <Loader2 className="w-3 h-3 text-gray-400 animate-spin" />;
+      case 'breached':
+        return <X className="w-3 h-3 text-red-500" />;
+      case 'unknown':
+        return <AlertTriangle className="w-3 h-3 text-gray-400" />;
+      default:
+        return getRequirementIcon(true);
+    }
+  };
+
+  const rows = [
+    { label: `At least ${PASSWORD_POLICY.minLength} characters`, met: requirements.minLength },
+    ...(PASSWORD_POLICY.requireCharacterClasses ? [
+      { label: 'One uppercase letter', met: requirements.hasUpperCase },
+      { label: 'One lowercase letter', met: requirements.hasLowerCase },
+      { label: 'One number', met: requirements.hasNumber },
+      { label: 'One special character', met: requirements.hasSpecialChar }
+    ] : []),
+    { label: 'Not a common or banned password', met: requirements.notBanned },
+    ...(PASSWORD_POLICY.rejectPersonalInfo ? [{ label: "Doesn't contain your name or email", met: requirements.notPersonal }] : []),
+    { label: 'Hard to guess', met: requirements.hardToGuess }
+  ];
+
   return (
     <div className="mt-2">
       <div className="flex items-center gap-2">
         <div className="h-2 flex-1 rounded-full bg-gray-200">
           <div
-            className={`h-2 rounded-full transition-all ${strength.color}`}
-            style={{ width: `${strength.percentage}%` }}
+            className={`h-2 rounded-full transition-all ${score.color}`}
+            style={{ width: `${empty ? 0 : (strength.score + 1) * 20}%` }}
           />
         </div>
-        <span className={`text-xs font-medium ${
-          strength.text === 'Strong' ? 'text-green-600' : 
-          strength.text === 'Moderate' ? 'text-yellow-600' : 
-          'text-red-600'
-        }`}>
-          {strength.text}
+        <span className={`text-xs font-medium ${score.textColor}`}>
+          {score.text}
         </span>
       </div>
-      
+
+      {!empty && strength.warning && (
+        <p className="mt-1 text-xs text-gray-600">
+          {strength.warning}. {strength.suggestions[0]}
+        </p>
+      )}
+
       {showDetails && (
         <ul className="mt-2 space-y-1 text-sm">
-          <li className={`flex items-center gap-2 ${requirements.minLength ? 'text-green-600' : 'text-gray-500'}`}>
-            <span className="flex-shrink-0">
-              {getRequirementIcon(requirements.minLength)}
-            </span>
-            At least 8 characters
-          </li>
-          <li className={`flex items-center gap-2 ${requirements.hasUpperCase ? 'text-green-600' : 'text-gray-500'}`}>
-            <span className="flex-shrink-0">
-              {getRequirementIcon(requirements.hasUpperCase)}
-            </span>
-            One uppercase letter
-          </li>
-          <li className={`flex items-center gap-2 ${requirements.hasLowerCase ? 'text-green-600' : 'text-gray-500'}`}>
-            <span className="flex-shrink-0">
-              {getRequirementIcon(requirements.hasLowerCase)}
-            </span>
-            One lowercase letter
-          </li>
-          <li className={`flex items-center gap-2 ${requirements.hasNumber ? 'text-green-600' : 'text-gray-500'}`}>
-            <span className="flex-shrink-0">
-              {getRequirementIcon(requirements.hasNumber)}
-            </span>
-            One number
-          </li>
-          <li className={`flex items-center gap-2 ${requirements.hasSpecialChar ? 'text-green-600' : 'text-gray-500'}`}>
-            <span className="flex-shrink-0">
-              {getRequirementIcon(requirements.hasSpecialChar)}
-            </span>
-            One special character
-          </li>
+          {rows.map(row => (
+            <li key={row.label} className={`flex items-center gap-2 ${row.met ? 'text-green-600' : 'text-gray-500'}`}>
+              <span className="flex-shrink-0">
+                {getRequirementIcon(row.met)}
+              </span>
+              {row.label}
+            </li>
+          ))}
+          {PASSWORD_POLICY.checkBreaches && !empty && (
+            <li className={`flex items-center gap-2 ${
+              breach === 'clear' ? 'text-green-600' : breach === 'breached' ? 'text-red-600' : 'text-gray-500'
+            }`}>
+              <span className="flex-shrink-0">
+                {getBreachIcon()}
+              </span>
+              {BREACH_TEXT[breach]}
+            </li>
+          )}
         </ul>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
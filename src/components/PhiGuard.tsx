@@ -0,0 +1,52 @@
+import { Outlet } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { useSession } from '../hooks/useSession';
+import { useStepUp } from '../hooks/useStepUp';
+
+// Layout route for the pages that show health information. Once the session
+// has gone without input for the PHI lock, the page is blurred in every tab
+// until the user confirms it is them; the page stays mounted underneath, so
+// nothing they were doing is lost.
+export default function PhiGuard() {
+  const { phiLocked, unlockPhi } = useSession();
+  const { requireStepUp } = useStepUp();
+
+  const handleUnlock = async () => {
+    if (await requireStepUp('show your health information')) unlockPhi();
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={phiLocked ? 'blur-md pointer-events-none select-none' : undefined}
+        aria-hidden={phiLocked || undefined}
+      >
+        <Outlet />
+      </div>
+
+      {phiLocked && (
+        <div className="absolute inset-0 flex justify-center bg-white bg-opacity-40">
+          <div className="sticky top-24 self-start mt-24 mx-4 max-w-sm bg-white rounded-xl shadow-xl p-6 text-center space-y-4">
+            <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-blue-100">
+              <Lock className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Your health information is hidden</h2>
+              <p className="mt-1 text-sm text-gray-600">
+                You haven't used the app for a while. Confirm it's you to see it again.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={handleUnlock}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              autoFocus
+            >
+              Show my information
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
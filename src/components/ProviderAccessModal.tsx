@@ -1,7 +1,33 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { X, AlertCircle } from 'lucide-react';
-import { api } from '../services/api';
-import { supabase } from '../services/supabase';
+import { consentPurposes, DEFAULT_PURPOSES } from '../services/consent';
+import { useStepUp } from '../hooks/useStepUp';
+import type { ConsentChanges, ConsentDuration, ConsentGrant, ConsentPurpose } from '../types/consent';
+
+type DurationOption = 'keep' | 'open' | '30d' | '6m' | 'until';
+
+const durationOptions: { value: DurationOption; label: string }[] = [
+  { value: 'open', label: 'Until I revoke it' },
+  { value: '30d', label: '30 days' },
+  { value: '6m', label: '6 months' },
+  { value: 'until', label: 'Until a date' }
+];
+
+// Map the selected option to a consent duration, or undefined to keep the current one
+const toDuration = (option: DurationOption, untilDate: string): ConsentDuration | undefined => {
+  switch (option) {
+    case 'open':
+      return { kind: 'open' };
+    case '30d':
+      return { kind: 'days', days: 30 };
+    case '6m':
+      return { kind: 'months', months: 6 };
+    case 'until':
+      return { kind: 'until', date: untilDate };
+    default:
+      return undefined;
+  }
+};
 
 interface ProviderAccessModalProps {
   isOpen: boolean;
@@ -10,14 +36,16 @@ interface ProviderAccessModalProps {
     id: string;
     name: string;
     logo: string;
-    permissions: {
-      labResults: boolean;
-      medications: boolean;
-      fitnessData: boolean;
-    };
+    permissions: ConsentGrant[];
+    consentEndDate?: string | null;
+    consentExpired?: boolean;
   };
-  onUpdatePermissions: (providerId: string, permissions: { [key: string]: boolean }) => void;
-  onDeleteProvider: (providerId: string) => void;
+  onUpdatePermissions: (
+    providerId: string,
+    changes: ConsentChanges,
+    duration?: ConsentDuration
+  ) => Promise<void> | void;
+  onDeleteProvider: (providerId: string) => Promise<void> | void;
 }
 
 export default function ProviderAccessModal({
@@ -27,94 +55,84 @@ export default function ProviderAccessModal({
   onUpdatePermissions,
   onDeleteProvider
 }: ProviderAccessModalProps) {
+  const { requireStepUp } = useStepUp();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentPermissions, setCurrentPermissions] = useState<{ 
-    labResults: boolean; 
-    medications: boolean; 
-    fitnessData: boolean; 
-  }>(provider.permissions);
+  const [currentPermissions, setCurrentPermissions] = useState<ConsentGrant[]>(provider.permissions);
   const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [durationOption, setDurationOption] = useState<DurationOption>('keep');
+  const [untilDate, setUntilDate] = useState('');
+
+  const expiresAt = provider.consentEndDate ?? null;
+  const expired = provider.consentExpired ?? false;
+  const hasGrants = provider.permissions.some(grant => grant.granted);
+
+  // Reset local state whenever the modal opens for a provider
+  useEffect(() => {
+    if (isOpen) {
+      setCurrentPermissions(provider.permissions);
+      setError(null);
+      setConfirmingDelete(false);
+      // Expired or new consent needs a fresh duration
+      setDurationOption(expired || !hasGrants ? 'open' : 'keep');
+      setUntilDate('');
+    }
+  }, [isOpen, provider, expired, hasGrants]);
 
   if (!isOpen) return null;
 
   // Handle permission toggle with local state update
-  const handlePermissionToggle = (permission: string) => {
-    setCurrentPermissions(prev => ({
-      ...prev,
-      [permission]: !prev[permission as keyof typeof prev]
+  const handlePermissionToggle = (dataTypeId: string) => {
+    setCurrentPermissions(prev => prev.map(grant =>
+      grant.dataTypeId === dataTypeId
+        ? { ...grant, granted: !grant.granted, purposes: grant.granted ? [] : DEFAULT_PURPOSES }
+        : grant
+    ));
+  };
+
+  // Allow or disallow one purpose; removing the last purpose revokes the grant
+  const handlePurposeToggle = (dataTypeId: string, purpose: ConsentPurpose) => {
+    setCurrentPermissions(prev => prev.map(grant => {
+      if (grant.dataTypeId !== dataTypeId) return grant;
+      const purposes = grant.purposes.includes(purpose)
+        ? grant.purposes.filter(p => p !== purpose)
+        : [...grant.purposes, purpose];
+      return { ...grant, granted: purposes.length > 0, purposes };
     }));
   };
 
-  // Save changes to API
+  const hasChanged = (grant: ConsentGrant, original?: ConsentGrant) =>
+    !original ||
+    original.granted !== grant.granted ||
+    original.purposes.length !== grant.purposes.length ||
+    grant.purposes.some(purpose => !original.purposes.includes(purpose));
+
+  // Save the grants that changed
   const handleSaveChanges = async () => {
     try {
       setLoading(true);
       setError(null);
       
-      // Determine if any permissions are enabled to set approved status
-      const hasAnyPermissions = Object.values(currentPermissions).some(Boolean);
-      
-      // First try to save with Supabase
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        
-        if (user) {
-          // Check if there's an existing consent record
-          const { data: existingConsent, error: queryError } = await supabase
-            .from('user_provider_consents')
-            .select('*')
-            .eq('user_id', user.id)
-            .eq('provider_id', provider.id)
-            .maybeSingle();
-            
-          if (queryError) throw queryError;
-          
-          // Map our permission keys to the database columns
-          const dbPermissions = {
-            lab_results: currentPermissions.labResults,
-            medications: currentPermissions.medications,
-            fitness_data: currentPermissions.fitnessData,
-            approved: hasAnyPermissions, // Set approved based on permissions
-            updated_at: new Date().toISOString()
-          };
-          
-          if (existingConsent) {
-            // Update existing consent
-            const { error: updateError } = await supabase
-              .from('user_provider_consents')
-              .update(dbPermissions)
-              .eq('user_id', user.id)
-              .eq('provider_id', provider.id);
-              
-            if (updateError) throw updateError;
-          } else {
-            // Insert new consent
-            const { error: insertError } = await supabase
-              .from('user_provider_consents')
-              .insert({
-                user_id: user.id,
-                provider_id: provider.id,
-                ...dbPermissions
-              });
-              
-            if (insertError) throw insertError;
-          }
-          
-          // Call the parent component's function to update UI
-          await onUpdatePermissions(provider.id, currentPermissions);
-          
-          // Close the modal on success
-          onClose();
+      const changes: ConsentChanges = {};
+      currentPermissions.forEach(grant => {
+        const original = provider.permissions.find(g => g.dataTypeId === grant.dataTypeId);
+        if (hasChanged(grant, original)) {
+          changes[grant.dataTypeId] = grant.granted ? grant.purposes : [];
+        }
+      });
+
+      if (durationOption === 'until') {
+        const today = new Date().toISOString().slice(0, 10);
+        if (!untilDate || untilDate < today) {
+          setError('Please choose an end date in the future.');
           return;
         }
-      } catch (supErr) {
-        console.error('Error updating in Supabase:', supErr);
-        // Continue to try legacy API
       }
-      
-      // Call the parent component's function which should handle the API call
-      await onUpdatePermissions(provider.id, currentPermissions);
+
+      const duration = toDuration(durationOption, untilDate);
+      if (Object.keys(changes).length > 0 || duration) {
+        await onUpdatePermissions(provider.id, changes, duration);
+      }
       
       // Close the modal on success
       onClose();
@@ -137,38 +155,17 @@ export default function ProviderAccessModal({
       setConfirmingDelete(true);
       return;
     }
+
+    if (!(await requireStepUp('remove this provider'))) {
+      setConfirmingDelete(false);
+      return;
+    }
     
     try {
       setLoading(true);
       setError(null);
       
-      // First try to delete with Supabase
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        
-        if (user) {
-          // Delete the consent record
-          const { error: deleteError } = await supabase
-            .from('user_provider_consents')
-            .delete()
-            .eq('user_id', user.id)
-            .eq('provider_id', provider.id);
-            
-          if (deleteError) throw deleteError;
-          
-          // Call the parent component's function to update UI
-          await onDeleteProvider(provider.id);
-          
-          // Close the modal on success
-          onClose();
-          return;
-        }
-      } catch (supErr) {
-        console.error('Error deleting in Supabase:', supErr);
-        // Continue to try legacy API
-      }
-      
-      // Call the parent component's function which should handle the API call
+      // The parent revokes every grant for this provider
       await onDeleteProvider(provider.id);
       
       // Close the modal on success
@@ -243,74 +240,106 @@ export default function ProviderAccessModal({
             <div>
               <h3 className="text-lg font-medium mb-4">Data Access Permissions</h3>
               <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h4 className="font-medium">Lab Results</h4>
-                    <p className="text-sm text-gray-500">Access to your laboratory test results</p>
+                {currentPermissions.length === 0 && (
+                  <p className="text-sm text-gray-500">This provider has not declared any data types.</p>
+                )}
+                {currentPermissions.map(grant => (
+                  <div key={grant.dataTypeId}>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-medium">{grant.name}</h4>
+                        {grant.description && (
+                          <p className="text-sm text-gray-500">{grant.description}</p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handlePermissionToggle(grant.dataTypeId)}
+                        className={`w-12 h-6 rounded-full relative transition-colors ${
+                          grant.granted ? 'bg-green-400' : 'bg-gray-200'
+                        }`}
+                        type="button"
+                        disabled={loading}
+                        aria-pressed={grant.granted}
+                        aria-label={`${grant.granted ? 'Disable' : 'Enable'} ${grant.name.toLowerCase()} access`}
+                      >
+                        <div
+                          className={`absolute w-5 h-5 rounded-full bg-white top-0.5 transition-all ${
+                            grant.granted ? 'left-[1.625rem]' : 'left-0.5'
+                          }`}
+                        />
+                      </button>
+                    </div>
+                    {grant.granted && (
+                      <div className="mt-2 flex flex-wrap gap-2" role="group" aria-label={`Allowed uses of ${grant.name}`}>
+                        {consentPurposes.map(purpose => {
+                          const allowed = grant.purposes.includes(purpose.value);
+                          return (
+                            <button
+                              key={purpose.value}
+                              onClick={() => handlePurposeToggle(grant.dataTypeId, purpose.value)}
+                              className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                                allowed
+                                  ? 'bg-blue-50 border-blue-200 text-blue-700'
+                                  : 'bg-white border-gray-200 text-gray-500 hover:bg-gray-50'
+                              }`}
+                              type="button"
+                              disabled={loading}
+                              aria-pressed={allowed}
+                              title={purpose.description}
+                            >
+                              {purpose.label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
-                  <button
-                    onClick={() => handlePermissionToggle('labResults')}
-                    className={`w-12 h-6 rounded-full relative transition-colors ${
-                      currentPermissions.labResults ? 'bg-green-400' : 'bg-gray-200'
-                    }`}
-                    type="button"
-                    disabled={loading}
-                    aria-pressed={currentPermissions.labResults}
-                    aria-label={`${currentPermissions.labResults ? 'Disable' : 'Enable'} lab results access`}
-                  >
-                    <div
-                      className={`absolute w-5 h-5 rounded-full bg-white top-0.5 transition-all ${
-                        currentPermissions.labResults ? 'left-[1.625rem]' : 'left-0.5'
-                      }`}
-                    />
-                  </button>
-                </div>
+                ))}
+              </div>
+            </div>
 
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h4 className="font-medium">Medications</h4>
-                    <p className="text-sm text-gray-500">Access to your medication history</p>
-                  </div>
-                  <button
-                    onClick={() => handlePermissionToggle('medications')}
-                    className={`w-12 h-6 rounded-full relative transition-colors ${
-                      currentPermissions.medications ? 'bg-green-400' : 'bg-gray-200'
-                    }`}
-                    type="button"
-                    disabled={loading}
-                    aria-pressed={currentPermissions.medications}
-                    aria-label={`${currentPermissions.medications ? 'Disable' : 'Enable'} medications access`}
-                  >
-                    <div
-                      className={`absolute w-5 h-5 rounded-full bg-white top-0.5 transition-all ${
-                        currentPermissions.medications ? 'left-[1.625rem]' : 'left-0.5'
-                      }`}
+            <div>
+              <h3 className="text-lg font-medium mb-2">Access Duration</h3>
+              {expiresAt && (
+                <p className={`text-sm mb-4 ${expired ? 'text-red-600' : 'text-gray-500'}`}>
+                  {expired ? 'Access expired on' : 'Access currently expires on'} {new Date(expiresAt).toLocaleDateString()}
+                </p>
+              )}
+              <div className="space-y-2">
+                {!expired && hasGrants && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="consent-duration"
+                      checked={durationOption === 'keep'}
+                      onChange={() => setDurationOption('keep')}
+                      disabled={loading}
                     />
-                  </button>
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div>
-                    <h4 className="font-medium">Fitness Data</h4>
-                    <p className="text-sm text-gray-500">Access to your fitness and activity data</p>
-                  </div>
-                  <button
-                    onClick={() => handlePermissionToggle('fitnessData')}
-                    className={`w-12 h-6 rounded-full relative transition-colors ${
-                      currentPermissions.fitnessData ? 'bg-green-400' : 'bg-gray-200'
-                    }`}
-                    type="button"
-                    disabled={loading}
-                    aria-pressed={currentPermissions.fitnessData}
-                    aria-label={`${currentPermissions.fitnessData ? 'Disable' : 'Enable'} fitness data access`}
-                  >
-                    <div
-                      className={`absolute w-5 h-5 rounded-full bg-white top-0.5 transition-all ${
-                        currentPermissions.fitnessData ? 'left-[1.625rem]' : 'left-0.5'
-                      }`}
+                    Keep current duration
+                  </label>
+                )}
+                {durationOptions.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="consent-duration"
+                      checked={durationOption === option.value}
+                      onChange={() => setDurationOption(option.value)}
+                      disabled={loading}
                     />
-                  </button>
-                </div>
+                    {option.label}
+                  </label>
+                ))}
+                {durationOption === 'until' && (
+                  <input
+                    type="date"
+                    value={untilDate}
+                    min={new Date().toISOString().slice(0, 10)}
+                    onChange={(e) => setUntilDate(e.target.value)}
+                    className="ml-6 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    disabled={loading}
+                  />
+                )}
               </div>
             </div>
 
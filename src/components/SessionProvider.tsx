@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import IdleTimeoutDialog from './IdleTimeoutDialog';
+import { SessionContext } from '../hooks/useSession';
+import { actingAs } from '../services/actingAs';
+import { featureFlags } from '../services/featureFlags';
+import { outbox } from '../services/outbox';
+import { queryCache } from '../services/queryCache';
+import { realtimeService } from '../services/realtime';
+import { sessionManager } from '../services/session';
+
+const actions = {
+  signIn: sessionManager.signIn,
+  signInWithPasskey: sessionManager.signInWithPasskey,
+  signUp: sessionManager.signUp,
+  signOut: sessionManager.signOut,
+  redeemRecoveryCode: sessionManager.redeemRecoveryCode,
+  verifySecondFactor: sessionManager.verifySecondFactor,
+  stayActive: sessionManager.stayActive,
+  unlockPhi: sessionManager.unlockPhi,
+  updateUser: sessionManager.updateUser
+};
+
+export default function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [snapshot, setSnapshot] = useState(() => sessionManager.getSnapshot());
+  const [actingFor, setActingFor] = useState(() => actingAs.getSnapshot());
+
+  useEffect(() => {
+    const unsubscribe = sessionManager.subscribe(() => setSnapshot(sessionManager.getSnapshot()));
+    const stop = sessionManager.start();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  useEffect(() => actingAs.subscribe(() => setActingFor(actingAs.getSnapshot())), []);
+
+  // Keep one realtime channel open for the signed-in user, following the
+  // account they act on behalf of
+  const userId = snapshot.status === 'authenticated' ? snapshot.user?.id : undefined;
+  const actingUserId = actingFor?.userId ?? userId;
+  useEffect(() => {
+    if (!userId || !actingUserId) return;
+    realtimeService.start(userId, actingUserId);
+    return () => realtimeService.stop();
+  }, [userId, actingUserId]);
+
+  // Replay the user's offline changes whenever the connection comes back, and
+  // apply their feature flag overrides
+  useEffect(() => {
+    if (!userId) return;
+    const stopOutbox = outbox.start();
+    featureFlags.load().catch(err => console.error('Error loading feature flags:', err));
+
+    // Reads made while offline came from the persisted copy
+    const handleOnline = () => queryCache.invalidate([]);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      stopOutbox();
+      featureFlags.reset();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [userId]);
+
+  return (
+    <SessionContext.Provider value={{ ...snapshot, ...actions }}>
+      {children}
+      {snapshot.idleDeadline !== null && (
+        <IdleTimeoutDialog
+          deadline={snapshot.idleDeadline}
+          onStayActive={actions.stayActive}
+          onSignOut={actions.signOut}
+        />
+      )}
+    </SessionContext.Provider>
+  );
+}
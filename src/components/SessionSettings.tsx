@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LogOut, Monitor, Smartphone, Tablet } from 'lucide-react';
+import { useSettingsAction } from '../hooks/useSettingsAction';
+import { useStepUp } from '../hooks/useStepUp';
+import { deviceSessionService, type DeviceSession, type DeviceSessionSource } from '../services/deviceSessions';
+import { getErrorMessage } from '../utils/errors';
+import { getRelativeTime } from '../utils/relativeTime';
+import type { DeviceType } from '../utils/userAgent';
+
+const deviceIcons: Record<DeviceType, typeof Monitor> = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet
+};
+
+const sourceLabels: Record<DeviceSessionSource, string> = {
+  supabase: 'Elroi account',
+  legacy: 'Records API'
+};
+
+// Where the user is signed in, in the Privacy & Security settings, with
+// sign-out for each session or every other one. Signing other devices out
+// needs a fresh verification, so a stolen session can't lock the owner out.
+export default function SessionSettings() {
+  const { requireStepUp } = useStepUp();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+  // Actions share the busy and error state, and reload the section afterwards
+  const { busy, error, setError, run } = useSettingsAction(() => load());
+
+  const load = useCallback(async () => {
+    try {
+      setSessions(await deviceSessionService.list());
+    } catch (err) {
+      console.error('Error loading sessions:', err);
+      setError(getErrorMessage(err, 'Failed to load your sessions'));
+    } finally {
+      setLoaded(true);
+    }
+  }, [setError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevoke = async (session: DeviceSession) => {
+    if (!(await requireStepUp('sign out that device'))) return;
+    run(async () => {
+      await deviceSessionService.revoke(session);
+      setConfirmRevokeId(null);
+    }, 'Could not sign out the session');
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!(await requireStepUp('sign out your other devices'))) return;
+    run(() => deviceSessionService.revokeOthers(), 'Could not sign out your other sessions');
+  };
+
+  const hasOthers = sessions.some(session => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Sessions &amp; Devices</h4>
+          <p className="text-sm text-gray-500">
+            Where you're signed in. Sign out anything you don't recognise.
+          </p>
+        </div>
+        {hasOthers && (
+          <button
+            onClick={handleRevokeOthers}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            type="button"
+            disabled={busy}
+          >
+            Sign out everywhere else
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {!loaded && (
+        <div className="flex justify-center py-4">
+          <div className="w-6 h-6 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="space-y-2">
+          {sessions.map(session => {
+            const DeviceIcon = deviceIcons[session.deviceType];
+            const name = `${session.browser} on ${session.os}`;
+            return (
+              <div key={`${session.source}-${session.id}`} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div className="flex items-center">
+                  <DeviceIcon className="h-5 w-5 text-gray-400 mr-3" />
+                  <div>
+                    <p className="text-sm font-medium">
+                      {name}
+                      {session.current && (
+                        <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded-full">This device</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {sourceLabels[session.source]}
+                      {session.ipAddress && ` • IP ${session.ipAddress}`}
+                      {` • ${session.current ? 'Active now' : `Active ${getRelativeTime(session.lastActiveAt).toLowerCase()}`}`}
+                      {` • Signed in ${new Date(session.createdAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                </div>
+                {session.current ? null : confirmRevokeId === `${session.source}-${session.id}` ? (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-gray-600">Sign out?</span>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(session)}
+                      className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+                      disabled={busy}
+                    >
+                      Sign out
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmRevokeId(null)}
+                      className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                      disabled={busy}
+                    >
+                      Keep
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setConfirmRevokeId(`${session.source}-${session.id}`)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label={`Sign out ${name}`}
+                    disabled={busy}
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
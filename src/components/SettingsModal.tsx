@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
 import { X, AlertCircle } from 'lucide-react';
 import { api } from '../services/api';
-import { useAuth } from '../hooks/useAuth';
-import { useSupabaseAuth } from '../hooks/useSupabaseAuth';
+import { useSession } from '../hooks/useSession';
+import { useStepUp } from '../hooks/useStepUp';
+import CaregiverSettings from './CaregiverSettings';
+import PasskeySettings from './PasskeySettings';
+import SessionSettings from './SessionSettings';
+import TwoFactorSettings from './TwoFactorSettings';
 import { supabase } from '../services/supabase';
+import { providerRepository, settingsRepository } from '../services/repositories';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -16,9 +21,8 @@ interface SettingsModalProps {
 }
 
 export default function SettingsModal({ isOpen, onClose, section }: SettingsModalProps) {
-  // Use both auth contexts to handle both auth systems
-  const legacyAuth = useAuth();
-  const supabaseAuth = useSupabaseAuth();
+  const { user: sessionUser, updateUser } = useSession();
+  const { requireStepUp } = useStepUp();
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -38,7 +42,6 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
   });
   
   const [privacySettings, setPrivacySettings] = useState({
-    twoFactorEnabled: false,
     dataSharing: true
   });
   
@@ -50,22 +53,14 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
 
   // Initialize form data based on the current user
   useEffect(() => {
-    // Use Supabase user if available, otherwise fall back to legacy user
-    const currentUser = supabaseAuth.user || legacyAuth.user;
-    
-    if (currentUser) {
-      setProfileData({
-        name: currentUser.user_metadata?.name || currentUser.name || '',
-        email: currentUser.email || '',
-        bio: currentUser.user_metadata?.bio || ''
-      });
-      
-      setPrivacySettings(prev => ({
+    if (sessionUser) {
+      setProfileData(prev => ({
         ...prev,
-        twoFactorEnabled: currentUser.user_metadata?.twoFactorEnabled || false
+        name: sessionUser.name,
+        email: sessionUser.email
       }));
     }
-  }, [supabaseAuth.user, legacyAuth.user]);
+  }, [sessionUser]);
 
   // Fetch settings from API when modal opens
   useEffect(() => {
@@ -87,40 +82,31 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
         if (user) {
           switch (sectionId) {
             case 'profile':
-              // User data is already set from the useEffect above
+              // Name and email are set from the session above
+              setProfileData(prev => ({ ...prev, bio: user.user_metadata?.bio || '' }));
               break;
               
             case 'notifications':
               // Fetch notification settings from Supabase
-              const { data: userSettings } = await supabase
-                .from('user_settings')
-                .select('*')
-                .eq('user_id', user.id)
-                .maybeSingle();
-                
-              if (userSettings) {
-                setNotificationSettings({
-                  email: userSettings.email_notifications || false,
-                  push: userSettings.push_notifications || false,
-                  sms: userSettings.sms_notifications || false
-                });
-              }
+              const userSettings = await settingsRepository.get();
+              setNotificationSettings({
+                email: userSettings.emailNotifications,
+                push: userSettings.pushNotifications,
+                sms: userSettings.smsNotifications
+              });
               break;
               
             case 'privacy':
               // Privacy settings may come from user metadata
               setPrivacySettings({
-                twoFactorEnabled: user.user_metadata?.twoFactorEnabled || false,
                 dataSharing: user.user_metadata?.dataSharing || true
               });
               break;
               
             case 'integrations':
               // Check if the user has connected services from Supabase
-              const { data: providers } = await supabase
-                .from('providers')
-                .select('*');
-                
+              const providerNames = await providerRepository.listNames();
+              
               const connectedServicesData = {
                 'Google Fit': false,
                 'Apple Health': false,
@@ -128,17 +114,15 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
               };
               
               // Check for providers that match connected services
-              if (providers) {
-                providers.forEach(provider => {
-                  if (provider.name.includes('Google') || provider.name.includes('Fit')) {
-                    connectedServicesData['Google Fit'] = true;
-                  } else if (provider.name.includes('Apple') || provider.name.includes('Health')) {
-                    connectedServicesData['Apple Health'] = true;
-                  } else if (provider.name.includes('Fitbit')) {
-                    connectedServicesData['Fitbit'] = true;
-                  }
-                });
-              }
+              providerNames.forEach(name => {
+                if (name.includes('Google') || name.includes('Fit')) {
+                  connectedServicesData['Google Fit'] = true;
+                } else if (name.includes('Apple') || name.includes('Health')) {
+                  connectedServicesData['Apple Health'] = true;
+                } else if (name.includes('Fitbit')) {
+                  connectedServicesData['Fitbit'] = true;
+                }
+              });
               
               setConnectedServices(connectedServicesData);
               break;
@@ -185,7 +169,6 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
           const settingsResponse = await api.get<any>('settings');
           if (settingsResponse) {
             setPrivacySettings({
-              twoFactorEnabled: legacyAuth.user?.twoFactorEnabled || false,
               dataSharing: settingsResponse.dataSharing || false
             });
           }
@@ -228,6 +211,11 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
   // Save the current section's settings
   const saveSettings = async () => {
     if (!section) return;
+
+    // Changing the sign-in email address needs a fresh verification
+    if (section.id === 'profile' && profileData.email !== sessionUser?.email) {
+      if (!(await requireStepUp('change your email address'))) return;
+    }
     
     try {
       setLoading(true);
@@ -251,43 +239,16 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
               });
               
               if (updateError) throw updateError;
+              updateUser({ name: profileData.name });
               setSuccess('Profile updated successfully');
               break;
               
             case 'notifications':
-              // Check if user settings exist
-              const { data: existingSettings } = await supabase
-                .from('user_settings')
-                .select('*')
-                .eq('user_id', user.id)
-                .maybeSingle();
-                
-              if (existingSettings) {
-                // Update existing settings
-                const { error: updateError } = await supabase
-                  .from('user_settings')
-                  .update({
-                    email_notifications: notificationSettings.email,
-                    push_notifications: notificationSettings.push,
-                    sms_notifications: notificationSettings.sms,
-                    updated_at: new Date().toISOString()
-                  })
-                  .eq('user_id', user.id);
-                  
-                if (updateError) throw updateError;
-              } else {
-                // Insert new settings
-                const { error: insertError } = await supabase
-                  .from('user_settings')
-                  .insert({
-                    user_id: user.id,
-                    email_notifications: notificationSettings.email,
-                    push_notifications: notificationSettings.push,
-                    sms_notifications: notificationSettings.sms
-                  });
-                  
-                if (insertError) throw insertError;
-              }
+              await settingsRepository.save({
+                emailNotifications: notificationSettings.email,
+                pushNotifications: notificationSettings.push,
+                smsNotifications: notificationSettings.sms
+              });
               
               setSuccess('Notification preferences updated');
               break;
@@ -296,7 +257,6 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
               // Update user metadata for privacy settings
               const { error: privacyError } = await supabase.auth.updateUser({
                 data: {
-                  twoFactorEnabled: privacySettings.twoFactorEnabled,
                   dataSharing: privacySettings.dataSharing
                 }
               });
@@ -342,14 +302,8 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
           break;
           
         case 'privacy':
-          // Update privacy settings
-          // For two-factor auth, this might be a separate endpoint
-          if (legacyAuth.user?.twoFactorEnabled !== privacySettings.twoFactorEnabled) {
-            await api.post('two-factor-active-inactive', {
-              active: privacySettings.twoFactorEnabled
-            });
-          }
-          
+          // Update privacy settings; two-factor authentication is managed
+          // through Supabase MFA and saves as it goes
           // Update general settings
           await api.post('settings', {
             dataSharing: privacySettings.dataSharing
@@ -497,24 +451,10 @@ export default function SettingsModal({ isOpen, onClose, section }: SettingsModa
       case 'privacy':
         return (
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <h4 className="font-medium">Two-Factor Authentication</h4>
-                <p className="text-sm text-gray-500">Add an extra layer of security</p>
-              </div>
-              <button 
-                onClick={() => handleToggle('privacy', 'twoFactorEnabled')}
-                className={`px-4 py-2 ${
-                  privacySettings.twoFactorEnabled
-                    ? 'bg-green-600 hover:bg-green-700'
-                    : 'bg-blue-600 hover:bg-blue-700'
-                } text-white rounded-lg transition-colors`}
-                type="button"
-                disabled={loading}
-              >
-                {privacySettings.twoFactorEnabled ? 'Enabled' : 'Enable'}
-              </button>
-            </div>
+            <TwoFactorSettings />
+            <PasskeySettings />
+            <SessionSettings />
+            <CaregiverSettings />
             <div className="flex items-center justify-between">
               <div>
                 <h4 className="font-medium">Data Sharing</h4>
@@ -9,44 +9,50 @@ import {
   FileCheck,
   Database,
   Settings,
+  Building2,
+  FilePen,
 } from 'lucide-react';
 import { useSidebar } from '../hooks/useSidebar';
-import { useAuth } from '../hooks/useAuth';
-import { useSupabaseAuth } from '../hooks/useSupabaseAuth';
+import { useSession } from '../hooks/useSession';
+import { useTenant } from '../hooks/useTenant';
+import { useFlags } from '../hooks/useFlag';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import type { FlagName } from '../config/flags';
 
 export default function Sidebar() {
   const location = useLocation();
   const navigate = useNavigate();
   const { isOpen, toggleSidebar } = useSidebar();
-  const legacyAuth = useAuth();
-  const supabaseAuth = useSupabaseAuth();
+  const { signOut } = useSession();
+  const { branding } = useTenant();
+  const { flags } = useFlags();
+  const { pending } = useOfflineStatus();
 
-  const navigation = [
+  // Items behind a feature flag are left out while it is off
+  const navigation: { name: string; href: string; icon: typeof Grid; flag?: FlagName }[] = [
     { name: 'Dashboard', href: '/', icon: Grid },
     { name: 'Notification', href: '/notifications', icon: Bell },
     { name: 'Providers', href: '/providers', icon: Stethoscope },
-    { name: 'Marketplace', href: '/marketplace', icon: Store },
+    { name: 'Marketplace', href: '/marketplace', icon: Store, flag: 'marketplace' },
+    { name: 'Companies', href: '/companies', icon: Building2, flag: 'companies' },
+    { name: 'Contracts', href: '/contracts', icon: FilePen, flag: 'contracts' },
     { name: 'Consent Management', href: '/consent', icon: FileCheck },
     { name: 'Your Data Elements', href: '/data-elements', icon: Database },
     { name: 'Settings', href: '/settings', icon: Settings },
   ];
 
   const handleLogout = async () => {
+    // Signing out drops changes that haven't synced yet
+    if (pending > 0 && !window.confirm(
+      `You have ${pending} ${pending === 1 ? 'change' : 'changes'} made offline that haven't been saved yet. Signing out will discard them.`
+    )) {
+      return;
+    }
+
     try {
-      // Try both auth systems to ensure complete logout
-      
-      // Legacy auth logout
-      if (legacyAuth && legacyAuth.logout) {
-        await legacyAuth.logout();
-      }
-      
-      // Supabase auth logout
-      if (supabaseAuth && supabaseAuth.signOut) {
-        await supabaseAuth.signOut();
-      }
-      
-      // Navigate to login
-      navigate('/login');
+      // Ends the Supabase session and the legacy token together
+      await signOut();
+      navigate('/login', { replace: true });
     } catch (error) {
       console.error('Logout error:', error);
     }
@@ -62,8 +68,8 @@ export default function Sidebar() {
       }`}>
         <div className="p-6 flex items-center justify-between">
           <div className="flex items-center space-x-2">
-            <img src="/elroi-logo.svg" alt="Elroi Health" className="h-8" />
-            <span className="text-3xl font-medium text-blue-600">Health</span>
+            <img src={branding.logo} alt={branding.productName} className="h-8" />
+            <span className="text-3xl font-medium text-brand">{branding.wordmark}</span>
           </div>
           <button 
             onClick={toggleSidebar}
@@ -74,7 +80,7 @@ export default function Sidebar() {
         </div>
 
       <nav className="flex-1 px-4 space-y-1">
-        {navigation.map((item) => {
+        {navigation.filter(item => !item.flag || flags[item.flag]).map((item) => {
           const Icon = item.icon;
           return (
             <Link
@@ -82,7 +88,7 @@ export default function Sidebar() {
               to={item.href}
               className={`flex items-center px-4 py-5 text-sm font-medium rounded-lg ${
                 location.pathname === item.href
-                  ? 'bg-blue-50 text-blue-700'
+                  ? 'bg-brand-light text-brand-hover'
                   : 'text-gray-600 hover:bg-gray-50'
               }`}
             >
@@ -93,23 +99,24 @@ export default function Sidebar() {
         })}
       </nav>
 
-      <div className="p-4 border-t border-gray-200">
-        <div className="bg-gray-900 rounded-lg p-4">
-          <div className="flex items-center">
-            <div className="h-8 w-8 rounded-full bg-yellow-500 flex items-center justify-center text-sm font-medium text-white">
-              $
-            </div>
-            <div className="ml-3">
-              <p className="text-sm font-medium text-white">My Balance</p>
-              <p className="text-lg font-semibold text-white">100.50</p>
+      {flags.balanceOverview && (
+        <div className="p-4 border-t border-gray-200">
+          <div className="bg-gray-900 rounded-lg p-4">
+            <div className="flex items-center">
+              <div className="h-8 w-8 rounded-full bg-yellow-500 flex items-center justify-center text-sm font-medium text-white">
+                $
+              </div>
+              <div className="ml-3">
+                <p className="text-sm font-medium text-white">My Balance</p>
+                <p className="text-lg font-semibold text-white">100.50</p>
+              </div>
             </div>
+            <button className="mt-3 w-full bg-yellow-500 text-xs font-medium text-gray-900 px-3 py-1.5 rounded">
+              Balance Overview
+            </button>
           </div>
-          <button className="mt-3 w-full bg-yellow-500 text-xs font-medium text-gray-900 px-3 py-1.5 rounded">
-            Balance Overview
-          </button>
-        </div>
-
         </div>
+      )}
         <div className="p-4 border-t border-gray-200">
           <button 
             onClick={handleLogout}
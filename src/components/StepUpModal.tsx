@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { X, AlertCircle, Fingerprint, ShieldCheck } from 'lucide-react';
+import { stepUpService, type StepUpMethod } from '../services/stepUp';
+import { getErrorMessage } from '../utils/errors';
+
+interface StepUpModalProps {
+  // What the user is about to do, e.g. "remove this provider"
+  reason: string;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+const methodLabels: Record<StepUpMethod, string> = {
+  passkey: 'Use a passkey',
+  totp: 'Use your authenticator app',
+  password: 'Enter your password'
+};
+
+// Asks the user to confirm it is them before a sensitive action. Shown on top
+// of other modals, so it sits above their z-index.
+export default function StepUpModal({ reason, onVerified, onCancel }: StepUpModalProps) {
+  const [methods, setMethods] = useState<StepUpMethod[]>([]);
+  const [method, setMethod] = useState<StepUpMethod | null>(null);
+  const [value, setValue] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    stepUpService.availableMethods()
+      .then(available => {
+        if (cancelled) return;
+        setMethods(available);
+        setMethod(available[0]);
+      })
+      .catch(err => {
+        console.error('Error loading verification methods:', err);
+        if (!cancelled) setError(getErrorMessage(err, 'Could not load your verification methods'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const chooseMethod = (next: StepUpMethod) => {
+    setMethod(next);
+    setValue('');
+    setError(null);
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!method) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      if (method === 'passkey') {
+        await stepUpService.withPasskey();
+      } else if (method === 'totp') {
+        await stepUpService.withTotp(value.replace(/\s/g, ''));
+      } else {
+        await stepUpService.withPassword(value);
+      }
+      onVerified();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Verification failed. Please try again.'));
+      setValue('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-[60]"
+        onClick={busy ? undefined : onCancel}
+      />
+      <div className="fixed inset-x-4 top-[20%] md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-full md:max-w-md bg-white rounded-xl shadow-xl z-[70]">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="h-6 w-6 text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold">Confirm it's you</h2>
+              <p className="text-sm text-gray-600">Needed to {reason}</p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            type="button"
+            disabled={busy}
+            aria-label="Cancel"
+          >
+            <X className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        <form onSubmit={handleVerify} className="p-6 space-y-4">
+          {error && (
+            <div className="px-4 py-3 bg-red-50 border border-red-200 text-red-600 rounded-md text-sm flex items-center">
+              <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {!method && !error && (
+            <div className="flex justify-center py-4">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {method === 'passkey' && (
+            <p className="text-sm text-gray-600">
+              Your browser will ask you to use one of the passkeys saved for your account.
+            </p>
+          )}
+
+          {method === 'totp' && (
+            <div>
+              <label htmlFor="step-up-code" className="block text-sm font-medium text-gray-700 mb-1">
+                Authentication Code
+              </label>
+              <input
+                id="step-up-code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="123456"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                disabled={busy}
+                autoFocus
+              />
+            </div>
+          )}
+
+          {method === 'password' && (
+            <div>
+              <label htmlFor="step-up-password" className="block text-sm font-medium text-gray-700 mb-1">
+                Password
+              </label>
+              <input
+                id="step-up-password"
+                type="password"
+                autoComplete="current-password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                disabled={busy}
+                autoFocus
+              />
+            </div>
+          )}
+
+          {methods.length > 1 && (
+            <div className="flex flex-wrap gap-3">
+              {methods.filter(candidate => candidate !== method).map(candidate => (
+                <button
+                  key={candidate}
+                  type="button"
+                  onClick={() => chooseMethod(candidate)}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                  disabled={busy}
+                >
+                  {methodLabels[candidate]} instead
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              disabled={busy}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              disabled={busy || !method || (method !== 'passkey' && !value.trim())}
+            >
+              {method === 'passkey' && <Fingerprint className="h-4 w-4 mr-2" />}
+              {busy ? 'Verifying...' : method === 'passkey' ? 'Use Passkey' : 'Verify'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,39 @@
+import { useState, useCallback, useRef } from 'react';
+import StepUpModal from './StepUpModal';
+import { StepUpContext } from '../hooks/useStepUp';
+import { stepUpService } from '../services/stepUp';
+
+export default function StepUpProvider({ children }: { children: React.ReactNode }) {
+  const [reason, setReason] = useState<string | null>(null);
+  const resolveRef = useRef<((verified: boolean) => void) | null>(null);
+
+  const requireStepUp = useCallback((nextReason: string) => {
+    if (stepUpService.isFresh()) return Promise.resolve(true);
+
+    // A second request while the modal is open replaces the first
+    resolveRef.current?.(false);
+    return new Promise<boolean>(resolve => {
+      resolveRef.current = resolve;
+      setReason(nextReason);
+    });
+  }, []);
+
+  const finish = (verified: boolean) => {
+    resolveRef.current?.(verified);
+    resolveRef.current = null;
+    setReason(null);
+  };
+
+  return (
+    <StepUpContext.Provider value={{ requireStepUp }}>
+      {children}
+      {reason && (
+        <StepUpModal
+          reason={reason}
+          onVerified={() => finish(true)}
+          onCancel={() => finish(false)}
+        />
+      )}
+    </StepUpContext.Provider>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Copy, KeyRound, Smartphone, Trash2 } from 'lucide-react';
+import { useSettingsAction } from '../hooks/useSettingsAction';
+import { mfaService, type MfaFactor, type TotpEnrollment } from '../services/mfa';
+import { getErrorMessage } from '../utils/errors';
+
+// Authenticator apps and recovery codes, in the Privacy & Security settings.
+// Changes apply straight away rather than through the modal's save button.
+export default function TwoFactorSettings() {
+  const [factors, setFactors] = useState<MfaFactor[]>([]);
+  const [remainingCodes, setRemainingCodes] = useState(0);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  // Shown once, straight after they are created
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [confirmRemoveId, setConfirmRemoveId] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  // Actions share the busy and error state, and reload the section afterwards
+  const { busy, error, setError, run } = useSettingsAction(() => load());
+
+  const verifiedFactors = factors.filter(factor => factor.verified);
+
+  const load = useCallback(async () => {
+    try {
+      const loaded = await mfaService.listFactors();
+      setFactors(loaded);
+      setRemainingCodes(loaded.some(factor => factor.verified) ? await mfaService.countRecoveryCodes() : 0);
+    } catch (err) {
+      console.error('Error loading two-factor settings:', err);
+      setError(getErrorMessage(err, 'Failed to load two-factor settings'));
+    }
+  }, [setError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleStart = () => run(async () => {
+    const name = verifiedFactors.length === 0 ? 'Authenticator app' : `Authenticator app ${verifiedFactors.length + 1}`;
+    setEnrollment(await mfaService.enroll(name));
+    setCode('');
+    setRecoveryCodes(null);
+  }, 'Could not start setting up the authenticator app');
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    run(async () => {
+      const codes = await mfaService.confirmEnrollment(enrollment.factorId, code.replace(/\s/g, ''));
+      setEnrollment(null);
+      setCode('');
+      if (codes) setRecoveryCodes(codes);
+    }, 'That code did not match. Check the time on your device and try again.');
+  };
+
+  const handleCancel = () => run(async () => {
+    if (enrollment) await mfaService.unenroll(enrollment.factorId);
+    setEnrollment(null);
+    setCode('');
+  }, 'Could not cancel the setup');
+
+  const handleRemove = (factorId: string) => run(async () => {
+    await mfaService.unenroll(factorId);
+    setConfirmRemoveId(null);
+    setRecoveryCodes(null);
+  }, 'Could not remove the authenticator app');
+
+  const handleRegenerate = () => run(async () => {
+    setRecoveryCodes(await mfaService.generateRecoveryCodes());
+  }, 'Could not create new recovery codes');
+
+  const handleCopy = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying recovery codes:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium">Two-Factor Authentication</h4>
+          <p className="text-sm text-gray-500">
+            {verifiedFactors.length > 0
+              ? 'A code from your authenticator app is needed when you sign in'
+              : 'Add an extra layer of security with an authenticator app'}
+          </p>
+        </div>
+        {!enrollment && (
+          <button
+            onClick={handleStart}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            type="button"
+            disabled={busy}
+          >
+            {verifiedFactors.length > 0 ? 'Add App' : 'Enable'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-600 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {enrollment && (
+        <form onSubmit={handleConfirm} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app such as Google Authenticator or 1Password, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex justify-center">
+            <img src={enrollment.qrCode} alt="QR code for your authenticator app" className="h-40 w-40" />
+          </div>
+          <p className="text-xs text-gray-500 text-center">
+            Can't scan it? Enter this setup key instead:
+            <span className="block mt-1 font-mono text-gray-700 break-all">{enrollment.secret}</span>
+          </p>
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={busy}
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              disabled={busy}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              disabled={busy || !code.trim()}
+            >
+              {busy ? 'Verifying...' : 'Verify'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3">
+          <div className="flex items-center">
+            <KeyRound className="h-5 w-5 text-yellow-700 mr-2" />
+            <h5 className="font-medium text-yellow-800">Save your recovery codes</h5>
+          </div>
+          <p className="text-sm text-yellow-800">
+            Each code signs you in once if you lose your device. They won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800">
+            {recoveryCodes.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="flex items-center px-3 py-1.5 text-sm border border-gray-300 bg-white rounded-lg hover:bg-gray-50"
+            >
+              {copied ? <Check className="h-4 w-4 mr-1" /> : <Copy className="h-4 w-4 mr-1" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              I've saved them
+            </button>
+          </div>
+        </div>
+      )}
+
+      {verifiedFactors.length > 0 && (
+        <div className="space-y-2">
+          {verifiedFactors.map(factor => (
+            <div key={factor.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div className="flex items-center">
+                <Smartphone className="h-5 w-5 text-gray-400 mr-3" />
+                <div>
+                  <p className="text-sm font-medium">{factor.friendlyName}</p>
+                  <p className="text-xs text-gray-500">Added {new Date(factor.createdAt).toLocaleDateString()}</p>
+                </div>
+              </div>
+              {confirmRemoveId === factor.id ? (
+                <div className="flex items-center space-x-2">
+                  <span className="text-xs text-gray-600">Remove?</span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(factor.id)}
+                    className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+                    disabled={busy}
+                  >
+                    Remove
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmRemoveId(null)}
+                    className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                    disabled={busy}
+                  >
+                    Keep
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmRemoveId(factor.id)}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${factor.friendlyName}`}
+                  disabled={busy}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between pt-2">
+            <p className="text-sm text-gray-500">
+              {remainingCodes} recovery code{remainingCodes === 1 ? '' : 's'} left
+            </p>
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              className="text-sm text-blue-600 hover:text-blue-700"
+              disabled={busy}
+            >
+              Create new recovery codes
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,24 @@
-export const API_URL = import.meta.env.VITE_API_URL || 'https://api.elroiconsumer.com/api/';
-export const TENANT = import.meta.env.VITE_TENANT || 'VA';
\ No newline at end of file
+import { resolveTenant } from './tenants';
+
+// Branding, features, legal text and endpoints for the tenant this page serves
+export const TENANT_CONFIG = resolveTenant(
+  typeof window === 'undefined' ? '' : window.location.hostname,
+  import.meta.env.VITE_TENANT
+);
+export const API_URL = import.meta.env.VITE_API_URL || TENANT_CONFIG.api.apiUrl;
+export const TENANT = TENANT_CONFIG.id;
+export const PRIVACY_POLICY_URL = import.meta.env.VITE_PRIVACY_POLICY_URL || TENANT_CONFIG.legal.privacyUrl;
+// Minutes without input before a signed-in user is signed out; 0 turns it off
+export const IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES || 15);
+// Minutes without input before health records are hidden until the user
+// confirms it is them; 0 turns it off
+export const PHI_LOCK_MINUTES = Number(import.meta.env.VITE_PHI_LOCK_MINUTES || 5);
+// Hours after signing in before the user has to sign in again, however active
+// they are; 0 turns it off
+export const SESSION_MAX_HOURS = Number(import.meta.env.VITE_SESSION_MAX_HOURS || 12);
+// Serve the built-in sample fixtures instead of real data; writes are disabled
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === 'true';
+// Answer the legacy API and Supabase from an in-browser mock (src/mocks)
+export const MOCK_BACKEND = import.meta.env.VITE_MOCK_BACKEND === 'true';
+// Supabase URL the mock answers; never reaches the network
+export const MOCK_SUPABASE_URL = 'https://mock.supabase.local';
@@ -0,0 +1,14 @@
+import defaults from './flags.json';
+
+// Modules that can be turned off while they are unfinished or not offered.
+// Each flag's default is in flags.json; a tenant's configuration, then the
+// feature_flag_overrides table for the tenant and for the user, override it.
+export type FlagName = keyof typeof defaults;
+
+export type Flags = Record<FlagName, boolean>;
+
+export const FLAG_DEFAULTS: Flags = defaults;
+
+// Overrides can name flags this build no longer has
+export const isFlagName = (name: string): name is FlagName =>
+  Object.prototype.hasOwnProperty.call(FLAG_DEFAULTS, name);
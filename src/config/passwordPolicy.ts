@@ -0,0 +1,38 @@
+export interface PasswordPolicy {
+  minLength: number;
+  // Upper and lower case letters, a number and a special character
+  requireCharacterClasses: boolean;
+  // The lowest strength estimate accepted, from 0 (too guessable) to 4
+  minScore: 0 | 1 | 2 | 3 | 4;
+  // Refused however they are capitalised, spelt with digits for letters or
+  // padded with digits and symbols, as in Elroi2025!
+  bannedWords: string[];
+  // Refuse passwords built from the user's name or email address
+  rejectPersonalInfo: boolean;
+  // Look the password up in the breached password ranges under /breached-passwords
+  checkBreaches: boolean;
+}
+
+export const PASSWORD_POLICY: PasswordPolicy = {
+  minLength: Number(import.meta.env.VITE_PASSWORD_MIN_LENGTH) || 8,
+  requireCharacterClasses: true,
+  minScore: 3,
+  bannedWords: [
+    'password',
+    'passw0rd',
+    'welcome',
+    'letmein',
+    'changeme',
+    'qwerty',
+    'admin',
+    'elroi',
+    'elroihealth',
+    'health',
+    'healthcare',
+    'veteran',
+    'veterans',
+    'military'
+  ],
+  rejectPersonalInfo: true,
+  checkBreaches: true
+};
@@ -0,0 +1,71 @@
+import type { Flags } from './flags';
+
+export interface TenantConfig {
+  // Sent to the legacy API as X-Tenant
+  id: string;
+  // Host names this tenant is served from
+  hostnames: string[];
+  branding: {
+    // Page title and logo alt text
+    productName: string;
+    logo: string;
+    // Shown next to the logo
+    wordmark: string;
+    // Hex colours, applied as the Tailwind brand colour
+    colors: {
+      primary: string;
+      primaryHover: string;
+      primaryLight: string;
+    };
+  };
+  // Feature flags this tenant turns on or off, over the defaults in flags.json
+  features: Partial<Flags>;
+  legal: {
+    // Named on consent receipts as the controller acting for the user
+    controller: string;
+    privacyContact: string;
+    copyright: string;
+    termsUrl: string;
+    privacyUrl: string;
+  };
+  api: {
+    apiUrl: string;
+    // Fall back to VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY
+    supabaseUrl?: string;
+    supabaseAnonKey?: string;
+  };
+}
+
+export const TENANTS: Record<string, TenantConfig> = {
+  VA: {
+    id: 'VA',
+    hostnames: ['va.elroiconsumer.com'],
+    branding: {
+      productName: 'Elroi Health',
+      logo: '/elroi-logo.svg',
+      wordmark: 'Health',
+      colors: { primary: '#2563eb', primaryHover: '#1d4ed8', primaryLight: '#eff6ff' }
+    },
+    features: { marketplace: true, carePlanner: true },
+    legal: {
+      controller: 'Elroi Health',
+      privacyContact: 'Elroi Health Privacy Office',
+      copyright: 'Copyright © 2025 Elroi, LLC. Elroi is a trademark of Elroi, LLC.',
+      termsUrl: 'https://elroiconsumer.com/terms',
+      privacyUrl: 'https://elroiconsumer.com/privacy'
+    },
+    api: { apiUrl: 'https://api.elroiconsumer.com/api/' }
+  }
+};
+
+export const DEFAULT_TENANT = 'VA';
+
+// The tenant for this page: VITE_TENANT when set, then the tenant serving the
+// host name, then the default. An id with no configuration here keeps the
+// default's settings but is still sent as X-Tenant.
+export const resolveTenant = (hostname: string, envTenant?: string): TenantConfig => {
+  if (envTenant) return TENANTS[envTenant] ?? { ...TENANTS[DEFAULT_TENANT], id: envTenant };
+
+  const host = hostname.toLowerCase();
+  return Object.values(TENANTS).find(tenant => tenant.hostnames.includes(host)) ?? TENANTS[DEFAULT_TENANT];
+};
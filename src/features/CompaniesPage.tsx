@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { api } from '../../services/api';
-import { Company } from '../../types';
+import { api } from '../services/api';
+import { Company } from '../types';
 import { AlertCircle } from 'lucide-react';
 
 const CompaniesPage: React.FC = () => {
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { api } from '../../services/api';
-import { Contract } from '../../types';
+import { api } from '../services/api';
+import { Contract } from '../types';
 import { AlertCircle, CheckCircle, Clock, XCircle } from 'lucide-react';
 
 const ContractsPage: React.FC = () => {
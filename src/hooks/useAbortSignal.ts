@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Returns a getter for an AbortSignal that is aborted when the component
+// unmounts, so requests started by the component are cancelled with it
+export function useAbortSignal() {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Remounts (e.g. under StrictMode) need a fresh controller
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    const controller = controllerRef.current;
+    return () => controller.abort();
+  }, []);
+
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+}
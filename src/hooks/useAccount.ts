@@ -0,0 +1,93 @@
+import { useCallback, useState } from 'react';
+import { isAuthError } from '@supabase/supabase-js';
+import { NetworkError, TimeoutError } from '../services/api';
+import { authService } from '../services/auth';
+import { sessionManager } from '../services/session';
+import { getErrorMessage } from '../utils/errors';
+import { RateLimitError } from '../utils/rateLimit';
+import type {
+  EmailVerificationCredentials,
+  NotificationSettings,
+  RecoveryMethod,
+  RegisterCredentials,
+  ResetPasswordCredentials,
+  UpdatePasswordCredentials,
+  UpdateProfileCredentials
+} from '../types/auth';
+
+// Show the client's message for timeouts, connection problems, lockouts and
+// Supabase Auth's refusals, which say what went wrong better than a generic
+// failure message
+const showsOwnMessage = (err: unknown) =>
+  err instanceof TimeoutError || err instanceof NetworkError || err instanceof RateLimitError || isAuthError(err);
+
+// Account actions, mostly on the legacy API, with loading and error state for
+// the page calling them. Signing in and out goes through useSession.
+export function useAccount() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Run an action, keeping its error for the page and rethrowing it
+  const perform = useCallback(async <T>(action: () => Promise<T>, fallback: string): Promise<T> => {
+    setLoading(true);
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      setError(showsOwnMessage(err) ? getErrorMessage(err, fallback) : fallback);
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const register = useCallback((credentials: RegisterCredentials) =>
+    perform(() => authService.register(credentials), 'Registration failed. Please try again.'), [perform]);
+
+  const resendVerification = useCallback((email: string) =>
+    perform(() => authService.resendVerification(email), 'Failed to resend verification email. Please try again.'), [perform]);
+
+  const forgotPassword = useCallback((email: string) =>
+    perform(() => authService.forgotPassword(email), 'Failed to send password reset email. Please try again.'), [perform]);
+
+  const verifyForgotPassword = useCallback((credentials: EmailVerificationCredentials) =>
+    perform(() => authService.verifyForgotPassword(credentials), 'That code is not valid or has expired. Please try again.'), [perform]);
+
+  const resetPassword = useCallback((credentials: ResetPasswordCredentials, method?: RecoveryMethod) =>
+    perform(() => authService.resetPassword(credentials, method), 'Password reset failed. Please try again.'), [perform]);
+
+  const updateProfile = useCallback((credentials: UpdateProfileCredentials) =>
+    perform(async () => {
+      const updatedUser = await authService.updateProfile(credentials);
+      sessionManager.updateUser({
+        name: updatedUser.name,
+        email: updatedUser.email,
+        phone: updatedUser.phone
+      });
+      return updatedUser;
+    }, 'Failed to update profile. Please try again.'), [perform]);
+
+  const updatePassword = useCallback((credentials: UpdatePasswordCredentials) =>
+    perform(() => authService.updatePassword(credentials), 'Failed to update password. Please try again.'), [perform]);
+
+  const getNotificationSettings = useCallback(() =>
+    perform(() => authService.getNotificationSettings(), 'Failed to get notification settings. Please try again.'), [perform]);
+
+  const updateNotificationSettings = useCallback((settings: NotificationSettings) =>
+    perform(() => authService.updateNotificationSettings(settings), 'Failed to update notification settings. Please try again.'), [perform]);
+
+  return {
+    loading,
+    error,
+    setError,
+    register,
+    resendVerification,
+    forgotPassword,
+    verifyForgotPassword,
+    resetPassword,
+    updateProfile,
+    updatePassword,
+    getNotificationSettings,
+    updateNotificationSettings
+  };
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { actingAs } from '../services/actingAs';
+import { delegationService } from '../services/delegation';
+import type { ActingAccount, CaregiverDelegation, CaregiverRole } from '../types/delegation';
+
+const toActingAccount = (delegation: CaregiverDelegation): ActingAccount => ({
+  delegationId: delegation.id,
+  userId: delegation.ownerId,
+  name: delegation.ownerName,
+  roles: delegation.roles
+});
+
+// The account the user is acting on behalf of, the accounts they can switch
+// to, and whether the current one lets them do something
+export function useActingAs() {
+  const [actingFor, setActingFor] = useState(() => actingAs.getSnapshot());
+  const [accounts, setAccounts] = useState<CaregiverDelegation[]>([]);
+
+  useEffect(() => actingAs.subscribe(() => setActingFor(actingAs.getSnapshot())), []);
+
+  // Reload the accounts, switching back to the user's own when the one being
+  // acted for has taken their access away or changed what it allows
+  const reload = useCallback(async () => {
+    try {
+      const active = (await delegationService.listAccounts()).filter(account => account.status === 'active');
+      setAccounts(active);
+
+      const current = actingAs.getSnapshot();
+      if (!current) return;
+      const delegation = active.find(account => account.id === current.delegationId);
+      actingAs.set(delegation ? toActingAccount(delegation) : null);
+    } catch (err) {
+      console.error('Error loading the accounts you help with:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const switchTo = useCallback((delegation: CaregiverDelegation | null) => {
+    actingAs.set(delegation ? toActingAccount(delegation) : null);
+  }, []);
+
+  const can = useCallback(
+    (role: CaregiverRole) => !actingFor || actingFor.roles.includes(role),
+    [actingFor]
+  );
+
+  return { actingFor, accounts, switchTo, can, reload };
+}
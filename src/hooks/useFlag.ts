@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { featureFlags } from '../services/featureFlags';
+import type { FlagName } from '../config/flags';
+
+// Every feature flag, and whether the signed-in user's overrides have loaded
+export function useFlags() {
+  const [snapshot, setSnapshot] = useState(() => featureFlags.getSnapshot());
+
+  useEffect(() => featureFlags.subscribe(() => setSnapshot(featureFlags.getSnapshot())), []);
+
+  return snapshot;
+}
+
+// Whether a module is turned on
+export function useFlag(flag: FlagName) {
+  return useFlags().flags[flag];
+}
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { outbox } from '../services/outbox';
+
+// Connection state plus the offline outbox, for banners and sync indicators
+export function useOfflineStatus() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [queue, setQueue] = useState(() => outbox.getSnapshot());
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const unsubscribe = outbox.subscribe(() => setQueue(outbox.getSnapshot()));
+    setQueue(outbox.getSnapshot());
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      unsubscribe();
+    };
+  }, []);
+
+  return { online, ...queue };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PASSWORD_POLICY } from '../config/passwordPolicy';
+import { breachedPasswords } from '../services/breachedPasswords';
+import { estimatePasswordStrength } from '../utils/passwordStrength';
+import { passwordProblem, personalWords, validatePassword } from '../utils/validation';
+import type { BreachStatus, PasswordCheck } from '../types/auth';
+
+// Wait for a pause in typing before looking the password up
+const BREACH_CHECK_DELAY_MS = 250;
+
+// The password policy, strength estimate and breach check for a password as
+// it is typed. personalInfo is the user's name and email address.
+export function usePasswordCheck(password: string, ...personalInfo: (string | undefined)[]): PasswordCheck {
+  const words = personalWords(...personalInfo).join(' ');
+  // The breach result, for the password it was found for
+  const [breachResult, setBreachResult] = useState<{ password: string; status: BreachStatus } | null>(null);
+
+  const { requirements, strength } = useMemo(() => {
+    const personal = words ? words.split(' ') : [];
+    return {
+      requirements: validatePassword(password, personal),
+      strength: estimatePasswordStrength(password, { userInputs: personal, bannedWords: PASSWORD_POLICY.bannedWords })
+    };
+  }, [password, words]);
+
+  useEffect(() => {
+    if (!PASSWORD_POLICY.checkBreaches || !password) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      breachedPasswords.isBreached(password)
+        .then(breached => {
+          if (!cancelled) setBreachResult({ password, status: breached ? 'breached' : 'clear' });
+        })
+        .catch(err => {
+          console.error('Error checking breached passwords:', err);
+          if (!cancelled) setBreachResult({ password, status: 'unknown' });
+        });
+    }, BREACH_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [password]);
+
+  const breach: BreachStatus = !PASSWORD_POLICY.checkBreaches || !password
+    ? 'clear'
+    : breachResult?.password === password ? breachResult.status : 'checking';
+
+  return { requirements, strength, breach, problem: passwordProblem(requirements, strength, breach) };
+}
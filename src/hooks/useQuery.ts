@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { queryCache, type QueryKey } from '../services/queryCache';
+
+// Subscribe a component to a cached query. `load` should read through the
+// cache under the same key, like the supabaseData getters do.
+export function useQuery<T>(key: QueryKey, load: () => Promise<T>) {
+  const hash = JSON.stringify(key);
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  const [state, setState] = useState(() => queryCache.peek<T>(key));
+
+  useEffect(() => {
+    const queryKey: QueryKey = JSON.parse(hash);
+    const update = () => setState(queryCache.peek<T>(queryKey));
+
+    const unsubscribe = queryCache.subscribe(queryKey, update);
+    loadRef.current().catch(() => undefined).finally(update);
+    update();
+
+    return unsubscribe;
+  }, [hash]);
+
+  const refetch = useCallback(() => {
+    queryCache.invalidate(JSON.parse(hash));
+    return loadRef.current();
+  }, [hash]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    // Only true before the first result; background refreshes keep showing data
+    loading: !state.hasData && !state.error,
+    fetching: state.fetching,
+    refetch
+  };
+}
@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+import { realtimeService, type RealtimeTable } from '../services/realtime';
+
+// Call onChange whenever one of the tables changes, for as long as the
+// component is mounted. The channel itself is opened once per session.
+export function useRealtime(tables: RealtimeTable[], onChange: (table: RealtimeTable) => void) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const watched = tables.join(',');
+
+  useEffect(() => {
+    return realtimeService.subscribe(
+      watched.split(',') as RealtimeTable[],
+      table => onChangeRef.current(table)
+    );
+  }, [watched]);
+}
@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { sessionManager, SessionSnapshot } from '../services/session';
+
+export type SessionContextType = SessionSnapshot & {
+  signIn: typeof sessionManager.signIn;
+  signInWithPasskey: typeof sessionManager.signInWithPasskey;
+  signUp: typeof sessionManager.signUp;
+  signOut: typeof sessionManager.signOut;
+  redeemRecoveryCode: typeof sessionManager.redeemRecoveryCode;
+  verifySecondFactor: typeof sessionManager.verifySecondFactor;
+  stayActive: typeof sessionManager.stayActive;
+  unlockPhi: typeof sessionManager.unlockPhi;
+  updateUser: typeof sessionManager.updateUser;
+};
+
+// Provided by SessionProvider
+export const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+// The signed-in state for every page; see SessionStatus for the states
+export function useSession() {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,25 @@
+import { useState } from 'react';
+import { getErrorMessage } from '../utils/errors';
+
+// Busy and error state for a settings section whose changes apply straight
+// away: run() clears the error, performs the action, reloads the section and
+// shows the action's error, or the fallback, if it fails
+export function useSettingsAction(reload: () => Promise<void>) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await reload();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return { busy, error, setError, run };
+}
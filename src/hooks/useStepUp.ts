@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+
+export interface StepUpContextType {
+  // Resolves to true once the user has confirmed it is them, straight away if
+  // they did so recently, or false if they cancel
+  requireStepUp: (reason: string) => Promise<boolean>;
+}
+
+// Provided by StepUpProvider
+export const StepUpContext = createContext<StepUpContextType | undefined>(undefined);
+
+export function useStepUp() {
+  const context = useContext(StepUpContext);
+  if (!context) {
+    throw new Error('useStepUp must be used within a StepUpProvider');
+  }
+  return context;
+}
@@ -1,181 +0,0 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { supabase } from '../services/supabase';
-import type { User, Session } from '@supabase/supabase-js';
-
-// Types for our Supabase auth context
-interface SupabaseAuthContextType {
-  user: User | null;
-  session: Session | null;
-  loading: boolean;
-  error: string | null;
-  signUp: (email: string, password: string, name: string) => Promise<void>;
-  signIn: (email: string, password: string) => Promise<void>;
-  signOut: () => Promise<void>;
-  setError: (error: string | null) => void;
-}
-
-// Create the context with a default value
-const SupabaseAuthContext = createContext<SupabaseAuthContextType>({
-  user: null,
-  session: null,
-  loading: true,
-  error: null,
-  signUp: async () => {},
-  signIn: async () => {},
-  signOut: async () => {},
-  setError: () => {}
-});
-
-// Custom hook to use the Supabase Auth context
-export const useSupabaseAuth = () => {
-  const context = useContext(SupabaseAuthContext);
-  if (!context) {
-    throw new Error('useSupabaseAuth must be used within a SupabaseAuthProvider');
-  }
-  return context;
-};
-
-// Provider component that wraps your app and makes auth available to any child component
-export const SupabaseAuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const navigate = useNavigate();
-
-  // Initialize auth state
-  useEffect(() => {
-    const initializeAuth = async () => {
-      setLoading(true);
-      
-      // Get the current session
-      const { data: { session }, error } = await supabase.auth.getSession();
-      
-      if (error) {
-        console.error('Error getting session:', error);
-        setError(error.message);
-      } else {
-        setSession(session);
-        setUser(session?.user || null);
-      }
-      
-      // Subscribe to auth changes
-      const { data: { subscription } } = supabase.auth.onAuthStateChange(
-        (_event, session) => {
-          setSession(session);
-          setUser(session?.user || null);
-        }
-      );
-      
-      setLoading(false);
-      
-      // Clean up the subscription when component unmounts
-      return () => {
-        subscription.unsubscribe();
-      };
-    };
-    
-    initializeAuth();
-  }, []);
-
-  // Sign up function
-  const signUp = async (email: string, password: string, name: string) => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Register user with Supabase
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            name
-          }
-        }
-      });
-
-      if (error) {
-        setError(error.message);
-      } else if (data?.user) {
-        // Registration successful, store any necessary data
-        // We might want to call the legacy API here to maintain compatibility
-      }
-    } catch (e) {
-      const err = e as Error;
-      setError(err.message);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Sign in function
-  const signIn = async (email: string, password: string) => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Authenticate with Supabase
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password
-      });
-
-      if (error) {
-        setError(error.message);
-      } else if (data?.session) {
-        // Store the Supabase session information
-        localStorage.setItem('supabase_auth_token', data.session.access_token);
-        
-        // Redirect to the dashboard
-        navigate('/', { replace: true });
-      }
-    } catch (e) {
-      const err = e as Error;
-      setError(err.message);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // Sign out function
-  const signOut = async () => {
-    try {
-      setLoading(true);
-      
-      // Sign out from Supabase
-      await supabase.auth.signOut();
-      
-      // Also clear the legacy token if needed
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      
-      // Redirect to login
-      navigate('/login', { replace: true });
-    } catch (e) {
-      const err = e as Error;
-      setError(err.message);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  // The value that will be provided to consumers of this context
-  const value: SupabaseAuthContextType = {
-    user,
-    session,
-    loading,
-    error,
-    signUp,
-    signIn,
-    signOut,
-    setError
-  };
-
-  return (
-    <SupabaseAuthContext.Provider value={value}>
-      {children}
-    </SupabaseAuthContext.Provider>
-  );
-};
\ No newline at end of file
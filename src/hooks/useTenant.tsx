@@ -0,0 +1,36 @@
+import { createContext, useContext, useEffect } from 'react';
+import { TENANT_CONFIG } from '../config/constants';
+import type { TenantConfig } from '../config/tenants';
+
+const TenantContext = createContext<TenantConfig>(TENANT_CONFIG);
+
+// #2563eb to "37 99 235", the form the Tailwind brand colour reads
+const toChannels = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `${(value >> 16) & 255} ${(value >> 8) & 255} ${value & 255}`;
+};
+
+// Applies the tenant's colours, title and icon to the document, and gives
+// the layout and pages its branding, features and legal text
+export function TenantProvider({ children, tenant = TENANT_CONFIG }: { children: React.ReactNode; tenant?: TenantConfig }) {
+  useEffect(() => {
+    const { productName, logo, colors } = tenant.branding;
+    const root = document.documentElement;
+    root.style.setProperty('--brand-primary', toChannels(colors.primary));
+    root.style.setProperty('--brand-primary-hover', toChannels(colors.primaryHover));
+    root.style.setProperty('--brand-primary-light', toChannels(colors.primaryLight));
+
+    document.title = productName;
+    document.querySelector<HTMLLinkElement>('link[rel="icon"]')?.setAttribute('href', logo);
+  }, [tenant]);
+
+  return (
+    <TenantContext.Provider value={tenant}>
+      {children}
+    </TenantContext.Provider>
+  );
+}
+
+export function useTenant() {
+  return useContext(TenantContext);
+}
@@ -1,6 +1,8 @@
 import { Outlet } from 'react-router-dom';
 import Sidebar from '../components/Sidebar';
 import Header from '../components/Header';
+import OfflineBanner from '../components/OfflineBanner';
+import DemoBanner from '../components/DemoBanner';
 
 export default function MainLayout({ children }: { children?: React.ReactNode }) {
   return (
@@ -8,6 +10,8 @@ export default function MainLayout({ children }: { children?: React.ReactNode })
       <Sidebar />
       <div className="flex-1 flex flex-col overflow-hidden relative">
         <Header />
+        <DemoBanner />
+        <OfflineBanner />
         <main className="flex-1 overflow-x-hidden overflow-y-auto bg-gray-50 p-6 relative z-10">
           {children || <Outlet />}
         </main>
@@ -1,10 +1,21 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
-import App from './App.tsx';
+import { MOCK_BACKEND } from './config/constants';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+const start = async () => {
+  // Install the mock before the app loads so its first requests are answered
+  if (MOCK_BACKEND) {
+    const { installMockBackend } = await import('./mocks');
+    installMockBackend();
+  }
+
+  const { default: App } = await import('./App.tsx');
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+};
+
+start();
@@ -0,0 +1,335 @@
+import { loadMigratedSchema, parseLiteral, type ColumnSchema, type Row, type TableSchema } from './schema';
+
+export type { Row } from './schema';
+
+const STORAGE_KEY = 'elroi:mock-backend';
+// Bump when the stored shape changes so old browser state is reseeded
+const STORAGE_VERSION = 5;
+
+// One account shared by the Supabase and legacy stand-ins. Passwords are kept
+// in plain text; this never leaves the browser.
+export interface MockUser {
+  id: string;
+  email: string;
+  password: string;
+  name: string;
+  phone: string | null;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  metadata: Record<string, unknown>;
+  factors: MockFactor[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An authenticator app enrolled through Supabase MFA
+export interface MockFactor {
+  id: string;
+  friendlyName: string;
+  // Base32 TOTP secret
+  secret: string;
+  status: 'unverified' | 'verified';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockSession {
+  id: string;
+  userId: string;
+  refreshToken: string;
+  // aal2 once a factor has been verified in this session
+  aal: 'aal1' | 'aal2';
+  // Epoch milliseconds of the last factor verification, for the totp amr entry
+  factorVerifiedAt?: number;
+  // How the user first signed in, for the amr claim: password, otp or recovery
+  method: string;
+  // The browser and address that signed in, as GoTrue records them
+  userAgent: string;
+  ip: string;
+  // Epoch milliseconds; a refresh keeps the session and moves refreshedAt
+  expiresAt: number;
+  createdAt: number;
+  refreshedAt: number;
+}
+
+export interface LegacySession {
+  id: string;
+  token: string;
+  refreshToken: string;
+  userId: string;
+  userAgent: string;
+  ip: string;
+  expiresAt: number;
+  createdAt: number;
+  refreshedAt: number;
+}
+
+// Collections behind the legacy REST API; per-user rows carry a userId
+export interface LegacyData {
+  companies: Row[];
+  contracts: Row[];
+  piNames: Row[];
+  elements: Row[];
+  userDataElements: Row[];
+  notificationSettings: Record<string, Row>;
+  settings: Record<string, Row>;
+  // Latest emailed code per address, for verification and password reset
+  verificationCodes: Record<string, string>;
+}
+
+export interface MockState {
+  version: number;
+  users: MockUser[];
+  sessions: MockSession[];
+  legacySessions: LegacySession[];
+  tables: Record<string, Row[]>;
+  legacy: LegacyData;
+}
+
+// Failure raised by a table operation, carrying the Postgres error code
+// PostgREST would report for it
+export class MockDbError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: string | null = null
+  ) {
+    super(message);
+    this.name = 'MockDbError';
+  }
+}
+
+// Who is running the statement; null for the anon key
+export interface DbContext {
+  userId: string | null;
+}
+
+const schema = loadMigratedSchema();
+
+// Tables whose rows get updated_at bumped by the update_consent_timestamp trigger
+const TIMESTAMP_TRIGGER_TABLES = ['user_provider_consents', 'user_consent_grants'];
+// Tables the prevent_consent_event_change trigger keeps append-only
+const APPEND_ONLY_TABLES = ['consent_events'];
+
+export const getTableSchema = (name: string): TableSchema => {
+  const table = schema.tables.get(name);
+  if (!table) {
+    throw new MockDbError(404, '42P01', `relation "public.${name}" does not exist`);
+  }
+  return table;
+};
+
+export const listTables = () => Array.from(schema.tables.values());
+
+let state: MockState | null = null;
+
+const emptyState = (): MockState => ({
+  version: STORAGE_VERSION,
+  users: [],
+  sessions: [],
+  legacySessions: [],
+  tables: Object.fromEntries(listTables().map(table => [table.name, []])),
+  legacy: {
+    companies: [],
+    contracts: [],
+    piNames: [],
+    elements: [],
+    userDataElements: [],
+    notificationSettings: {},
+    settings: {},
+    verificationCodes: {}
+  }
+});
+
+const evaluateDefault = (column: ColumnSchema, context: DbContext): unknown => {
+  const expression = column.defaultExpression;
+  if (!expression) return null;
+
+  switch (expression.toLowerCase()) {
+    case 'uuid_generate_v4()':
+    case 'gen_random_uuid()':
+      return crypto.randomUUID();
+    case 'now()':
+      return new Date().toISOString();
+    case 'auth.uid()':
+      return context.userId;
+    default:
+      return parseLiteral(expression, column.type) ?? null;
+  }
+};
+
+const keyOf = (row: Row, columns: string[]) => JSON.stringify(columns.map(column => row[column] ?? null));
+
+export const findByKey = (tableName: string, values: Row, columns: string[]): Row | undefined => {
+  const key = keyOf(values, columns);
+  return getRows(tableName).find(row => keyOf(row, columns) === key);
+};
+
+const checkForeignKeys = (table: TableSchema, row: Row) => {
+  for (const column of table.columns.values()) {
+    const reference = column.references;
+    const value = row[column.name];
+    if (!reference || value === null || value === undefined) continue;
+
+    const exists = reference.table === 'auth.users'
+      ? getState().users.some(user => user.id === value)
+      : getRows(reference.table).some(target => target[reference.column] === value);
+
+    if (!exists) {
+      throw new MockDbError(
+        409,
+        '23503',
+        `insert or update on table "${table.name}" violates foreign key constraint "${table.name}_${column.name}_fkey"`,
+        `Key (${column.name})=(${String(value)}) is not present in table "${reference.table.replace(/^auth\./, '')}".`
+      );
+    }
+  }
+};
+
+const checkColumns = (table: TableSchema, values: Row) => {
+  for (const name of Object.keys(values)) {
+    if (!table.columns.has(name)) {
+      throw new MockDbError(400, 'PGRST204', `Could not find the '${name}' column of '${table.name}' in the schema cache`);
+    }
+  }
+};
+
+const checkNotNull = (table: TableSchema, row: Row) => {
+  for (const column of table.columns.values()) {
+    if (column.notNull && (row[column.name] === null || row[column.name] === undefined)) {
+      throw new MockDbError(
+        400,
+        '23502',
+        `null value in column "${column.name}" of relation "${table.name}" violates not-null constraint`
+      );
+    }
+  }
+};
+
+export const getState = (): MockState => {
+  if (!state) {
+    throw new Error('The mock backend has not been installed');
+  }
+  return state;
+};
+
+export const getRows = (tableName: string): Row[] => {
+  getTableSchema(tableName);
+  const tables = getState().tables;
+  return (tables[tableName] ??= []);
+};
+
+export const insertRow = (tableName: string, values: Row, context: DbContext): Row => {
+  const table = getTableSchema(tableName);
+  checkColumns(table, values);
+
+  const row: Row = {};
+  for (const column of table.columns.values()) {
+    row[column.name] = column.name in values ? values[column.name] : evaluateDefault(column, context);
+  }
+
+  checkNotNull(table, row);
+  if (table.primaryKey.length > 0 && findByKey(tableName, row, table.primaryKey)) {
+    throw new MockDbError(
+      409,
+      '23505',
+      `duplicate key value violates unique constraint "${tableName}_pkey"`,
+      `Key (${table.primaryKey.join(', ')})=(${table.primaryKey.map(column => String(row[column])).join(', ')}) already exists.`
+    );
+  }
+  checkForeignKeys(table, row);
+
+  getRows(tableName).push(row);
+  return row;
+};
+
+export const updateRows = (tableName: string, rows: Row[], patch: Row): Row[] => {
+  const table = getTableSchema(tableName);
+  checkColumns(table, patch);
+  if (rows.length > 0 && APPEND_ONLY_TABLES.includes(tableName)) {
+    throw new MockDbError(400, 'P0001', `${tableName} is append-only`);
+  }
+
+  return rows.map(row => {
+    const next = { ...row, ...patch };
+    if (TIMESTAMP_TRIGGER_TABLES.includes(tableName)) {
+      next.updated_at = new Date().toISOString();
+    }
+    checkNotNull(table, next);
+    checkForeignKeys(table, next);
+    return Object.assign(row, next);
+  });
+};
+
+// Delete rows and apply each referencing foreign key's ON DELETE action
+export const deleteRows = (tableName: string, rows: Row[], cascading = false): Row[] => {
+  if (rows.length === 0) return rows;
+  if (!cascading && APPEND_ONLY_TABLES.includes(tableName)) {
+    throw new MockDbError(400, 'P0001', `${tableName} is append-only`);
+  }
+
+  for (const table of listTables()) {
+    for (const column of table.columns.values()) {
+      const reference = column.references;
+      if (!reference || reference.table !== tableName) continue;
+
+      const targets = new Set(rows.map(row => row[reference.column]));
+      const dependents = getRows(table.name).filter(row => targets.has(row[column.name]));
+      if (dependents.length === 0) continue;
+
+      if (reference.onDelete === 'cascade') {
+        deleteRows(table.name, dependents, true);
+      } else if (reference.onDelete === 'set null') {
+        dependents.forEach(row => {
+          row[column.name] = null;
+        });
+      } else {
+        throw new MockDbError(
+          409,
+          '23503',
+          `update or delete on table "${tableName}" violates foreign key constraint "${table.name}_${column.name}_fkey" on table "${table.name}"`
+        );
+      }
+    }
+  }
+
+  const removed = new Set(rows);
+  getState().tables[tableName] = getRows(tableName).filter(row => !removed.has(row));
+  return rows;
+};
+
+export const saveState = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getState()));
+  } catch (error) {
+    console.error('Error saving mock backend state:', error);
+  }
+};
+
+// Load the stored state, or build a fresh one from the migrations and seed
+export const loadState = (seed: () => void) => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored) as MockState;
+      if (parsed.version === STORAGE_VERSION) {
+        state = parsed;
+        return;
+      }
+    } catch {
+      // Unreadable state is replaced below
+    }
+  }
+
+  resetState(seed);
+};
+
+export const resetState = (seed: () => void) => {
+  state = emptyState();
+  for (const { table, rows } of schema.seeds) {
+    rows.forEach(row => insertRow(table, row, { userId: null }));
+  }
+  seed();
+  saveState();
+};
@@ -0,0 +1,60 @@
+// Small helpers shared by the mock route handlers
+
+export type MockHandler = (request: Request, url: URL) => Promise<Response> | Response;
+
+export const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(status === 204 ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+
+export const empty = (status = 204, headers: Record<string, string> = {}) =>
+  new Response(null, { status, headers });
+
+export const readJson = async <T = Record<string, unknown>>(request: Request): Promise<T> => {
+  const text = await request.text();
+  return (text ? JSON.parse(text) : {}) as T;
+};
+
+export const bearerToken = (request: Request): string | null => {
+  const header = request.headers.get('Authorization');
+  return header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? null;
+};
+
+// Where a request came from, as a server would log it. Everything runs in
+// this browser, so every session is on this device at the loopback address.
+export const clientDetails = (request: Request) => ({
+  userAgent: request.headers.get('User-Agent') ?? navigator.userAgent,
+  ip: '127.0.0.1'
+});
+
+// Random URL-safe token, used for opaque legacy tokens and refresh tokens
+export const randomToken = (bytes = 24) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64Url = (value: unknown) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(JSON.stringify(value))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string): unknown => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+};
+
+// Unsigned JWT: the Supabase client reads the claims but never verifies the
+// signature, and the mock looks sessions up by id instead
+export const encodeJwt = (claims: Record<string, unknown>) =>
+  `${toBase64Url({ alg: 'HS256', typ: 'JWT' })}.${toBase64Url(claims)}.mock`;
+
+export const decodeJwt = (token: string): Record<string, unknown> | null => {
+  const [, payload] = token.split('.');
+  if (!payload) return null;
+  try {
+    return fromBase64Url(payload) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,82 @@
+import { API_URL, MOCK_SUPABASE_URL } from '../config/constants';
+import { loadState, resetState } from './db';
+import { json } from './http';
+import { handleLegacy } from './legacy';
+import { MOCK_CREDENTIALS, seedMockBackend } from './seed';
+import { authenticate, handleAuth } from './supabase/auth';
+import { handleRest } from './supabase/rest';
+import { handleWebAuthn } from './supabase/webauthn';
+
+// Enough delay for loading states to show, as they would against a real server
+const LATENCY_MS = 150;
+
+const legacyBase = API_URL.replace(/\/+$/, '');
+
+const wait = (signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', abort);
+      resolve();
+    }, LATENCY_MS);
+
+    if (signal.aborted) abort();
+    signal.addEventListener('abort', abort, { once: true });
+  });
+
+type Respond = () => Promise<Response> | Response;
+
+// The handler for a request, or null when it should go to the network
+const route = (request: Request): Respond | null => {
+  const url = new URL(request.url);
+
+  if (request.url.startsWith(`${legacyBase}/`)) {
+    // API_URL ends in a slash and the client adds another
+    const path = request.url.slice(legacyBase.length).split('?')[0].replace(/^\/+/, '');
+    return () => handleLegacy(request, path);
+  }
+
+  if (url.origin === new URL(MOCK_SUPABASE_URL).origin) {
+    const [, service, path] = url.pathname.match(/^\/(auth|rest|functions)\/v1\/(.*)$/) ?? [];
+    if (service === 'auth') return () => handleAuth(request, url, path);
+    if (service === 'rest') return () => handleRest(request, url, path, authenticate(request));
+    if (service === 'functions' && path === 'webauthn') return () => handleWebAuthn(request, authenticate(request));
+    return () => json({ message: `No mock for ${url.pathname}` }, 404);
+  }
+
+  return null;
+};
+
+// Answer the legacy API and Supabase, including the webauthn Edge Function,
+// from in-memory data instead of the network. State is kept in localStorage, so it survives reloads until reset.
+export const installMockBackend = () => {
+  loadState(seedMockBackend);
+
+  const passthrough = window.fetch.bind(window);
+  window.fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const respond = route(request);
+    if (!respond) return passthrough(input, init);
+
+    await wait(request.signal);
+    try {
+      return await respond();
+    } catch (error) {
+      console.error('[mock backend] Unhandled error:', error);
+      return json({ message: error instanceof Error ? error.message : 'Mock backend error' }, 500);
+    }
+  };
+
+  console.info(
+    `[mock backend] Serving the legacy API and Supabase locally; sign in as ${MOCK_CREDENTIALS.email} / ${MOCK_CREDENTIALS.password}`
+  );
+};
+
+// Drop every change and start again from the seed data; reload the page
+// afterwards so nothing keeps the old data
+export const resetMockBackend = () => {
+  resetState(seedMockBackend);
+};
@@ -0,0 +1,331 @@
+import { TENANT } from '../config/constants';
+import { getRows, getState, insertRow, saveState, updateRows, type LegacySession, type MockUser, type Row } from './db';
+import { bearerToken, clientDetails, json, randomToken, readJson } from './http';
+import { createUser } from './seed';
+import { findUserByEmail, userForAccessToken } from './supabase/auth';
+
+const TOKEN_TTL_MS = 60 * 60 * 1000;
+
+type PublicRoute = (body: Row, request: Request) => Response;
+type Route = (body: Row, user: MockUser, request: Request) => Response;
+
+// Error bodies carry a message, which the API client shows
+const failure = (status: number, message: string) => json({ message }, status);
+
+const toLegacyUser = (user: MockUser) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  tenant: TENANT,
+  isEmailVerified: user.emailVerified,
+  phone: user.phone ?? undefined,
+  twoFactorEnabled: user.twoFactorEnabled
+});
+
+const issueTokens = (user: MockUser, request: Request) => {
+  const now = Date.now();
+  const session: LegacySession = {
+    id: crypto.randomUUID(),
+    token: randomToken(),
+    refreshToken: randomToken(),
+    userId: user.id,
+    ...clientDetails(request),
+    expiresAt: now + TOKEN_TTL_MS,
+    createdAt: now,
+    refreshedAt: now
+  };
+  getState().legacySessions.push(session);
+  saveState();
+  return { token: session.token, refreshToken: session.refreshToken };
+};
+
+const currentSession = (request: Request): LegacySession | null => {
+  const token = bearerToken(request);
+  const session = getState().legacySessions.find(candidate => candidate.token === token);
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+const currentUser = (request: Request): MockUser | null => {
+  const session = currentSession(request);
+  return session ? getState().users.find(user => user.id === session.userId) ?? null : null;
+};
+
+const toDeviceSession = (session: LegacySession, request: Request) => ({
+  id: session.id,
+  createdAt: new Date(session.createdAt).toISOString(),
+  lastActiveAt: new Date(session.refreshedAt).toISOString(),
+  userAgent: session.userAgent,
+  ipAddress: session.ip,
+  current: session.token === bearerToken(request)
+});
+
+// Codes are "emailed" to the console
+const sendCode = (email: string) => {
+  const code = String(Math.floor(100000 + Math.random() * 900000));
+  getState().legacy.verificationCodes[email.toLowerCase()] = code;
+  saveState();
+  console.info(`[mock backend] Verification code for ${email}: ${code}`);
+};
+
+const checkCode = (email: string, code: unknown) =>
+  Boolean(code) && getState().legacy.verificationCodes[email.toLowerCase()] === String(code);
+
+// The user's rows without the owner column the real API never returns
+const ownRows = (rows: Row[], user: MockUser) =>
+  rows
+    .filter(row => row.userId === user.id)
+    .map(row => Object.fromEntries(Object.entries(row).filter(([key]) => key !== 'userId')));
+
+const profileRow = (user: MockUser) => getRows('profiles').find(row => row.user_id === user.id);
+
+const publicRoutes: Record<string, PublicRoute> = {
+  'POST login': (body, request) => {
+    const user = findUserByEmail(String(body.email ?? ''));
+    if (!user || user.password !== body.password) {
+      return failure(401, 'Invalid email or password');
+    }
+    return json({ user: toLegacyUser(user), ...issueTokens(user, request) });
+  },
+
+  'POST register': body => {
+    const { email, password, name } = body as { email?: string; password?: string; name?: string };
+    if (!email || !password || !name) return failure(400, 'Name, email and password are required');
+    if (findUserByEmail(email)) return failure(409, 'An account with this email already exists');
+
+    createUser({ email: email.trim(), password, name, emailVerified: false });
+    sendCode(email);
+    return json({ message: 'Registration successful. Please verify your email.' }, 201);
+  },
+
+  'POST refresh-token': body => {
+    const state = getState();
+    const session = state.legacySessions.find(candidate => candidate.refreshToken === body.refreshToken);
+    const user = session && state.users.find(candidate => candidate.id === session.userId);
+    if (!session || !user) return failure(401, 'Invalid refresh token');
+
+    // Refresh tokens are single use; the session keeps its id
+    session.token = randomToken();
+    session.refreshToken = randomToken();
+    session.expiresAt = Date.now() + TOKEN_TTL_MS;
+    session.refreshedAt = Date.now();
+    saveState();
+    return json({ token: session.token, refreshToken: session.refreshToken });
+  },
+
+  // Exchanges a Supabase access token for a legacy token, for the session manager
+  'POST auth/validate-supabase-token': (body, request) => {
+    const user = userForAccessToken(typeof body.supabaseToken === 'string' ? body.supabaseToken : null);
+    if (!user) return failure(401, 'Invalid Supabase token');
+    return json({ user: toLegacyUser(user), ...issueTokens(user, request) });
+  },
+
+  'POST send-Verify-email': body => {
+    if (findUserByEmail(String(body.email ?? ''))) sendCode(String(body.email));
+    return json({ message: 'Verification email sent' });
+  },
+
+  'POST forgot-password': body => {
+    // Answer the same either way so accounts cannot be discovered
+    if (findUserByEmail(String(body.email ?? ''))) sendCode(String(body.email));
+    return json({ message: 'If an account exists, a reset code has been sent' });
+  },
+
+  'POST forgot-password-verify': body => {
+    if (!checkCode(String(body.email ?? ''), body.verification_code)) {
+      return failure(400, 'Invalid or expired verification code');
+    }
+    return json({ message: 'Code verified' });
+  },
+
+  'POST reset-password': body => {
+    const user = findUserByEmail(String(body.email ?? ''));
+    if (!user || typeof body.password !== 'string') return failure(400, 'Unable to reset the password');
+
+    user.password = body.password;
+    user.updatedAt = new Date().toISOString();
+    saveState();
+    return json({ message: 'Password updated' });
+  },
+
+  'POST send-2facode': body => {
+    if (findUserByEmail(String(body.email ?? ''))) sendCode(String(body.email));
+    return json({ message: 'Verification code sent' });
+  }
+};
+
+const routes: Record<string, Route> = {
+  'GET me': (_body, user) => json(toLegacyUser(user)),
+
+  'GET logout': (_body, _user, request) => {
+    const token = bearerToken(request);
+    const state = getState();
+    state.legacySessions = state.legacySessions.filter(session => session.token !== token);
+    saveState();
+    return json({ message: 'Logged out' });
+  },
+
+  'GET sessions': (_body, user, request) => json({
+    sessions: getState().legacySessions
+      .filter(session => session.userId === user.id)
+      .sort((a, b) => b.refreshedAt - a.refreshedAt)
+      .map(session => toDeviceSession(session, request))
+  }),
+
+  'POST revoke-session': (body, user, request) => {
+    const state = getState();
+    const session = state.legacySessions.find(candidate => candidate.id === body.sessionId && candidate.userId === user.id);
+    if (!session) return failure(404, 'Session not found');
+    if (session === currentSession(request)) return failure(400, 'Use logout to end the current session');
+
+    state.legacySessions = state.legacySessions.filter(candidate => candidate !== session);
+    saveState();
+    return json({ message: 'Session revoked' });
+  },
+
+  'POST revoke-other-sessions': (_body, user, request) => {
+    const current = currentSession(request);
+    const state = getState();
+    state.legacySessions = state.legacySessions.filter(session => session.userId !== user.id || session === current);
+    saveState();
+    return json({ message: 'Other sessions revoked' });
+  },
+
+  'POST two-factor-verify-code': (body, user) => {
+    if (!checkCode(user.email, body.verification_code)) {
+      return failure(400, 'Invalid or expired verification code');
+    }
+    return json({ message: 'Code verified' });
+  },
+
+  'POST two-factor-active-inactive': (body, user) => {
+    user.twoFactorEnabled = Boolean(body.active);
+    saveState();
+    return json(toLegacyUser(user));
+  },
+
+  'POST update-password': (body, user) => {
+    if (body.current_password !== user.password) return failure(400, 'Current password is incorrect');
+    if (typeof body.new_password !== 'string') return failure(400, 'A new password is required');
+
+    user.password = body.new_password;
+    user.updatedAt = new Date().toISOString();
+    saveState();
+    return json({ message: 'Password updated' });
+  },
+
+  // The profile is the same row Supabase keeps in profiles
+  'GET profile': (_body, user) => json({ ...toLegacyUser(user), bio: profileRow(user)?.bio ?? '' }),
+
+  'POST profile': (body, user) => {
+    const { name, email, phone, bio } = body as { name?: string; email?: string; phone?: string; bio?: string };
+    if (email && email !== user.email && findUserByEmail(email)) {
+      return failure(409, 'An account with this email already exists');
+    }
+
+    if (name !== undefined) user.name = name;
+    if (email) user.email = email.trim();
+    if (phone !== undefined) user.phone = phone || null;
+    user.updatedAt = new Date().toISOString();
+
+    const patch = { full_name: user.name, phone: user.phone, ...(bio !== undefined && { bio }) };
+    const row = profileRow(user);
+    if (row) {
+      updateRows('profiles', [row], patch);
+    } else {
+      insertRow('profiles', { user_id: user.id, ...patch }, { userId: user.id });
+    }
+    saveState();
+    return json(toLegacyUser(user));
+  },
+
+  // Settings are stored as sent; pages use different field names for them
+  'GET user-notification-settings': (_body, user) => json(getState().legacy.notificationSettings[user.id] ?? {}),
+
+  'POST user-notification-settings': (body, user) => {
+    const settings = getState().legacy.notificationSettings;
+    settings[user.id] = { ...settings[user.id], ...body };
+    saveState();
+    return json(settings[user.id]);
+  },
+
+  'GET settings': (_body, user) => json(getState().legacy.settings[user.id] ?? {}),
+
+  'POST settings': (body, user) => {
+    const settings = getState().legacy.settings;
+    settings[user.id] = { ...settings[user.id], ...body, updatedAt: new Date().toISOString() };
+    saveState();
+    return json(settings[user.id]);
+  },
+
+  'GET contracts': (_body, user) => json({ contracts: ownRows(getState().legacy.contracts, user) }),
+
+  'POST accept-contract': (body, user) => {
+    const contract = getState().legacy.contracts.find(row => row.id === body.contractId && row.userId === user.id);
+    if (!contract) return failure(404, 'Contract not found');
+
+    contract.status = 'active';
+    saveState();
+    return json({ message: 'Contract accepted', contract: ownRows([contract], user)[0] });
+  },
+
+  'POST dispatch-contract-proposal': (body, user) => {
+    if (typeof body.title !== 'string' || !body.title.trim()) return failure(400, 'A title is required');
+
+    const legacy = getState().legacy;
+    const company = legacy.companies.find(row => row.id === body.companyId || row.name === body.providerName);
+    const now = new Date().toISOString();
+    const contract: Row = {
+      id: crypto.randomUUID(),
+      userId: user.id,
+      title: body.title,
+      description: body.description ?? '',
+      status: 'pending',
+      companyId: company?.id ?? null,
+      type: body.type ?? 'Proposal',
+      created_at: now,
+      startDate: body.appointmentDate ?? now
+    };
+    legacy.contracts.push(contract);
+    saveState();
+    return json({ message: 'Proposal sent', contract: ownRows([contract], user)[0] }, 201);
+  },
+
+  'POST company/list': () => json({ companies: getState().legacy.companies }),
+
+  'POST list': () => json({ companies: getState().legacy.companies }),
+
+  'POST company-dashboard': (body, user) => {
+    const legacy = getState().legacy;
+    const company = legacy.companies.find(row => row.id === body.companyId);
+    if (!company) return failure(404, 'Company not found');
+
+    const contracts = ownRows(legacy.contracts, user).filter(row => row.companyId === company.id);
+    return json({
+      ...company,
+      contracts: contracts.length,
+      activeContracts: contracts.filter(row => row.status === 'active').length
+    });
+  },
+
+  'GET get-pinamelist': () => json(getState().legacy.piNames),
+
+  'GET elements': () => json(getState().legacy.elements),
+
+  'POST user-dataelement-list': (_body, user) => json({ userDataElements: ownRows(getState().legacy.userDataElements, user) })
+};
+
+// Stand-in for the legacy REST API at API_URL
+export const handleLegacy = async (request: Request, path: string) => {
+  const key = `${request.method} ${path}`;
+  const body = request.method === 'GET' ? {} : await readJson<Row>(request);
+
+  const publicRoute = publicRoutes[key];
+  if (publicRoute) return publicRoute(body, request);
+
+  const route = routes[key];
+  if (!route) return failure(404, `No mock for ${key}`);
+
+  const user = currentUser(request);
+  if (!user) return failure(401, 'Unauthorized');
+  return route(body, user, request);
+};
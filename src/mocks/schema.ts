@@ -0,0 +1,171 @@
+// Reads the Supabase migrations so the mock database has the same tables,
+// column defaults, keys and seed rows as a freshly migrated project
+
+export type Row = Record<string, unknown>;
+
+export interface ForeignKey {
+  table: string;
+  column: string;
+  onDelete: 'cascade' | 'set null' | 'restrict';
+}
+
+export interface ColumnSchema {
+  name: string;
+  type: string;
+  notNull: boolean;
+  // SQL default expression, evaluated when a row is inserted without the column
+  defaultExpression?: string;
+  // e.g. providers(id) for provider_id
+  references?: ForeignKey;
+}
+
+export interface TableSchema {
+  name: string;
+  columns: Map<string, ColumnSchema>;
+  primaryKey: string[];
+}
+
+export interface MigratedSchema {
+  tables: Map<string, TableSchema>;
+  seeds: { table: string; rows: Row[] }[];
+}
+
+const migrations = import.meta.glob('../../supabase/migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true
+}) as Record<string, string>;
+
+const TABLE_CONSTRAINTS = /^(PRIMARY KEY|UNIQUE|CONSTRAINT|FOREIGN KEY|CHECK)\b/i;
+
+// Split on commas that are not inside parentheses or quotes
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const stripComments = (sql: string) => sql.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--.*$/gm, '');
+
+const parseColumn = (definition: string): ColumnSchema | null => {
+  const match = definition.match(/^(\w+)\s+([A-Z]+(?:\s+WITH(?:OUT)? TIME ZONE)?(?:\[\])?)/i);
+  if (!match) return null;
+
+  const defaultMatch = definition.match(/DEFAULT\s+('(?:[^']|'')*'(?:::\w+(?:\[\])?)?|[\w.]+\(\)|[\w.]+|-?\d+(?:\.\d+)?)/i);
+  const referenceMatch = definition.match(/REFERENCES\s+([\w.]+)\s*\((\w+)\)(?:\s+ON DELETE\s+(CASCADE|SET NULL))?/i);
+
+  return {
+    name: match[1],
+    type: match[2].toUpperCase(),
+    notNull: /NOT NULL|PRIMARY KEY/i.test(definition),
+    defaultExpression: defaultMatch?.[1],
+    references: referenceMatch
+      ? {
+          table: referenceMatch[1],
+          column: referenceMatch[2],
+          onDelete: (referenceMatch[3]?.toLowerCase() as ForeignKey['onDelete'] | undefined) ?? 'restrict'
+        }
+      : undefined
+  };
+};
+
+// Turn a SQL literal into the JSON value PostgREST would return for it
+export const parseLiteral = (literal: string, type = ''): unknown => {
+  const value = literal.trim();
+  if (/^null$/i.test(value)) return null;
+  if (/^true$/i.test(value)) return true;
+  if (/^false$/i.test(value)) return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+
+  const quoted = value.match(/^'((?:[^']|'')*)'(?:::(\w+(?:\[\])?))?$/);
+  if (!quoted) return undefined;
+
+  const text = quoted[1].replace(/''/g, "'");
+  const cast = (quoted[2] || type).toUpperCase();
+  if (cast.startsWith('JSON')) return JSON.parse(text);
+  if (cast.endsWith('[]')) {
+    const inner = text.replace(/^\{|\}$/g, '');
+    return inner ? inner.split(',').map(item => item.trim().replace(/^"|"$/g, '')) : [];
+  }
+  return text;
+};
+
+const parseCreateTable = (name: string, body: string): TableSchema => {
+  const table: TableSchema = { name, columns: new Map(), primaryKey: [] };
+
+  for (const definition of splitTopLevel(body)) {
+    const compositeKey = definition.match(/^PRIMARY KEY\s*\(([^)]*)\)/i);
+    if (compositeKey) {
+      table.primaryKey = compositeKey[1].split(',').map(column => column.trim());
+      continue;
+    }
+    if (TABLE_CONSTRAINTS.test(definition)) continue;
+
+    const column = parseColumn(definition);
+    if (!column) continue;
+    table.columns.set(column.name, column);
+    if (/PRIMARY KEY/i.test(definition)) table.primaryKey = [column.name];
+  }
+
+  return table;
+};
+
+// Only top-level INSERT ... VALUES statements with literal values are seeds;
+// inserts inside functions and INSERT ... SELECT backfills are skipped
+const parseInsert = (columns: string, values: string): Row[] => {
+  const names = columns.split(',').map(column => column.trim());
+  const tuples = splitTopLevel(values).map(tuple => tuple.replace(/^\(|\)$/g, ''));
+
+  return tuples.flatMap(tuple => {
+    const literals = splitTopLevel(tuple).map(literal => parseLiteral(literal));
+    if (literals.length !== names.length || literals.some(literal => literal === undefined)) return [];
+    return [Object.fromEntries(names.map((name, index) => [name, literals[index]]))];
+  });
+};
+
+export const loadMigratedSchema = (): MigratedSchema => {
+  const tables = new Map<string, TableSchema>();
+  const seeds: MigratedSchema['seeds'] = [];
+
+  // Apply the migrations in filename (timestamp) order
+  const files = Object.keys(migrations).sort();
+
+  for (const file of files) {
+    const sql = stripComments(migrations[file]);
+
+    for (const match of sql.matchAll(/CREATE TABLE IF NOT EXISTS\s+(\w+)\s*\(([\s\S]*?)\n\);/gi)) {
+      tables.set(match[1], parseCreateTable(match[1], match[2]));
+    }
+
+    for (const match of sql.matchAll(/ALTER TABLE\s+(\w+)\s+(ADD COLUMN[\s\S]*?);/gi)) {
+      const table = tables.get(match[1]);
+      if (!table) continue;
+
+      for (const clause of splitTopLevel(match[2])) {
+        const column = parseColumn(clause.replace(/^ADD COLUMN\s+(IF NOT EXISTS\s+)?/i, ''));
+        if (column) table.columns.set(column.name, column);
+      }
+    }
+
+    for (const match of sql.matchAll(/^INSERT INTO\s+(\w+)\s*\(([^)]*)\)\s*VALUES\s*([\s\S]*?);/gim)) {
+      seeds.push({ table: match[1], rows: parseInsert(match[2], match[3]) });
+    }
+  }
+
+  return { tables, seeds };
+};
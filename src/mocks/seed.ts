@@ -0,0 +1,371 @@
+import { demoPatient } from '../services/demo';
+import { getRows, getState, insertRow, type MockUser, type Row } from './db';
+import { randomToken } from './http';
+
+// Sign in with these to see the seeded data
+export const MOCK_CREDENTIALS = {
+  email: 'demo@elroi.test',
+  password: 'Password123!'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString();
+
+// Fixed ids so bookmarks and stored state keep pointing at the same rows.
+// The legacy API and Supabase describe the same providers, so the legacy
+// companies reuse the provider ids.
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const CARED_FOR_USER_ID = '00000000-0000-4000-8000-000000000002';
+const PROVIDER_IDS = {
+  baptist: '00000000-0000-4000-8000-000000000101',
+  pharmacy: '00000000-0000-4000-8000-000000000102',
+  va: '00000000-0000-4000-8000-000000000103'
+};
+
+const dataTypeId = (name: string) => {
+  const dataType = getRows('data_types').find(row => row.name === name);
+  if (!dataType) throw new Error(`The migrations no longer seed the "${name}" data type`);
+  return dataType.id as string;
+};
+
+// Adds a user the way Supabase sign-up does, including the profile row the
+// on_auth_user_created trigger inserts
+export const createUser = (values: Pick<MockUser, 'email' | 'password' | 'name'> & Partial<MockUser>): MockUser => {
+  const now = new Date().toISOString();
+  const user: MockUser = {
+    id: crypto.randomUUID(),
+    phone: null,
+    emailVerified: true,
+    twoFactorEnabled: false,
+    metadata: { name: values.name },
+    factors: [],
+    createdAt: now,
+    updatedAt: now,
+    ...values
+  };
+
+  getState().users.push(user);
+  insertRow('profiles', { user_id: user.id, full_name: user.name }, { userId: user.id });
+  return user;
+};
+
+const seedSupabase = (userId: string) => {
+  const context = { userId };
+
+  const providers: Row[] = [
+    { id: PROVIDER_IDS.baptist, name: 'Baptist Health', category: 'Primary Care', status: 'active', logo: '/elroi-logo.svg' },
+    { id: PROVIDER_IDS.pharmacy, name: 'HealthMart Pharmacy', category: 'Pharmacy', status: 'inactive', logo: '/elroi-logo.svg' },
+    { id: PROVIDER_IDS.va, name: 'VA Medical Center', category: 'Cardiology', status: 'active', logo: '/elroi-logo.svg' }
+  ];
+  providers.forEach(provider => insertRow('providers', provider, context));
+
+  const offered: [string, string[]][] = [
+    [PROVIDER_IDS.baptist, ['Lab Results', 'Prescriptions', 'Fitness Metrics']],
+    [PROVIDER_IDS.pharmacy, ['Prescriptions']],
+    [PROVIDER_IDS.va, ['Lab Results', 'Prescriptions', 'Vital Signs']]
+  ];
+  for (const [providerId, names] of offered) {
+    names.forEach(name => insertRow('provider_data_types', { provider_id: providerId, data_type_id: dataTypeId(name) }, context));
+  }
+
+  // Baptist Health's consent runs out soon so the renewal prompts show up
+  insertRow('user_provider_consents', {
+    user_id: userId,
+    provider_id: PROVIDER_IDS.baptist,
+    approved: true,
+    start_date: daysFromNow(-30),
+    end_date: daysFromNow(5)
+  }, context);
+  insertRow('user_provider_consents', {
+    user_id: userId,
+    provider_id: PROVIDER_IDS.va,
+    approved: true,
+    start_date: daysFromNow(-60)
+  }, context);
+
+  const grants: [string, string, string[]][] = [
+    [PROVIDER_IDS.baptist, 'Lab Results', ['treatment']],
+    [PROVIDER_IDS.baptist, 'Prescriptions', ['treatment']],
+    [PROVIDER_IDS.baptist, 'Fitness Metrics', ['treatment']],
+    [PROVIDER_IDS.va, 'Lab Results', ['treatment', 'research']],
+    [PROVIDER_IDS.va, 'Prescriptions', ['treatment']]
+  ];
+  for (const [providerId, name, purposes] of grants) {
+    insertRow('user_consent_grants', {
+      user_id: userId,
+      provider_id: providerId,
+      data_type_id: dataTypeId(name),
+      granted: true,
+      purposes
+    }, context);
+  }
+
+  // The ledger starts with the grants above
+  for (const providerId of [PROVIDER_IDS.baptist, PROVIDER_IDS.va]) {
+    const scopes = grants
+      .filter(([grantProviderId]) => grantProviderId === providerId)
+      .map(([, name, purposes]) => ({ dataTypeId: dataTypeId(name), name, purposes }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    insertRow('consent_events', {
+      user_id: userId,
+      provider_id: providerId,
+      actor_id: userId,
+      event_type: 'grant',
+      scopes_before: [],
+      scopes_after: scopes,
+      created_at: daysFromNow(providerId === PROVIDER_IDS.baptist ? -30 : -60)
+    }, context);
+  }
+
+  insertRow('appointments', {
+    user_id: userId,
+    provider_id: PROVIDER_IDS.baptist,
+    type: 'Annual Check-up',
+    date: daysFromNow(3).split('T')[0],
+    time: '10:30',
+    status: 'confirmed',
+    details: {
+      doctorName: 'Dr. Emily Carter',
+      specialty: 'Primary Care',
+      location: 'Baptist Health Medical Center',
+      address: 'Chicago, IL',
+      status: 'confirmed'
+    }
+  }, context);
+  insertRow('appointments', {
+    user_id: userId,
+    provider_id: PROVIDER_IDS.va,
+    type: 'Follow-up Visit',
+    date: daysFromNow(10).split('T')[0],
+    time: '14:00',
+    status: 'pending',
+    details: {
+      doctorName: 'Dr. Raj Patel',
+      specialty: 'Cardiology',
+      location: 'VA Medical Center',
+      address: 'Chicago, IL',
+      status: 'pending'
+    }
+  }, context);
+
+  insertRow('health_metrics', {
+    user_id: userId,
+    metric_type: 'Blood Pressure',
+    value: '120/80',
+    unit: 'mmHg',
+    recorded_at: daysFromNow(-1),
+    source: 'manual entry'
+  }, context);
+  insertRow('health_metrics', {
+    user_id: userId,
+    metric_type: 'Heart Rate',
+    value: '72',
+    unit: 'bpm',
+    recorded_at: daysFromNow(-1),
+    source: 'manual entry'
+  }, context);
+
+  insertRow('health_records', {
+    user_id: userId,
+    provider_id: PROVIDER_IDS.baptist,
+    title: 'Annual Physical Results',
+    content: 'Routine annual physical. Blood pressure 120/80 mmHg, heart rate 72 bpm.',
+    type: 'visit',
+    created_at: daysFromNow(-20)
+  }, context);
+  insertRow('health_records', {
+    user_id: userId,
+    provider_id: PROVIDER_IDS.va,
+    title: 'Blood Test Results',
+    content: 'Blood glucose 126 mg/dL, total cholesterol 195 mg/dL, LDL 128 mg/dL.',
+    type: 'lab',
+    created_at: daysFromNow(-35)
+  }, context);
+
+  insertRow('contracts', {
+    user_id: userId,
+    provider_id: PROVIDER_IDS.baptist,
+    title: 'Primary care data sharing',
+    description: 'Share lab results and prescriptions with Baptist Health',
+    status: 'active',
+    type: 'Data Sharing',
+    start_date: daysFromNow(-30),
+    end_date: daysFromNow(5)
+  }, context);
+
+  insertRow('user_settings', { user_id: userId }, context);
+
+  // The contracts page is unfinished; the demo user can try it
+  insertRow('feature_flag_overrides', { flag: 'contracts', user_id: userId, enabled: true }, context);
+};
+
+const seedLegacy = (userId: string) => {
+  const legacy = getState().legacy;
+
+  legacy.companies = [
+    { id: PROVIDER_IDS.baptist, name: 'Baptist Health', logo: '/elroi-logo.svg', type: 'Health Analytics', active: true },
+    { id: PROVIDER_IDS.pharmacy, name: 'HealthMart Pharmacy', logo: '/elroi-logo.svg', type: 'Pharmacy', active: true },
+    { id: PROVIDER_IDS.va, name: 'VA Medical Center', logo: '/elroi-logo.svg', type: 'Cardiology', active: true }
+  ];
+
+  legacy.contracts = [
+    {
+      id: 'contract-1',
+      userId,
+      title: 'Lab Results Sharing',
+      description: 'Share your lab results with Baptist Health for treatment',
+      status: 'active',
+      companyId: PROVIDER_IDS.baptist,
+      type: 'Medical',
+      created_at: daysFromNow(-30),
+      startDate: daysFromNow(-30)
+    },
+    {
+      id: 'contract-2',
+      userId,
+      title: 'Prescription History',
+      description: 'HealthMart Pharmacy requests access to your prescriptions',
+      status: 'pending',
+      companyId: PROVIDER_IDS.pharmacy,
+      type: 'Medication',
+      created_at: daysFromNow(-1),
+      startDate: daysFromNow(2)
+    },
+    {
+      id: 'contract-3',
+      userId,
+      title: 'Cardiology Report',
+      description: 'Quarterly cardiology report from VA Medical Center',
+      status: 'active',
+      companyId: PROVIDER_IDS.va,
+      type: 'Appointment',
+      created_at: daysFromNow(0),
+      startDate: daysFromNow(10)
+    }
+  ];
+
+  legacy.piNames = [
+    { id: 'pi-general', name: 'General', description: 'Basic personal and demographic information' },
+    { id: 'pi-medical', name: 'Medical Files', description: 'Summary information for received medical files' }
+  ];
+
+  legacy.elements = [
+    { id: 'element-name', name: 'Full Name', description: 'Your legal name', pi_name_id: 'pi-general', section: 'Personal Information' },
+    { id: 'element-dob', name: 'Date of Birth', description: 'Your date of birth', pi_name_id: 'pi-general', section: 'Personal Information' },
+    { id: 'element-email', name: 'Email Address', description: 'Where providers can reach you', pi_name_id: 'pi-general', section: 'Contact Information' },
+    { id: 'element-phone', name: 'Phone Number', description: 'Your mobile number', pi_name_id: 'pi-general', section: 'Contact Information' },
+    { id: 'element-glucose', name: 'Blood Glucose', description: 'Latest blood glucose reading', pi_name_id: 'pi-medical', section: 'Lab Results' },
+    { id: 'element-ldl', name: 'LDL', description: 'Latest LDL cholesterol reading', pi_name_id: 'pi-medical', section: 'Lab Results' },
+    { id: 'element-pressure', name: 'Blood Pressure', description: 'Latest blood pressure reading', pi_name_id: 'pi-medical', section: 'Vital Signs' }
+  ];
+
+  legacy.userDataElements = [
+    { userId, dataElementId: 'element-name', updated_at: daysFromNow(-30), name: 'Full Name', value: demoPatient.name, category: 'general' },
+    { userId, dataElementId: 'element-email', updated_at: daysFromNow(-30), name: 'Email Address', value: MOCK_CREDENTIALS.email, category: 'general' },
+    { userId, dataElementId: 'element-glucose', updated_at: daysFromNow(-20), name: 'Blood Glucose', value: '126', category: 'vital' },
+    { userId, dataElementId: 'element-ldl', updated_at: daysFromNow(-25), name: 'LDL', value: '128', category: 'vital' },
+    { userId, dataElementId: 'element-pressure', updated_at: daysFromNow(-23), name: 'Blood Pressure', value: '138/82', category: 'vital' }
+  ];
+
+  legacy.notificationSettings[userId] = {
+    emailNotifications: true,
+    smsNotifications: false,
+    appNotifications: true
+  };
+  legacy.settings[userId] = {
+    privacyEnabled: true,
+    dataManagementEnabled: true,
+    dataSharing: false,
+    updatedAt: daysFromNow(-30)
+  };
+};
+
+// A phone the demo user signed in on earlier, in both systems, so the
+// Sessions & devices settings have another device to sign out
+const seedOtherDevice = (userId: string) => {
+  const device = {
+    userId,
+    refreshToken: randomToken(),
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+    ip: '203.0.113.24',
+    createdAt: Date.now() - 3 * DAY_MS,
+    refreshedAt: Date.now() - 2 * 60 * 60 * 1000,
+    expiresAt: Date.now() - 60 * 60 * 1000
+  };
+
+  getState().sessions.push({ ...device, id: crypto.randomUUID(), aal: 'aal1', method: 'password' });
+  getState().legacySessions.push({ ...device, id: crypto.randomUUID(), token: randomToken(), refreshToken: randomToken() });
+};
+
+// A veteran who made the demo user their caregiver, so the account switcher
+// has someone to act on behalf of. They can sign in with the demo password.
+const seedCaredForUser = (caregiverId: string) => {
+  const veteran = createUser({
+    id: CARED_FOR_USER_ID,
+    email: 'robert@elroi.test',
+    password: MOCK_CREDENTIALS.password,
+    name: 'Robert Miller'
+  });
+  const context = { userId: veteran.id };
+
+  insertRow('caregiver_delegations', {
+    user_id: veteran.id,
+    owner_name: veteran.name,
+    caregiver_email: MOCK_CREDENTIALS.email,
+    caregiver_id: caregiverId,
+    roles: ['view_records', 'manage_appointments'],
+    status: 'active',
+    created_at: daysFromNow(-15),
+    accepted_at: daysFromNow(-14)
+  }, context);
+
+  insertRow('user_provider_consents', {
+    user_id: veteran.id,
+    provider_id: PROVIDER_IDS.va,
+    approved: true,
+    start_date: daysFromNow(-90)
+  }, context);
+
+  insertRow('appointments', {
+    user_id: veteran.id,
+    provider_id: PROVIDER_IDS.va,
+    type: 'Physical Therapy',
+    date: daysFromNow(5).split('T')[0],
+    time: '09:00',
+    status: 'confirmed',
+    details: {
+      doctorName: 'Dr. Lena Brooks',
+      specialty: 'Physical Therapy',
+      location: 'VA Medical Center',
+      address: 'Chicago, IL',
+      status: 'confirmed'
+    }
+  }, context);
+
+  insertRow('health_records', {
+    user_id: veteran.id,
+    provider_id: PROVIDER_IDS.va,
+    title: 'Knee Replacement Follow-up',
+    content: 'Healing well. Continue physical therapy twice a week for six weeks.',
+    type: 'visit',
+    created_at: daysFromNow(-10)
+  }, context);
+};
+
+// Fill a fresh mock backend with the demo account, data for every page, and
+// someone the demo user is a caregiver for
+export const seedMockBackend = () => {
+  const user = createUser({
+    id: USER_ID,
+    email: MOCK_CREDENTIALS.email,
+    password: MOCK_CREDENTIALS.password,
+    name: demoPatient.name
+  });
+
+  seedSupabase(user.id);
+  seedLegacy(user.id);
+  seedOtherDevice(user.id);
+  seedCaredForUser(user.id);
+};
@@ -0,0 +1,458 @@
+import { getState, saveState, type MockFactor, type MockSession, type MockUser } from '../db';
+import { bearerToken, clientDetails, decodeJwt, empty, encodeJwt, json, randomToken, readJson, type MockHandler } from '../http';
+import { createUser } from '../seed';
+import { verificationAttempt } from './rateLimits';
+import { currentTotp, generateSecret, otpauthUri, verifyTotp } from './totp';
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAGIC_LINK_TTL_SECONDS = 60;
+const RECOVERY_TTL_SECONDS = 60 * 60;
+
+// Errors in the shape GoTrue returns, which the Supabase client turns into AuthErrors
+const authError = (status: number, errorCode: string, message: string) =>
+  json({ code: status, error_code: errorCode, msg: message }, status);
+
+const toSupabaseFactor = (factor: MockFactor) => ({
+  id: factor.id,
+  friendly_name: factor.friendlyName,
+  factor_type: 'totp',
+  status: factor.status,
+  created_at: factor.createdAt,
+  updated_at: factor.updatedAt
+});
+
+const toSupabaseUser = (user: MockUser) => ({
+  id: user.id,
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: user.email,
+  email_confirmed_at: user.emailVerified ? user.createdAt : null,
+  phone: user.phone ?? '',
+  confirmed_at: user.emailVerified ? user.createdAt : null,
+  app_metadata: { provider: 'email', providers: ['email'] },
+  user_metadata: user.metadata,
+  identities: [],
+  factors: user.factors.map(toSupabaseFactor),
+  created_at: user.createdAt,
+  updated_at: user.updatedAt,
+  is_anonymous: false
+});
+
+// The access and refresh tokens for a session; the first sign-in method goes
+// into the amr claim: password, otp for a magic link, or recovery for a
+// password reset link or code
+const sessionTokens = (user: MockUser, session: MockSession) => {
+  saveState();
+
+  const issuedAt = Math.floor(session.refreshedAt / 1000);
+  const expiresAt = Math.floor(session.expiresAt / 1000);
+  return {
+    access_token: encodeJwt({
+      sub: user.id,
+      email: user.email,
+      role: 'authenticated',
+      aud: 'authenticated',
+      session_id: session.id,
+      aal: session.aal,
+      amr: [
+        { method: session.method, timestamp: Math.floor(session.createdAt / 1000) },
+        ...(session.aal === 'aal2'
+          ? [{ method: 'totp', timestamp: Math.floor((session.factorVerifiedAt ?? session.refreshedAt) / 1000) }]
+          : [])
+      ],
+      iat: issuedAt,
+      exp: expiresAt
+    }),
+    token_type: 'bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    expires_at: expiresAt,
+    refresh_token: session.refreshToken,
+    user: toSupabaseUser(user)
+  };
+};
+
+const issueSession = (user: MockUser, request: Request, aal: MockSession['aal'] = 'aal1', method = 'password') => {
+  const now = Date.now();
+  const session: MockSession = {
+    id: crypto.randomUUID(),
+    userId: user.id,
+    refreshToken: randomToken(),
+    aal,
+    method,
+    ...clientDetails(request),
+    expiresAt: now + ACCESS_TOKEN_TTL_SECONDS * 1000,
+    createdAt: now,
+    refreshedAt: now
+  };
+  getState().sessions.push(session);
+  return sessionTokens(user, session);
+};
+
+// Refreshing or verifying a factor keeps the session, as GoTrue does, with a
+// new refresh token; the old one stops working
+const renewSession = (user: MockUser, session: MockSession, aal = session.aal) => {
+  const now = Date.now();
+  session.refreshToken = randomToken();
+  session.aal = aal;
+  session.expiresAt = now + ACCESS_TOKEN_TTL_SECONDS * 1000;
+  session.refreshedAt = now;
+  return sessionTokens(user, session);
+};
+
+const findSession = (accessToken: string | null): MockSession | null => {
+  if (!accessToken) return null;
+  const claims = decodeJwt(accessToken);
+  const session = getState().sessions.find(candidate => candidate.id === claims?.session_id);
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+// The user behind a Supabase access token; null for the anon key and for
+// expired or signed-out sessions
+export const userForAccessToken = (accessToken: string | null): MockUser | null => {
+  const session = findSession(accessToken);
+  return session ? getState().users.find(user => user.id === session.userId) ?? null : null;
+};
+
+export const authenticate = (request: Request) => userForAccessToken(bearerToken(request));
+
+// The assurance level of the session behind a request, for database functions
+// that check auth.jwt() ->> 'aal'
+export const assuranceLevel = (request: Request) => findSession(bearerToken(request))?.aal ?? null;
+
+// The id of the session behind a request, for database functions that check
+// auth.jwt() ->> 'session_id'
+export const sessionId = (request: Request) => findSession(bearerToken(request))?.id ?? null;
+
+// When the session behind a request last verified a factor, in epoch
+// milliseconds, for database functions that read the totp entry of amr
+export const factorVerifiedAt = (request: Request) => {
+  const session = findSession(bearerToken(request));
+  return session?.aal === 'aal2' ? session.factorVerifiedAt ?? session.refreshedAt : null;
+};
+
+export const findUserByEmail = (email: string) =>
+  getState().users.find(user => user.email.toLowerCase() === email.trim().toLowerCase());
+
+const signUp: MockHandler = async request => {
+  const { email, password, data } = await readJson<{ email?: string; password?: string; data?: Record<string, unknown> }>(request);
+  if (!email || !password) {
+    return authError(400, 'validation_failed', 'Signup requires a valid email and password');
+  }
+  if (findUserByEmail(email)) {
+    return authError(422, 'user_already_exists', 'User already registered');
+  }
+
+  // Email confirmation is off, so sign-up signs the user straight in
+  const user = createUser({
+    email: email.trim(),
+    password,
+    name: typeof data?.name === 'string' ? data.name : '',
+    metadata: data ?? {}
+  });
+  return json(issueSession(user, request));
+};
+
+const token: MockHandler = async (request, url) => {
+  const grantType = url.searchParams.get('grant_type');
+  const body = await readJson<{ email?: string; password?: string; refresh_token?: string }>(request);
+
+  if (grantType === 'password') {
+    const user = body.email ? findUserByEmail(body.email) : undefined;
+    if (!user) {
+      return authError(400, 'invalid_credentials', 'Invalid login credentials');
+    }
+
+    // The password verification hook sees every check of a known user's password
+    const valid = user.password === body.password;
+    const rejection = verificationAttempt('login', user.id, valid);
+    saveState();
+    if (rejection) return authError(400, 'invalid_credentials', rejection);
+    if (!valid) return authError(400, 'invalid_credentials', 'Invalid login credentials');
+    return json(issueSession(user, request));
+  }
+
+  if (grantType === 'refresh_token') {
+    const state = getState();
+    const session = state.sessions.find(candidate => candidate.refreshToken === body.refresh_token);
+    const user = session && state.users.find(candidate => candidate.id === session.userId);
+    if (!session || !user) {
+      return authError(400, 'refresh_token_not_found', 'Invalid Refresh Token: Refresh Token Not Found');
+    }
+    // Refresh tokens are single use
+    return json(renewSession(user, session));
+  }
+
+  return authError(400, 'unsupported_grant_type', `Unsupported grant type: ${grantType}`);
+};
+
+const user: MockHandler = async request => {
+  const session = findSession(bearerToken(request));
+  const current = authenticate(request);
+  if (!session || !current) {
+    return authError(403, 'bad_jwt', 'invalid JWT: unable to parse or verify signature, token is expired');
+  }
+
+  if (request.method === 'PUT') {
+    const { email, password, data } = await readJson<{ email?: string; password?: string; data?: Record<string, unknown> }>(request);
+    if (email && email !== current.email && findUserByEmail(email)) {
+      return authError(422, 'email_exists', 'A user with this email address has already been registered');
+    }
+    if ((email || password) && session.aal !== 'aal2' && current.factors.some(factor => factor.status === 'verified')) {
+      return authError(401, 'insufficient_aal', 'AAL2 session is required to update email or password when MFA is enabled.');
+    }
+    if (password && password === current.password) {
+      return authError(422, 'same_password', 'New password should be different from the old password.');
+    }
+
+    if (email) current.email = email.trim();
+    if (password) current.password = password;
+    if (data) {
+      current.metadata = { ...current.metadata, ...data };
+      if (typeof data.name === 'string') current.name = data.name;
+    }
+    current.updatedAt = new Date().toISOString();
+    saveState();
+  }
+
+  return json(toSupabaseUser(current));
+};
+
+const logout: MockHandler = (request, url) => {
+  const state = getState();
+  const session = findSession(bearerToken(request));
+  if (session) {
+    // Global sign-out ends every session of the user, local only this one and
+    // others every one but this
+    const scope = url.searchParams.get('scope') ?? 'global';
+    state.sessions = state.sessions.filter(candidate =>
+      candidate.userId !== session.userId ||
+      (scope === 'local' && candidate !== session) ||
+      (scope === 'others' && candidate === session)
+    );
+    saveState();
+  }
+  return empty();
+};
+
+// Password reset codes, by user id; they do not outlive a reload
+const recoveryCodes = new Map<string, { code: string; expiresAt: number }>();
+
+// The reset email is printed to the console: a code, and the link GoTrue's
+// verify endpoint would redirect to, carrying the recovery session. Unknown
+// addresses are accepted the same way, as GoTrue does.
+const recover: MockHandler = async (request, url) => {
+  const { email } = await readJson<{ email?: string }>(request);
+  const owner = email ? findUserByEmail(email) : undefined;
+  if (!owner) return json({});
+
+  const code = String(Math.floor(100000 + Math.random() * 900000));
+  recoveryCodes.set(owner.id, { code, expiresAt: Date.now() + RECOVERY_TTL_SECONDS * 1000 });
+
+  const redirectTo = url.searchParams.get('redirect_to') ?? window.location.origin;
+  const session = issueSession(owner, request, 'aal1', 'recovery');
+  const fragment = new URLSearchParams({
+    access_token: session.access_token,
+    expires_at: String(session.expires_at),
+    expires_in: String(session.expires_in),
+    refresh_token: session.refresh_token,
+    token_type: session.token_type,
+    type: 'recovery'
+  });
+  console.info(`[mock backend] Password reset for ${owner.email}: code ${code}, or open ${redirectTo}#${fragment}`);
+  return json({});
+};
+
+// One-time magic link token hashes, by hash; they do not outlive a reload
+const magicLinks = new Map<string, { userId: string; expiresAt: number }>();
+
+// What GoTrue's admin generateLink returns as hashed_token, for stand-ins of
+// server code that signs a user in, such as the webauthn relying party
+export const issueMagicLink = (owner: MockUser) => {
+  const tokenHash = randomToken();
+  magicLinks.set(tokenHash, { userId: owner.id, expiresAt: Date.now() + MAGIC_LINK_TTL_SECONDS * 1000 });
+  return tokenHash;
+};
+
+const verifyRecovery = (request: Request, email: string | undefined, token: string | undefined) => {
+  const owner = email ? findUserByEmail(email) : undefined;
+  const entry = owner && recoveryCodes.get(owner.id);
+  if (!owner || !entry || entry.expiresAt <= Date.now() || entry.code !== token) {
+    return authError(403, 'otp_expired', 'Token has expired or is invalid');
+  }
+
+  recoveryCodes.delete(owner.id);
+  return json(issueSession(owner, request, 'aal1', 'recovery'));
+};
+
+const verify: MockHandler = async request => {
+  const { type, token_hash: tokenHash, email, token } = await readJson<{
+    type?: string;
+    token_hash?: string;
+    email?: string;
+    token?: string;
+  }>(request);
+  if (type === 'recovery') return verifyRecovery(request, email, token);
+
+  const link = tokenHash ? magicLinks.get(tokenHash) : undefined;
+  const owner = link && getState().users.find(candidate => candidate.id === link.userId);
+  if (type !== 'magiclink' || !link || link.expiresAt <= Date.now() || !owner) {
+    return authError(403, 'otp_expired', 'Email link is invalid or has expired');
+  }
+
+  magicLinks.delete(tokenHash!);
+  return json(issueSession(owner, request, 'aal1', 'otp'));
+};
+
+// Challenges waiting for a code, by id; they do not outlive a reload
+const challenges = new Map<string, { factorId: string; expiresAt: number }>();
+
+const currentSession = (request: Request) => {
+  const session = findSession(bearerToken(request));
+  const owner = session && getState().users.find(candidate => candidate.id === session.userId);
+  return session && owner ? { session, user: owner } : null;
+};
+
+const invalidJwt = () => authError(403, 'bad_jwt', 'invalid JWT: unable to parse or verify signature, token is expired');
+
+// GoTrue renders a QR code here; the mock shows the key to type in instead
+const placeholderQr = (secret: string) =>
+  '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200">' +
+  '<rect width="200" height="200" fill="white" stroke="gray"/>' +
+  '<text x="100" y="90" font-family="sans-serif" font-size="12" text-anchor="middle" fill="gray">Mock backend: enter</text>' +
+  '<text x="100" y="108" font-family="sans-serif" font-size="12" text-anchor="middle" fill="gray">the setup key instead</text>' +
+  `<text x="100" y="130" font-family="monospace" font-size="9" text-anchor="middle" fill="black">${secret.slice(0, 16)}</text>` +
+  `<text x="100" y="142" font-family="monospace" font-size="9" text-anchor="middle" fill="black">${secret.slice(16)}</text>` +
+  '</svg>';
+
+const enrollFactor: MockHandler = async request => {
+  const current = currentSession(request);
+  if (!current) return invalidJwt();
+
+  const { session, user: owner } = current;
+  const body = await readJson<{ friendly_name?: string; factor_type?: string; issuer?: string }>(request);
+  if (body.factor_type !== 'totp') {
+    return authError(422, 'mfa_factor_type_unsupported', 'Only TOTP factors are supported');
+  }
+  if (owner.factors.some(factor => factor.status === 'verified') && session.aal !== 'aal2') {
+    return authError(403, 'insufficient_aal', 'AAL2 required to enroll a new factor');
+  }
+
+  const friendlyName = body.friendly_name ?? '';
+  if (friendlyName && owner.factors.some(factor => factor.friendlyName === friendlyName)) {
+    return authError(422, 'mfa_factor_name_conflict', `A factor with the friendly name "${friendlyName}" for this user already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const factor: MockFactor = {
+    id: crypto.randomUUID(),
+    friendlyName,
+    secret: generateSecret(),
+    status: 'unverified',
+    createdAt: now,
+    updatedAt: now
+  };
+  owner.factors.push(factor);
+  saveState();
+
+  return json({
+    id: factor.id,
+    type: 'totp',
+    friendly_name: factor.friendlyName,
+    totp: {
+      qr_code: placeholderQr(factor.secret),
+      secret: factor.secret,
+      uri: otpauthUri(factor.secret, body.issuer || 'Elroi Health', owner.email)
+    }
+  });
+};
+
+const challengeFactor = async (request: Request, factorId: string) => {
+  const current = currentSession(request);
+  if (!current) return invalidJwt();
+
+  const factor = current.user.factors.find(candidate => candidate.id === factorId);
+  if (!factor) return authError(404, 'mfa_factor_not_found', 'Factor not found');
+
+  const id = crypto.randomUUID();
+  const expiresAt = Math.floor(Date.now() / 1000) + CHALLENGE_TTL_SECONDS;
+  challenges.set(id, { factorId, expiresAt });
+  console.info(`[mock backend] Current code for ${factor.friendlyName || 'authenticator'}: ${await currentTotp(factor.secret)}`);
+
+  return json({ id, type: 'totp', expires_at: expiresAt });
+};
+
+const verifyFactor = async (request: Request, factorId: string) => {
+  const current = currentSession(request);
+  if (!current) return invalidJwt();
+
+  const { session, user: owner } = current;
+  const factor = owner.factors.find(candidate => candidate.id === factorId);
+  if (!factor) return authError(404, 'mfa_factor_not_found', 'Factor not found');
+
+  const { code, challenge_id: challengeId } = await readJson<{ code?: string; challenge_id?: string }>(request);
+  const challenge = challengeId ? challenges.get(challengeId) : undefined;
+  if (!challenge || challenge.factorId !== factorId || challenge.expiresAt * 1000 <= Date.now()) {
+    return authError(422, 'mfa_challenge_expired', 'MFA challenge has expired, verify against another challenge or create a new challenge.');
+  }
+  // The MFA verification hook sees every code checked against the factor
+  const valid = await verifyTotp(factor.secret, String(code ?? ''));
+  const rejection = verificationAttempt('two_factor', owner.id, valid);
+  saveState();
+  if (rejection) return authError(403, 'mfa_verification_rejected', rejection);
+  if (!valid) return authError(422, 'mfa_verification_failed', 'Invalid TOTP code entered');
+
+  challenges.delete(challengeId!);
+  factor.status = 'verified';
+  factor.updatedAt = new Date().toISOString();
+
+  // The same session, upgraded to AAL2
+  session.factorVerifiedAt = Date.now();
+  return json(renewSession(owner, session, 'aal2'));
+};
+
+const unenrollFactor = (request: Request, factorId: string) => {
+  const current = currentSession(request);
+  if (!current) return invalidJwt();
+
+  const { session, user: owner } = current;
+  const factor = owner.factors.find(candidate => candidate.id === factorId);
+  if (!factor) return authError(404, 'mfa_factor_not_found', 'Factor not found');
+  if (factor.status === 'verified' && session.aal !== 'aal2') {
+    return authError(403, 'insufficient_aal', 'AAL2 required to unenroll verified factor');
+  }
+
+  owner.factors = owner.factors.filter(candidate => candidate !== factor);
+  saveState();
+  return json({ id: factor.id });
+};
+
+// factors/{id}, factors/{id}/challenge and factors/{id}/verify
+const handleFactor = (request: Request, factorId: string, action: string | undefined) => {
+  if (action === 'challenge' && request.method === 'POST') return challengeFactor(request, factorId);
+  if (action === 'verify' && request.method === 'POST') return verifyFactor(request, factorId);
+  if (!action && request.method === 'DELETE') return unenrollFactor(request, factorId);
+  return authError(404, 'not_found', `No mock for ${request.method} /auth/v1/factors/${factorId}/${action ?? ''}`);
+};
+
+const routes: Record<string, Partial<Record<string, MockHandler>>> = {
+  signup: { POST: signUp },
+  token: { POST: token },
+  user: { GET: user, PUT: user },
+  logout: { POST: logout },
+  recover: { POST: recover },
+  verify: { POST: verify },
+  factors: { POST: enrollFactor }
+};
+
+// Stand-in for Supabase Auth (GoTrue) under /auth/v1
+export const handleAuth = (request: Request, url: URL, path: string) => {
+  const [, factorId, action] = path.match(/^factors\/([^/]+)(?:\/(challenge|verify))?$/) ?? [];
+  if (factorId) return handleFactor(request, factorId, action);
+
+  const handler = routes[path]?.[request.method];
+  if (!handler) {
+    return authError(404, 'not_found', `No mock for ${request.method} /auth/v1/${path}`);
+  }
+  return handler(request, url);
+};
@@ -0,0 +1,103 @@
+import { MockDbError, deleteRows, getRows, insertRow, updateRows, type Row } from '../db';
+
+// Port of the firm_threshold migration's rate limiting, shared by the GoTrue
+// stand-in (for the auth hooks) and the RPC stand-in
+
+const SYSTEM = { userId: null };
+
+const findEntry = (action: string, subject: string) =>
+  getRows('auth_rate_limits').find(row => row.action === action && row.subject === subject);
+
+const secondsUntil = (timestamp: unknown) =>
+  typeof timestamp === 'string' ? Math.ceil((new Date(timestamp).getTime() - Date.now()) / 1000) : 0;
+
+// Port of rate_limit_retry_after
+export const retryAfterSeconds = (action: string, subject: string) =>
+  Math.max(0, secondsUntil(findEntry(action, subject)?.locked_until));
+
+// Port of rate_limit_record
+export const recordAttempt = (action: string, subject: string) => {
+  const policy = getRows('rate_limit_policies').find(row => row.action === action);
+  if (!policy) throw new MockDbError(400, 'P0001', `Unknown rate limit action: ${action}`);
+
+  const entry: Row = findEntry(action, subject) ?? insertRow('auth_rate_limits', { action, subject }, SYSTEM);
+  if (secondsUntil(entry.locked_until) > 0) return secondsUntil(entry.locked_until);
+
+  const now = Date.now();
+  const maxLockoutSeconds = policy.max_lockout_seconds as number;
+  let lockouts = entry.lockouts as number;
+  let attempts = entry.attempts as number;
+  let windowStartedAt = entry.window_started_at as string;
+  let lockedUntil = entry.locked_until as string | null;
+
+  // A quiet spell as long as the longest lockout forgives earlier lockouts
+  if (lockedUntil && -secondsUntil(lockedUntil) > maxLockoutSeconds) lockouts = 0;
+  if (now - new Date(windowStartedAt).getTime() > (policy.window_seconds as number) * 1000) {
+    attempts = 0;
+    windowStartedAt = new Date(now).toISOString();
+  }
+
+  attempts += 1;
+  if (attempts >= (policy.max_attempts as number)) {
+    const lockoutSeconds = Math.min((policy.base_lockout_seconds as number) * 2 ** lockouts, maxLockoutSeconds);
+    lockedUntil = new Date(now + lockoutSeconds * 1000).toISOString();
+    lockouts += 1;
+    attempts = 0;
+    windowStartedAt = new Date(now).toISOString();
+  }
+
+  updateRows('auth_rate_limits', [entry], {
+    attempts,
+    window_started_at: windowStartedAt,
+    lockouts,
+    locked_until: lockedUntil
+  });
+  return retryAfterSeconds(action, subject);
+};
+
+// Port of rate_limit_message
+const rateLimitMessage = (retryAfter: number) => {
+  const [count, unit] = retryAfter < 60 ? [retryAfter, 'second'] : [Math.ceil(retryAfter / 60), 'minute'];
+  return `Too many attempts. Try again in ${count} ${unit}${count === 1 ? '' : 's'}.`;
+};
+
+// Port of hook_password_verification_attempt and hook_mfa_verification_attempt:
+// the message to reject the attempt with, or null to continue
+export const verificationAttempt = (action: 'login' | 'two_factor', userId: string, valid: boolean): string | null => {
+  const retryAfter = retryAfterSeconds(action, userId);
+  if (retryAfter > 0) return rateLimitMessage(retryAfter);
+
+  if (valid) {
+    deleteRows('auth_rate_limits', getRows('auth_rate_limits').filter(row => row.action === action && row.subject === userId));
+  } else {
+    recordAttempt(action, userId);
+  }
+  return null;
+};
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Port of request_client_address; requests from the browser carry neither
+// header, so every caller shares one address
+const clientAddress = (request: Request) =>
+  request.headers.get('cf-connecting-ip') ||
+  request.headers.get('x-forwarded-for')?.split(',').pop()?.trim() ||
+  'unknown';
+
+// Port of consume_rate_limit from the narrow_gate migration
+export const consumeRateLimit = async (args: { p_action?: string; p_identifier?: string }, request: Request) => {
+  const action = args.p_action ?? '';
+  if (!['resend_verification', 'password_reset'].includes(action)) {
+    throw new MockDbError(400, 'P0001', `Unknown rate limit action: ${action}`);
+  }
+
+  const subject = await sha256Hex(`${(args.p_identifier ?? '').trim().toLowerCase()}|${clientAddress(request)}`);
+  const retryAfter = retryAfterSeconds(action, subject);
+  if (retryAfter > 0) return retryAfter;
+
+  recordAttempt(action, subject);
+  return 0;
+};
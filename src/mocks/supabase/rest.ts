@@ -0,0 +1,387 @@
+import {
+  MockDbError,
+  deleteRows,
+  findByKey,
+  getRows,
+  getState,
+  getTableSchema,
+  insertRow,
+  saveState,
+  updateRows,
+  type MockUser,
+  type Row
+} from '../db';
+import type { TableSchema } from '../schema';
+import { empty, json, readJson } from '../http';
+import { handleRpc, hasDelegatedRole, hasRequiredAal } from './rpc';
+
+type SelectNode =
+  | { kind: 'all' }
+  | { kind: 'column'; name: string; alias: string }
+  | { kind: 'embed'; table: string; alias: string; children: SelectNode[] };
+
+// Query parameters that are not column filters
+const RESERVED_PARAMS = ['select', 'order', 'limit', 'offset', 'on_conflict', 'columns'];
+
+// The RLS policies in the migrations, approximated: rows with a user_id
+// belong to that user, and the provider catalog is readable by anyone signed in
+const PUBLIC_READ_TABLES = ['providers', 'data_types', 'provider_data_types'];
+
+// Managed with the service role; rows without a user_id apply to everyone
+const READ_ONLY_TABLES = ['feature_flag_overrides'];
+
+// Written only by apply_consent_batch, from the sealed_writes migration
+const RPC_WRITE_TABLES = ['user_provider_consents', 'user_consent_grants', 'consent_events'];
+
+// Caregiver roles that let someone else read or write a user's rows, from the
+// trusted_circle and shared_chart migrations
+const DELEGATED_ROLES: Record<string, { read: string[]; write: string[] }> = {
+  health_records: { read: ['view_records'], write: [] },
+  health_metrics: { read: ['view_records'], write: [] },
+  appointments: { read: ['view_records', 'manage_appointments'], write: ['manage_appointments'] },
+  user_provider_consents: { read: ['view_records', 'manage_consent'], write: [] },
+  user_consent_grants: { read: ['view_records', 'manage_consent'], write: [] },
+  consent_events: { read: ['view_records', 'manage_consent'], write: [] }
+};
+
+// Requests held back by the guarded_vault migration's restrictive policies
+// until a user with a verified authenticator has an AAL2 session
+const AAL2_METHODS: Record<string, string[]> = {
+  health_records: ['GET', 'HEAD', 'POST', 'PATCH', 'DELETE'],
+  appointments: ['GET', 'HEAD', 'POST', 'PATCH', 'DELETE'],
+  user_provider_consents: ['GET', 'HEAD'],
+  user_consent_grants: ['GET', 'HEAD'],
+  consent_events: ['GET', 'HEAD'],
+  mfa_recovery_codes: ['PATCH', 'DELETE']
+};
+
+// The caregiver side of a delegation: accepted by the user, or still pending
+// for their email address
+const isCaregiverOf = (row: Row, userId: string) => {
+  if (row.caregiver_id === userId) return true;
+  const email = getState().users.find(user => user.id === userId)?.email;
+  return row.status === 'pending' && !!email && String(row.caregiver_email).toLowerCase() === email.toLowerCase();
+};
+
+const ownsRow = (table: TableSchema, row: Row, userId: string) =>
+  !table.columns.has('user_id') || row.user_id === userId;
+
+const canRead = (table: TableSchema, row: Row, userId: string | null) =>
+  userId !== null && (
+    PUBLIC_READ_TABLES.includes(table.name) ||
+    ownsRow(table, row, userId) ||
+    (READ_ONLY_TABLES.includes(table.name) && row.user_id === null) ||
+    (table.name === 'caregiver_delegations' && isCaregiverOf(row, userId)) ||
+    hasDelegatedRole(row.user_id, userId, DELEGATED_ROLES[table.name]?.read ?? [])
+  );
+
+const canWrite = (table: TableSchema, row: Row, userId: string | null) =>
+  userId !== null && !READ_ONLY_TABLES.includes(table.name) && !RPC_WRITE_TABLES.includes(table.name) && (
+    ownsRow(table, row, userId) ||
+    hasDelegatedRole(row.user_id, userId, DELEGATED_ROLES[table.name]?.write ?? [])
+  );
+
+// Caregivers may also decline an invitation or stop helping
+const canDelete = (table: TableSchema, row: Row, userId: string | null) =>
+  canWrite(table, row, userId) ||
+  (userId !== null && table.name === 'caregiver_delegations' && isCaregiverOf(row, userId));
+
+const rlsViolation = (table: TableSchema, userId: string | null) =>
+  new MockDbError(
+    userId ? 403 : 401,
+    '42501',
+    `new row violates row-level security policy for table "${table.name}"`
+  );
+
+// Split on commas outside parentheses and double quotes
+const splitList = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+const parseSelect = (select: string): SelectNode[] =>
+  splitList(select.replace(/\s+/g, '')).map(item => {
+    if (item === '*') return { kind: 'all' };
+
+    const [, alias, name, children] = item.match(/^(?:(\w+):)?([\w]+)(?:!\w+)?(?:::\w+)?(?:\((.*)\))?$/) ?? [];
+    if (!name) {
+      throw new MockDbError(400, 'PGRST100', `"${item}" is not a select item the mock backend understands`);
+    }
+
+    return children === undefined
+      ? { kind: 'column', name, alias: alias || name }
+      : { kind: 'embed', table: name, alias: alias || name, children: parseSelect(children || '*') };
+  });
+
+// Rows of another table linked to this row: one row through a foreign key
+// on this table, or every row whose foreign key points here
+const embed = (table: TableSchema, row: Row, node: Extract<SelectNode, { kind: 'embed' }>, userId: string | null) => {
+  const target = getTableSchema(node.table);
+  const visible = getRows(target.name).filter(candidate => canRead(target, candidate, userId));
+
+  const forward = Array.from(table.columns.values()).find(column => column.references?.table === target.name);
+  if (forward?.references) {
+    const { column } = forward.references;
+    const match = visible.find(candidate => candidate[column] === row[forward.name]);
+    return match ? project(target, match, node.children, userId) : null;
+  }
+
+  const reverse = Array.from(target.columns.values()).find(column => column.references?.table === table.name);
+  if (reverse?.references) {
+    const { column } = reverse.references;
+    return visible
+      .filter(candidate => candidate[reverse.name] === row[column])
+      .map(candidate => project(target, candidate, node.children, userId));
+  }
+
+  throw new MockDbError(
+    400,
+    'PGRST200',
+    `Could not find a relationship between '${table.name}' and '${target.name}' in the schema cache`
+  );
+};
+
+const project = (table: TableSchema, row: Row, nodes: SelectNode[], userId: string | null): Row => {
+  const result: Row = {};
+
+  for (const node of nodes) {
+    if (node.kind === 'all') {
+      Object.assign(result, structuredClone(row));
+    } else if (node.kind === 'column') {
+      if (!table.columns.has(node.name)) {
+        throw new MockDbError(400, '42703', `column ${table.name}.${node.name} does not exist`);
+      }
+      result[node.alias] = structuredClone(row[node.name]);
+    } else {
+      result[node.alias] = embed(table, row, node, userId);
+    }
+  }
+
+  return result;
+};
+
+const compare = (value: unknown, operand: string): number => {
+  if (typeof value === 'number') return value - Number(operand);
+  const text = String(value);
+  return text < operand ? -1 : text > operand ? 1 : 0;
+};
+
+const likePattern = (operand: string, flags: string) =>
+  new RegExp(`^${operand.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/[*%]/g, '.*')}$`, flags);
+
+const matchesOperator = (value: unknown, operator: string, operand: string): boolean => {
+  switch (operator) {
+    case 'is':
+      if (operand === 'null') return value === null || value === undefined;
+      return value === (operand === 'true');
+    case 'in':
+      return splitList(operand.replace(/^\(|\)$/g, ''))
+        .map(item => item.replace(/^"|"$/g, ''))
+        .includes(String(value));
+    default:
+      break;
+  }
+
+  // Every other operator is false for NULL, like SQL
+  if (value === null || value === undefined) return false;
+
+  switch (operator) {
+    case 'eq':
+      return String(value) === operand;
+    case 'neq':
+      return String(value) !== operand;
+    case 'gt':
+      return compare(value, operand) > 0;
+    case 'gte':
+      return compare(value, operand) >= 0;
+    case 'lt':
+      return compare(value, operand) < 0;
+    case 'lte':
+      return compare(value, operand) <= 0;
+    case 'like':
+      return likePattern(operand, '').test(String(value));
+    case 'ilike':
+      return likePattern(operand, 'i').test(String(value));
+    default:
+      throw new MockDbError(400, 'PGRST100', `The "${operator}" filter is not supported by the mock backend`);
+  }
+};
+
+const parseFilters = (table: TableSchema, params: URLSearchParams) => {
+  const filters: ((row: Row) => boolean)[] = [];
+
+  params.forEach((expression, column) => {
+    if (RESERVED_PARAMS.includes(column)) return;
+    if (!table.columns.has(column)) {
+      throw new MockDbError(400, '42703', `column ${table.name}.${column} does not exist`);
+    }
+
+    const [, negated, operator, operand] = expression.match(/^(not\.)?(\w+)\.(.*)$/s) ?? [];
+    if (!operator) {
+      throw new MockDbError(400, 'PGRST100', `"${expression}" is not a filter the mock backend understands`);
+    }
+    filters.push(row => matchesOperator(row[column], operator, operand) !== Boolean(negated));
+  });
+
+  return (row: Row) => filters.every(filter => filter(row));
+};
+
+// order=a.asc,b.desc.nullslast; NULLs sort last ascending and first
+// descending unless told otherwise, as in Postgres
+const sortRows = (rows: Row[], order: string | null) => {
+  if (!order) return rows;
+
+  const terms = order.split(',').map(term => {
+    const [column, ...modifiers] = term.split('.');
+    const descending = modifiers.includes('desc');
+    const nullsFirst = modifiers.includes('nullsfirst') || (descending && !modifiers.includes('nullslast'));
+    return { column, descending, nullsFirst };
+  });
+
+  return [...rows].sort((a, b) => {
+    for (const { column, descending, nullsFirst } of terms) {
+      const left = a[column];
+      const right = b[column];
+      if (left === right) continue;
+      if (left === null || left === undefined) return nullsFirst ? -1 : 1;
+      if (right === null || right === undefined) return nullsFirst ? 1 : -1;
+
+      const result = compare(left, String(right));
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  });
+};
+
+const parsePrefer = (request: Request) => {
+  const prefer = request.headers.get('Prefer') ?? '';
+  return {
+    representation: prefer.includes('return=representation'),
+    count: prefer.includes('count=exact'),
+    resolution: prefer.match(/resolution=(merge|ignore)-duplicates/)?.[1] as 'merge' | 'ignore' | undefined
+  };
+};
+
+const writeRows = async (table: TableSchema, request: Request, url: URL, user: MockUser | null): Promise<Row[]> => {
+  const userId = user?.id ?? null;
+  const filter = parseFilters(table, url.searchParams);
+
+  if (request.method === 'POST') {
+    const body = await readJson<Row | Row[]>(request);
+    const { resolution } = parsePrefer(request);
+    const conflictColumns = url.searchParams.get('on_conflict')?.split(',') ?? table.primaryKey;
+    const written: Row[] = [];
+
+    for (const values of Array.isArray(body) ? body : [body]) {
+      if (!canWrite(table, values, userId)) throw rlsViolation(table, userId);
+
+      const existing = resolution ? findByKey(table.name, values, conflictColumns) : undefined;
+      if (existing) {
+        if (!canWrite(table, existing, userId)) throw rlsViolation(table, userId);
+        if (resolution === 'merge') written.push(...updateRows(table.name, [existing], values));
+        continue;
+      }
+      written.push(insertRow(table.name, values, { userId }));
+    }
+    return written;
+  }
+
+  const allowed = request.method === 'DELETE' ? canDelete : canWrite;
+  const rows = getRows(table.name).filter(row => allowed(table, row, userId) && filter(row));
+
+  if (request.method === 'PATCH') {
+    const patch = await readJson<Row>(request);
+    // Moving a row to another user is refused like the policies' WITH CHECK
+    if (rows.some(row => !canWrite(table, { ...row, ...patch }, userId))) throw rlsViolation(table, userId);
+    return updateRows(table.name, rows, patch);
+  }
+
+  return deleteRows(table.name, rows);
+};
+
+const handleTable = async (tableName: string, request: Request, url: URL, user: MockUser | null) => {
+  const table = getTableSchema(tableName);
+  const userId = user?.id ?? null;
+  const prefer = parsePrefer(request);
+  const nodes = parseSelect(url.searchParams.get('select') || '*');
+  const reading = request.method === 'GET' || request.method === 'HEAD';
+
+  // Like USING, the restrictive policies hide rows; like WITH CHECK, they refuse inserts
+  const restricted = AAL2_METHODS[tableName]?.includes(request.method) && !hasRequiredAal(user, request);
+
+  let rows: Row[];
+  if (restricted) {
+    if (request.method === 'POST') throw rlsViolation(table, userId);
+    rows = [];
+  } else if (reading) {
+    const filter = parseFilters(table, url.searchParams);
+    rows = getRows(tableName).filter(row => canRead(table, row, userId) && filter(row));
+  } else {
+    rows = await writeRows(table, request, url, user);
+    saveState();
+  }
+
+  const total = rows.length;
+  const offset = Number(url.searchParams.get('offset') ?? 0);
+  const limit = url.searchParams.get('limit');
+  rows = sortRows(rows, url.searchParams.get('order'));
+  rows = rows.slice(offset, limit === null ? undefined : offset + Number(limit));
+
+  const headers: Record<string, string> = {
+    'Content-Range': `${rows.length > 0 ? `${offset}-${offset + rows.length - 1}` : '*'}/${prefer.count ? total : '*'}`
+  };
+
+  if (!reading && !prefer.representation) {
+    return empty(request.method === 'POST' ? 201 : 204, headers);
+  }
+
+  const result = rows.map(row => project(table, row, nodes, userId));
+  const status = request.method === 'POST' ? 201 : 200;
+
+  // .single() and .maybeSingle() ask for one object instead of an array
+  if (request.headers.get('Accept')?.includes('application/vnd.pgrst.object+json')) {
+    if (result.length !== 1) {
+      return json({
+        code: 'PGRST116',
+        details: `The result contains ${result.length} rows`,
+        hint: null,
+        message: 'JSON object requested, multiple (or no) rows returned'
+      }, 406);
+    }
+    return json(result[0], status, headers);
+  }
+
+  if (request.method === 'HEAD') return empty(200, headers);
+  return json(result, status, headers);
+};
+
+// Stand-in for PostgREST under /rest/v1, backed by the in-memory tables
+export const handleRest = async (request: Request, url: URL, path: string, user: MockUser | null) => {
+  try {
+    if (path.startsWith('rpc/')) {
+      return await handleRpc(path.slice('rpc/'.length), request, user);
+    }
+    return await handleTable(path, request, url, user);
+  } catch (error) {
+    if (error instanceof MockDbError) {
+      return json({ code: error.code, details: error.details, hint: null, message: error.message }, error.status);
+    }
+    throw error;
+  }
+};
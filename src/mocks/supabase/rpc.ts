@@ -0,0 +1,377 @@
+import { MockDbError, deleteRows, getRows, getState, insertRow, saveState, updateRows, type MockUser, type Row } from '../db';
+import { json, readJson } from '../http';
+import { assuranceLevel, factorVerifiedAt, sessionId } from './auth';
+import { consumeRateLimit, verificationAttempt } from './rateLimits';
+
+interface ConsentBatchArgs {
+  p_action?: string;
+  p_provider_ids?: string[];
+  p_data_type_id?: string | null;
+  p_purposes?: string[];
+  p_user_id?: string | null;
+  p_changes?: Record<string, string[]> | null;
+  p_restart?: boolean;
+  p_end_date?: string | null;
+}
+
+const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+const raise = (message: string) => new MockDbError(400, 'P0001', message);
+
+const isExpired = (endDate: unknown) =>
+  typeof endDate === 'string' && new Date(endDate).getTime() <= Date.now();
+
+const sameSet = (a: string[], b: string[]) =>
+  a.every(item => b.includes(item)) && b.every(item => a.includes(item));
+
+// Port of has_delegated_role: whether the user actively cares for the owner
+// with any of the roles
+export const hasDelegatedRole = (ownerId: unknown, userId: string, roles: string[]) =>
+  getRows('caregiver_delegations').some(delegation =>
+    delegation.user_id === ownerId &&
+    delegation.caregiver_id === userId &&
+    delegation.status === 'active' &&
+    (delegation.roles as string[]).some(role => roles.includes(role))
+  );
+
+// Port of has_required_aal from the guarded_vault migration: AAL2 once the
+// user has a verified authenticator
+export const hasRequiredAal = (user: MockUser | null, request: Request) =>
+  assuranceLevel(request) === 'aal2' || !user?.factors.some(factor => factor.status === 'verified');
+
+// Record that a session confirmed it is its user, as verify_my_password and
+// the webauthn Edge Function do
+export const recordStepUp = (sessionId: string, userId: string) => {
+  deleteRows('step_up_verifications', getRows('step_up_verifications').filter(row => row.session_id === sessionId));
+  insertRow('step_up_verifications', { session_id: sessionId, user_id: userId }, { userId });
+};
+
+// Port of has_recent_step_up from the steady_hand migration
+const hasRecentStepUp = (user: MockUser | null, request: Request) => {
+  const session = sessionId(request);
+  const since = Date.now() - STEP_UP_WINDOW_MS;
+  if (!user || !session) return false;
+
+  return getRows('step_up_verifications').some(row =>
+    row.session_id === session &&
+    row.user_id === user.id &&
+    new Date(row.verified_at as string).getTime() > since
+  ) || (factorVerifiedAt(request) ?? 0) > since;
+};
+
+const requireRecentStepUp = (user: MockUser | null, request: Request, message: string) => {
+  if (!hasRecentStepUp(user, request)) throw new MockDbError(403, '42501', message);
+};
+
+// Port of verify_my_password: checks the password without signing in again
+const verifyPassword = (args: { p_password?: string }, user: MockUser | null, request: Request) => {
+  if (!user) throw raise('User not authenticated');
+
+  const valid = user.password === args.p_password;
+  const rejection = verificationAttempt('login', user.id, valid);
+  if (rejection) throw raise(rejection);
+  if (!valid) return false;
+
+  const session = sessionId(request);
+  if (session) recordStepUp(session, user.id);
+  return true;
+};
+
+// Port of consent_scopes: the data types currently shared with a provider;
+// expired consent shares nothing
+const consentScopes = (userId: string, providerId: string) => {
+  const term = getRows('user_provider_consents').find(row => row.user_id === userId && row.provider_id === providerId);
+  if (term && isExpired(term.end_date)) return [];
+
+  const dataTypes = getRows('data_types');
+  return getRows('user_consent_grants')
+    .filter(row => row.user_id === userId && row.provider_id === providerId && row.granted)
+    .map(row => ({
+      dataTypeId: row.data_type_id,
+      name: (dataTypes.find(dataType => dataType.id === row.data_type_id)?.name as string | undefined) ?? 'Unknown data type',
+      purposes: row.purposes
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+type Scope = ReturnType<typeof consentScopes>[number];
+
+// Port of consent_event_type: how a change to a provider's scopes is recorded
+const consentEventType = (before: Scope[], after: Scope[]) => {
+  const added = after.filter(scope => !before.some(b => b.dataTypeId === scope.dataTypeId));
+  const removed = before.filter(scope => !after.some(a => a.dataTypeId === scope.dataTypeId));
+  const changed = after.filter(scope => before.some(b =>
+    b.dataTypeId === scope.dataTypeId && !sameSet(b.purposes as string[], scope.purposes as string[])
+  ));
+
+  if (added.length === 0 && removed.length === 0 && changed.length === 0) return null;
+  if (changed.length > 0) return 'modify';
+  if (removed.length === 0) return 'grant';
+  if (added.length === 0) return 'revoke';
+  return 'modify';
+};
+
+// Port of apply_consent_batch as the steady_hand migration left it
+const applyConsentBatch = (args: ConsentBatchArgs, user: MockUser | null, request: Request) => {
+  const action = args.p_action;
+  const dataTypeId = args.p_data_type_id ?? null;
+  const purposes = args.p_purposes ?? ['treatment'];
+
+  if (!user) throw raise('User not authenticated');
+
+  const userId = args.p_user_id ?? user.id;
+  if (userId !== user.id && !hasDelegatedRole(userId, user.id, ['manage_consent'])) {
+    throw raise('You cannot manage consent for this account');
+  }
+  if (!action || !['revoke', 'grant', 'disconnect', 'update'].includes(action)) {
+    throw raise(`Unknown consent action: ${action}`);
+  }
+  if (action === 'grant' && (!dataTypeId || purposes.length === 0)) {
+    throw raise('Granting access needs a data type and at least one purpose');
+  }
+  if (action === 'disconnect') {
+    requireRecentStepUp(user, request, 'Confirm it is you before disconnecting a provider');
+  }
+
+  const context = { userId: user.id };
+  const now = () => new Date().toISOString();
+  const ownedBy = (providerId: string) => (row: Row) => row.user_id === userId && row.provider_id === providerId;
+
+  return (args.p_provider_ids ?? []).map(providerId => {
+    // Each provider runs in its own savepoint, so a failure only undoes its own changes
+    const savepoint = structuredClone(getState().tables);
+
+    try {
+      const before = consentScopes(userId, providerId);
+      const term = getRows('user_provider_consents').find(ownedBy(providerId));
+      let endDate = term?.end_date ?? null;
+      let eventType: string | null = null;
+
+      if (action === 'revoke') {
+        updateRows('user_consent_grants', getRows('user_consent_grants').filter(row => ownedBy(providerId)(row) && row.granted), {
+          granted: false,
+          purposes: []
+        });
+        if (term) updateRows('user_provider_consents', [term], { approved: false });
+        if (before.length > 0) eventType = 'revoke';
+      } else if (action === 'grant') {
+        if (isExpired(endDate)) throw raise('Consent has expired; renew it before granting access');
+
+        const offered = getRows('provider_data_types').some(row => row.provider_id === providerId && row.data_type_id === dataTypeId);
+        if (!offered) throw raise('Provider does not offer this data type');
+
+        const grant = getRows('user_consent_grants').find(row => ownedBy(providerId)(row) && row.data_type_id === dataTypeId);
+        const previous = grant?.granted ? (grant.purposes as string[]) : null;
+
+        if (grant) {
+          updateRows('user_consent_grants', [grant], { granted: true, purposes });
+        } else {
+          insertRow('user_consent_grants', {
+            user_id: userId,
+            provider_id: providerId,
+            data_type_id: dataTypeId,
+            granted: true,
+            purposes
+          }, context);
+        }
+
+        if (term) {
+          updateRows('user_provider_consents', [term], { approved: true });
+        } else {
+          insertRow('user_provider_consents', { user_id: userId, provider_id: providerId, approved: true, start_date: now() }, context);
+        }
+
+        if (previous === null) {
+          eventType = 'grant';
+        } else if (!sameSet(previous, purposes)) {
+          eventType = 'modify';
+        }
+      } else if (action === 'update') {
+        const changes = Object.entries(args.p_changes ?? {});
+        const restart = args.p_restart ?? false;
+        if (isExpired(endDate) && !restart && changes.some(([, changed]) => changed.length > 0)) {
+          throw raise('This consent has expired; renew it before granting access');
+        }
+
+        changes.forEach(([changedTypeId, changedPurposes]) => {
+          const offered = getRows('provider_data_types').some(row => row.provider_id === providerId && row.data_type_id === changedTypeId);
+          if (changedPurposes.length > 0 && !offered) throw raise('Provider does not offer this data type');
+
+          const values = { granted: changedPurposes.length > 0, purposes: changedPurposes };
+          const grant = getRows('user_consent_grants').find(row => ownedBy(providerId)(row) && row.data_type_id === changedTypeId);
+          if (grant) {
+            updateRows('user_consent_grants', [grant], values);
+          } else {
+            insertRow('user_consent_grants', { user_id: userId, provider_id: providerId, data_type_id: changedTypeId, ...values }, context);
+          }
+        });
+
+        if (restart) endDate = args.p_end_date ?? null;
+        const approved = getRows('user_consent_grants').some(row => ownedBy(providerId)(row) && row.granted);
+        if (term) {
+          updateRows('user_provider_consents', [term], {
+            approved,
+            ...(restart && { start_date: now(), end_date: endDate })
+          });
+        } else {
+          insertRow('user_provider_consents', { user_id: userId, provider_id: providerId, approved, start_date: now(), end_date: endDate }, context);
+        }
+
+        const after = consentScopes(userId, providerId);
+        // Restarting a consent grants its data types again
+        eventType = consentEventType(before, after) ?? (restart && after.length > 0 ? 'grant' : null);
+      } else {
+        deleteRows('user_consent_grants', getRows('user_consent_grants').filter(ownedBy(providerId)));
+        deleteRows('user_provider_consents', getRows('user_provider_consents').filter(ownedBy(providerId)));
+        eventType = 'disconnect';
+        endDate = null;
+      }
+
+      if (eventType) {
+        insertRow('consent_events', {
+          user_id: userId,
+          provider_id: providerId,
+          actor_id: user.id,
+          event_type: eventType,
+          scopes_before: before,
+          scopes_after: consentScopes(userId, providerId),
+          expires_at: endDate
+        }, context);
+      }
+
+      return { provider_id: providerId, succeeded: true, error: null };
+    } catch (error) {
+      getState().tables = savepoint;
+      return { provider_id: providerId, succeeded: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+};
+
+// Port of mfa_recovery_code_hash: case and separators do not matter
+const recoveryCodeHash = async (code: string) => {
+  const normalised = code.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalised));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Port of generate_mfa_recovery_codes from the sturdy_lantern migration
+const generateRecoveryCodes = async (user: MockUser | null, request: Request) => {
+  if (!user) throw raise('User not authenticated');
+  if (assuranceLevel(request) !== 'aal2') {
+    throw raise('Verify your authenticator app before creating recovery codes');
+  }
+
+  deleteRows('mfa_recovery_codes', getRows('mfa_recovery_codes').filter(row => row.user_id === user.id));
+
+  const codes: string[] = [];
+  for (let i = 0; i < 10; i++) {
+    const hex = Array.from(crypto.getRandomValues(new Uint8Array(5)), byte => byte.toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+    const code = `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    codes.push(code);
+    insertRow('mfa_recovery_codes', { user_id: user.id, code_hash: await recoveryCodeHash(code) }, { userId: user.id });
+  }
+  return codes;
+};
+
+// Port of redeem_mfa_recovery_code: spending a code removes the user's factors
+const redeemRecoveryCode = async (args: { p_code?: string }, user: MockUser | null) => {
+  if (!user) throw raise('User not authenticated');
+
+  const hash = await recoveryCodeHash(args.p_code ?? '');
+  const row = getRows('mfa_recovery_codes').find(candidate =>
+    candidate.user_id === user.id && candidate.code_hash === hash && !candidate.used_at
+  );
+  if (!row) return false;
+
+  updateRows('mfa_recovery_codes', [row], { used_at: new Date().toISOString() });
+  user.factors = [];
+  return true;
+};
+
+// Port of list_my_sessions from the watchful_tower migration
+const listSessions = (user: MockUser | null, request: Request) => {
+  if (!user) throw raise('User not authenticated');
+
+  const current = sessionId(request);
+  return getState().sessions
+    .filter(session => session.userId === user.id)
+    .sort((a, b) => b.refreshedAt - a.refreshedAt)
+    .map(session => ({
+      id: session.id,
+      created_at: new Date(session.createdAt).toISOString(),
+      last_active_at: new Date(session.refreshedAt).toISOString(),
+      user_agent: session.userAgent,
+      ip: session.ip,
+      aal: session.aal,
+      is_current: session.id === current
+    }));
+};
+
+// Port of revoke_my_session. The mock refuses the revoked session's access
+// token straight away; Supabase accepts it until it expires.
+const revokeSession = (args: { p_session_id?: string }, user: MockUser | null, request: Request) => {
+  if (!user) throw raise('User not authenticated');
+  if (args.p_session_id === sessionId(request)) throw raise('Sign out to end the current session');
+  requireRecentStepUp(user, request, 'Confirm it is you before signing out another device');
+
+  const state = getState();
+  const before = state.sessions.length;
+  state.sessions = state.sessions.filter(session => session.userId !== user.id || session.id !== args.p_session_id);
+  return state.sessions.length < before;
+};
+
+// Port of accept_caregiver_invitation from the trusted_circle migration
+const acceptCaregiverInvitation = (args: { p_delegation_id?: string }, user: MockUser | null) => {
+  if (!user) throw raise('User not authenticated');
+
+  const invitation = getRows('caregiver_delegations').find(row =>
+    row.id === args.p_delegation_id &&
+    row.status === 'pending' &&
+    row.user_id !== user.id &&
+    String(row.caregiver_email).toLowerCase() === user.email.toLowerCase()
+  );
+  if (!invitation) return false;
+
+  updateRows('caregiver_delegations', [invitation], {
+    caregiver_id: user.id,
+    status: 'active',
+    accepted_at: new Date().toISOString()
+  });
+  return true;
+};
+
+type MockFunction = (args: Record<string, unknown>, user: MockUser | null, request: Request) => unknown;
+
+const functions: Record<string, MockFunction> = {
+  accept_caregiver_invitation: (args, user) => acceptCaregiverInvitation(args, user),
+  apply_consent_batch: (args, user, request) => {
+    // The function runs as the definer, so it checks the assurance level itself
+    if (!hasRequiredAal(user, request)) {
+      throw new MockDbError(403, '42501', 'Verify your second factor before changing consent');
+    }
+    return applyConsentBatch(args as ConsentBatchArgs, user, request);
+  },
+  consume_rate_limit: (args, _user, request) => consumeRateLimit(args, request),
+  generate_mfa_recovery_codes: (_args, user, request) => generateRecoveryCodes(user, request),
+  has_delegated_role: (args, user) =>
+    !!user && hasDelegatedRole(args.p_user_id, user.id, (args.p_roles as string[] | undefined) ?? []),
+  has_recent_step_up: (_args, user, request) => hasRecentStepUp(user, request),
+  has_required_aal: (_args, user, request) => hasRequiredAal(user, request),
+  list_my_sessions: (_args, user, request) => listSessions(user, request),
+  redeem_mfa_recovery_code: (args, user) => redeemRecoveryCode(args, user),
+  revoke_my_session: (args, user, request) => revokeSession(args, user, request),
+  verify_my_password: (args, user, request) => verifyPassword(args, user, request)
+};
+
+// Database functions called through supabase.rpc()
+export const handleRpc = async (name: string, request: Request, user: MockUser | null) => {
+  const run = functions[name];
+  if (!run) {
+    throw new MockDbError(404, 'PGRST202', `Could not find the function public.${name} in the schema cache`);
+  }
+  const result = await run(await readJson(request), user, request);
+  saveState();
+  return json(result);
+};
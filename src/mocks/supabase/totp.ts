@@ -0,0 +1,73 @@
+// RFC 6238 time-based one-time passwords, so codes from a real authenticator
+// app work against the mock
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next code too, for clock drift
+const DRIFT_STEPS = 1;
+
+const toBase32 = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+const fromBase32 = (text: string) => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.replace(/=+$/, '').toUpperCase()) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const hotp = async (key: CryptoKey, counter: number) => {
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter % 2 ** 32);
+
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = digest[digest.length - 1] & 15;
+  const binary = new DataView(digest.buffer).getUint32(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+export const generateSecret = () => toBase32(crypto.getRandomValues(new Uint8Array(20)));
+
+export const otpauthUri = (secret: string, issuer: string, account: string) =>
+  `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}` +
+  `?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+export const verifyTotp = async (secret: string, code: string, now = Date.now()) => {
+  if (!/^\d{6}$/.test(code)) return false;
+
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const counter = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    if ((await hotp(key, counter + drift)) === code) return true;
+  }
+  return false;
+};
+
+// The current code for a secret, logged so the mock can be used without an app
+export const currentTotp = async (secret: string) => {
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  return hotp(key, Math.floor(Date.now() / 1000 / STEP_SECONDS));
+};
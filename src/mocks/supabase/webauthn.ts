@@ -0,0 +1,393 @@
+import { getRows, getState, insertRow, saveState, updateRows, type MockUser } from '../db';
+import { json, readJson } from '../http';
+import { issueMagicLink, sessionId } from './auth';
+import { recordStepUp } from './rpc';
+
+// Stand-in for the webauthn Edge Function: a WebAuthn relying party for this
+// origin. Attestation statements are not checked (the options ask for none),
+// but challenges, origins, RP ID hashes, flags and signatures are.
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const TIMEOUT_MS = 60 * 1000;
+const RP_NAME = 'Elroi Health';
+
+// Authenticator data flags
+const USER_PRESENT = 0x01;
+const USER_VERIFIED = 0x04;
+const ATTESTED_CREDENTIAL_DATA = 0x40;
+
+// COSE algorithms the stand-in can verify: ES256 and RS256
+const ES256 = -7;
+const RS256 = -257;
+
+type Purpose = 'registration' | 'sign-in' | 'step-up';
+
+// Challenges waiting for a response, by base64url value; they do not outlive a reload
+const challenges = new Map<string, { userId: string | null; purpose: Purpose; expiresAt: number }>();
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+interface RegistrationCredential {
+  id: string;
+  response: { clientDataJSON: string; attestationObject: string; transports?: string[] };
+}
+
+interface AuthenticationCredential {
+  id: string;
+  response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle: string | null };
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const sha256 = async (bytes: Uint8Array) => new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, index) => byte === b[index]);
+
+// Just enough CBOR (RFC 8949) for attestation objects and COSE keys; returns
+// the value and where it ends, since a COSE key is followed by more data
+const decodeCbor = (bytes: Uint8Array, offset = 0): { value: unknown; end: number } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const major = bytes[offset] >> 5;
+  const info = bytes[offset] & 31;
+  let position = offset + 1;
+
+  let argument: number;
+  if (info < 24) {
+    argument = info;
+  } else if (info === 24) {
+    argument = bytes[position];
+    position += 1;
+  } else if (info === 25) {
+    argument = view.getUint16(position);
+    position += 2;
+  } else if (info === 26) {
+    argument = view.getUint32(position);
+    position += 4;
+  } else {
+    throw new Error('Unsupported CBOR length');
+  }
+
+  switch (major) {
+    case 0:
+      return { value: argument, end: position };
+    case 1:
+      return { value: -1 - argument, end: position };
+    case 2:
+      return { value: bytes.slice(position, position + argument), end: position + argument };
+    case 3:
+      return { value: new TextDecoder().decode(bytes.subarray(position, position + argument)), end: position + argument };
+    case 4: {
+      const items: unknown[] = [];
+      for (let index = 0; index < argument; index++) {
+        const item = decodeCbor(bytes, position);
+        items.push(item.value);
+        position = item.end;
+      }
+      return { value: items, end: position };
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>();
+      for (let index = 0; index < argument; index++) {
+        const key = decodeCbor(bytes, position);
+        const value = decodeCbor(bytes, key.end);
+        map.set(key.value, value.value);
+        position = value.end;
+      }
+      return { value: map, end: position };
+    }
+    case 7:
+      if (info === 20) return { value: false, end: position };
+      if (info === 21) return { value: true, end: position };
+      if (info === 22) return { value: null, end: position };
+      throw new Error('Unsupported CBOR simple value');
+    default:
+      throw new Error(`Unsupported CBOR major type ${major}`);
+  }
+};
+
+const parseAuthenticatorData = (data: Uint8Array) => {
+  const flags = data[32];
+  const signCount = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(33);
+
+  // aaguid (16 bytes), credential id length (2), credential id, COSE key
+  let credentialId: Uint8Array | null = null;
+  let publicKey: Uint8Array | null = null;
+  if (flags & ATTESTED_CREDENTIAL_DATA) {
+    const idLength = (data[53] << 8) | data[54];
+    credentialId = data.slice(55, 55 + idLength);
+    const { end } = decodeCbor(data, 55 + idLength);
+    publicKey = data.slice(55 + idLength, end);
+  }
+
+  return { rpIdHash: data.slice(0, 32), flags, signCount, credentialId, publicKey };
+};
+
+// ECDSA signatures arrive DER encoded; WebCrypto wants r and s as 32 bytes each
+const derToRawSignature = (der: Uint8Array) => {
+  let position = 2;
+  const readInteger = () => {
+    const length = der[position + 1];
+    let integer = der.slice(position + 2, position + 2 + length);
+    position += 2 + length;
+    while (integer.length > 32 && integer[0] === 0) integer = integer.slice(1);
+    const padded = new Uint8Array(32);
+    padded.set(integer, 32 - integer.length);
+    return padded;
+  };
+
+  const raw = new Uint8Array(64);
+  raw.set(readInteger(), 0);
+  raw.set(readInteger(), 32);
+  return raw;
+};
+
+const importCoseKey = async (coseKey: Uint8Array) => {
+  const key = decodeCbor(coseKey).value as Map<number, unknown>;
+  const algorithm = key.get(3);
+
+  if (key.get(1) === 2 && algorithm === ES256) {
+    const jwk = { kty: 'EC', crv: 'P-256', x: toBase64Url(key.get(-2) as Uint8Array), y: toBase64Url(key.get(-3) as Uint8Array) };
+    return {
+      key: await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']),
+      params: { name: 'ECDSA', hash: 'SHA-256' },
+      toRaw: derToRawSignature
+    };
+  }
+  if (key.get(1) === 3 && algorithm === RS256) {
+    const jwk = { kty: 'RSA', n: toBase64Url(key.get(-1) as Uint8Array), e: toBase64Url(key.get(-2) as Uint8Array) };
+    return {
+      key: await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']),
+      params: { name: 'RSASSA-PKCS1-v1_5' },
+      toRaw: (signature: Uint8Array) => signature
+    };
+  }
+  throw new Error(`Unsupported passkey algorithm ${String(algorithm)}`);
+};
+
+// Errors in the shape the client reads from a refused Edge Function call
+const refuse = (message: string, status = 400) => json({ error: message }, status);
+
+const notSignedIn = () => refuse('You need to be signed in', 401);
+
+// The browser's user handle is the user id as UTF-8 bytes
+const userHandle = (userId: string) => toBase64Url(new TextEncoder().encode(userId));
+
+const rpId = () => window.location.hostname;
+
+const issueChallenge = (purpose: Purpose, userId: string | null) => {
+  const challenge = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  challenges.set(challenge, { userId, purpose, expiresAt: Date.now() + CHALLENGE_TTL_MS });
+  return challenge;
+};
+
+// Spend the challenge the client data answers; returns why it is refused, if it is
+const checkClientData = (encoded: string, type: string, purpose: Purpose, userId: string | null): string | null => {
+  let clientData: ClientData;
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded))) as ClientData;
+  } catch {
+    return 'The passkey response could not be read';
+  }
+
+  const challenge = challenges.get(clientData.challenge);
+  challenges.delete(clientData.challenge);
+  if (clientData.type !== type || !challenge || challenge.purpose !== purpose || challenge.userId !== userId || challenge.expiresAt <= Date.now()) {
+    return 'The passkey request has expired; please try again';
+  }
+  if (clientData.origin !== window.location.origin) {
+    return `Passkeys for ${clientData.origin} cannot be used here`;
+  }
+  return null;
+};
+
+const ownPasskeys = (userId: string) => getRows('passkeys').filter(row => row.user_id === userId);
+
+const toDescriptor = (row: Record<string, unknown>) => ({
+  id: row.credential_id as string,
+  type: 'public-key',
+  transports: row.transports as string[]
+});
+
+const registrationOptions = (user: MockUser | null) => {
+  if (!user) return notSignedIn();
+
+  return json({
+    challenge: issueChallenge('registration', user.id),
+    rp: { id: rpId(), name: RP_NAME },
+    user: { id: userHandle(user.id), name: user.email, displayName: user.name || user.email },
+    pubKeyCredParams: [
+      { type: 'public-key', alg: ES256 },
+      { type: 'public-key', alg: RS256 }
+    ],
+    timeout: TIMEOUT_MS,
+    attestation: 'none',
+    // Discoverable, so the passkey can sign in without typing an email
+    authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+    excludeCredentials: ownPasskeys(user.id).map(toDescriptor)
+  });
+};
+
+const verifyRegistration = async (body: { credential?: RegistrationCredential; name?: string }, user: MockUser | null) => {
+  if (!user) return notSignedIn();
+  const { credential } = body;
+  if (!credential) return refuse('A credential is required');
+
+  const problem = checkClientData(credential.response.clientDataJSON, 'webauthn.create', 'registration', user.id);
+  if (problem) return refuse(problem);
+
+  const attestation = decodeCbor(fromBase64Url(credential.response.attestationObject)).value as Map<string, unknown>;
+  const authData = parseAuthenticatorData(attestation.get('authData') as Uint8Array);
+  if (!sameBytes(authData.rpIdHash, await sha256(new TextEncoder().encode(rpId())))) {
+    return refuse('The passkey was created for another site');
+  }
+  if (!(authData.flags & USER_PRESENT) || !(authData.flags & USER_VERIFIED)) {
+    return refuse('The passkey did not verify you');
+  }
+  if (!authData.credentialId || !authData.publicKey) {
+    return refuse('The passkey response has no credential');
+  }
+
+  const credentialId = toBase64Url(authData.credentialId);
+  if (credentialId !== credential.id) return refuse('The passkey response does not match its credential');
+  if (getRows('passkeys').some(row => row.credential_id === credentialId)) {
+    return refuse('This passkey is already registered');
+  }
+
+  try {
+    await importCoseKey(authData.publicKey);
+  } catch (error) {
+    return refuse(error instanceof Error ? error.message : 'Unsupported passkey');
+  }
+
+  const passkey = insertRow('passkeys', {
+    user_id: user.id,
+    credential_id: credentialId,
+    public_key: toBase64Url(authData.publicKey),
+    sign_count: authData.signCount,
+    transports: credential.response.transports ?? [],
+    name: body.name?.trim() || 'Passkey'
+  }, { userId: user.id });
+  saveState();
+
+  return json({ passkey });
+};
+
+const authenticationOptions = (body: { purpose?: string }, user: MockUser | null) => {
+  if (body.purpose === 'step-up') {
+    if (!user) return notSignedIn();
+    return json({
+      challenge: issueChallenge('step-up', user.id),
+      rpId: rpId(),
+      timeout: TIMEOUT_MS,
+      userVerification: 'required',
+      allowCredentials: ownPasskeys(user.id).map(toDescriptor)
+    });
+  }
+
+  // Signing in leaves the choice of account to the authenticator
+  return json({
+    challenge: issueChallenge('sign-in', null),
+    rpId: rpId(),
+    timeout: TIMEOUT_MS,
+    userVerification: 'required',
+    allowCredentials: []
+  });
+};
+
+const verifyAuthentication = async (
+  body: { purpose?: string; credential?: AuthenticationCredential },
+  user: MockUser | null,
+  request: Request
+) => {
+  const { credential } = body;
+  if (!credential) return refuse('A credential is required');
+
+  const stepUp = body.purpose === 'step-up';
+  if (stepUp && !user) return notSignedIn();
+
+  const passkey = getRows('passkeys').find(row => row.credential_id === credential.id);
+  if (!passkey) return refuse('This passkey is not registered');
+  if (stepUp && passkey.user_id !== user!.id) return refuse('This passkey belongs to another account');
+
+  const { response } = credential;
+  const problem = checkClientData(response.clientDataJSON, 'webauthn.get', stepUp ? 'step-up' : 'sign-in', stepUp ? user!.id : null);
+  if (problem) return refuse(problem);
+  if (response.userHandle && response.userHandle !== userHandle(passkey.user_id as string)) {
+    return refuse('The passkey response does not match its account');
+  }
+
+  const authenticatorData = fromBase64Url(response.authenticatorData);
+  const authData = parseAuthenticatorData(authenticatorData);
+  if (!sameBytes(authData.rpIdHash, await sha256(new TextEncoder().encode(rpId())))) {
+    return refuse('The passkey was created for another site');
+  }
+  if (!(authData.flags & USER_PRESENT) || !(authData.flags & USER_VERIFIED)) {
+    return refuse('The passkey did not verify you');
+  }
+
+  // The signature covers the authenticator data followed by the client data hash
+  const clientDataHash = await sha256(fromBase64Url(response.clientDataJSON));
+  const signed = new Uint8Array(authenticatorData.length + clientDataHash.length);
+  signed.set(authenticatorData, 0);
+  signed.set(clientDataHash, authenticatorData.length);
+
+  const { key, params, toRaw } = await importCoseKey(fromBase64Url(passkey.public_key as string));
+  if (!(await crypto.subtle.verify(params, key, toRaw(fromBase64Url(response.signature)), signed))) {
+    return refuse('The passkey signature is not valid');
+  }
+
+  // A counter that does not move forward suggests a cloned authenticator;
+  // synced passkeys always report zero
+  const storedCount = Number(passkey.sign_count ?? 0);
+  if ((authData.signCount > 0 || storedCount > 0) && authData.signCount <= storedCount) {
+    return refuse('This passkey may have been copied; remove it and add it again');
+  }
+
+  const now = new Date().toISOString();
+  updateRows('passkeys', [passkey], { sign_count: authData.signCount, last_used_at: now });
+  saveState();
+
+  // Recorded for has_recent_step_up, so the database accepts the actions it
+  // guards from this session
+  if (stepUp) {
+    const session = sessionId(request);
+    if (!session) return notSignedIn();
+
+    recordStepUp(session, user!.id);
+    saveState();
+    return json({ verifiedAt: now });
+  }
+
+  const owner = getState().users.find(candidate => candidate.id === passkey.user_id);
+  if (!owner) return refuse('This passkey is not registered');
+  return json({ tokenHash: issueMagicLink(owner) });
+};
+
+export const handleWebAuthn = async (request: Request, user: MockUser | null) => {
+  if (request.method !== 'POST') return refuse(`No mock for ${request.method} /functions/v1/webauthn`, 405);
+
+  const body = await readJson<Record<string, unknown>>(request);
+  switch (body.action) {
+    case 'registration-options':
+      return registrationOptions(user);
+    case 'registration-verify':
+      return verifyRegistration(body, user);
+    case 'authentication-options':
+      return authenticationOptions(body, user);
+    case 'authentication-verify':
+      return verifyAuthentication(body, user, request);
+    default:
+      return refuse(`Unknown webauthn action: ${String(body.action)}`);
+  }
+};
@@ -3,23 +3,9 @@ import Calendar from '../components/Calendar';
 import { CheckCircle } from 'lucide-react';
 import { api } from '../services/api';
 import { supabaseData } from '../services/supabaseData';
-
-interface Appointment {
-  id: string;
-  provider: {
-    name: string;
-    logo: string;
-  };
-  date: string;
-  time?: string;
-  details?: {
-    doctorName?: string;
-    specialty?: string;
-    location?: string;
-    address?: string;
-    status?: 'confirmed' | 'pending' | 'cancelled';
-  };
-}
+import { queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import type { Appointment } from '../types';
 
 interface ReminderSetting {
   id: string;
@@ -58,8 +44,6 @@ export default function CarePlanner() {
   const [reminderToggles, setReminderToggles] = useState<Record<string, boolean>>(
     Object.fromEntries(defaultReminderSettings.map(setting => [setting.id, setting.enabled]))
   );
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
 
   // Format date for display
   const formatDate = (date: Date) => {
@@ -72,186 +56,32 @@ export default function CarePlanner() {
     return date.toLocaleDateString('en-US', options);
   };
 
-  // Fetch appointments using both Supabase and fallback API
+  // Appointments from the query cache, which refreshes when they change in
+  // another tab or on the provider's side
+  const appointmentsQuery = useQuery(queryKeys.appointments, supabaseData.getAppointments);
+  const settingsQuery = useQuery(queryKeys.userSettings, supabaseData.getUserSettings);
+  const loading = appointmentsQuery.loading;
+  const error = appointmentsQuery.error ? 'Failed to load appointments' : null;
+
   useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // Try to get appointments from Supabase first
-        try {
-          const supabaseAppointments = await supabaseData.getAppointments();
-          
-          if (supabaseAppointments && supabaseAppointments.length > 0) {
-            setAppointments(supabaseAppointments);
-            setSelectedAppointment(supabaseAppointments[0]);
-            
-            // Get notification settings
-            const notificationSettings = await supabaseData.getUserSettings();
-            
-            if (notificationSettings) {
-              setReminderToggles({
-                email: notificationSettings.emailNotifications,
-                sms: notificationSettings.smsNotifications,
-                app: notificationSettings.pushNotifications
-              });
-            }
-            
-            setLoading(false);
-            return;
-          }
-        } catch (supabaseError) {
-          console.error('Error fetching from Supabase, falling back to API:', supabaseError);
-        }
-        
-        // Fallback to API
-        const contractsResponse = await api.get<{ contracts: any[] }>('contracts');
-        const companiesResponse = await api.post<{ companies: any[] }>('company/list', {});
-        const notificationSettingsResponse = await api.get<any>('user-notification-settings');
-        
-        // Map contracts to appointments
-        const mappedAppointments: Appointment[] = [];
-        
-        if (contractsResponse.contracts && Array.isArray(contractsResponse.contracts)) {
-          for (const contract of contractsResponse.contracts) {
-            // Find the associated company
-            const company = companiesResponse.companies.find(c => c.id === contract.companyId);
-            
-            if (company) {
-              // Create an appointment from the contract
-              const appointmentDate = new Date(contract.startDate || contract.created_at || Date.now());
-              
-              mappedAppointments.push({
-                id: contract.id,
-                provider: {
-                  name: company.name,
-                  logo: company.logo || '/default-provider-logo.svg'
-                },
-                date: appointmentDate.toLocaleDateString(),
-                time: appointmentDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-                details: {
-                  doctorName: contract.providerName || 'Dr. Provider',
-                  specialty: contract.providerSpecialty || 'Primary Care',
-                  location: company.name,
-                  address: company.address || 'Chicago, IL',
-                  status: contract.status === 'active' ? 'confirmed' : 
-                           contract.status === 'pending' ? 'pending' : 'cancelled'
-                }
-              });
-            }
-          }
-        }
-        
-        // If no appointments found, create some default ones
-        if (mappedAppointments.length === 0) {
-          mappedAppointments.push({
-            id: '1',
-            provider: {
-              name: 'Baptist Health',
-              logo: '/baptist-health-logo.svg'
-            },
-            date: '02/20/2026',
-            time: '10:30 AM',
-            details: {
-              doctorName: 'Dr. Emily Carter',
-              specialty: 'Primary Care',
-              location: 'Baptist Health Medical Center',
-              address: 'Chicago, IL',
-              status: 'confirmed'
-            }
-          });
-        }
-        
-        setAppointments(mappedAppointments);
-        
-        // Set the selected appointment to the first one
-        if (mappedAppointments.length > 0) {
-          setSelectedAppointment(mappedAppointments[0]);
-        }
-        
-        // Update reminder settings based on notification preferences
-        if (notificationSettingsResponse) {
-          // Map API notification settings to our reminder toggles
-          if (notificationSettingsResponse.emailNotifications !== undefined) {
-            setReminderToggles(prev => ({
-              ...prev,
-              'email': notificationSettingsResponse.emailNotifications
-            }));
-          }
-          
-          // Update other toggles if they exist in the API response
-          if (notificationSettingsResponse.smsNotifications !== undefined) {
-            setReminderToggles(prev => ({
-              ...prev,
-              'sms': notificationSettingsResponse.smsNotifications
-            }));
-          }
-          
-          if (notificationSettingsResponse.appNotifications !== undefined) {
-            setReminderToggles(prev => ({
-              ...prev,
-              'app': notificationSettingsResponse.appNotifications
-            }));
-          }
-        }
-        
-      } catch (err) {
-        console.error('Error fetching care planner data:', err);
-        setError('Failed to load appointments');
-        
-        // Set fallback appointments
-        setAppointments([
-          {
-            id: '1',
-            provider: {
-              name: 'Baptist Health',
-              logo: '/baptist-health-logo.svg'
-            },
-            date: '02/20/2026'
-          },
-          {
-            id: '2',
-            provider: {
-              name: 'HealthMart Pharmacy',
-              logo: '/healthmart-logo.svg'
-            },
-            date: '02/20/2026'
-          },
-          {
-            id: '3',
-            provider: {
-              name: 'Health Zone',
-              logo: '/health-zone-logo.svg'
-            },
-            date: '02/24/2026'
-          }
-        ]);
-        
-        // Set the selected appointment to the first fallback appointment
-        setSelectedAppointment({
-          id: '1',
-          provider: {
-            name: 'Baptist Health',
-            logo: '/baptist-health-logo.svg'
-          },
-          date: '02/20/2026',
-          time: '10:30 AM',
-          details: {
-            doctorName: 'Dr. Emily Carter',
-            specialty: 'Primary Care',
-            location: 'VA Medical Center',
-            address: 'Chicago, IL',
-            status: 'confirmed'
-          }
-        });
-      } finally {
-        setLoading(false);
-      }
-    };
+    const latest = appointmentsQuery.data;
+    if (!latest) return;
 
-    fetchData();
-  }, []);
+    setAppointments(latest);
+    // Stay on the selected appointment if it still exists
+    setSelectedAppointment(prev => latest.find(appointment => appointment.id === prev?.id) ?? latest[0] ?? null);
+  }, [appointmentsQuery.data]);
+
+  useEffect(() => {
+    const settings = settingsQuery.data;
+    if (!settings) return;
+
+    setReminderToggles({
+      email: settings.emailNotifications,
+      sms: settings.smsNotifications,
+      app: settings.pushNotifications
+    });
+  }, [settingsQuery.data]);
 
   // Update notification settings when toggles change
   const toggleReminder = async (id: string) => {
@@ -343,6 +173,32 @@ export default function CarePlanner() {
     );
   }
 
+  // Show error state
+  if (error && appointments.length === 0) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center gap-2 text-sm text-gray-500 mb-6">
+          <span>Dashboard</span>
+          <span>›</span>
+          <span>Care Planner</span>
+        </div>
+        <h1 className="text-4xl font-bold mb-8">Care Planner</h1>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="text-red-600 text-xl mb-2">Error</div>
+            <p className="text-gray-600">{error}</p>
+            <button
+              onClick={() => appointmentsQuery.refetch().catch(() => undefined)}
+              className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              Try Again
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="p-6">
       <div className="flex items-center gap-2 text-sm text-gray-500 mb-6">
@@ -375,7 +231,7 @@ export default function CarePlanner() {
                   <div>
                     <div className="text-gray-600">Time:</div>
                     <div className="font-medium">
-                      {selectedAppointment.time || '10:30 AM'} (Local Time)
+                      {selectedAppointment.time ? `${selectedAppointment.time} (Local Time)` : 'Not specified'}
                     </div>
                   </div>
                 </div>
@@ -383,8 +239,9 @@ export default function CarePlanner() {
                 <div>
                   <div className="text-gray-600">Provider:</div>
                   <div className="font-medium">
-                    {selectedAppointment.details?.doctorName || 'Dr. Emily Carter'}, 
-                    {' '}{selectedAppointment.details?.specialty || 'Primary Care'}
+                    {[selectedAppointment.details?.doctorName, selectedAppointment.details?.specialty]
+                      .filter(Boolean)
+                      .join(', ') || selectedAppointment.provider.name}
                   </div>
                 </div>
 
@@ -393,25 +250,24 @@ export default function CarePlanner() {
                   <div className="font-medium">
                     {selectedAppointment.details?.location || selectedAppointment.provider.name}
                   </div>
-                  <div className="text-gray-600">
-                    {selectedAppointment.details?.address || 'Chicago, IL'}
-                  </div>
+                  {selectedAppointment.details?.address && (
+                    <div className="text-gray-600">{selectedAppointment.details.address}</div>
+                  )}
                 </div>
 
                 <div className="flex items-center gap-2">
                   <div className="text-gray-600">Appointment Status:</div>
                   <div className={`flex items-center gap-1 ${
-                    selectedAppointment.details?.status === 'confirmed' ? 'text-green-600' :
-                    selectedAppointment.details?.status === 'pending' ? 'text-yellow-600' :
+                    selectedAppointment.status === 'confirmed' ? 'text-green-600' :
+                    selectedAppointment.status === 'pending' ? 'text-yellow-600' :
                     'text-red-600'
                   }`}>
                     <span>
-                      {selectedAppointment.details?.status === 'confirmed' ? 'Confirmed' :
-                      selectedAppointment.details?.status === 'pending' ? 'Pending' :
-                      selectedAppointment.details?.status === 'cancelled' ? 'Cancelled' :
-                      'Confirmed'}
+                      {selectedAppointment.status === 'confirmed' ? 'Confirmed' :
+                      selectedAppointment.status === 'pending' ? 'Pending' :
+                      'Cancelled'}
                     </span>
-                    {selectedAppointment.details?.status === 'confirmed' && <CheckCircle className="w-4 h-4" />}
+                    {selectedAppointment.status === 'confirmed' && <CheckCircle className="w-4 h-4" />}
                   </div>
                 </div>
               </div>
@@ -1,181 +1,119 @@
 import { useState, useEffect } from 'react';
+import { FileJson, Printer } from 'lucide-react';
 import ProviderAccessModal from '../components/ProviderAccessModal';
-import { api } from '../services/api';
-import { supabase } from '../services/supabase';
+import ConsentHistoryModal from '../components/ConsentHistoryModal';
+import BulkConsentModal, { type BulkConsentKind } from '../components/BulkConsentModal';
+import { consentPurposes, consentService, DEFAULT_PURPOSES } from '../services/consent';
+import { consentReceiptService } from '../services/consentReceipt';
 import { supabaseData } from '../services/supabaseData';
+import { queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import { useStepUp } from '../hooks/useStepUp';
+import { useActingAs } from '../hooks/useActingAs';
+import type {
+  BulkConsentAction,
+  ConsentChanges,
+  ConsentDuration,
+  ConsentGrant,
+  ConsentTerm
+} from '../types/consent';
 
 export interface Provider {
   id: string;
   name: string;
   logo: string;
   dateAdded: string;
-  accessStatus: 'Granted' | 'Disconnected';
-  permissions: {
-    labResults: boolean;
-    medications: boolean;
-    fitnessData: boolean;
-  };
+  accessStatus: 'Granted' | 'Disconnected' | 'Expired';
+  permissions: ConsentGrant[];
+  consentEndDate: string | null;
+  consentExpired: boolean;
 }
 
+const getAccessStatus = (term: Pick<ConsentTerm, 'approved' | 'expired'>): Provider['accessStatus'] =>
+  term.expired ? 'Expired' : term.approved ? 'Granted' : 'Disconnected';
+
+// Apply grant changes to a provider's permissions list
+const applyChanges = (permissions: ConsentGrant[], changes: ConsentChanges): ConsentGrant[] =>
+  permissions.map(grant =>
+    grant.dataTypeId in changes
+      ? { ...grant, granted: changes[grant.dataTypeId].length > 0, purposes: changes[grant.dataTypeId] }
+      : grant
+  );
+
+const getPurposeLabels = (grant: ConsentGrant) =>
+  consentPurposes
+    .filter(purpose => grant.purposes.includes(purpose.value))
+    .map(purpose => purpose.label)
+    .join(', ');
+
 export default function Consent() {
+  const { requireStepUp } = useStepUp();
+  const { actingFor, can } = useActingAs();
+  // A caregiver without manage_consent sees the consents read-only
+  const canManage = can('manage_consent');
   const [providers, setProviders] = useState<Provider[]>([]);
   const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [historyProvider, setHistoryProvider] = useState<Provider | null>(null);
+  const [receiptProviderId, setReceiptProviderId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<{ kind: BulkConsentKind; providers: Provider[] } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Shared with the other pages through the query cache, and reloaded after
+  // every consent change
+  const providersQuery = useQuery(queryKeys.providers, supabaseData.getProviders);
+  const error = providersQuery.error ? 'Failed to load providers' : null;
 
-  // Fetch providers with consent information
+  // Keep the page's copy, which is updated optimistically, in step with the cache
   useEffect(() => {
-    fetchProviders();
-  }, []);
+    if (!providersQuery.data) return;
 
-  const fetchProviders = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Use supabaseData service to get providers
-      try {
-        const providersFromService = await supabaseData.getProviders();
-        
-        if (providersFromService && providersFromService.length > 0) {
-          // Map to the expected Provider format for this page
-          const mappedProviders = providersFromService.map(provider => ({
-            id: provider.id,
-            name: provider.name,
-            logo: provider.logo || '/elroi-logo.svg',
-            dateAdded: new Date(provider.lastSync).toLocaleDateString(),
-            accessStatus: provider.permissions.labResults || 
-                         provider.permissions.medications || 
-                         provider.permissions.fitnessData ? 'Granted' : 'Disconnected',
-            permissions: provider.permissions
-          }));
-          
-          setProviders(mappedProviders);
-          setLoading(false);
-          return;
-        }
-      } catch (err) {
-        console.error('Error fetching providers from Supabase data service:', err);
-        // Fallback to sample data if all fetch attempts fail
-        setProviders([
-          {
-            id: '1',
-            name: 'Baptist Health',
-            logo: '/elroi-logo.svg',
-            dateAdded: '10/20/2024',
-            accessStatus: 'Granted',
-            permissions: {
-              labResults: true,
-              medications: true,
-              fitnessData: true
-            }
-          },
-          {
-            id: '2',
-            name: 'HealthMart Pharmacy',
-            logo: '/elroi-logo.svg',
-            dateAdded: '05/20/2024',
-            accessStatus: 'Disconnected',
-            permissions: {
-              labResults: false,
-              medications: false,
-              fitnessData: false
-            }
-          },
-          {
-            id: '3',
-            name: 'Health Zone',
-            logo: '/elroi-logo.svg',
-            dateAdded: '05/20/2024',
-            accessStatus: 'Granted',
-            permissions: {
-              labResults: true,
-              medications: true,
-              fitnessData: true
-            }
-          }
-        ]);
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
+    // Map to the expected Provider format for this page
+    setProviders(providersQuery.data.map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      logo: provider.logo || '/elroi-logo.svg',
+      dateAdded: new Date(provider.lastSync).toLocaleDateString(),
+      accessStatus: getAccessStatus({
+        approved: provider.permissions.some(grant => grant.granted),
+        expired: provider.consentExpired
+      }),
+      permissions: provider.permissions,
+      consentEndDate: provider.consentEndDate,
+      consentExpired: provider.consentExpired
+    })));
+  }, [providersQuery.data]);
 
-  const handlePermissionToggle = async (providerId: string, permission: keyof Provider['permissions']) => {
+  const handlePermissionToggle = async (providerId: string, dataTypeId: string) => {
     try {
       setLoading(true);
 
-      // Find the current provider
+      // Find the current provider and grant
       const provider = providers.find(p => p.id === providerId);
-      if (!provider) return;
+      const grant = provider?.permissions.find(g => g.dataTypeId === dataTypeId);
+      if (!provider || !grant) return;
 
-      // Create new permissions object with the toggled permission
-      const newPermissions = {
-        ...provider.permissions,
-        [permission]: !provider.permissions[permission]
-      };
-
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-      
-      // Determine if any permissions are enabled
-      const hasAnyPermissions = Object.values(newPermissions).some(Boolean);
-      
-      // Map to database column names
-      const dbPermissions = {
-        lab_results: newPermissions.labResults,
-        medications: newPermissions.medications,
-        fitness_data: newPermissions.fitnessData,
-        approved: hasAnyPermissions,
-        updated_at: new Date().toISOString()
-      };
-      
-      // Check if there's an existing consent record
-      const { data: existingConsent, error: queryError } = await supabase
-        .from('user_provider_consents')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('provider_id', providerId)
-        .maybeSingle();
-        
-      if (queryError) throw queryError;
-      
-      if (existingConsent) {
-        // Update existing consent
-        const { error: updateError } = await supabase
-          .from('user_provider_consents')
-          .update(dbPermissions)
-          .eq('user_id', user.id)
-          .eq('provider_id', providerId);
-          
-        if (updateError) throw updateError;
-      } else {
-        // Insert new consent
-        const { error: insertError } = await supabase
-          .from('user_provider_consents')
-          .insert({
-            user_id: user.id,
-            provider_id: providerId,
-            ...dbPermissions
-          });
-          
-        if (insertError) throw insertError;
+      // Expired consent has to be renewed with a new duration first
+      if (provider.consentExpired) {
+        openModal(provider);
+        return;
       }
+
+      const changes: ConsentChanges = { [dataTypeId]: grant.granted ? [] : DEFAULT_PURPOSES };
+      const term = await consentService.updateGrants(providerId, changes);
       
       // Update local state
-      setProviders(prev => prev.map(provider => 
-        provider.id === providerId
+      setProviders(prev => prev.map(p => 
+        p.id === providerId
           ? {
-              ...provider,
-              permissions: newPermissions,
-              accessStatus: Object.values(newPermissions).some(Boolean) ? 'Granted' : 'Disconnected'
+              ...p,
+              permissions: applyChanges(p.permissions, changes),
+              accessStatus: getAccessStatus(term),
+              consentEndDate: term.endDate,
+              consentExpired: term.expired
             }
-          : provider
+          : p
       ));
     } catch (err) {
       console.error('Error toggling permission:', err);
@@ -185,60 +123,15 @@ export default function Consent() {
     }
   };
 
-  const handleUpdatePermissions = async (providerId: string, newPermissions: { [key: string]: boolean }) => {
+  const handleUpdatePermissions = async (
+    providerId: string,
+    changes: ConsentChanges,
+    duration?: ConsentDuration
+  ) => {
     try {
       setLoading(true);
       
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-      
-      // Determine if any permissions are enabled
-      const hasAnyPermissions = Object.values(newPermissions).some(Boolean);
-      
-      // Map to database column names
-      const dbPermissions = {
-        lab_results: newPermissions.labResults,
-        medications: newPermissions.medications,
-        fitness_data: newPermissions.fitnessData,
-        approved: hasAnyPermissions,
-        updated_at: new Date().toISOString()
-      };
-      
-      // Check if there's an existing consent entry
-      const { data: existingConsent, error: queryError } = await supabase
-        .from('user_provider_consents')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('provider_id', providerId)
-        .maybeSingle();
-      
-      if (queryError) throw queryError;
-      
-      if (existingConsent) {
-        // Update existing consent
-        const { error: updateError } = await supabase
-          .from('user_provider_consents')
-          .update(dbPermissions)
-          .eq('user_id', user.id)
-          .eq('provider_id', providerId);
-          
-        if (updateError) throw updateError;
-      } else {
-        // Insert new consent
-        const { error: insertError } = await supabase
-          .from('user_provider_consents')
-          .insert({
-            user_id: user.id,
-            provider_id: providerId,
-            ...dbPermissions
-          });
-          
-        if (insertError) throw insertError;
-      }
+      const term = await consentService.updateGrants(providerId, changes, duration);
       
       // Update local state
       setProviders(prevProviders =>
@@ -246,17 +139,20 @@ export default function Consent() {
           provider.id === providerId
             ? {
                 ...provider,
-                permissions: newPermissions,
-                accessStatus: hasAnyPermissions ? 'Granted' : 'Disconnected'
+                permissions: applyChanges(provider.permissions, changes),
+                accessStatus: getAccessStatus(term),
+                consentEndDate: term.endDate,
+                consentExpired: term.expired
               }
             : provider
         )
       );
       
       setIsModalOpen(false);
+      setReceiptProviderId(providerId);
     } catch (err) {
       console.error('Error updating permissions:', err);
-      alert('Failed to update permissions. Please try again.');
+      throw err;
     } finally {
       setLoading(false);
     }
@@ -266,21 +162,8 @@ export default function Consent() {
     try {
       setLoading(true);
 
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-      
-      // Delete the consent record
-      const { error: deleteError } = await supabase
-        .from('user_provider_consents')
-        .delete()
-        .eq('user_id', user.id)
-        .eq('provider_id', providerId);
-        
-      if (deleteError) throw deleteError;
+      // Delete every grant and the consent record
+      await consentService.revokeAll(providerId);
       
       // Update local state to show disconnected
       setProviders(prevProviders =>
@@ -289,11 +172,9 @@ export default function Consent() {
             ? {
                 ...provider,
                 accessStatus: 'Disconnected',
-                permissions: {
-                  labResults: false,
-                  medications: false,
-                  fitnessData: false
-                }
+                permissions: provider.permissions.map(grant => ({ ...grant, granted: false, purposes: [] })),
+                consentEndDate: null,
+                consentExpired: false
               }
             : provider
         )
@@ -301,24 +182,59 @@ export default function Consent() {
       
       // Close the modal
       setIsModalOpen(false);
-      
-      // Refresh providers to ensure UI is updated
-      fetchProviders();
     } catch (err) {
       console.error('Error deleting provider:', err);
-      alert('Failed to disconnect provider. Please try again.');
+      throw err;
     } finally {
       setLoading(false);
     }
   };
 
+  const handleReceipt = async (format: 'json' | 'print', receiptProviders: Provider[]) => {
+    try {
+      // Every format carries the same records, so each needs the same check
+      if (!(await requireStepUp('export your consent records'))) return;
+      if (format === 'json') {
+        await consentReceiptService.downloadJson(receiptProviders);
+      } else {
+        await consentReceiptService.print(receiptProviders);
+      }
+    } catch (err) {
+      console.error('Error generating consent receipt:', err);
+      alert('Failed to generate consent receipt. Please try again.');
+    }
+  };
+
+  const handleBulkConfirm = async (providerIds: string[], action: BulkConsentAction) => {
+    const results = await consentService.applyBulk(providerIds, action);
+
+    // Keep failed providers selected so the action can be retried
+    setSelectedIds(results.filter(result => !result.succeeded).map(result => result.providerId));
+
+    return results;
+  };
+
+  const toggleSelected = (providerId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(providerId) ? prev.filter(id => id !== providerId) : [...prev, providerId]
+    );
+  };
+
+  const openBulkAction = (kind: BulkConsentKind) => {
+    setBulkAction({ kind, providers: providers.filter(p => selectedIds.includes(p.id)) });
+  };
+
+  const allSelected = providers.length > 0 && providers.every(p => selectedIds.includes(p.id));
+  const receiptProvider = providers.find(p => p.id === receiptProviderId);
+  const consentedProviders = providers.filter(p => p.accessStatus !== 'Disconnected');
+
   const openModal = (provider: Provider) => {
     setSelectedProvider(provider);
     setIsModalOpen(true);
   };
 
   // Show loading state
-  if (loading && providers.length === 0) {
+  if ((loading || providersQuery.loading) && providers.length === 0) {
     return (
       <div className="p-6">
         <div className="flex items-center gap-2 text-sm text-gray-500 mb-6">
@@ -352,7 +268,7 @@ export default function Consent() {
             <div className="text-red-600 text-xl mb-2">Error</div>
             <p className="text-gray-600">{error}</p>
             <button 
-              onClick={() => fetchProviders()} 
+              onClick={() => providersQuery.refetch().catch(() => undefined)} 
               className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
             >
               Try Again
@@ -373,9 +289,99 @@ export default function Consent() {
 
       <h1 className="text-4xl font-bold mb-8">Consent Management</h1>
 
+      {!canManage && actingFor && (
+        <div className="mb-6 px-4 py-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+          {actingFor.name} lets you see their consents but not change them.
+        </div>
+      )}
+
+      {receiptProvider && (
+        <div className="mb-6 px-4 py-3 bg-green-50 border border-green-200 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <p className="text-sm text-green-800">
+            Consent for {receiptProvider.name} was updated. Keep a receipt for your records.
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleReceipt('json', [receiptProvider])}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-green-800 border border-green-300 rounded-lg hover:bg-green-100"
+            >
+              <FileJson className="h-4 w-4" />
+              JSON
+            </button>
+            <button
+              onClick={() => handleReceipt('print', [receiptProvider])}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-green-800 border border-green-300 rounded-lg hover:bg-green-100"
+            >
+              <Printer className="h-4 w-4" />
+              Print / PDF
+            </button>
+            <button
+              onClick={() => setReceiptProviderId(null)}
+              className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-2xl p-6">
-        <h2 className="text-2xl font-bold mb-6">My Providers</h2>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <h2 className="text-2xl font-bold">My Providers</h2>
+          {consentedProviders.length > 0 && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => handleReceipt('json', consentedProviders)}
+                className="inline-flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FileJson className="h-4 w-4" />
+                All receipts (JSON)
+              </button>
+              <button
+                onClick={() => handleReceipt('print', consentedProviders)}
+                className="inline-flex items-center gap-2 px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Printer className="h-4 w-4" />
+                Print all
+              </button>
+            </div>
+          )}
+        </div>
         
+        {canManage && selectedIds.length > 0 && (
+          <div className="mb-4 px-4 py-3 bg-blue-50 rounded-xl flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <span className="text-sm font-medium text-blue-800">
+              {selectedIds.length} {selectedIds.length === 1 ? 'provider' : 'providers'} selected
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => openBulkAction('grant')}
+                className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Grant data type
+              </button>
+              <button
+                onClick={() => openBulkAction('revoke')}
+                className="px-3 py-1.5 text-sm bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
+              >
+                Revoke all
+              </button>
+              <button
+                onClick={() => openBulkAction('disconnect')}
+                className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+              >
+                Disconnect
+              </button>
+              <button
+                onClick={() => setSelectedIds([])}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        )}
+
         {providers.length === 0 ? (
           <div className="text-center py-8">
             <p className="text-gray-500">No providers found. Add providers from the Providers page.</p>
@@ -385,18 +391,36 @@ export default function Consent() {
             <table className="w-full">
               <thead>
                 <tr className="text-left">
+                  {canManage && (
+                    <th className="pb-4 pr-4 w-8">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={() => setSelectedIds(allSelected ? [] : providers.map(p => p.id))}
+                        aria-label="Select all providers"
+                      />
+                    </th>
+                  )}
                   <th className="pb-4">Providers</th>
                   <th className="pb-4">Date Added</th>
                   <th className="pb-4">Access Status</th>
-                  <th className="pb-4">Lab Results</th>
-                  <th className="pb-4">Medications</th>
-                  <th className="pb-4">Fitness Data</th>
+                  <th className="pb-4">Data Access</th>
                   <th className="pb-4">Actions</th>
                 </tr>
               </thead>
               <tbody>
                 {providers.map((provider) => (
                   <tr key={provider.id} className="border-t border-gray-100">
+                    {canManage && (
+                      <td className="py-4 pr-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(provider.id)}
+                          onChange={() => toggleSelected(provider.id)}
+                          aria-label={`Select ${provider.name}`}
+                        />
+                      </td>
+                    )}
                     <td className="py-4">
                       <div className="flex items-center gap-3">
                         <img 
@@ -415,58 +439,80 @@ export default function Consent() {
                     <td className="py-4">
                       <div className="flex items-center gap-2">
                         <span className={`w-2 h-2 rounded-full ${
-                          provider.accessStatus === 'Granted' ? 'bg-green-500' : 'bg-red-500'
+                          provider.accessStatus === 'Granted' ? 'bg-green-500' :
+                          provider.accessStatus === 'Expired' ? 'bg-yellow-500' : 'bg-red-500'
                         }`} />
                         <span>{provider.accessStatus}</span>
                       </div>
+                      {provider.consentEndDate && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {provider.consentExpired ? 'Expired' : 'Expires'} {new Date(provider.consentEndDate).toLocaleDateString()}
+                        </p>
+                      )}
                     </td>
                     <td className="py-4">
-                      <div className={`w-12 h-6 rounded-full relative ${
-                        provider.permissions.labResults ? 'bg-green-400' : 'bg-gray-200'
-                      }`}
-                        onClick={() => handlePermissionToggle(provider.id, 'labResults')}
-                        role="button"
-                        tabIndex={0}
-                      >
-                        <div className={`absolute w-5 h-5 rounded-full bg-white top-0.5 transition-all ${
-                          provider.permissions.labResults ? 'left-[1.625rem]' : 'left-0.5'
-                        }`} />
-                      </div>
-                    </td>
-                    <td className="py-4">
-                      <div className={`w-12 h-6 rounded-full relative ${
-                        provider.permissions.medications ? 'bg-green-400' : 'bg-gray-200'
-                      }`}
-                        onClick={() => handlePermissionToggle(provider.id, 'medications')}
-                        role="button"
-                        tabIndex={0}
-                      >
-                        <div className={`absolute w-5 h-5 rounded-full bg-white top-0.5 transition-all ${
-                          provider.permissions.medications ? 'left-[1.625rem]' : 'left-0.5'
-                        }`} />
+                      <div className="flex flex-wrap gap-2 max-w-md">
+                        {provider.permissions.length === 0 ? (
+                          <span className="text-sm text-gray-400">No data types declared</span>
+                        ) : provider.permissions.map(grant => (
+                          <button
+                            key={grant.dataTypeId}
+                            onClick={() => handlePermissionToggle(provider.id, grant.dataTypeId)}
+                            className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium transition-colors disabled:cursor-default ${
+                              grant.granted ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500'
+                            }`}
+                            type="button"
+                            disabled={loading || !canManage}
+                            aria-pressed={grant.granted}
+                            aria-label={`${grant.granted ? 'Revoke' : 'Grant'} ${grant.name} access`}
+                          >
+                            <span className={`w-2 h-2 rounded-full ${
+                              grant.granted ? 'bg-green-500' : 'bg-gray-300'
+                            }`} />
+                            {grant.name}
+                            {grant.granted && grant.purposes.length > 0 && (
+                              <span className="font-normal text-green-700">· {getPurposeLabels(grant)}</span>
+                            )}
+                          </button>
+                        ))}
                       </div>
                     </td>
                     <td className="py-4">
-                      <div className={`w-12 h-6 rounded-full relative ${
-                        provider.permissions.fitnessData ? 'bg-green-400' : 'bg-gray-200'
-                      }`}
-                        onClick={() => handlePermissionToggle(provider.id, 'fitnessData')}
-                        role="button"
-                        tabIndex={0}
-                      >
-                        <div className={`absolute w-5 h-5 rounded-full bg-white top-0.5 transition-all ${
-                          provider.permissions.fitnessData ? 'left-[1.625rem]' : 'left-0.5'
-                        }`} />
+                      <div className="flex items-center gap-2">
+                        {canManage && (
+                          <button 
+                            onClick={() => openModal(provider)}
+                            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+                          >
+                            Manage
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setHistoryProvider(provider)}
+                          className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          History
+                        </button>
+                        <button
+                          onClick={() => handleReceipt('json', [provider])}
+                          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-40 disabled:hover:bg-transparent"
+                          title="Download consent receipt (JSON)"
+                          aria-label={`Download consent receipt for ${provider.name}`}
+                          disabled={provider.accessStatus === 'Disconnected'}
+                        >
+                          <FileJson className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleReceipt('print', [provider])}
+                          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg disabled:opacity-40 disabled:hover:bg-transparent"
+                          title="Print consent receipt"
+                          aria-label={`Print consent receipt for ${provider.name}`}
+                          disabled={provider.accessStatus === 'Disconnected'}
+                        >
+                          <Printer className="h-5 w-5" />
+                        </button>
                       </div>
                     </td>
-                    <td className="py-4">
-                      <button 
-                        onClick={() => openModal(provider)}
-                        className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
-                      >
-                        Manage
-                      </button>
-                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -483,6 +529,22 @@ export default function Consent() {
           onDeleteProvider={handleDeleteProvider}
         />
       )}
+      {bulkAction && (
+        <BulkConsentModal
+          isOpen={!!bulkAction}
+          onClose={() => setBulkAction(null)}
+          kind={bulkAction.kind}
+          providers={bulkAction.providers}
+          onConfirm={handleBulkConfirm}
+        />
+      )}
+      {historyProvider && (
+        <ConsentHistoryModal
+          isOpen={!!historyProvider}
+          onClose={() => setHistoryProvider(null)}
+          provider={historyProvider}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,10 +1,16 @@
-import { Activity, Bell, Calendar, Stethoscope, ClipboardList, Heart } from 'lucide-react';
+import { Activity, AlertCircle, Bell, Calendar, Stethoscope, ClipboardList, Heart } from 'lucide-react';
 import { useState, useCallback, useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Link } from 'react-router-dom';
 import AppointmentBookingModal from '../components/AppointmentBookingModal';
+import ExpiringConsents from '../components/ExpiringConsents';
 import { api } from '../services/api';
 import { supabaseData } from '../services/supabaseData';
+import { queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import { useSession } from '../hooks/useSession';
+import { useFlag } from '../hooks/useFlag';
+import { useActingAs } from '../hooks/useActingAs';
 
 // Define TypeScript interfaces for API responses
 interface HealthRecord {
@@ -29,244 +35,81 @@ interface DashboardCounts {
 }
 
 export default function Dashboard() {
-  // State for data from API
-  const [healthRecords, setHealthRecords] = useState<HealthRecord[]>([]);
-  const [providers, setProviders] = useState<Provider[]>([]);
-  const [dashboardCounts, setDashboardCounts] = useState<DashboardCounts | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [expiringConsentCount, setExpiringConsentCount] = useState(0);
 
   // UI state
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const currentUser = "Rachel";
+  const { user } = useSession();
+  const carePlannerEnabled = useFlag('carePlanner');
+  // A caregiver without manage_appointments cannot book for the account
+  const { can } = useActingAs();
+  const canBook = can('manage_appointments');
+  const currentUser = user?.name.split(' ')[0] || 'there';
   const navigate = useNavigate();
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
 
-  // Fetch data from Supabase only
-  useEffect(() => {
-    const fetchDashboardData = async () => {
-      try {
-        setLoading(true);
-        
-        // Fetch dashboard counts from Supabase
-        try {
-          const counts = await supabaseData.getDashboardCounts();
-          if (counts) {
-            setDashboardCounts(counts);
-          }
-        } catch (error) {
-          console.error('Error fetching counts from Supabase:', error);
-          // Use default counts
-          setDashboardCounts({
-            companies: 3,
-            contracts: 5,
-            dataElements: 12,
-            privacyStatements: 2
-          });
-        }
-        
-        // Fetch providers from Supabase
-        try {
-          const providersList = await supabaseData.getProviders();
-          if (providersList && providersList.length > 0) {
-            // Only show first 3 for dashboard
-            setProviders(providersList.slice(0, 3).map(provider => ({
-              id: provider.id,
-              name: provider.name,
-              logo: provider.logo,
-              dateAdded: new Date(provider.lastSync).toLocaleDateString(),
-              status: provider.status === 'active' ? 'Granted' : 'Disconnected'
-            })));
-          } else {
-            // Use default providers if none found
-            setProviders([
-              {
-                id: '1',
-                name: 'Baptist Health',
-                logo: '/elroi-logo.svg',
-                dateAdded: '01/15/2025',
-                status: 'Granted'
-              },
-              {
-                id: '2',
-                name: 'HealthMart Pharmacy',
-                logo: '/elroi-logo.svg',
-                dateAdded: '02/01/2025',
-                status: 'Granted'
-              },
-              {
-                id: '3',
-                name: 'VA Medical Center',
-                logo: '/elroi-logo.svg',
-                dateAdded: '02/10/2025',
-                status: 'Granted'
-              }
-            ]);
-          }
-        } catch (error) {
-          console.error('Error fetching providers from Supabase:', error);
-          // Use default providers
-          setProviders([
-            {
-              id: '1',
-              name: 'Baptist Health',
-              logo: '/elroi-logo.svg',
-              dateAdded: '01/15/2025',
-              status: 'Granted'
-            },
-            {
-              id: '2',
-              name: 'HealthMart Pharmacy',
-              logo: '/elroi-logo.svg',
-              dateAdded: '02/01/2025',
-              status: 'Granted'
-            },
-            {
-              id: '3',
-              name: 'VA Medical Center',
-              logo: '/elroi-logo.svg',
-              dateAdded: '02/10/2025',
-              status: 'Granted'
-            }
-          ]);
-        }
-        
-        // Fetch health records from Supabase
-        try {
-          const records = await supabaseData.getHealthRecords();
-          if (records && records.length > 0) {
-            // Only show first 2 for dashboard
-            setHealthRecords(records.slice(0, 2).map(record => ({
-              id: record.id,
-              type: record.title,
-              date: new Date(record.date).toLocaleDateString()
-            })));
-          } else {
-            // Use default health records
-            setHealthRecords([
-              {
-                id: '1',
-                type: 'Annual Physical Results',
-                date: '01/15/2025'
-              },
-              {
-                id: '2',
-                type: 'Blood Test Results',
-                date: '02/01/2025'
-              }
-            ]);
-          }
-        } catch (error) {
-          console.error('Error fetching health records from Supabase:', error);
-          // Use default health records
-          setHealthRecords([
-            {
-              id: '1',
-              type: 'Annual Physical Results',
-              date: '01/15/2025'
-            },
-            {
-              id: '2',
-              type: 'Blood Test Results',
-              date: '02/01/2025'
-            }
-          ]);
-        }
-      } catch (err) {
-        console.error('Error fetching dashboard data:', err);
-        setError('Failed to load dashboard data');
-        
-        // Use defaults for all data
-        setDashboardCounts({
-          companies: 3,
-          contracts: 5,
-          dataElements: 12,
-          privacyStatements: 2
-        });
-        
-        setProviders([
-          {
-            id: '1',
-            name: 'Baptist Health',
-            logo: '/elroi-logo.svg',
-            dateAdded: '01/15/2025',
-            status: 'Granted'
-          },
-          {
-            id: '2',
-            name: 'HealthMart Pharmacy',
-            logo: '/elroi-logo.svg',
-            dateAdded: '02/01/2025',
-            status: 'Granted'
-          },
-          {
-            id: '3',
-            name: 'VA Medical Center',
-            logo: '/elroi-logo.svg',
-            dateAdded: '02/10/2025',
-            status: 'Granted'
-          }
-        ]);
-        
-        setHealthRecords([
-          {
-            id: '1',
-            type: 'Annual Physical Results',
-            date: '01/15/2025'
-          },
-          {
-            id: '2',
-            type: 'Blood Test Results',
-            date: '02/01/2025'
-          }
-        ]);
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Providers come from the shared query cache, so booking can look one up
+  // without fetching the list again
+  const providersQuery = useQuery(queryKeys.providers, supabaseData.getProviders);
+  const providers = useMemo<Provider[]>(() => {
+    // Only show first 3 for dashboard
+    return (providersQuery.data ?? []).slice(0, 3).map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      logo: provider.logo,
+      dateAdded: new Date(provider.lastSync).toLocaleDateString(),
+      status: provider.status === 'active' ? 'Granted' : 'Disconnected'
+    }));
+  }, [providersQuery.data]);
 
-    fetchDashboardData();
-  }, []);
+  // Counts and recent records also come from the query cache
+  const countsQuery = useQuery(queryKeys.dashboardCounts, supabaseData.getDashboardCounts);
+  const recordsQuery = useQuery(queryKeys.healthRecords, supabaseData.getHealthRecords);
+  const dashboardCounts: DashboardCounts | null = countsQuery.data ?? null;
+  const healthRecords = useMemo<HealthRecord[]>(() => {
+    // Only show first 2 for dashboard
+    return (recordsQuery.data ?? []).slice(0, 2).map(record => ({
+      id: record.id,
+      type: record.title,
+      date: new Date(record.date).toLocaleDateString()
+    }));
+  }, [recordsQuery.data]);
+  const loading = providersQuery.loading || countsQuery.loading || recordsQuery.loading;
 
-  // Handle booking appointment with Supabase
+  // Sections that failed to load show as empty, with one notice to retry them
+  const failedQueries = [providersQuery, countsQuery, recordsQuery].filter(query => query.error);
+  const retryFailed = () => {
+    failedQueries.forEach(query => query.refetch().catch(() => undefined));
+  };
+
+  // Handle booking appointment with Supabase. Failures reach the booking
+  // modal, which shows them and stays open.
   const handleBookAppointment = async (appointment: {
     date: string;
     time: string;
     type: string;
     provider: string;
   }) => {
-    try {
-      // Book appointment with Supabase
-      const providerName = appointment.provider.split(' - ')[0];
-      
-      // Find provider ID by name
-      const providerList = await supabaseData.getProviders();
-      const provider = providerList.find(p => p.name === providerName);
-      
-      if (provider) {
-        // Book using Supabase
-        await supabaseData.bookAppointment({
-          providerId: provider.id,
-          type: appointment.type,
-          date: appointment.date,
-          time: appointment.time,
-          details: {
-            status: 'pending'
-          }
-        });
-      } else {
-        // Use default placeholder to simulate booking success
-        console.log('Booking appointment for provider:', providerName);
-      }
-      
-      // Close modal
-      setIsBookingModalOpen(false);
-    } catch (error) {
-      console.error('Error booking appointment:', error);
-      // Still close modal to improve UX
-      setIsBookingModalOpen(false);
+    const providerName = appointment.provider.split(' - ')[0];
+
+    // Find provider ID by name
+    const provider = providersQuery.data?.find(p => p.name === providerName);
+    if (!provider) {
+      throw new Error(`${providerName || 'That provider'} is not one of your providers`);
     }
+
+    await supabaseData.bookAppointment({
+      providerId: provider.id,
+      type: appointment.type,
+      date: appointment.date,
+      time: appointment.time,
+      details: {
+        status: 'pending'
+      }
+    });
+
+    setIsBookingModalOpen(false);
   };
   
   const monthNames = useMemo(() => [
@@ -350,27 +193,24 @@ export default function Dashboard() {
     );
   }
 
-  // Show error message if data fetching failed
-  if (error) {
-    return (
-      <div className="p-6 flex items-center justify-center h-full">
-        <div className="text-center">
-          <div className="text-red-600 text-xl mb-2">Error</div>
-          <p className="text-gray-600">{error}</p>
-          <button 
-            onClick={() => window.location.reload()} 
-            className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+  return (
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl md:text-3xl font-bold">Welcome back, {currentUser}!</h1>
+
+      {failedQueries.length > 0 && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-red-50 border border-red-200 text-red-700 rounded-xl">
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 flex-shrink-0" />
+            <span>Some of your dashboard could not be loaded.</span>
+          </div>
+          <button
+            onClick={retryFailed}
+            className="px-3 py-1 bg-white border border-red-200 rounded-lg text-sm hover:bg-red-100"
           >
             Try Again
           </button>
         </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="p-6 space-y-6">
-      <h1 className="text-2xl md:text-3xl font-bold">Welcome back, {currentUser}!</h1>
+      )}
 
       <div className="grid grid-cols-12 gap-6">
         {/* Left Column - Spans 6 columns */}
@@ -380,7 +220,7 @@ export default function Dashboard() {
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-semibold">Insights & Alerts</h2>
               <div className="flex items-center gap-2">
-                {isMobile && (
+                {isMobile && canBook && (
                   <button
                     onClick={() => setIsBookingModalOpen(true)}
                     className="px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
@@ -415,6 +255,20 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Expiring Consents */}
+          <div className={`bg-white p-6 rounded-2xl shadow-sm ${expiringConsentCount === 0 ? 'hidden' : ''}`}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Consent Renewals</h2>
+              <Link
+                to="/consent"
+                className="text-blue-600 hover:text-blue-700"
+              >
+                Manage
+              </Link>
+            </div>
+            <ExpiringConsents onLoaded={setExpiringConsentCount} />
+          </div>
+
           {/* Health Records */}
           <div className="bg-white p-6 rounded-2xl shadow-sm">
             <div className="flex items-center justify-between mb-4">
@@ -453,16 +307,20 @@ export default function Dashboard() {
             </div>
             <div className="flex items-center justify-between">
               <div className="flex-1">
-                <p className="text-gray-900">
-                  Early detection saves lives{!isMobile && "—"}
-                  <button 
-                    onClick={() => setIsBookingModalOpen(true)}
-                    className="text-blue-600 hover:text-blue-700"
-                  >
-                    click here
-                  </button>
-                  {' '}to book your appointment today.
-                </p>
+                {canBook ? (
+                  <p className="text-gray-900">
+                    Early detection saves lives{!isMobile && "—"}
+                    <button 
+                      onClick={() => setIsBookingModalOpen(true)}
+                      className="text-blue-600 hover:text-blue-700"
+                    >
+                      click here
+                    </button>
+                    {' '}to book your appointment today.
+                  </p>
+                ) : (
+                  <p className="text-gray-900">Early detection saves lives.</p>
+                )}
               </div>
               <img
                 src="/doctor.svg" 
@@ -476,66 +334,68 @@ export default function Dashboard() {
         {/* Right Column - Spans 6 columns */}
         <div className="col-span-12 lg:col-span-6 space-y-6">
           {/* Care Planner */}
-          <div className="bg-white p-6 rounded-2xl shadow-sm mb-6">
-            <div className="flex items-center justify-between mb-4">
-              <h2 className="text-xl font-semibold">Care Planner</h2>
-              <Link
-                to="/care-planner"
-                className="text-blue-600 hover:text-blue-700"
-              >
-                View Appointments
-              </Link>
-            </div>
-
-            {/* Calendar Component */}
-            <div className="mt-4">
+          {carePlannerEnabled && (
+            <div className="bg-white p-6 rounded-2xl shadow-sm mb-6">
               <div className="flex items-center justify-between mb-4">
-                <button
-                  onClick={() => navigateMonth('prev')} 
-                  className="p-1 hover:bg-gray-100 rounded-full"
-                >
-                  <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                  </svg>
-                </button>
-                <h3 className="text-sm font-medium">
-                  {isMobile ? monthNames[selectedDate.getMonth()].substring(0, 3) : monthNames[selectedDate.getMonth()]} {selectedDate.getFullYear()}
-                </h3>
-                <button
-                  onClick={() => navigateMonth('next')}
-                  className="p-1 hover:bg-gray-100 rounded-full"
+                <h2 className="text-xl font-semibold">Care Planner</h2>
+                <Link
+                  to="/care-planner"
+                  className="text-blue-600 hover:text-blue-700"
                 >
-                  <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                  </svg>
-                </button>
-              </div>
-              
-              <div className="grid grid-cols-7 gap-2 text-center mb-4">
-                {(isMobile ? ['M', 'T', 'W', 'T', 'F', 'S', 'S'] : ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN']).map((day, index) => (
-                  <div key={`day-${index}`} className="text-gray-500 text-xs">{day}</div>
-                ))}
+                  View Appointments
+                </Link>
               </div>
-              
-              <div className="grid grid-cols-7 gap-2">
-                {generateCalendarDays().map((day, index) => (
+
+              {/* Calendar Component */}
+              <div className="mt-4">
+                <div className="flex items-center justify-between mb-4">
+                  <button
+                    onClick={() => navigateMonth('prev')} 
+                    className="p-1 hover:bg-gray-100 rounded-full"
+                  >
+                    <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                  </button>
+                  <h3 className="text-sm font-medium">
+                    {isMobile ? monthNames[selectedDate.getMonth()].substring(0, 3) : monthNames[selectedDate.getMonth()]} {selectedDate.getFullYear()}
+                  </h3>
                   <button
-                    key={index}
-                    className={`p-1 md:p-2 rounded-lg text-center text-sm transition-colors ${
-                      day.getMonth() === selectedDate.getMonth()
-                        ? day.getDate() === new Date().getDate() && day.getMonth() === new Date().getMonth()
-                          ? 'bg-blue-600 text-white hover:bg-blue-700'
-                          : 'hover:bg-gray-50'
-                        : 'text-gray-400 hover:bg-gray-50'
-                    }`}
-                    onClick={() => setSelectedDate(day)}
+                    onClick={() => navigateMonth('next')}
+                    className="p-1 hover:bg-gray-100 rounded-full"
                   >
-                    {day.getDate()}
+                    <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
                   </button>
-                ))}
+                </div>
+              
+                <div className="grid grid-cols-7 gap-2 text-center mb-4">
+                  {(isMobile ? ['M', 'T', 'W', 'T', 'F', 'S', 'S'] : ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN']).map((day, index) => (
+                    <div key={`day-${index}`} className="text-gray-500 text-xs">{day}</div>
+                  ))}
+                </div>
+              
+                <div className="grid grid-cols-7 gap-2">
+                  {generateCalendarDays().map((day, index) => (
+                    <button
+                      key={index}
+                      className={`p-1 md:p-2 rounded-lg text-center text-sm transition-colors ${
+                        day.getMonth() === selectedDate.getMonth()
+                          ? day.getDate() === new Date().getDate() && day.getMonth() === new Date().getMonth()
+                            ? 'bg-blue-600 text-white hover:bg-blue-700'
+                            : 'hover:bg-gray-50'
+                          : 'text-gray-400 hover:bg-gray-50'
+                      }`}
+                      onClick={() => setSelectedDate(day)}
+                    >
+                      {day.getDate()}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* My Providers */}
           <div className="bg-white p-6 rounded-2xl shadow-sm mb-6">
@@ -579,7 +439,7 @@ export default function Dashboard() {
         </div>
       </div>
       <AppointmentBookingModal
-        isOpen={isBookingModalOpen}
+        isOpen={isBookingModalOpen && canBook}
         onClose={() => setIsBookingModalOpen(false)}
         onBook={handleBookAppointment}
       />
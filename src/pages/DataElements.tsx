@@ -1,25 +1,9 @@
 import { ChevronUp } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { api } from '../services/api';
-
-interface DataElement {
-  id: string;
-  name: string;
-  description: string;
-  status: 'active' | 'inactive';
-  lastUpdated: string;
-}
-
-interface CategoryData {
-  id: string;
-  name: string;
-  description: string;
-  sections: {
-    id: string;
-    title: string;
-    elements: DataElement[];
-  }[];
-}
+import { demoData } from '../services/demo';
+import { DEMO_MODE } from '../config/constants';
+import type { DataElementCategory, DataElementEntry } from '../types';
 
 interface Section {
   id: string;
@@ -27,131 +11,8 @@ interface Section {
   isOpen?: boolean;
 }
 
-// Default categories for fallback
-const defaultCategories: CategoryData[] = [
-  {
-    id: 'general',
-    name: 'General',
-    description: 'Basic personal and demographic information',
-    sections: [
-      {
-        id: 'personal',
-        title: 'Personal Information',
-        elements: [
-          {
-            id: '1',
-            name: 'Full Name',
-            description: 'Rachel Cash',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          },
-          {
-            id: '2',
-            name: 'Date of Birth',
-            description: '1988-05-15 (36 years old)',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          }
-        ]
-      },
-      {
-        id: 'contact',
-        title: 'Contact Information',
-        elements: [
-          {
-            id: '3',
-            name: 'Email Address',
-            description: 'rachel.cash@example.com',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          },
-          {
-            id: '4',
-            name: 'Phone Number',
-            description: '(555) 123-4567',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          }
-        ]
-      }
-    ]
-  },
-  {
-    id: 'medical',
-    name: 'Medical Files',
-    description: 'Summary information for received medical files',
-    sections: [
-      {
-        id: 'medical-history',
-        title: 'Medical History',
-        elements: [
-          {
-            id: 'mh1',
-            name: 'Medical History Summary',
-            description: 'Rachel Cash, 36 years old female, has a history of hypertension and asthma.',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          }
-        ]
-      },
-      {
-        id: 'prescription-history',
-        title: 'Prescription History',
-        elements: [
-          {
-            id: 'ph1',
-            name: 'Prescription History Summary',
-            description: 'Rachel Cash is currently prescribed Lisinopril for hypertension and Albuterol for asthma.',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          }
-        ]
-      },
-      {
-        id: 'immunization-records',
-        title: 'Immunization Records',
-        elements: [
-          {
-            id: 'ir1',
-            name: 'Immunization Records Summary',
-            description: 'Rachel Cash has received all recommended immunizations, including the flu vaccine and COVID-19 vaccine.',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          }
-        ]
-      },
-      {
-        id: 'lab-results',
-        title: 'Lab Results',
-        elements: [
-          {
-            id: 'lr1',
-            name: 'Lab Results Summary',
-            description: 'Recent lab results for Rachel Cash show normal blood glucose levels and slightly elevated cholesterol.',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          }
-        ]
-      },
-      {
-        id: 'vital-signs-history',
-        title: 'Vital Signs History',
-        elements: [
-          {
-            id: 'vsh1',
-            name: 'Vital Signs History Summary',
-            description: 'Rachel Cash\'s vital signs are stable with a blood pressure of 120/80 mmHg and a heart rate of 72 bpm.',
-            status: 'active',
-            lastUpdated: '2024-02-20'
-          }
-        ]
-      }
-    ]
-  }
-];
-
 export default function DataElements() {
-  const [categories, setCategories] = useState<CategoryData[]>([]);
+  const [categories, setCategories] = useState<DataElementCategory[]>([]);
   const [activeCategory, setActiveCategory] = useState<string>('');
   const [openSections, setOpenSections] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
@@ -164,6 +25,13 @@ export default function DataElements() {
     const fetchDataElements = async () => {
       try {
         setLoading(true);
+
+        if (DEMO_MODE) {
+          const demoCategories = await demoData.getDataElementCategories();
+          setCategories(demoCategories);
+          setActiveCategory(demoCategories[0].id);
+          return;
+        }
         
         // Get the list of data element categories
         const piNameResponse = await api.get<any[]>('get-pinamelist');
@@ -175,7 +43,7 @@ export default function DataElements() {
         const userDataElementsResponse = await api.post<{ userDataElements: any[] }>('user-dataelement-list', {});
         
         // Process and organize the data elements into categories and sections
-        const processedCategories: CategoryData[] = [];
+        const processedCategories: DataElementCategory[] = [];
         
         // Map API response to our data structure
         if (Array.isArray(piNameResponse)) {
@@ -183,7 +51,7 @@ export default function DataElements() {
             const categoryElements = elementsResponse.filter(elem => elem.pi_name_id === category.id);
             
             // Group elements by section
-            const sectionMap = new Map<string, DataElement[]>();
+            const sectionMap = new Map<string, DataElementEntry[]>();
             
             for (const element of categoryElements) {
               const sectionTitle = element.section || 'General';
@@ -226,21 +94,13 @@ export default function DataElements() {
         }
         
         // Set categories and default active category
+        setCategories(processedCategories);
         if (processedCategories.length > 0) {
-          setCategories(processedCategories);
           setActiveCategory(processedCategories[0].id);
-        } else {
-          // Fallback to default categories if no data
-          setCategories(defaultCategories);
-          setActiveCategory('general');
         }
       } catch (err) {
         console.error('Error fetching data elements:', err);
         setError('Failed to load data elements');
-        
-        // Fallback to default categories
-        setCategories(defaultCategories);
-        setActiveCategory('general');
       } finally {
         setLoading(false);
       }
@@ -317,6 +177,12 @@ export default function DataElements() {
 
       <h1 className="text-4xl font-bold mb-8">Your Data Elements</h1>
 
+      {categories.length === 0 && (
+        <div className="bg-white rounded-xl p-8 text-center">
+          <p className="text-gray-500">You don't have any data elements yet.</p>
+        </div>
+      )}
+
       {/* Category Tabs */}
       <div className="flex overflow-x-auto space-x-8 border-b border-gray-200 mb-8 pb-1">
         {categories.map(category => (
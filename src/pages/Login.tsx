@@ -1,18 +1,29 @@
 import { useState, useCallback, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../hooks/useAuth';
-import { useSupabaseAuth } from '../hooks/useSupabaseAuth';
-import { Eye, EyeOff } from 'lucide-react';
-import { validatePassword, validateEmail, sanitizeInput, isStrongPassword } from '../utils/validation';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useSession } from '../hooks/useSession';
+import { useTenant } from '../hooks/useTenant';
+import { usePasswordCheck } from '../hooks/usePasswordCheck';
+import { Eye, EyeOff, Fingerprint } from 'lucide-react';
+import { passkeyService } from '../services/passkeys';
+import { PRIVACY_POLICY_URL } from '../config/constants';
+import { rateLimit } from '../utils/rateLimit';
+import { validateEmail, sanitizeInput } from '../utils/validation';
 import PasswordStrengthIndicator from '../components/PasswordStrengthIndicator';
-import type { FormSubmitEvent, PasswordRequirements } from '../types/auth';
+import type { FormSubmitEvent } from '../types/auth';
+
+// m:ss for the lockout countdown
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
 
 export default function Login() {
-  // Use both auth systems
-  const legacyAuth = useAuth();
-  const supabaseAuth = useSupabaseAuth();
-  
+  const { signIn, signInWithPasskey, signUp } = useSession();
+  const { branding, legal } = useTenant();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set when the user was sent here because their session expired
+  const notice = (location.state as { message?: string } | null)?.message;
   const [mode, setMode] = useState<'login' | 'register'>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -20,27 +31,26 @@ export default function Login() {
   const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [submitting, setSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  const [passwordRequirements, setPasswordRequirements] = useState<PasswordRequirements>({
-    minLength: false,
-    hasUpperCase: false,
-    hasLowerCase: false,
-    hasNumber: false,
-    hasSpecialChar: false
-  });
+  const passwordCheck = usePasswordCheck(mode === 'register' ? password : '', name, email);
+  // Re-render every second while locked out, to count down
+  const [, setTick] = useState(0);
+
+  // Too many failed sign-ins for this address; kept across reloads
+  const lockedForMs = mode === 'login' && email ? rateLimit.retryAfter('login', email) : 0;
+  const locked = lockedForMs > 0;
 
-  // Redirect to dashboard if already logged in
   useEffect(() => {
-    const checkAuthStatus = async () => {
-      // If authenticated with either system, redirect to dashboard
-      if (supabaseAuth.session || legacyAuth.user) {
-        navigate('/', { replace: true });
-      }
+    if (!locked) return;
+    const timer = setInterval(() => setTick(tick => tick + 1), 1000);
+    return () => {
+      clearInterval(timer);
+      // The failure that caused the lockout no longer applies
+      setError('');
     };
-    
-    checkAuthStatus();
-  }, [supabaseAuth.session, legacyAuth.user, navigate]);
+  }, [locked]);
 
   // Form validation
   const validateForm = useCallback(() => {
@@ -54,8 +64,8 @@ export default function Login() {
       return false;
     }
     
-    if (mode === 'register' && !isStrongPassword(passwordRequirements)) {
-      setError('Please meet all password requirements');
+    if (mode === 'register' && passwordCheck.problem) {
+      setError(passwordCheck.problem);
       return false;
     }
     
@@ -71,13 +81,11 @@ export default function Login() {
     }
     
     return true;
-  }, [email, password, name, confirmPassword, mode, passwordRequirements]);
+  }, [email, password, name, confirmPassword, mode, passwordCheck.problem]);
 
-  // Handle password input changes and validate requirements
+  // Handle password input changes; the check follows the password
   const handlePasswordChange = (value: string) => {
-    const sanitizedValue = sanitizeInput(value);
-    setPassword(sanitizedValue);
-    setPasswordRequirements(validatePassword(sanitizedValue));
+    setPassword(sanitizeInput(value));
   };
 
   // Form submission handler
@@ -90,18 +98,21 @@ export default function Login() {
       return;
     }
 
+    setSubmitting(true);
     try {
       if (mode === 'register') {
-        // Register user with Supabase
-        await supabaseAuth.signUp(email, password, name);
-        setSuccess('Registration successful! Please check your email to verify your account.');
-        setEmail('');
-        setPassword('');
-        setName('');
-        setConfirmPassword('');
+        // Without email confirmation the new account is signed straight in
+        const { confirmationRequired } = await signUp(email, password, name);
+        if (confirmationRequired) {
+          setSuccess('Registration successful! Please check your email to verify your account.');
+          setEmail('');
+          setPassword('');
+          setName('');
+          setConfirmPassword('');
+        }
       } else {
-        // Login user with Supabase
-        await supabaseAuth.signIn(email, password);
+        // The router moves on once the session is established
+        await signIn(email, password);
       }
     } catch (err) {
       if (err instanceof Error) {
@@ -109,6 +120,23 @@ export default function Login() {
       } else {
         setError(mode === 'register' ? 'Registration failed' : 'Invalid credentials');
       }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Passwordless sign-in with a passkey saved for the account
+  const handlePasskeySignIn = async () => {
+    setError('');
+    setSuccess('');
+    setSubmitting(true);
+    try {
+      // The router moves on once the session is established
+      await signInWithPasskey();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Passkey sign-in failed');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -128,33 +156,40 @@ export default function Login() {
     navigate('/forgot-password');
   };
 
-  // Determine loading state and error message
-  const loading = supabaseAuth.loading;
-  const errorMessage = error || supabaseAuth.error;
-
   return (
     <div className="min-h-screen flex">
       {/* Left Column */}
       <div className="w-full lg:w-1/2 flex flex-col justify-center px-4 sm:px-6 lg:px-8 bg-white">
         <div className="max-w-md w-full mx-auto">
           <div className="flex items-center mb-8">
-            <img src="/elroi-logo.svg" alt="Elroi" className="h-8 w-auto" />
-            <span className="ml-2 text-2xl font-medium">Health</span>
+            <img src={branding.logo} alt={branding.productName} className="h-8 w-auto" />
+            <span className="ml-2 text-2xl font-medium">{branding.wordmark}</span>
           </div>
 
           <h2 className="text-3xl font-bold mb-2">{mode === 'login' ? 'Login' : 'Create Account'}</h2>
           
           <p className="text-gray-600 mb-4">
             {mode === 'login' ? "Don't have an account?" : "Already have an account?"}{' '}
-            <button onClick={toggleMode} className="text-blue-600 hover:text-blue-700 font-medium">
-              {mode === 'login' ? "Get Elroi Now" : "Sign In"}
+            <button onClick={toggleMode} className="text-brand hover:text-brand-hover font-medium">
+              {mode === 'login' ? `Get ${branding.productName} Now` : "Sign In"}
             </button>
           </p>
 
           <form className="space-y-6" onSubmit={handleSubmit}>
-            {errorMessage && (
+            {notice && !error && !success && (
+              <div className="px-4 py-3 rounded-md text-sm bg-yellow-50 border border-yellow-200 text-yellow-700">
+                {notice}
+              </div>
+            )}
+
+            {locked ? (
+              <div className="px-4 py-3 rounded-md text-sm bg-red-50 border border-red-200 text-red-600" role="alert">
+                Too many failed sign-in attempts for this email address. You can try again in{' '}
+                <span className="font-medium tabular-nums">{formatCountdown(lockedForMs)}</span>, or reset your password.
+              </div>
+            ) : error && (
               <div className="px-4 py-3 rounded-md text-sm bg-red-50 border border-red-200 text-red-600">
-                {errorMessage}
+                {error}
               </div>
             )}
             
@@ -211,7 +246,7 @@ export default function Login() {
                   <button
                     type="button"
                     onClick={handleForgotPassword}
-                    className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                    className="text-sm font-medium text-brand hover:text-brand-hover"
                   >
                     Forgot your password?
                   </button>
@@ -238,7 +273,7 @@ export default function Login() {
                   {showPassword ? <EyeOff className="w-4 h-4 text-gray-500" /> : <Eye className="w-4 h-4 text-gray-500" />}
                 </button>
               </div>
-              {mode === 'register' && <PasswordStrengthIndicator requirements={passwordRequirements} />}
+              {mode === 'register' && <PasswordStrengthIndicator check={passwordCheck} />}
             </div>
 
             {mode === 'register' && (
@@ -288,23 +323,45 @@ export default function Login() {
               <button
                 type="submit"
                 className={`w-full flex justify-center py-3 px-4 border border-transparent rounded-lg text-sm font-medium text-white ${
-                  loading 
+                  submitting || locked
                     ? 'bg-blue-400 cursor-not-allowed' 
                     : 'bg-[#2E3B8C] hover:bg-[#1E2A7B]'
                 } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
-                disabled={loading}
+                disabled={submitting || locked}
               >
-                {loading ? 'Processing...' : mode === 'login' ? 'Log In' : 'Create Account'}
+                {submitting ? 'Processing...' : mode === 'login' ? 'Log In' : 'Create Account'}
               </button>
             </div>
+
+            {mode === 'login' && passkeyService.isSupported() && (
+              <div>
+                <div className="relative mb-6">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-gray-200" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-2 bg-white text-gray-500">or</span>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={handlePasskeySignIn}
+                  className="w-full flex justify-center items-center py-3 px-4 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  disabled={submitting}
+                >
+                  <Fingerprint className="w-4 h-4 mr-2" />
+                  Sign in with a passkey
+                </button>
+              </div>
+            )}
           </form>
 
           <div className="mt-8 text-center text-sm text-gray-500">
-            <p>Copyright © 2025 Elroi, LLC. Elroi is a trademark of Elroi, LLC.</p>
+            <p>{legal.copyright}</p>
             <div className="mt-2 space-x-4">
-              <a href="#" className="text-gray-600 hover:text-gray-900">Terms of Service</a>
+              <a href={legal.termsUrl} target="_blank" rel="noopener noreferrer" className="text-gray-600 hover:text-gray-900">Terms of Service</a>
               <span>|</span>
-              <a href="#" className="text-gray-600 hover:text-gray-900">Privacy Policy</a>
+              <a href={PRIVACY_POLICY_URL} target="_blank" rel="noopener noreferrer" className="text-gray-600 hover:text-gray-900">Privacy Policy</a>
             </div>
           </div>
         </div>
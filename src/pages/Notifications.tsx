@@ -5,79 +5,13 @@ import {
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { api } from '../services/api';
-
-interface Notification {
-  id: string;
-  message: string;
-  link?: string;
-  linkText?: string;
-  icon: JSX.Element;
-  createdAt: string;
-}
-
-interface HealthMetric {
-  id: string;
-  title: string;
-  value: string;
-  trend: 'up' | 'down';
-  period: string;
-  added?: boolean;
-  icon: React.ReactNode;
-}
-
-// Default mock notifications - these will be used if API fails
-const defaultTodayNotifications: Notification[] = [
-  {
-    id: '1',
-    message: 'Your appointment with Dr. Johnson is tomorrow at 10:00 AM.',
-    linkText: 'View appointment',
-    link: '/care-planner',
-    icon: <Calendar className="h-6 w-6 text-purple-600" />,
-    createdAt: new Date().toISOString()
-  },
-  {
-    id: '2',
-    message: 'Your lab results from Central Medical Lab are now available.',
-    linkText: 'View results',
-    link: '/health-records',
-    icon: <Stethoscope className="h-6 w-6 text-blue-600" />,
-    createdAt: new Date().toISOString()
-  }
-];
-
-const defaultYesterdayNotifications: Notification[] = [
-  {
-    id: '3',
-    message: 'Reminder: Take your medication Lisinopril 10mg daily.',
-    linkText: 'View medication',
-    link: '/health-records',
-    icon: <Pill className="h-6 w-6 text-green-600" />,
-    createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-  }
-];
-
-const defaultLastWeekNotifications: Notification[] = [
-  {
-    id: '4',
-    message: 'You\'ve completed your fitness goal! 10,000 steps achieved.',
-    linkText: 'View progress',
-    link: '/health-records',
-    icon: <Dumbbell className="h-6 w-6 text-orange-600" />,
-    createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-  },
-  {
-    id: '5',
-    message: 'Your insurance claim #12345 has been processed.',
-    linkText: 'View details',
-    link: '#',
-    icon: <MessageSquare className="h-6 w-6 text-blue-600" />,
-    createdAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString()
-  }
-];
+import { demoData } from '../services/demo';
+import { DEMO_MODE } from '../config/constants';
+import type { HealthInsight, HealthInsightKind, NotificationItem, NotificationKind } from '../types';
 
 // Map icon based on notification type
-const getIconForType = (type: string): JSX.Element => {
-  switch(type.toLowerCase()) {
+const getIconForType = (type: NotificationKind): JSX.Element => {
+  switch(type) {
     case 'appointment':
       return <Calendar className="h-6 w-6 text-purple-600" />;
     case 'message':
@@ -93,7 +27,24 @@ const getIconForType = (type: string): JSX.Element => {
   }
 };
 
-const NotificationSection = ({ title, notifications }: { title: string; notifications: Notification[] }) => (
+const insightIcons: Record<HealthInsightKind, JSX.Element> = {
+  sleep: <Brain className="h-5 w-5 text-blue-600" />,
+  steps: <Activity className="h-5 w-5 text-green-600" />,
+  calories: <BookOpen className="h-5 w-5 text-orange-600" />,
+  water: <Droplets className="h-5 w-5 text-blue-600" />,
+  mindfulness: <Brain className="h-5 w-5 text-purple-600" />,
+  journal: <Heart className="h-5 w-5 text-red-600" />
+};
+
+const notificationKinds: NotificationKind[] = ['appointment', 'message', 'medical', 'medication', 'activity'];
+
+// Legacy contracts carry a free-form type; anything unknown gets the default icon
+const toNotificationKind = (type: unknown): NotificationKind => {
+  const kind = String(type ?? '').toLowerCase() as NotificationKind;
+  return notificationKinds.includes(kind) ? kind : 'default';
+};
+
+const NotificationSection = ({ title, notifications }: { title: string; notifications: NotificationItem[] }) => (
   <div>
     <h3 className="text-lg font-medium mb-4">{title}</h3>
     <div className="space-y-4">
@@ -102,7 +53,7 @@ const NotificationSection = ({ title, notifications }: { title: string; notifica
           <div key={notification.id} className="bg-blue-50 p-4 rounded-xl">
             <div className="flex gap-3">
               <div className="p-2 bg-white rounded-lg">
-                {notification.icon}
+                {getIconForType(notification.kind)}
               </div>
               <p className="text-gray-900">
                 {notification.message}
@@ -122,98 +73,40 @@ const NotificationSection = ({ title, notifications }: { title: string; notifica
   </div>
 );
 
-// Sample health metrics data - this would typically come from an API
-const healthMetrics: HealthMetric[] = [
-  {
-    id: '1',
-    title: 'Average Sleep hrs',
-    value: '6.5',
-    trend: 'up',
-    period: 'This week',
-    icon: <Brain className="h-5 w-5 text-blue-600" />
-  },
-  {
-    id: '2',
-    title: 'Total Steps Taken',
-    value: '100,000',
-    trend: 'up',
-    period: 'January 2026',
-    added: true,
-    icon: <Activity className="h-5 w-5 text-green-600" />
-  },
-  {
-    id: '3',
-    title: 'Calorie Intake',
-    value: '300',
-    trend: 'up',
-    period: 'Today',
-    icon: <BookOpen className="h-5 w-5 text-orange-600" />
-  },
-  {
-    id: '4',
-    title: 'Water Intake',
-    value: '5 gal',
-    trend: 'down',
-    period: 'This week',
-    icon: <Droplets className="h-5 w-5 text-blue-600" />
-  },
-  {
-    id: '5',
-    title: 'Mindfulness Minutes',
-    value: '300',
-    trend: 'up',
-    period: 'This week',
-    icon: <Brain className="h-5 w-5 text-purple-600" />
-  },
-  {
-    id: '6',
-    title: 'Journal Entries',
-    value: '25',
-    trend: 'up',
-    period: 'January 2026',
-    icon: <Heart className="h-5 w-5 text-red-600" />
-  }
-];
-
 export default function Notifications() {
-  const [todayNotifications, setTodayNotifications] = useState<Notification[]>([]);
-  const [yesterdayNotifications, setYesterdayNotifications] = useState<Notification[]>([]);
-  const [lastWeekNotifications, setLastWeekNotifications] = useState<Notification[]>([]);
+  const [todayNotifications, setTodayNotifications] = useState<NotificationItem[]>([]);
+  const [yesterdayNotifications, setYesterdayNotifications] = useState<NotificationItem[]>([]);
+  const [lastWeekNotifications, setLastWeekNotifications] = useState<NotificationItem[]>([]);
+  const [healthInsights, setHealthInsights] = useState<HealthInsight[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [useMockData, setUseMockData] = useState(true); // Set to true to always use mock data
 
   useEffect(() => {
     const fetchNotifications = async () => {
       try {
         setLoading(true);
-        
-        if (useMockData) {
-          // Use mock data directly
-          setTodayNotifications(defaultTodayNotifications);
-          setYesterdayNotifications(defaultYesterdayNotifications);
-          setLastWeekNotifications(defaultLastWeekNotifications);
-          setLoading(false);
-          return;
+        setError(null);
+
+        let allNotifications: NotificationItem[];
+
+        if (DEMO_MODE) {
+          allNotifications = await demoData.getNotifications();
+          setHealthInsights(await demoData.getHealthInsights());
+        } else {
+          // There is no dedicated notifications endpoint yet, so notifications
+          // are built from the user's contracts
+          const contractsResponse = await api.get<{ contracts: any[] }>('contracts');
+
+          allNotifications = (contractsResponse.contracts || []).map(contract => ({
+            id: contract.id,
+            message: `${contract.title || 'Contract'} - ${contract.description || 'Review required'}`,
+            linkText: 'View details',
+            link: `/contracts/${contract.id}`,
+            kind: toNotificationKind(contract.type),
+            createdAt: contract.created_at || new Date().toISOString(),
+          }));
         }
         
-        // For this example, we'll use user-notification-settings to check if there are any settings
-        // In a real implementation, there would be a dedicated notifications endpoint
-        const response = await api.get<any>('user-notification-settings');
-        
-        // We'll simulate notifications based on the contract data
-        const contractsResponse = await api.get<{ contracts: any[] }>('contracts');
-        
-        // Process the contracts into notifications
-        const allNotifications = contractsResponse.contracts.map(contract => ({
-          id: contract.id,
-          message: `${contract.title || 'Contract'} - ${contract.description || 'Review required'}`,
-          linkText: 'View details',
-          link: `/contracts/${contract.id}`,
-          icon: getIconForType(contract.type || 'default'),
-          createdAt: contract.created_at || new Date().toISOString(),
-        }));
-        
         // Sort by date (newest first)
         const sortedNotifications = allNotifications.sort((a, b) => 
           new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -229,51 +122,30 @@ export default function Notifications() {
         const lastWeekStart = new Date(today);
         lastWeekStart.setDate(lastWeekStart.getDate() - 7);
         
-        const todayNotifs = sortedNotifications.filter(notif => {
+        setTodayNotifications(sortedNotifications.filter(notif => {
           const date = new Date(notif.createdAt);
           return date >= today;
-        });
+        }));
         
-        const yesterdayNotifs = sortedNotifications.filter(notif => {
+        setYesterdayNotifications(sortedNotifications.filter(notif => {
           const date = new Date(notif.createdAt);
           return date >= yesterday && date < today;
-        });
+        }));
         
-        const lastWeekNotifs = sortedNotifications.filter(notif => {
+        setLastWeekNotifications(sortedNotifications.filter(notif => {
           const date = new Date(notif.createdAt);
           return date >= lastWeekStart && date < yesterday;
-        });
-        
-        if (todayNotifs.length > 0) {
-          setTodayNotifications(todayNotifs);
-        } else {
-          setTodayNotifications(defaultTodayNotifications);
-        }
-        
-        if (yesterdayNotifs.length > 0) {
-          setYesterdayNotifications(yesterdayNotifs);
-        } else {
-          setYesterdayNotifications(defaultYesterdayNotifications);
-        }
-        
-        if (lastWeekNotifs.length > 0) {
-          setLastWeekNotifications(lastWeekNotifs);
-        } else {
-          setLastWeekNotifications(defaultLastWeekNotifications);
-        }
+        }));
       } catch (err) {
         console.error('Error fetching notifications:', err);
-        // Fall back to default mock notifications
-        setTodayNotifications(defaultTodayNotifications);
-        setYesterdayNotifications(defaultYesterdayNotifications);
-        setLastWeekNotifications(defaultLastWeekNotifications);
+        setError('Failed to load notifications');
       } finally {
         setLoading(false);
       }
     };
 
     fetchNotifications();
-  }, [useMockData]);
+  }, []);
 
   // Function to handle marking all notifications as read
   const markAllAsRead = async () => {
@@ -292,11 +164,6 @@ export default function Notifications() {
     console.log(`Added widget ${widgetId} to dashboard`);
   };
 
-  // Toggle between mock and API data
-  const toggleDataSource = () => {
-    setUseMockData(!useMockData);
-  };
-
   if (loading) {
     return (
       <div className="p-6 flex items-center justify-center h-full">
@@ -338,14 +205,6 @@ export default function Notifications() {
         <div className="col-span-12 lg:col-span-7">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-2xl font-bold">Alerts</h2>
-            <div className="flex gap-2">
-              <button
-                onClick={toggleDataSource}
-                className="text-xs bg-gray-100 px-2 py-1 rounded hover:bg-gray-200"
-              >
-                {useMockData ? "Using Mock Data" : "Using API Data"}
-              </button>
-            </div>
           </div>
           <div className="space-y-8">
             <div className="flex items-center justify-between">
@@ -371,8 +230,11 @@ export default function Notifications() {
             <p className="text-gray-600 mb-6">
               Review your health insights and select a widget to keep on your dashboard.
             </p>
+            {healthInsights.length === 0 && (
+              <p className="text-gray-500">No health insights yet. They appear once your providers share activity data.</p>
+            )}
             <div className="grid grid-cols-2 gap-4">
-              {healthMetrics.map(metric => (
+              {healthInsights.map(metric => (
                 <div key={metric.id} className="bg-blue-600 p-4 rounded-xl text-white relative">
                   {metric.added ? (
                     <span className="absolute top-2 right-2 text-xs bg-white text-blue-600 px-2 py-1 rounded-full">
@@ -388,7 +250,7 @@ export default function Notifications() {
                   )}
                   <div className="mt-2">
                     <div className="mb-3">
-                      {metric.icon}
+                      {insightIcons[metric.kind]}
                     </div>
                     <h3 className="text-sm font-medium mb-2">{metric.title}</h3>
                     <div className="flex items-baseline gap-2">
@@ -0,0 +1,327 @@
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { CheckCircle, Eye, EyeOff, KeyRound } from 'lucide-react';
+import { useAccount } from '../hooks/useAccount';
+import { usePasswordCheck } from '../hooks/usePasswordCheck';
+import { useSession } from '../hooks/useSession';
+import { validateEmail, sanitizeInput } from '../utils/validation';
+import PasswordStrengthIndicator from '../components/PasswordStrengthIndicator';
+import type { FormSubmitEvent, RecoveryMethod } from '../types/auth';
+
+type Step = 'request' | 'code' | 'new-password' | 'done';
+
+const STEP_TEXT: Record<Step, { title: string; description: string }> = {
+  request: {
+    title: 'Reset your password',
+    description: "Enter the email address for your account and we'll send you a link and a code to reset your password"
+  },
+  code: {
+    title: 'Check your email',
+    description: 'Open the link in the email, or enter the 6-digit code from it below'
+  },
+  'new-password': {
+    title: 'Choose a new password',
+    description: 'Your new password replaces the old one everywhere you sign in'
+  },
+  done: {
+    title: 'Password changed',
+    description: 'Sign in with your new password to continue'
+  }
+};
+
+const inputClassName =
+  'appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+// Request, code, new password and confirmation. A reset link, or a code
+// Supabase accepts, signs in a recovery session, so the router brings the user
+// back here at the new password step, after the authenticator app if the
+// account has one.
+export default function PasswordRecovery() {
+  const { status, user, signOut } = useSession();
+  const { loading, error, setError, forgotPassword, verifyForgotPassword, resetPassword } = useAccount();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Supabase sends expired or reused links back with the reason in the fragment
+  const linkError = new URLSearchParams(location.hash.slice(1)).get('error_description');
+  const [currentStep, setCurrentStep] = useState<Step>('request');
+  const [method, setMethod] = useState<RecoveryMethod>('legacy');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [resent, setResent] = useState(false);
+  const passwordCheck = usePasswordCheck(password, user?.name, user?.email ?? email);
+
+  const recovering = status === 'recovering';
+  const step: Step = recovering && currentStep !== 'done' ? 'new-password' : currentStep;
+
+  const handleRequest = async (e: FormSubmitEvent) => {
+    e.preventDefault();
+    if (!validateEmail(email)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    try {
+      await forgotPassword(email.trim());
+      setCurrentStep('code');
+    } catch {
+      // useAccount keeps the error for the form
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      await forgotPassword(email.trim());
+      setResent(true);
+    } catch {
+      setResent(false);
+    }
+  };
+
+  const handleVerify = async (e: FormSubmitEvent) => {
+    e.preventDefault();
+    const verificationCode = code.replace(/\s/g, '');
+    if (!verificationCode) return;
+
+    try {
+      // A Supabase code moves the session to recovering, which shows the next step
+      const accepted = await verifyForgotPassword({ email: email.trim(), verification_code: verificationCode });
+      setMethod(accepted);
+      if (accepted === 'legacy') setCurrentStep('new-password');
+    } catch {
+      setCode('');
+    }
+  };
+
+  const handleReset = async (e: FormSubmitEvent) => {
+    e.preventDefault();
+    if (passwordCheck.problem) {
+      setError(passwordCheck.problem);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      await resetPassword({ email: user?.email ?? email.trim(), password }, recovering ? 'supabase' : method);
+      setCurrentStep('done');
+      // The recovery session has done its job; signing out also ends the
+      // account's other sessions, which used the old password
+      if (recovering) await signOut();
+    } catch {
+      // useAccount keeps the error for the form
+    }
+  };
+
+  const handleBackToLogin = async () => {
+    if (recovering) await signOut();
+    navigate('/login');
+  };
+
+  const { title, description } = STEP_TEXT[step];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className={`mx-auto flex h-12 w-12 items-center justify-center rounded-full ${step === 'done' ? 'bg-green-100' : 'bg-blue-100'}`}>
+          {step === 'done' ? <CheckCircle className="h-6 w-6 text-green-600" /> : <KeyRound className="h-6 w-6 text-blue-600" />}
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-bold tracking-tight text-gray-900">
+          {title}
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          {description}
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {error ? (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm" role="alert">
+              {error}
+            </div>
+          ) : step === 'request' && linkError && (
+            <div className="mb-4 px-4 py-3 rounded-md text-sm bg-yellow-50 border border-yellow-200 text-yellow-700">
+              {linkError}. Request a new link below.
+            </div>
+          )}
+
+          {step === 'request' && (
+            <form className="space-y-6" onSubmit={handleRequest}>
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={inputClassName}
+                    autoFocus
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || !email.trim()}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                {loading ? 'Sending...' : 'Send reset email'}
+              </button>
+            </form>
+          )}
+
+          {step === 'code' && (
+            <form className="space-y-6" onSubmit={handleVerify}>
+              <p className="text-sm text-gray-600">
+                If an account exists for <span className="font-medium text-gray-900">{email.trim()}</span>, the email is on its way.
+              </p>
+
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                  Reset Code
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="code"
+                    type="text"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className={inputClassName}
+                    placeholder="123456"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || !code.trim()}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                {loading ? 'Verifying...' : 'Continue'}
+              </button>
+
+              <div className="flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setCurrentStep('request');
+                    setCode('');
+                    setResent(false);
+                    setError(null);
+                  }}
+                  disabled={loading}
+                  className="text-blue-600 hover:text-blue-500 disabled:text-blue-400"
+                >
+                  Use a different email
+                </button>
+                <button
+                  type="button"
+                  onClick={handleResend}
+                  disabled={loading || resent}
+                  className="text-blue-600 hover:text-blue-500 disabled:text-gray-400"
+                >
+                  {resent ? 'Email sent again' : 'Send it again'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {step === 'new-password' && (
+            <form className="space-y-6" onSubmit={handleReset}>
+              {/* Lets password managers store the new password for the right account */}
+              <input type="email" autoComplete="username" value={user?.email ?? email.trim()} readOnly hidden />
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  New Password
+                </label>
+                <div className="mt-1 relative">
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                    required
+                    value={password}
+                    onChange={(e) => setPassword(sanitizeInput(e.target.value))}
+                    className={`${inputClassName} pr-10`}
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2"
+                    aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  >
+                    {showPassword ? <EyeOff className="w-4 h-4 text-gray-500" /> : <Eye className="w-4 h-4 text-gray-500" />}
+                  </button>
+                </div>
+                <PasswordStrengthIndicator check={passwordCheck} />
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700">
+                  Confirm New Password
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="confirmPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="new-password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || !password || !confirmPassword}
+                className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                {loading ? 'Saving...' : 'Change password'}
+              </button>
+            </form>
+          )}
+
+          {step === 'done' && (
+            <button
+              type="button"
+              onClick={() => navigate('/login')}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Sign in
+            </button>
+          )}
+
+          {step !== 'done' && (
+            <div className="mt-6 text-center">
+              <button
+                type="button"
+                onClick={handleBackToLogin}
+                disabled={loading}
+                className="text-sm text-blue-600 hover:text-blue-500 disabled:text-blue-400"
+              >
+                {recovering ? 'Cancel and sign in' : 'Back to sign in'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
 import { useState, useEffect } from 'react';
-import { useAuth } from '../hooks/useAuth';
+import { useAccount } from '../hooks/useAccount';
+import { usePasswordCheck } from '../hooks/usePasswordCheck';
+import { useSession } from '../hooks/useSession';
+import { useStepUp } from '../hooks/useStepUp';
 import { Bell, Lock, UserCircle } from 'lucide-react';
+import PasswordStrengthIndicator from '../components/PasswordStrengthIndicator';
 
 export default function Profile() {
-  const { user, updateProfile, updatePassword, getNotificationSettings, updateNotificationSettings, error } = useAuth();
+  const { user } = useSession();
+  const { requireStepUp } = useStepUp();
+  const { updateProfile, updatePassword, getNotificationSettings, updateNotificationSettings, error, setError } = useAccount();
   const [name, setName] = useState(user?.name || '');
   const [email, setEmail] = useState(user?.email || '');
   const [phone, setPhone] = useState(user?.phone || '');
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const passwordCheck = usePasswordCheck(newPassword, user?.name, user?.email);
   const [notifications, setNotifications] = useState({ email: false, sms: false, push: false });
   const [successMessage, setSuccessMessage] = useState('');
 
@@ -19,7 +26,7 @@ export default function Profile() {
         const settings = await getNotificationSettings();
         setNotifications(settings);
       } catch (err) {
-        // Error handled by useAuth
+        // Error handled by useAccount
       }
     };
     loadNotificationSettings();
@@ -27,17 +34,25 @@ export default function Profile() {
 
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (email !== user?.email && !(await requireStepUp('change your email address'))) {
+      return;
+    }
     try {
       await updateProfile({ name, email, phone });
       setSuccessMessage('Profile updated successfully');
     } catch (err) {
-      // Error handled by useAuth
+      // Error handled by useAccount
     }
   };
 
   const handlePasswordUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (passwordCheck.problem) {
+      setError(passwordCheck.problem);
+      return;
+    }
     if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
       return;
     }
     try {
@@ -47,7 +62,7 @@ export default function Profile() {
       setConfirmPassword('');
       setSuccessMessage('Password updated successfully');
     } catch (err) {
-      // Error handled by useAuth
+      // Error handled by useAccount
     }
   };
 
@@ -58,7 +73,7 @@ export default function Profile() {
       setNotifications(newSettings);
       setSuccessMessage('Notification settings updated');
     } catch (err) {
-      // Error handled by useAuth
+      // Error handled by useAccount
     }
   };
 
@@ -170,6 +185,7 @@ export default function Profile() {
                   onChange={(e) => setNewPassword(e.target.value)}
                   className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                 />
+                {newPassword && <PasswordStrengthIndicator check={passwordCheck} />}
               </div>
 
               <div>
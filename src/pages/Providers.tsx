@@ -1,147 +1,44 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { Stethoscope, ExternalLink, Shield } from 'lucide-react';
 import AddProviderModal from '../components/AddProviderModal';
 import ProviderDetailsModal from '../components/ProviderDetailsModal'; 
 import ProviderAccessModal from '../components/ProviderAccessModal';
-import { api } from '../services/api';
+import { consentService } from '../services/consent';
 import { supabaseData } from '../services/supabaseData';
-import { supabase } from '../services/supabase';
-
-interface Provider {
-  id: string;
-  name: string;
-  category: string;
-  status: 'active' | 'pending' | 'inactive';
-  dataTypes: string[];
-  lastSync: string;
-  logo: string;
-  permissions?: {
-    labResults: boolean;
-    medications: boolean;
-    fitnessData: boolean;
-  };
-}
+import { queryKeys } from '../services/queryCache';
+import { useQuery } from '../hooks/useQuery';
+import type { HealthProvider as Provider, NewProvider } from '../types';
+import type { ConsentChanges, ConsentDuration } from '../types/consent';
 
 export default function Providers() {
-  const [providersList, setProvidersList] = useState<Provider[]>([]);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [isAccessModalOpen, setIsAccessModalOpen] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch providers from API
-  useEffect(() => {
-    fetchProviders();
-  }, []);
+  // Shared with the other pages through the query cache, and reloaded
+  // whenever a provider or consent change invalidates it
+  const providersQuery = useQuery(queryKeys.providers, supabaseData.getProviders);
+  const providersList = providersQuery.data ?? [];
+  const loading = saving || providersQuery.loading;
+  const loadError = providersQuery.error ? 'Failed to load providers' : null;
 
-  const fetchProviders = async () => {
+  const handleAddProvider = async (newProvider: NewProvider) => {
     try {
-      setLoading(true);
+      setSaving(true);
       setError(null);
       
-      // Get providers from Supabase
-      try {
-        const providers = await supabaseData.getProviders();
-        if (providers && providers.length > 0) {
-          setProvidersList(providers);
-        } else {
-          // If no providers found, set empty list
-          setProvidersList([]);
-        }
-      } catch (err) {
-        console.error('Error fetching providers from Supabase:', err);
-        setError('Failed to load providers');
-        // Set empty list if error
-        setProvidersList([]);
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
+      await supabaseData.addProvider(newProvider);
 
-  const handleAddProvider = async (newProvider: {
-    name: string;
-    category: string;
-    dataTypes: string[];
-  }) => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Get the current user
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-      
-      // Insert the provider into Supabase
-      const { data: provider, error: providerError } = await supabase
-        .from('providers')
-        .insert({
-          name: newProvider.name,
-          category: newProvider.category,
-          status: 'active',
-          logo: '/elroi-logo.svg',
-          user_id: user.id
-        })
-        .select()
-        .single();
-        
-      if (providerError) throw providerError;
-      
-      if (provider) {
-        // Add data types to the provider
-        for (const typeName of newProvider.dataTypes) {
-          // Check if data type exists
-          const { data: existingType } = await supabase
-            .from('data_types')
-            .select('id')
-            .eq('name', typeName)
-            .maybeSingle();
-          
-          let dataTypeId;
-          
-          if (existingType) {
-            dataTypeId = existingType.id;
-          } else {
-            // Create the data type if it doesn't exist
-            const { data: newType, error: typeError } = await supabase
-              .from('data_types')
-              .insert({ name: typeName })
-              .select()
-              .single();
-              
-            if (typeError) throw typeError;
-            dataTypeId = newType.id;
-          }
-          
-          // Associate data type with provider
-          if (dataTypeId) {
-            const { error: linkError } = await supabase
-              .from('provider_data_types')
-              .insert({
-                provider_id: provider.id,
-                data_type_id: dataTypeId
-              });
-              
-            if (linkError) console.error('Error linking data type:', linkError);
-          }
-        }
-        
-        // Close the modal
-        setIsAddModalOpen(false);
-        
-        // Refresh providers list
-        await fetchProviders();
-      }
+      // Close the modal
+      setIsAddModalOpen(false);
     } catch (err) {
       console.error('Error adding provider:', err);
       setError('Failed to add provider');
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
@@ -155,133 +52,44 @@ export default function Providers() {
     setIsAccessModalOpen(true);
   };
 
-  const handleUpdatePermissions = async (providerId: string, permissions: { [key: string]: boolean }) => {
+  const handleUpdatePermissions = async (
+    providerId: string,
+    changes: ConsentChanges,
+    duration?: ConsentDuration
+  ) => {
     try {
-      setLoading(true);
+      setSaving(true);
       
-      // Determine if any permissions are enabled to set approved status
-      const hasAnyPermissions = Object.values(permissions).some(Boolean);
-      
-      // Try to update in Supabase first
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        
-        if (user) {
-          // Check if there's an existing consent record
-          const { data: existingConsent, error: queryError } = await supabase
-            .from('user_provider_consents')
-            .select('*')
-            .eq('provider_id', providerId)
-            .eq('user_id', user.id)
-            .maybeSingle();
-
-          if (queryError) throw queryError;
-
-          // Map to database column names
-          const dbPermissions = {
-            lab_results: permissions.labResults,
-            medications: permissions.medications,
-            fitness_data: permissions.fitnessData,
-            approved: hasAnyPermissions, // Set approved based on permissions
-            updated_at: new Date().toISOString()
-          };
-
-          if (existingConsent) {
-            // Update existing consent
-            const { error: updateError } = await supabase
-              .from('user_provider_consents')
-              .update(dbPermissions)
-              .eq('provider_id', providerId)
-              .eq('user_id', user.id);
-              
-            if (updateError) throw updateError;
-          } else {
-            // Insert new consent
-            const { error: insertError } = await supabase
-              .from('user_provider_consents')
-              .insert({
-                provider_id: providerId,
-                user_id: user.id,
-                ...dbPermissions
-              });
-              
-            if (insertError) throw insertError;
-          }
-
-          // Refresh providers list
-          await fetchProviders();
-          setIsAccessModalOpen(false);
-          return;
-        }
-      } catch (err) {
-        console.error('Error updating in Supabase:', err);
-        setError('Failed to update permissions');
-      }
+      await consentService.updateGrants(providerId, changes, duration);
+      setIsAccessModalOpen(false);
+    } catch (err) {
+      console.error('Error updating permissions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update permissions');
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
   const handleDeleteProvider = async (providerId: string) => {
     try {
-      setLoading(true);
+      setSaving(true);
       
-      // Try to delete consent with Supabase
+      // Revoke every consent grant first
       try {
-        const { data: { user } } = await supabase.auth.getUser();
-        
-        if (user) {
-          // Delete the consent record first
-          const { error: consentError } = await supabase
-            .from('user_provider_consents')
-            .delete()
-            .eq('provider_id', providerId)
-            .eq('user_id', user.id);
-          
-          if (consentError) {
-            console.error('Error deleting consent:', consentError);
-            // Continue even if consent deletion fails
-          }
-          
-          // Get the provider to check if current user is the owner
-          const { data: provider } = await supabase
-            .from('providers')
-            .select('user_id')
-            .eq('id', providerId)
-            .single();
-            
-          // Only delete the provider if the current user is the owner
-          if (provider && provider.user_id === user.id) {
-            // First delete provider_data_types records
-            const { error: dataTypeError } = await supabase
-              .from('provider_data_types')
-              .delete()
-              .eq('provider_id', providerId);
-              
-            if (dataTypeError) {
-              console.error('Error deleting provider data types:', dataTypeError);
-            }
-            
-            // Then delete the provider
-            const { error: providerError } = await supabase
-              .from('providers')
-              .delete()
-              .eq('id', providerId);
-              
-            if (providerError) throw providerError;
-          }
-
-          // Refresh providers list
-          await fetchProviders();
-          setIsAccessModalOpen(false);
-          return;
-        }
-      } catch (err) {
-        console.error('Error deleting provider:', err);
-        setError('Failed to delete provider');
+        await consentService.revokeAll(providerId);
+      } catch (consentError) {
+        console.error('Error deleting consent:', consentError);
+        // Continue even if consent deletion fails
       }
+
+      // Only the provider's owner can delete the provider itself
+      await supabaseData.removeProvider(providerId);
+      setIsAccessModalOpen(false);
+    } catch (err) {
+      console.error('Error deleting provider:', err);
+      setError('Failed to delete provider');
     } finally {
-      setLoading(false);
+      setSaving(false);
     }
   };
 
@@ -309,7 +117,7 @@ export default function Providers() {
   }
 
   // Show error state
-  if (error && providersList.length === 0) {
+  if ((error || loadError) && providersList.length === 0) {
     return (
       <div className="p-6">
         <div className="flex items-center justify-between mb-6">
@@ -324,9 +132,9 @@ export default function Providers() {
         <div className="flex items-center justify-center h-64">
           <div className="text-center">
             <div className="text-red-600 text-xl mb-2">Error</div>
-            <p className="text-gray-600">{error}</p>
+            <p className="text-gray-600">{error || loadError}</p>
             <button 
-              onClick={() => window.location.reload()} 
+              onClick={() => providersQuery.refetch().catch(() => undefined)} 
               className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
             >
               Try Again
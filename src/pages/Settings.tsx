@@ -2,9 +2,12 @@ import { Settings as SettingsIcon, Bell, Lock, UserCircle, Database, Globe } fro
 import { useState, useEffect } from 'react';
 import SettingsModal from '../components/SettingsModal';
 import { api } from '../services/api';
-import { useAuth } from '../hooks/useAuth';
-import { useSupabaseAuth } from '../hooks/useSupabaseAuth';
+import { useSession } from '../hooks/useSession';
+import { useFlags } from '../hooks/useFlag';
 import { supabase } from '../services/supabase';
+import { consentService } from '../services/consent';
+import { providerRepository, settingsRepository } from '../services/repositories';
+import type { FlagName } from '../config/flags';
 
 interface SettingsSection {
   id: string;
@@ -13,6 +16,8 @@ interface SettingsSection {
   description: string;
   lastUpdated?: string;
   status?: 'enabled' | 'disabled' | 'partiallyEnabled';
+  // Hidden while this feature flag is off
+  flag?: FlagName;
 }
 
 const settingsSections: SettingsSection[] = [
@@ -45,6 +50,7 @@ const settingsSections: SettingsSection[] = [
     title: 'Connected Services',
     icon: Globe,
     description: 'Manage your connected applications and services',
+    flag: 'connectedServices',
   },
 ];
 
@@ -55,10 +61,8 @@ export default function Settings() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
-  // Use both auth contexts
-  const legacyAuth = useAuth();
-  const supabaseAuth = useSupabaseAuth();
-  const user = supabaseAuth.user || legacyAuth.user;
+  const { user } = useSession();
+  const { flags } = useFlags();
 
   // Fetch settings data
   useEffect(() => {
@@ -71,15 +75,8 @@ export default function Settings() {
           const { data: { user: supabaseUser } } = await supabase.auth.getUser();
           
           if (supabaseUser) {
-            // Get user metadata
-            const metadata = supabaseUser.user_metadata;
-            
             // Get user settings
-            const { data: userSettings } = await supabase
-              .from('user_settings')
-              .select('*')
-              .eq('user_id', supabaseUser.id)
-              .maybeSingle();
+            const userSettings = await settingsRepository.get();
             
             // Update the sections with data from Supabase
             const updatedSections = [...settingsSections];
@@ -93,14 +90,14 @@ export default function Settings() {
             
             // Update notifications section
             const notificationSection = updatedSections.find(section => section.id === 'notifications');
-            if (notificationSection && userSettings) {
-              notificationSection.lastUpdated = userSettings.updated_at || new Date().toISOString();
+            if (notificationSection && userSettings.updatedAt) {
+              notificationSection.lastUpdated = userSettings.updatedAt;
               
               // Check if any notifications are enabled
               const hasEnabledNotifications = 
-                userSettings.email_notifications || 
-                userSettings.sms_notifications || 
-                userSettings.push_notifications;
+                userSettings.emailNotifications || 
+                userSettings.smsNotifications || 
+                userSettings.pushNotifications;
                 
               notificationSection.status = hasEnabledNotifications ? 'enabled' : 'disabled';
             }
@@ -118,12 +115,9 @@ export default function Settings() {
               dataSection.lastUpdated = new Date().toISOString();
               
               // Check for user consents to determine data sharing status
-              const { data: consents, error: consentsError } = await supabase
-                .from('user_provider_consents')
-                .select('*')
-                .eq('user_id', supabaseUser.id);
+              const terms = await consentService.getTerms().catch(() => ({}));
                 
-              if (!consentsError && consents && consents.length > 0) {
+              if (Object.keys(terms).length > 0) {
                 dataSection.status = 'enabled';
               } else {
                 dataSection.status = 'disabled';
@@ -136,11 +130,9 @@ export default function Settings() {
               integrationsSection.lastUpdated = new Date().toISOString();
               
               // Check for providers to determine integration status
-              const { data: providers, error: providersError } = await supabase
-                .from('providers')
-                .select('*');
+              const providerNames = await providerRepository.listNames().catch(() => []);
                 
-              if (!providersError && providers && providers.length > 0) {
+              if (providerNames.length > 0) {
                 integrationsSection.status = 'enabled';
               } else {
                 integrationsSection.status = 'disabled';
@@ -286,7 +278,7 @@ export default function Settings() {
       </div>
 
       <div className="grid grid-cols-1 gap-6">
-        {sections.map((section) => {
+        {sections.filter(section => !section.flag || flags[section.flag]).map((section) => {
           const Icon = section.icon;
           return (
             <div
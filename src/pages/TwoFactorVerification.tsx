@@ -1,49 +1,41 @@
-import { useState, useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
-import { useAuth } from '../hooks/useAuth';
+import { useState } from 'react';
+import { useSession } from '../hooks/useSession';
 import { Shield } from 'lucide-react';
 
 export default function TwoFactorVerification() {
-  const { verifyTwoFactor, sendTwoFactorCode, user, loading, error } = useAuth();
-  const [verificationCode, setVerificationCode] = useState('');
-  const [codeSent, setCodeSent] = useState(false);
-  const [email, setEmail] = useState('');
-  const navigate = useNavigate();
-  const location = useLocation();
+  const { user, verifySecondFactor, redeemRecoveryCode, signOut } = useSession();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  // Extract email from location state or use user email
-  useEffect(() => {
-    if (location.state?.email) {
-      setEmail(location.state.email);
-    } else if (user?.email) {
-      setEmail(user.email);
-    }
-  }, [location.state, user]);
-
-  const handleSendCode = async () => {
-    if (email) {
-      try {
-        await sendTwoFactorCode(email);
-        setCodeSent(true);
-      } catch (err) {
-        // Error is handled by useAuth
-      }
-    }
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+    setError(null);
   };
 
   const handleVerify = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!verificationCode.trim()) {
+
+    if (!code.trim()) {
       return; // Don't submit if code is empty
     }
-    
+
+    setLoading(true);
+    setError(null);
     try {
-      // Use the correct API parameter name as expected by the backend
-      await verifyTwoFactor({ code: verificationCode });
-      navigate('/');
+      // The router moves on to the dashboard once the session reaches AAL2
+      if (useRecoveryCode) {
+        await redeemRecoveryCode(code.trim());
+      } else {
+        await verifySecondFactor(code.replace(/\s/g, ''));
+      }
     } catch (err) {
-      // Error is handled by useAuth
+      setError(err instanceof Error ? err.message : 'Verification failed. Please try again.');
+      setCode('');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -57,7 +49,9 @@ export default function TwoFactorVerification() {
           Two-Factor Authentication
         </h2>
         <p className="mt-2 text-center text-sm text-gray-600">
-          Please verify your identity to continue
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up your authenticator app'
+            : 'Enter the 6-digit code from your authenticator app'}
         </p>
       </div>
 
@@ -70,87 +64,67 @@ export default function TwoFactorVerification() {
           )}
 
           <form className="space-y-6" onSubmit={handleVerify}>
-            {!codeSent ? (
-              <div>
-                <p className="text-sm text-gray-500 mb-4">
-                  Click the button below to receive a verification code via email
-                </p>
-                <button
-                  type="button"
-                  onClick={handleSendCode}
-                  disabled={loading || !email}
-                  className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-                    loading || !email 
-                      ? 'bg-blue-400 cursor-not-allowed' 
-                      : 'bg-blue-600 hover:bg-blue-700'
-                  } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
-                >
-                  {loading ? 'Sending...' : 'Send Verification Code'}
-                </button>
-                {!email && (
-                  <p className="mt-2 text-xs text-red-600">
-                    No email available. Please log in again.
-                  </p>
-                )}
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium text-gray-700">
+                {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+              </label>
+              <div className="mt-1">
+                <input
+                  type="text"
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  autoFocus
+                />
               </div>
-            ) : (
-              <>
-                <div>
-                  <label htmlFor="code" className="block text-sm font-medium text-gray-700">
-                    Verification Code
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      type="text"
-                      id="code"
-                      value={verificationCode}
-                      onChange={(e) => setVerificationCode(e.target.value)}
-                      className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                      placeholder="Enter verification code"
-                      autoComplete="one-time-code"
-                    />
-                  </div>
-                  <p className="mt-2 text-xs text-gray-500">
-                    Enter the 6-digit code that was sent to {email}
-                  </p>
-                </div>
+              {useRecoveryCode && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Each code works once. Using one removes your authenticator app, so set up a new one in Settings afterwards.
+                </p>
+              )}
+            </div>
 
-                <div>
-                  <button
-                    type="submit"
-                    disabled={loading || !verificationCode.trim()}
-                    className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
-                      loading || !verificationCode.trim() 
-                        ? 'bg-blue-400 cursor-not-allowed' 
-                        : 'bg-blue-600 hover:bg-blue-700'
-                    } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
-                  >
-                    {loading ? 'Verifying...' : 'Verify'}
-                  </button>
-                </div>
+            <div>
+              <button
+                type="submit"
+                disabled={loading || !code.trim()}
+                className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white ${
+                  loading || !code.trim()
+                    ? 'bg-blue-400 cursor-not-allowed'
+                    : 'bg-blue-600 hover:bg-blue-700'
+                } focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+            </div>
 
-                <div className="text-center">
-                  <button
-                    type="button"
-                    onClick={handleSendCode}
-                    disabled={loading}
-                    className={`text-sm ${
-                      loading 
-                        ? 'text-blue-400 cursor-not-allowed' 
-                        : 'text-blue-600 hover:text-blue-500'
-                    }`}
-                  >
-                    {loading ? 'Sending...' : 'Resend Code'}
-                  </button>
-                </div>
-              </>
-            )}
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={toggleRecoveryCode}
+                disabled={loading}
+                className={`text-sm ${
+                  loading
+                    ? 'text-blue-400 cursor-not-allowed'
+                    : 'text-blue-600 hover:text-blue-500'
+                }`}
+              >
+                {useRecoveryCode ? 'Use your authenticator app' : 'Lost your device? Use a recovery code'}
+              </button>
+            </div>
           </form>
 
           <div className="mt-6">
             <div className="flex items-center justify-center">
               <div className="text-xs text-gray-500">
-                Not receiving the code? Check your spam folder or try again in a few minutes.
+                Signed in as {user?.email}.{' '}
+                <button type="button" onClick={() => signOut()} className="text-blue-600 hover:text-blue-500">
+                  Sign out
+                </button>
               </div>
             </div>
           </div>
@@ -158,4 +132,4 @@ export default function TwoFactorVerification() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
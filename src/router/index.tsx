@@ -1,4 +1,4 @@
-import { createBrowserRouter, Navigate, Outlet } from 'react-router-dom';
+import { createBrowserRouter, Navigate, Outlet, useLocation } from 'react-router-dom';
 import MainLayout from '../layouts/MainLayout';
 import Dashboard from '../pages/Dashboard';
 import Notifications from '../pages/Notifications';
@@ -9,59 +9,91 @@ import DataElements from '../pages/DataElements';
 import HealthRecords from '../pages/HealthRecords';
 import CarePlanner from '../pages/CarePlanner';
 import Settings from '../pages/Settings';
+import CompaniesPage from '../features/CompaniesPage';
+import ContractsPage from '../features/ContractsPage';
 import Login from '../pages/Login';
+import PasswordRecovery from '../pages/PasswordRecovery';
 import TwoFactorVerification from '../pages/TwoFactorVerification';
-import { useAuth } from '../hooks/useAuth';
-import { AuthProvider } from '../hooks/useAuth';
+import FeatureRoute from '../components/FeatureRoute';
+import PhiGuard from '../components/PhiGuard';
+import SessionProvider from '../components/SessionProvider';
+import StepUpProvider from '../components/StepUpProvider';
+import { useSession } from '../hooks/useSession';
 import { SidebarProvider } from '../hooks/useSidebar';
-import { SupabaseAuthProvider, useSupabaseAuth } from '../hooks/useSupabaseAuth';
+import { TenantProvider } from '../hooks/useTenant';
 
-function ProtectedRoute() {
-  const { user: legacyUser, loading: legacyLoading } = useAuth();
-  const { user: supabaseUser, loading: supabaseLoading } = useSupabaseAuth();
+function LoadingScreen() {
+  return <div className="flex h-screen items-center justify-center">
+    <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+  </div>;
+}
 
-  // Show nothing while checking auth status
-  if (legacyLoading || supabaseLoading) {
-    return <div className="flex h-screen items-center justify-center">
-      <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-    </div>;
-  }
+function ProtectedRoute() {
+  const { status, error } = useSession();
 
-  // Redirect to login if not authenticated with Supabase
-  if (!supabaseUser) {
-    return <Navigate to="/login" replace />;
+  switch (status) {
+    case 'authenticating':
+      return <LoadingScreen />;
+    // Accounts with an authenticator app need an AAL2 session
+    case 'mfa_required':
+      return <Navigate to="/two-factor" replace />;
+    // A password reset session is only for choosing a new password
+    case 'recovering':
+      return <Navigate to="/reset-password" replace />;
+    case 'expired':
+      return <Navigate to="/login" replace state={{ message: error }} />;
+    case 'anonymous':
+      return <Navigate to="/login" replace />;
+    default:
+      return <Outlet />;
   }
-
-  return <Outlet />;
 }
 
+// Where a password reset link lands, and where the new password is chosen
+const RECOVERY_PATHS = ['/forgot-password', '/reset-password'];
+
 function PublicRoute() {
-  const { user: legacyUser, loading: legacyLoading } = useAuth();
-  const { user: supabaseUser, loading: supabaseLoading } = useSupabaseAuth();
+  const { status } = useSession();
+  const { pathname } = useLocation();
 
-  // Show nothing while checking auth status
-  if (legacyLoading || supabaseLoading) {
-    return <div className="flex h-screen items-center justify-center">
-      <div className="w-16 h-16 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-    </div>;
+  switch (status) {
+    case 'authenticating':
+      return <LoadingScreen />;
+    case 'mfa_required':
+      return <Navigate to="/two-factor" replace />;
+    case 'authenticated':
+      return <Navigate to="/" replace />;
+    case 'recovering':
+      return RECOVERY_PATHS.includes(pathname) ? <Outlet /> : <Navigate to="/reset-password" replace />;
+    default:
+      return <Outlet />;
   }
+}
 
-  // Redirect to dashboard if already authenticated with Supabase
-  if (supabaseUser) {
-    return <Navigate to="/" replace />;
-  }
+// Only reachable between signing in and entering the second factor
+function SecondFactorRoute() {
+  const { status } = useSession();
 
-  return <Outlet />;
+  switch (status) {
+    case 'authenticating':
+      return <LoadingScreen />;
+    case 'mfa_required':
+      return <Outlet />;
+    case 'authenticated':
+      return <Navigate to="/" replace />;
+    default:
+      return <Navigate to="/login" replace />;
+  }
 }
 
 export const router = createBrowserRouter([
   {
     element: (
-      <AuthProvider>
-        <SupabaseAuthProvider>
+      <TenantProvider>
+        <SessionProvider>
           <Outlet />
-        </SupabaseAuthProvider>
-      </AuthProvider>
+        </SessionProvider>
+      </TenantProvider>
     ),
     children: [
       // Public routes (login, register, etc)
@@ -72,6 +104,21 @@ export const router = createBrowserRouter([
             path: '/login',
             element: <Login />
           },
+          {
+            path: '/forgot-password',
+            element: <PasswordRecovery />
+          },
+          {
+            path: '/reset-password',
+            element: <PasswordRecovery />
+          }
+        ]
+      },
+
+      // Second factor, once the password has been accepted
+      {
+        element: <SecondFactorRoute />,
+        children: [
           {
             path: '/two-factor',
             element: <TwoFactorVerification />
@@ -86,9 +133,11 @@ export const router = createBrowserRouter([
           {
             element: (
               <SidebarProvider>
-                <MainLayout>
-                  <Outlet />
-                </MainLayout>
+                <StepUpProvider>
+                  <MainLayout>
+                    <Outlet />
+                  </MainLayout>
+                </StepUpProvider>
               </SidebarProvider>
             ),
             children: [
@@ -105,28 +154,63 @@ export const router = createBrowserRouter([
                 element: <Providers />
               },
               {
-                path: '/marketplace',
-                element: <Marketplace />
+                element: <FeatureRoute flag="marketplace" />,
+                children: [
+                  {
+                    path: '/marketplace',
+                    element: <Marketplace />
+                  }
+                ]
               },
               {
                 path: '/consent',
                 element: <Consent />
               },
+              // Health information, hidden after a while without input
               {
-                path: '/data-elements',
-                element: <DataElements />
+                element: <PhiGuard />,
+                children: [
+                  {
+                    path: '/data-elements',
+                    element: <DataElements />
+                  },
+                  {
+                    element: <FeatureRoute flag="carePlanner" />,
+                    children: [
+                      {
+                        path: '/care-planner',
+                        element: <CarePlanner />
+                      }
+                    ]
+                  },
+                  {
+                    path: '/health-records',
+                    element: <HealthRecords />
+                  }
+                ]
               },
               {
-                path: '/care-planner',
-                element: <CarePlanner />
+                path: '/settings',
+                element: <Settings />
               },
+              // Unfinished, off unless their flags are turned on
               {
-                path: '/health-records',
-                element: <HealthRecords />
+                element: <FeatureRoute flag="companies" />,
+                children: [
+                  {
+                    path: '/companies',
+                    element: <CompaniesPage />
+                  }
+                ]
               },
               {
-                path: '/settings',
-                element: <Settings />
+                element: <FeatureRoute flag="contracts" />,
+                children: [
+                  {
+                    path: '/contracts',
+                    element: <ContractsPage />
+                  }
+                ]
               }
             ]
           }
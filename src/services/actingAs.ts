@@ -0,0 +1,59 @@
+import { queryCache } from './queryCache';
+import { getCurrentUserId } from './repositories/errors';
+import type { ActingAccount } from '../types/delegation';
+
+// Kept per tab, so a caregiver can have their own account open in another
+const STORAGE_KEY = 'elroi:acting-as';
+
+const listeners = new Set<() => void>();
+
+const load = (): ActingAccount | null => {
+  try {
+    const saved = sessionStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) as ActingAccount : null;
+  } catch {
+    return null;
+  }
+};
+
+let current: ActingAccount | null = load();
+
+// The account a caregiver is acting on behalf of. Reads and writes of the
+// delegated data (health records, appointments and consent) and reads of
+// health metrics go to that account while it is set; everything else stays
+// the caregiver's own.
+export const actingAs = {
+  getSnapshot(): ActingAccount | null {
+    return current;
+  },
+
+  // Switch to another account, or back to the user's own with null. Cached
+  // reads belong to the previous account, so they are dropped and whatever is
+  // on screen loads again.
+  set(account: ActingAccount | null) {
+    if (JSON.stringify(current) === JSON.stringify(account)) return;
+
+    current = account;
+    if (account) {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(account));
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+
+    queryCache.clear();
+    queryCache.invalidate([]);
+    listeners.forEach(listener => listener());
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
+
+// The user whose delegated data is being read and written: the account being
+// acted on behalf of, or the signed-in user
+export const getActingUserId = async (): Promise<string> =>
+  current?.userId ?? getCurrentUserId();
@@ -1,65 +1,287 @@
 import { API_URL, TENANT } from '../config/constants';
 
-// Add custom error class for API errors
-class ApiError extends Error {
-  constructor(public status: number, message: string) {
+const DEFAULT_TIMEOUT = 15000; // 15 seconds
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 300;
+const RETRY_MAX_DELAY = 5000;
+
+const REFRESH_ENDPOINT = 'refresh-token';
+// Endpoints whose 401s mean bad credentials rather than an expired session
+const AUTH_ENDPOINTS = ['login', 'register', 'logout', REFRESH_ENDPOINT, 'auth/validate-supabase-token'];
+
+// Dispatched on window once a session has expired and could not be refreshed
+export const SESSION_EXPIRED_EVENT = 'api:session-expired';
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please sign in again.';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Methods that are safe to repeat without side effects piling up
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+export interface RequestOptions {
+  // Milliseconds before the request is abandoned; 0 disables the timeout
+  timeout?: number;
+  // Cancels the request, e.g. when the calling component unmounts
+  signal?: AbortSignal;
+  // Retry attempts after the first; only idempotent requests are retried
+  retries?: number;
+  // Sent as Idempotency-Key so a POST can be retried safely
+  idempotencyKey?: string;
+  headers?: Record<string, string>;
+}
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted';
+
+// Base class for every error the API client throws
+export abstract class ApiError extends Error {
+  abstract readonly kind: ApiErrorKind;
+
+  // Whether repeating the same request might succeed
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+// The server answered with a non-2xx status
+export class HttpError extends ApiError {
+  readonly kind = 'http' as const;
+
+  constructor(public status: number, message: string, public body?: unknown) {
     super(message);
-    this.name = 'ApiError';
+    this.name = 'HttpError';
+  }
+
+  get retryable() {
+    return this.status >= 500 || this.status === 429;
   }
 }
 
+// The request never got a response, e.g. offline or DNS failure
+export class NetworkError extends ApiError {
+  readonly kind = 'network' as const;
+
+  constructor(message = 'Unable to reach the server. Check your connection and try again.', public cause?: unknown) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+// No response arrived within the timeout
+export class TimeoutError extends ApiError {
+  readonly kind = 'timeout' as const;
+
+  constructor(public timeout: number) {
+    super('Request timed out. Please try again.');
+    this.name = 'TimeoutError';
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+// The caller cancelled the request
+export class AbortedError extends ApiError {
+  readonly kind = 'aborted' as const;
+
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'AbortedError';
+  }
+}
+
+export type ApiFailure = HttpError | NetworkError | TimeoutError | AbortedError;
+
+export const isApiError = (error: unknown): error is ApiFailure => error instanceof ApiError;
+
 // Get headers with auth token if available
-const getHeaders = () => {
+const getHeaders = (options: RequestOptions) => {
   const token = localStorage.getItem('token');
   return {
     'Content-Type': 'application/json',
     'X-Tenant': TENANT,
-    ...(token && { Authorization: `Bearer ${token}` })
+    ...(token && { Authorization: `Bearer ${token}` }),
+    ...(options.idempotencyKey && { 'Idempotency-Key': options.idempotencyKey }),
+    ...options.headers
   };
 };
 
 // Handle API response and errors
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ 
-      message: response.status === 401 ? 'Invalid credentials' : 'An error occurred' 
+    const error = await response.json().catch(() => ({
+      message: response.status === 401 ? 'Invalid credentials' : 'An error occurred'
     }));
-    throw new ApiError(response.status, error.message);
+    throw new HttpError(response.status, error.message || 'An error occurred', error);
+  }
+
+  // Some endpoints answer with an empty body
+  const text = await response.text();
+  try {
+    return (text ? JSON.parse(text) : undefined) as T;
+  } catch {
+    throw new HttpError(response.status, 'Invalid response from server', text);
   }
-  return response.json();
 }
 
-export const api = {
-  async get<T>(endpoint: string): Promise<T> {
+// Exponential backoff with full jitter
+const getRetryDelay = (attempt: number, error: ApiFailure): number => {
+  if (error instanceof HttpError && error.status === 429) {
+    const retryAfter = Number((error.body as { retryAfter?: number } | undefined)?.retryAfter);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, RETRY_MAX_DELAY);
+  }
+  return Math.random() * Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+};
+
+// Wait before the next attempt, stopping early if the caller aborts
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortedError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Make a single attempt, enforcing the timeout and the caller's signal
+async function send<T>(method: HttpMethod, endpoint: string, data: unknown, options: RequestOptions): Promise<T> {
+  if (options.signal?.aborted) throw new AbortedError();
+
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = timeout > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+    : undefined;
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
     const response = await fetch(`${API_URL}/${endpoint}`, {
-      headers: getHeaders(),
+      method,
+      headers: getHeaders(options),
+      signal: controller.signal,
+      ...(data !== undefined && { body: JSON.stringify(data) })
     });
-    return handleResponse<T>(response);
+    return await handleResponse<T>(response);
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (timedOut) throw new TimeoutError(timeout);
+    if (controller.signal.aborted) throw new AbortedError();
+    throw new NetworkError(undefined, error);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Clear the stored session and let the app send the user back to login
+const expireSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+};
+
+let refreshPromise: Promise<void> | null = null;
+
+// Exchange the refresh token for a new access token. Concurrent callers share
+// one refresh, and the session is expired once if it fails.
+const refreshSession = (): Promise<void> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = localStorage.getItem('refreshToken');
+      if (!refreshToken) throw new HttpError(401, SESSION_EXPIRED_MESSAGE);
+
+      const response = await send<{ token: string; refreshToken?: string }>(
+        'POST',
+        REFRESH_ENDPOINT,
+        { refreshToken },
+        { retries: 0 }
+      );
+      localStorage.setItem('token', response.token);
+      if (response.refreshToken) {
+        localStorage.setItem('refreshToken', response.refreshToken);
+      }
+    })()
+      .catch(error => {
+        expireSession();
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+async function request<T>(method: HttpMethod, endpoint: string, data: unknown, options: RequestOptions = {}): Promise<T> {
+  const canRetry = IDEMPOTENT_METHODS.includes(method) || !!options.idempotencyKey;
+  const retries = canRetry ? options.retries ?? DEFAULT_RETRIES : 0;
+  const canRefresh = !AUTH_ENDPOINTS.includes(endpoint);
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    // Hold new requests while a refresh is in flight so they use the new token
+    if (refreshPromise && canRefresh) {
+      await refreshPromise.catch(() => undefined);
+    }
+
+    const hadToken = !!localStorage.getItem('token');
+
+    try {
+      return await send<T>(method, endpoint, data, options);
+    } catch (error) {
+      const failure = error as ApiFailure;
+
+      // An expired token gets one refresh, then the original request is repeated
+      if (failure instanceof HttpError && failure.status === 401 && canRefresh && hadToken && !refreshed) {
+        refreshed = true;
+        try {
+          await refreshSession();
+        } catch {
+          throw new HttpError(401, SESSION_EXPIRED_MESSAGE, failure.body);
+        }
+        attempt--;
+        continue;
+      }
+
+      if (attempt >= retries || !failure.retryable) throw failure;
+      await wait(getRetryDelay(attempt, failure), options.signal);
+    }
+  }
+}
+
+export const api = {
+  async get<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return request<T>('GET', endpoint, undefined, options);
   },
 
-  async post<T>(endpoint: string, data: unknown): Promise<T> {
-    const response = await fetch(`${API_URL}/${endpoint}`, {
-      method: 'POST',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return handleResponse<T>(response);
+  async post<T>(endpoint: string, data: unknown, options?: RequestOptions): Promise<T> {
+    return request<T>('POST', endpoint, data, options);
   },
 
-  async put<T>(endpoint: string, data: unknown): Promise<T> {
-    const response = await fetch(`${API_URL}/${endpoint}`, {
-      method: 'PUT',
-      headers: getHeaders(),
-      body: JSON.stringify(data),
-    });
-    return handleResponse<T>(response);
+  async put<T>(endpoint: string, data: unknown, options?: RequestOptions): Promise<T> {
+    return request<T>('PUT', endpoint, data, options);
   },
 
-  async delete<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${API_URL}/${endpoint}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    });
-    return handleResponse<T>(response);
+  async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return request<T>('DELETE', endpoint, undefined, options);
   }
 };
@@ -1,15 +1,26 @@
 import type {
   AuthResponse,
-  LoginCredentials,
   RegisterCredentials,
   User,
   UpdateProfileCredentials,
   UpdatePasswordCredentials,
   NotificationSettings,
   EmailVerificationCredentials,
-  TwoFactorVerifyCredentials
+  RecoveryMethod,
+  ResetPasswordCredentials
 } from '../types/auth';
 import { api } from './api';
+import { supabase } from './supabase';
+import { toDataAccessError } from './repositories/errors';
+import { rateLimit, RateLimitError } from '../utils/rateLimit';
+
+// Supabase counts emailed actions per address as well, so clearing this
+// browser's storage does not reset them
+const consumeServerLimit = async (action: 'resend_verification' | 'password_reset', email: string) => {
+  const { data, error } = await supabase.rpc('consume_rate_limit', { p_action: action, p_identifier: email });
+  if (error) throw toDataAccessError(error, 'Failed to check the request limit');
+  if (data > 0) throw new RateLimitError(action, data * 1000);
+};
 
 export const authService = {
   // Register new user
@@ -20,68 +31,57 @@ export const authService = {
 
   // Resend verification email with rate limiting
   async resendVerification(email: string): Promise<void> {
-    // Check if we've sent too many emails recently
-    const lastAttempt = localStorage.getItem(`verification_${email}`);
-    const cooldownPeriod = 60000; // 1 minute cooldown
-
-    if (lastAttempt) {
-      const timeSinceLastAttempt = Date.now() - parseInt(lastAttempt);
-      if (timeSinceLastAttempt < cooldownPeriod) {
-        throw new Error('Please wait a minute before requesting another verification email.');
-      }
-    }
+    rateLimit.assertAllowed('resend_verification', email);
+    await consumeServerLimit('resend_verification', email);
 
     await api.post('send-Verify-email', { email });
-    
-    // Store the timestamp of this attempt
-    localStorage.setItem(`verification_${email}`, Date.now().toString());
-  },
-
-  // Login user
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
-    const response = await api.post<AuthResponse>('login', credentials);
-    
-    // Store the token
-    if (response.token) {
-      localStorage.setItem('token', response.token);
-    }
-    
-    return response;
+    rateLimit.record('resend_verification', email);
   },
 
-  // Forgot password request
+  // Forgot password request, limited like the verification email. Supabase
+  // emails a link back to /reset-password and a code; the legacy API emails a
+  // code for accounts it still holds the password of.
   async forgotPassword(email: string): Promise<void> {
-    await api.post('forgot-password', { email });
-  },
-
-  async verifyForgotPassword(credentials: EmailVerificationCredentials): Promise<void> {
-    await api.post('forgot-password-verify', credentials);
+    rateLimit.assertAllowed('password_reset', email);
+    await consumeServerLimit('password_reset', email);
+
+    const [{ error }] = await Promise.all([
+      supabase.auth.resetPasswordForEmail(email, { redirectTo: `${window.location.origin}/reset-password` }),
+      api.post('forgot-password', { email }).catch(err => console.error('Error requesting a legacy reset code:', err))
+    ]);
+    if (error) throw error;
+    rateLimit.record('password_reset', email);
   },
 
-  async verifyTwoFactor(credentials: TwoFactorVerifyCredentials): Promise<void> {
-    await api.post('two-factor-verify-code', credentials);
+  // Either system's code is accepted. A Supabase code signs in a recovery
+  // session, which the session manager reports as recovering. Codes are
+  // limited per address like passwords, so they can't be guessed.
+  async verifyForgotPassword(credentials: EmailVerificationCredentials): Promise<RecoveryMethod> {
+    return rateLimit.attempt('reset_code', credentials.email, async () => {
+      const { error } = await supabase.auth.verifyOtp({
+        email: credentials.email,
+        token: credentials.verification_code,
+        type: 'recovery'
+      });
+      if (!error) return 'supabase';
+
+      await api.post('forgot-password-verify', credentials);
+      return 'legacy';
+    });
   },
 
-  async sendTwoFactorCode(email: string): Promise<void> {
-    await api.post('send-2facode', { email });
-  },
+  // Set the new password in the system that accepted the code; a Supabase
+  // recovery session should be signed out afterwards
+  async resetPassword(credentials: ResetPasswordCredentials, method: RecoveryMethod = 'legacy'): Promise<void> {
+    if (method === 'supabase') {
+      const { error } = await supabase.auth.updateUser({ password: credentials.password });
+      if (error) throw error;
+      return;
+    }
 
-  async resetPassword(credentials: { password: string; email: string }): Promise<void> {
     await api.post('reset-password', credentials);
   },
 
-  async logout(): Promise<void> {
-    await api.get('logout');
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-  },
-
-  async getProfile(): Promise<User> {
-    const response = await api.get<User>('me');
-    localStorage.setItem('user', JSON.stringify(response));
-    return response;
-  },
-
   async updateProfile(credentials: UpdateProfileCredentials): Promise<User> {
     const response = await api.post<User>('profile', credentials);
     return response;
@@ -1,58 +1,35 @@
 import { api } from './api';
 import { supabase } from './supabase';
-import type { User } from '@supabase/supabase-js';
+import type { Session } from '@supabase/supabase-js';
+import type { AuthResponse } from '../types/auth';
 
 // This service bridges authentication between Supabase and the legacy API
 export const authBridge = {
-  // Authenticate with the legacy API using credentials
-  async authenticateLegacy(email: string, password: string): Promise<{ token: string; user: any } | null> {
+  // Exchange a Supabase session for legacy API credentials. The API verifies
+  // the access token itself, so the user details are only hints for creating
+  // the account on first sign-in.
+  async exchangeSupabaseSession(session: Session): Promise<AuthResponse | null> {
     try {
-      const response = await api.post('login', { email, password });
-      
-      if (response.token) {
-        localStorage.setItem('token', response.token);
-        return response;
-      }
-      return null;
-    } catch (error) {
-      console.error('Legacy API authentication failed:', error);
-      return null;
-    }
-  },
-  
-  // Get an authentication token for the legacy API using Supabase user info
-  async getLegacyTokenFromSupabase(supabaseUser: User): Promise<string | null> {
-    // In a real implementation, you would have an API endpoint that validates
-    // the Supabase JWT and returns a token for your legacy API.
-    // This is just a placeholder.
-    try {
-      const supabaseToken = await supabaseUser.getIdToken();
-      
-      // Call an API endpoint that validates the Supabase token and returns a legacy token
-      const response = await api.post('auth/validate-supabase-token', { 
-        supabaseToken,
+      const response = await api.post<AuthResponse>('auth/validate-supabase-token', {
+        supabaseToken: session.access_token,
         user: {
-          email: supabaseUser.email,
-          name: supabaseUser.user_metadata.name
+          email: session.user.email,
+          name: session.user.user_metadata?.name
         }
       });
-      
-      if (response.token) {
-        localStorage.setItem('token', response.token);
-        return response.token;
-      }
-      return null;
+
+      return response.token ? response : null;
     } catch (error) {
       console.error('Failed to get legacy token:', error);
       return null;
     }
   },
-  
+
   // Check if we have valid authentication for both systems
   async checkAuth(): Promise<{ supabase: boolean; legacy: boolean }> {
     const supabaseSession = await supabase.auth.getSession();
     const legacyToken = localStorage.getItem('token');
-    
+
     let legacyValid = false;
     if (legacyToken) {
       try {
@@ -63,7 +40,7 @@ export const authBridge = {
         legacyValid = false;
       }
     }
-    
+
     return {
       supabase: !!supabaseSession.data.session,
       legacy: legacyValid
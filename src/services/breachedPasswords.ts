@@ -0,0 +1,72 @@
+// Ranges of breached password hashes, served with the app from
+// public/breached-passwords and built by `npm run breached-passwords`. Each
+// range file holds the SHA-1 suffixes, with counts, of the hashes starting with
+// its name, in the format of the Pwned Passwords range API.
+const BASE_PATH = '/breached-passwords';
+
+interface Manifest {
+  // Hex characters of the hash in each range file's name
+  prefixLength: number;
+  // Built from the short sample list in scripts/ rather than a breach corpus
+  sample?: boolean;
+}
+
+let manifest: Promise<Manifest> | null = null;
+const ranges = new Map<string, Promise<Set<string>>>();
+
+const fetchOk = async (path: string) => {
+  const response = await fetch(path);
+  if (!response.ok) throw new Error(`Failed to load ${path}: ${response.status}`);
+  return response;
+};
+
+// Failed loads are forgotten, so the next check tries again
+const loadManifest = () => {
+  manifest ??= fetchOk(`${BASE_PATH}/index.json`)
+    .then(response => response.json() as Promise<Manifest>)
+    .then(loaded => {
+      if (loaded.sample) {
+        console.warn(
+          'Breached passwords are only checked against the sample list. ' +
+          'Build the ranges from a Pwned Passwords download with `npm run breached-passwords`.'
+        );
+      }
+      return loaded;
+    })
+    .catch(err => {
+      manifest = null;
+      throw err;
+    });
+  return manifest;
+};
+
+const loadRange = (prefix: string) => {
+  let range = ranges.get(prefix);
+  if (!range) {
+    range = fetchOk(`${BASE_PATH}/${prefix}.txt`)
+      .then(response => response.text())
+      .then(text => new Set(text.split(/\r?\n/).map(line => line.split(':')[0].trim().toUpperCase()).filter(Boolean)))
+      .catch(err => {
+        ranges.delete(prefix);
+        throw err;
+      });
+    ranges.set(prefix, range);
+  }
+  return range;
+};
+
+const sha1Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+export const breachedPasswords = {
+  // Whether the password appears in the breached ranges. Only the start of its
+  // hash picks the range to load, as with the Pwned Passwords API, so neither
+  // the password nor its full hash leaves the page.
+  async isBreached(password: string): Promise<boolean> {
+    const [hash, { prefixLength }] = await Promise.all([sha1Hex(password), loadManifest()]);
+    const suffixes = await loadRange(hash.slice(0, prefixLength));
+    return suffixes.has(hash.slice(prefixLength));
+  }
+};
@@ -0,0 +1,408 @@
+import { supabase } from './supabase';
+import { DataAccessError, toDataAccessError } from './repositories/errors';
+import { actingAs, getActingUserId } from './actingAs';
+import { queryCache, queryKeys } from './queryCache';
+import { outbox, OutboxConflictError } from './outbox';
+import { assertNotDemo, demoData } from './demo';
+import { DEMO_MODE } from '../config/constants';
+import type { HealthProvider } from '../types';
+import type { Functions, Json, Tables } from '../types/database';
+import type {
+  BulkConsentAction,
+  BulkConsentResult,
+  ConsentChanges,
+  ConsentDuration,
+  ConsentEvent,
+  ConsentEventType,
+  ConsentGrant,
+  ConsentPurpose,
+  ConsentScope,
+  ConsentTerm,
+  ExpiringConsent
+} from '../types/consent';
+
+// Purposes a user can allow, in display order
+export const consentPurposes: { value: ConsentPurpose; label: string; description: string }[] = [
+  { value: 'treatment', label: 'Treatment', description: 'Providing and coordinating your care' },
+  { value: 'payment', label: 'Payment', description: 'Billing and insurance claims' },
+  { value: 'research', label: 'Research', description: 'Health studies and quality improvement' },
+  { value: 'marketing', label: 'Marketing', description: 'Offers and promotional communication' }
+];
+
+// Purposes applied when a data type is granted without choosing any
+export const DEFAULT_PURPOSES: ConsentPurpose[] = ['treatment'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RENEWAL_MS = 30 * DAY_MS;
+
+// Keeping an expired end date would store grants that give no access, so
+// granting on an expired consent has to restart it with a new duration
+const assertCanGrant = (expired: boolean, changes: ConsentChanges, duration?: ConsentDuration) => {
+  if (expired && !duration && Object.values(changes).some(purposes => purposes.length > 0)) {
+    throw new DataAccessError('invalid', 'This consent has expired; renew it before granting access');
+  }
+};
+
+// Columns of user_consent_grants used to build grants
+type ConsentGrantRow = Pick<Tables<'user_consent_grants'>, 'provider_id' | 'data_type_id' | 'granted' | 'purposes'>;
+
+// Validity columns of user_provider_consents
+type ConsentTermRow = Pick<Tables<'user_provider_consents'>, 'provider_id' | 'approved' | 'start_date' | 'end_date'>;
+
+// Data type declared by a provider through provider_data_types
+export interface DeclaredDataType {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export const isConsentExpired = (endDate: string | null, now = new Date()): boolean =>
+  !!endDate && new Date(endDate).getTime() <= now.getTime();
+
+// Work out when a consent granted at `from` for `duration` should end
+export const getConsentEndDate = (duration: ConsentDuration, from = new Date()): string | null => {
+  switch (duration.kind) {
+    case 'open':
+      return null;
+    case 'days':
+      return new Date(from.getTime() + duration.days * DAY_MS).toISOString();
+    case 'months': {
+      const end = new Date(from);
+      end.setMonth(end.getMonth() + duration.months);
+      return end.toISOString();
+    }
+    case 'until': {
+      // A bare date means access lasts through the end of that day
+      const end = /^\d{4}-\d{2}-\d{2}$/.test(duration.date)
+        ? new Date(`${duration.date}T23:59:59`)
+        : new Date(duration.date);
+      return end.toISOString();
+    }
+  }
+};
+
+const toConsentTerm = (row: ConsentTermRow): ConsentTerm => ({
+  providerId: row.provider_id,
+  approved: !!row.approved,
+  startDate: row.start_date,
+  endDate: row.end_date,
+  expired: isConsentExpired(row.end_date)
+});
+
+// Get the consent record for a provider, if one exists
+const getTermRow = async (userId: string, providerId: string): Promise<ConsentTermRow | null> => {
+  const { data, error } = await supabase
+    .from('user_provider_consents')
+    .select('provider_id, approved, start_date, end_date')
+    .eq('user_id', userId)
+    .eq('provider_id', providerId)
+    .maybeSingle();
+
+  if (error) throw toDataAccessError(error);
+  return data;
+};
+
+// Run a change to one provider through apply_consent_batch, which writes the
+// grants, the consent record and the ledger entry in one transaction
+const applyProviderChange = async (
+  providerId: string,
+  args: Omit<Functions<'apply_consent_batch'>['Args'], 'p_provider_ids'>
+): Promise<void> => {
+  const acting = actingAs.getSnapshot();
+  const { data, error } = await supabase.rpc('apply_consent_batch', {
+    ...args,
+    p_provider_ids: [providerId],
+    ...(acting && { p_user_id: acting.userId })
+  });
+
+  if (error) throw toDataAccessError(error);
+  const [result] = data;
+  if (!result?.succeeded) throw new DataAccessError('invalid', result?.error ?? 'Failed to update consent');
+};
+
+// Provider lists carry consent state, so every consent change makes them stale
+const invalidateConsentQueries = () => {
+  queryCache.invalidate(queryKeys.providers);
+  queryCache.invalidate(queryKeys.dashboardCounts);
+};
+
+// Combine the data types a provider declares with the user's grant rows
+export const toConsentGrants = (
+  declared: DeclaredDataType[],
+  rows: ConsentGrantRow[]
+): ConsentGrant[] => {
+  return declared.map(dataType => {
+    const row = rows.find(r => r.data_type_id === dataType.id && r.granted);
+    return {
+      dataTypeId: dataType.id,
+      name: dataType.name,
+      description: dataType.description,
+      granted: !!row,
+      purposes: row ? (row.purposes.length > 0 ? row.purposes as ConsentPurpose[] : DEFAULT_PURPOSES) : []
+    };
+  });
+};
+
+// Write grant changes for a provider, optionally restarting the consent for
+// a new duration
+const applyGrantChanges = async (
+  providerId: string,
+  changes: ConsentChanges,
+  duration?: ConsentDuration
+): Promise<ConsentTerm> => {
+  const userId = await getActingUserId();
+  const now = new Date();
+  const termBefore = await getTermRow(userId, providerId);
+  assertCanGrant(!!termBefore && isConsentExpired(termBefore.end_date, now), changes, duration);
+
+  await applyProviderChange(providerId, {
+    p_action: 'update',
+    p_changes: changes as unknown as Json,
+    ...(duration && { p_restart: true, p_end_date: getConsentEndDate(duration, now) })
+  });
+
+  const term = await getTermRow(userId, providerId);
+  invalidateConsentQueries();
+  if (!term) throw new DataAccessError('not_found', 'No consent found for this provider');
+  return toConsentTerm(term);
+};
+
+// Best guess at the term a queued change will produce, from the provider list
+// loaded before going offline
+const toPendingTerm = (
+  providerId: string,
+  changes: ConsentChanges,
+  duration?: ConsentDuration
+): ConsentTerm => {
+  const now = new Date();
+  const provider = queryCache.peek<HealthProvider[]>(queryKeys.providers).data?.find(p => p.id === providerId);
+  const granted = new Set(provider?.permissions.filter(grant => grant.granted).map(grant => grant.dataTypeId));
+  Object.entries(changes).forEach(([dataTypeId, purposes]) => {
+    if (purposes.length > 0) {
+      granted.add(dataTypeId);
+    } else {
+      granted.delete(dataTypeId);
+    }
+  });
+
+  const endDate = duration ? getConsentEndDate(duration, now) : provider?.consentEndDate ?? null;
+  return {
+    providerId,
+    approved: granted.size > 0,
+    startDate: duration ? now.toISOString() : null,
+    endDate,
+    expired: isConsentExpired(endDate, now)
+  };
+};
+
+// Per-data-type consent service backed by user_consent_grants
+export const consentService = {
+  // Get all grant rows for the acting user, grouped by provider id
+  async getGrantRows(): Promise<Record<string, ConsentGrantRow[]>> {
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('user_consent_grants')
+      .select('provider_id, data_type_id, granted, purposes')
+      .eq('user_id', userId);
+
+    if (error) throw toDataAccessError(error);
+
+    return data.reduce<Record<string, ConsentGrantRow[]>>((acc, row) => {
+      (acc[row.provider_id] ||= []).push(row);
+      return acc;
+    }, {});
+  },
+
+  // Get the validity window of every consent, keyed by provider id
+  async getTerms(): Promise<Record<string, ConsentTerm>> {
+    if (DEMO_MODE) return demoData.getConsentTerms();
+
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('user_provider_consents')
+      .select('provider_id, approved, start_date, end_date')
+      .eq('user_id', userId);
+
+    if (error) throw toDataAccessError(error);
+
+    return data.reduce<Record<string, ConsentTerm>>((acc, row) => {
+      acc[row.provider_id] = toConsentTerm(row);
+      return acc;
+    }, {});
+  },
+
+  // Grant or revoke individual data types for a provider, optionally
+  // restarting the consent for a new duration. Offline, the change is queued
+  // and a best-guess term is returned.
+  async updateGrants(
+    providerId: string,
+    changes: ConsentChanges,
+    duration?: ConsentDuration
+  ): Promise<ConsentTerm> {
+    assertNotDemo();
+    // Offline, only the provider list loaded earlier says whether it expired
+    const cached = queryCache.peek<HealthProvider[]>(queryKeys.providers).data?.find(p => p.id === providerId);
+    assertCanGrant(!!cached?.consentExpired, changes, duration);
+
+    return outbox.run(
+      { kind: 'updateGrants', providerId, changes, duration },
+      () => applyGrantChanges(providerId, changes, duration),
+      () => toPendingTerm(providerId, changes, duration)
+    );
+  },
+
+  // Restart a time-bounded consent for the same length it was granted for
+  async renew(providerId: string): Promise<ConsentTerm> {
+    assertNotDemo();
+    const userId = await getActingUserId();
+    const now = new Date();
+    const termBefore = await getTermRow(userId, providerId);
+    if (!termBefore) throw new DataAccessError('not_found', 'No consent found for this provider');
+
+    const length = termBefore.start_date && termBefore.end_date
+      ? new Date(termBefore.end_date).getTime() - new Date(termBefore.start_date).getTime()
+      : DEFAULT_RENEWAL_MS;
+
+    const term: ConsentTermRow = {
+      ...termBefore,
+      start_date: now.toISOString(),
+      end_date: new Date(now.getTime() + Math.max(length, DAY_MS)).toISOString()
+    };
+
+    await applyProviderChange(providerId, { p_action: 'update', p_restart: true, p_end_date: term.end_date });
+
+    invalidateConsentQueries();
+    return toConsentTerm(term);
+  },
+
+  // Get approved consents that have expired or end within the given window
+  async getExpiring(withinDays = 7): Promise<ExpiringConsent[]> {
+    if (DEMO_MODE) return demoData.getExpiringConsents(withinDays);
+
+    const userId = await getActingUserId();
+    const horizon = new Date(Date.now() + withinDays * DAY_MS).toISOString();
+
+    const { data, error } = await supabase
+      .from('user_provider_consents')
+      .select('provider_id, approved, start_date, end_date, providers(name, logo)')
+      .eq('user_id', userId)
+      .eq('approved', true)
+      .not('end_date', 'is', null)
+      .lte('end_date', horizon)
+      .order('end_date', { ascending: true });
+
+    if (error) throw toDataAccessError(error);
+
+    return data.map(row => ({
+      ...toConsentTerm(row),
+      endDate: row.end_date as string,
+      providerName: row.providers?.name || 'Unknown Provider',
+      providerLogo: row.providers?.logo || '/elroi-logo.svg'
+    }));
+  },
+
+  // Remove every grant and the consent record for a provider
+  async revokeAll(providerId: string): Promise<void> {
+    assertNotDemo();
+    await applyProviderChange(providerId, { p_action: 'disconnect' });
+    invalidateConsentQueries();
+  },
+
+  // Apply one change to several providers in a single batch; providers are
+  // applied independently, so the results can mix successes and failures
+  async applyBulk(providerIds: string[], action: BulkConsentAction): Promise<BulkConsentResult[]> {
+    assertNotDemo();
+    if (providerIds.length === 0) return [];
+
+    const acting = actingAs.getSnapshot();
+    const { data, error } = await supabase.rpc('apply_consent_batch', {
+      p_action: action.kind,
+      p_provider_ids: providerIds,
+      ...(action.kind === 'grant' && {
+        p_data_type_id: action.dataTypeId,
+        p_purposes: action.purposes
+      }),
+      ...(acting && { p_user_id: acting.userId })
+    });
+
+    if (error) throw toDataAccessError(error);
+
+    invalidateConsentQueries();
+    return data.map(row => ({
+      providerId: row.provider_id,
+      succeeded: row.succeeded,
+      error: row.error
+    }));
+  },
+
+  // Get the id of the latest ledger entry for each provider that has one
+  async getLatestEventIds(providerIds: string[]): Promise<Record<string, string>> {
+    if (DEMO_MODE || providerIds.length === 0) return {};
+
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('consent_events')
+      .select('id, provider_id')
+      .eq('user_id', userId)
+      .in('provider_id', providerIds)
+      .order('created_at', { ascending: false });
+
+    if (error) throw toDataAccessError(error);
+
+    return data.reduce<Record<string, string>>((acc, row) => {
+      if (row.provider_id) acc[row.provider_id] ??= row.id;
+      return acc;
+    }, {});
+  },
+
+  // Get the consent ledger for a provider, newest first
+  async getHistory(providerId: string): Promise<ConsentEvent[]> {
+    // The demo has no ledger; changes are disabled there
+    if (DEMO_MODE) return [];
+
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('consent_events')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('provider_id', providerId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw toDataAccessError(error);
+
+    return data.map(row => ({
+      id: row.id,
+      providerId: row.provider_id,
+      actorId: row.actor_id,
+      type: row.event_type as ConsentEventType,
+      scopesBefore: row.scopes_before as unknown as ConsentScope[],
+      scopesAfter: row.scopes_after as unknown as ConsentScope[],
+      expiresAt: row.expires_at,
+      createdAt: row.created_at
+    }));
+  }
+};
+
+// Replay a consent change queued offline, unless the consent was changed
+// elsewhere in the meantime
+outbox.register('updateGrants', async ({ providerId, changes, duration }, entry) => {
+  const userId = await getActingUserId();
+
+  const { data, error } = await supabase
+    .from('user_provider_consents')
+    .select('updated_at')
+    .eq('user_id', userId)
+    .eq('provider_id', providerId)
+    .maybeSingle();
+
+  if (error) throw toDataAccessError(error);
+  if (data?.updated_at && new Date(data.updated_at) > new Date(entry.createdAt)) {
+    throw new OutboxConflictError('Consent for this provider was changed on another device');
+  }
+
+  await applyGrantChanges(providerId, changes, duration);
+});
@@ -0,0 +1,279 @@
+import { supabase } from './supabase';
+import { consentPurposes, consentService } from './consent';
+import { getActingUserId } from './actingAs';
+import { demoPatient } from './demo';
+import { DEMO_MODE, PRIVACY_POLICY_URL, TENANT_CONFIG } from '../config/constants';
+import type {
+  ConsentGrant,
+  ConsentPurpose,
+  ConsentReceipt,
+  ConsentReceiptPurpose,
+  ConsentTerm
+} from '../types/consent';
+
+// Provider details a receipt is generated from
+export interface ReceiptProvider {
+  id: string;
+  name: string;
+  permissions: ConsentGrant[];
+}
+
+// Kantara purpose categories for each purpose of use
+const purposeCategories: Record<ConsentPurpose, string> = {
+  treatment: 'Core Function',
+  payment: 'Contracted Service',
+  research: 'Research',
+  marketing: 'Marketing'
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : 'No expiry';
+
+const getStatus = (grants: ConsentGrant[], term?: ConsentTerm): ConsentReceipt['consentStatus'] => {
+  if (!term) return 'withdrawn';
+  if (term.expired) return 'expired';
+  return grants.some(grant => grant.granted) ? 'active' : 'withdrawn';
+};
+
+const buildPurposes = (grants: ConsentGrant[], term?: ConsentTerm): ConsentReceiptPurpose[] => {
+  const termination = term?.endDate
+    ? `Consent ends on ${new Date(term.endDate).toISOString()} or when withdrawn by the individual`
+    : 'Consent remains until withdrawn by the individual';
+
+  return consentPurposes
+    .map(({ value, label }) => ({
+      purpose: label,
+      purposeCategory: [purposeCategories[value]],
+      consentType: 'EXPLICIT' as const,
+      piiCategory: grants
+        .filter(grant => grant.granted && grant.purposes.includes(value))
+        .map(grant => grant.name),
+      primaryPurpose: value === 'treatment',
+      termination,
+      thirdPartyDisclosure: false
+    }))
+    .filter(purpose => purpose.piiCategory.length > 0);
+};
+
+// A SHA-256 digest in UUID form, so the same consent always gets the same id
+const hashToUuid = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Receipts for the same consent share an id: the ledger entry that produced
+// it, or for consent recorded before the ledger, a hash of the consent itself
+const getReceiptId = (
+  principalId: string,
+  provider: ReceiptProvider,
+  term: ConsentTerm | undefined,
+  eventId: string | undefined
+) =>
+  eventId ?? hashToUuid(JSON.stringify([
+    principalId,
+    provider.id,
+    term?.startDate ?? null,
+    term?.endDate ?? null,
+    provider.permissions.filter(grant => grant.granted).map(grant => [grant.dataTypeId, [...grant.purposes].sort()])
+  ]));
+
+// Build a receipt for one provider's consent
+export const buildConsentReceipt = (
+  receiptId: string,
+  principal: { id: string; email?: string },
+  provider: ReceiptProvider,
+  term?: ConsentTerm,
+  issuedAt = new Date(),
+  actor?: ConsentReceipt['actor']
+): ConsentReceipt => {
+  const consentedAt = term?.startDate ? new Date(term.startDate) : issuedAt;
+
+  return {
+    version: 'KI-CR-v1.1.0',
+    jurisdiction: 'US',
+    consentTimestamp: Math.floor(consentedAt.getTime() / 1000),
+    collectionMethod: 'Web form: Consent Management',
+    consentReceiptID: receiptId,
+    language: 'en',
+    piiPrincipalId: principal.email || principal.id,
+    piiControllers: [
+      {
+        piiController: provider.name,
+        onBehalf: false,
+        contact: provider.name
+      },
+      {
+        piiController: TENANT_CONFIG.legal.controller,
+        onBehalf: true,
+        contact: TENANT_CONFIG.legal.privacyContact
+      }
+    ],
+    policyUrl: PRIVACY_POLICY_URL,
+    services: [
+      {
+        service: `Health data sharing with ${provider.name}`,
+        purposes: buildPurposes(provider.permissions, term)
+      }
+    ],
+    sensitive: true,
+    spiCat: ['Health'],
+    consentStatus: getStatus(provider.permissions, term),
+    validFrom: term?.startDate ?? null,
+    validUntil: term?.endDate ?? null,
+    issuedAt: issuedAt.toISOString(),
+    ...(actor && { actor })
+  };
+};
+
+// Render receipts as a standalone printable HTML document
+export const renderConsentReceiptsHtml = (receipts: ConsentReceipt[]): string => {
+  const sections = receipts.map(receipt => {
+    const controller = receipt.piiControllers[0]?.piiController || 'Unknown provider';
+    const rows = receipt.services.flatMap(service => service.purposes).map(purpose => `
+          <tr>
+            <td>${escapeHtml(purpose.purpose)}${purpose.primaryPurpose ? ' (primary)' : ''}</td>
+            <td>${escapeHtml(purpose.purposeCategory.join(', '))}</td>
+            <td>${escapeHtml(purpose.piiCategory.join(', '))}</td>
+          </tr>`).join('');
+
+    return `
+    <section class="receipt">
+      <h1>Consent Receipt</h1>
+      <p class="muted">Receipt ID ${escapeHtml(receipt.consentReceiptID)}</p>
+      <dl>
+        <dt>Individual</dt><dd>${escapeHtml(receipt.piiPrincipalId)}</dd>${receipt.actor ? `
+        <dt>Issued by caregiver</dt><dd>${escapeHtml(receipt.actor.email || receipt.actor.id)}</dd>` : ''}
+        <dt>Provider</dt><dd>${escapeHtml(controller)}</dd>
+        <dt>Status</dt><dd>${escapeHtml(receipt.consentStatus)}</dd>
+        <dt>Consent given</dt><dd>${escapeHtml(new Date(receipt.consentTimestamp * 1000).toLocaleString())}</dd>
+        <dt>Valid until</dt><dd>${escapeHtml(formatDate(receipt.validUntil))}</dd>
+        <dt>Collection method</dt><dd>${escapeHtml(receipt.collectionMethod)}</dd>
+        <dt>Jurisdiction</dt><dd>${escapeHtml(receipt.jurisdiction)}</dd>
+        <dt>Privacy policy</dt><dd>${escapeHtml(receipt.policyUrl)}</dd>
+      </dl>
+      <table>
+        <thead><tr><th>Purpose</th><th>Category</th><th>Data shared</th></tr></thead>
+        <tbody>${rows || '<tr><td colspan="3">No data is currently shared.</td></tr>'}</tbody>
+      </table>
+      <p class="muted">Issued ${escapeHtml(new Date(receipt.issuedAt).toLocaleString())} · ${escapeHtml(receipt.version)}</p>
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Consent Receipt</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+    h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+    .muted { color: #6b7280; font-size: 0.875rem; }
+    dl { display: grid; grid-template-columns: 12rem 1fr; gap: 0.5rem 1rem; margin: 1.5rem 0; }
+    dt { font-weight: 600; }
+    dd { margin: 0; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 1rem; }
+    th, td { text-align: left; border-bottom: 1px solid #e5e7eb; padding: 0.5rem; font-size: 0.875rem; }
+    .receipt + .receipt { page-break-before: always; margin-top: 3rem; }
+  </style>
+</head>
+<body>${sections}
+</body>
+</html>`;
+};
+
+// Save text content as a file in the browser
+const saveFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const getFileStem = (providers: ReceiptProvider[]) => {
+  const date = new Date().toISOString().slice(0, 10);
+  if (providers.length !== 1) return `consent-receipts-${date}`;
+  const slug = providers[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `consent-receipt-${slug || providers[0].id}-${date}`;
+};
+
+// Who a receipt is for, and the caregiver who generated it if it is not them.
+// Demo mode has no signed-in user, so receipts are for the sample patient.
+const getParties = async (): Promise<{ principal: { id: string; email?: string }; actor?: ConsentReceipt['actor'] }> => {
+  if (DEMO_MODE) return { principal: { id: demoPatient.id, email: demoPatient.email } };
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const principalId = await getActingUserId();
+  const signedIn = { id: user.id, email: user.email };
+  if (principalId === user.id) return { principal: signedIn };
+  return { principal: { id: principalId }, actor: signedIn };
+};
+
+export const consentReceiptService = {
+  // Generate receipts for the acting user's consent to each provider. A
+  // caregiver's receipts name the user they act for, with the caregiver as
+  // the actor.
+  async generate(providers: ReceiptProvider[]): Promise<ConsentReceipt[]> {
+    const { principal, actor } = await getParties();
+    const [terms, eventIds] = await Promise.all([
+      consentService.getTerms(),
+      consentService.getLatestEventIds(providers.map(provider => provider.id))
+    ]);
+    const issuedAt = new Date();
+
+    return Promise.all(providers.map(async provider => {
+      const term = terms[provider.id];
+      const receiptId = await getReceiptId(principal.id, provider, term, eventIds[provider.id]);
+      return buildConsentReceipt(receiptId, principal, provider, term, issuedAt, actor);
+    }));
+  },
+
+  // Download receipts as JSON; a single provider yields a single receipt object
+  async downloadJson(providers: ReceiptProvider[]): Promise<void> {
+    const receipts = await consentReceiptService.generate(providers);
+    const content = JSON.stringify(receipts.length === 1 ? receipts[0] : receipts, null, 2);
+    saveFile(`${getFileStem(providers)}.json`, content, 'application/json');
+  },
+
+  // Open the browser print dialog, from which receipts can be saved as PDF
+  async print(providers: ReceiptProvider[]): Promise<void> {
+    const receipts = await consentReceiptService.generate(providers);
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.title = getFileStem(providers);
+    document.body.appendChild(frame);
+
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      frame.remove();
+      throw new Error('Unable to open the print view');
+    }
+
+    frameWindow.document.open();
+    frameWindow.document.write(renderConsentReceiptsHtml(receipts));
+    frameWindow.document.close();
+    frameWindow.focus();
+    frameWindow.print();
+
+    // Give the print dialog time to take its snapshot before cleaning up
+    setTimeout(() => frame.remove(), 1000);
+  }
+};
@@ -0,0 +1,108 @@
+import { supabase } from './supabase';
+import { DataAccessError, getCurrentUserId, toDataAccessError } from './repositories/errors';
+import type { Tables } from '../types/database';
+import type { CaregiverDelegation, CaregiverRole, DelegationStatus } from '../types/delegation';
+
+// Roles a user can give a caregiver, in display order
+export const caregiverRoles: { value: CaregiverRole; label: string; description: string }[] = [
+  { value: 'view_records', label: 'View records', description: 'See health records, appointments and consents' },
+  { value: 'manage_appointments', label: 'Manage appointments', description: 'Book, change and cancel appointments' },
+  { value: 'manage_consent', label: 'Manage consent', description: 'Choose what providers can access' }
+];
+
+const toDelegation = (row: Tables<'caregiver_delegations'>): CaregiverDelegation => ({
+  id: row.id,
+  ownerId: row.user_id,
+  ownerName: row.owner_name,
+  caregiverEmail: row.caregiver_email,
+  caregiverId: row.caregiver_id,
+  roles: row.roles as CaregiverRole[],
+  status: row.status as DelegationStatus,
+  createdAt: row.created_at,
+  acceptedAt: row.accepted_at
+});
+
+// Caregiver access from the trusted_circle migration. RLS shows each user the
+// caregivers they invited and the delegations and invitations they received.
+export const delegationService = {
+  // The people the user has invited to help with their account
+  async listCaregivers(): Promise<CaregiverDelegation[]> {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('caregiver_delegations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw toDataAccessError(error, 'Failed to load your caregivers');
+    return data.map(toDelegation);
+  },
+
+  // The accounts the user helps with, including invitations not yet accepted
+  async listAccounts(): Promise<CaregiverDelegation[]> {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('caregiver_delegations')
+      .select('*')
+      .neq('user_id', userId)
+      .order('owner_name', { ascending: true });
+
+    if (error) throw toDataAccessError(error, 'Failed to load the accounts you help with');
+    return data.map(toDelegation);
+  },
+
+  // Invite someone by email; they can accept once they sign in with that address
+  async invite(ownerName: string, email: string, roles: CaregiverRole[]): Promise<CaregiverDelegation> {
+    if (roles.length === 0) throw new DataAccessError('invalid', 'Choose at least one thing they can do');
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('caregiver_delegations')
+      .insert({
+        user_id: userId,
+        owner_name: ownerName,
+        caregiver_email: email.trim().toLowerCase(),
+        roles
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error.code === '23505'
+        ? new DataAccessError('conflict', 'That person has already been invited', error)
+        : toDataAccessError(error, 'Failed to send the invitation');
+    }
+    return toDelegation(data);
+  },
+
+  async updateRoles(delegationId: string, roles: CaregiverRole[]): Promise<void> {
+    if (roles.length === 0) throw new DataAccessError('invalid', 'Choose at least one thing they can do');
+
+    const { error } = await supabase
+      .from('caregiver_delegations')
+      .update({ roles })
+      .eq('id', delegationId);
+
+    if (error) throw toDataAccessError(error, 'Failed to change what they can do');
+  },
+
+  // Accept an invitation sent to the user's email address
+  async accept(delegationId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('accept_caregiver_invitation', { p_delegation_id: delegationId });
+    if (error) throw toDataAccessError(error, 'Failed to accept the invitation');
+    if (!data) throw new DataAccessError('not_found', 'That invitation is no longer available');
+  },
+
+  // Remove a delegation: the user taking access away, or the caregiver
+  // declining an invitation or no longer helping
+  async remove(delegationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('caregiver_delegations')
+      .delete()
+      .eq('id', delegationId);
+
+    if (error) throw toDataAccessError(error, 'Failed to remove access');
+  }
+};
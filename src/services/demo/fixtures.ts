@@ -0,0 +1,342 @@
+import type {
+  Appointment,
+  DashboardCounts,
+  DataElementCategory,
+  HealthInsight,
+  HealthMetric,
+  HealthProvider,
+  HealthRecord,
+  HealthSummary,
+  NotificationItem,
+  UserSettings
+} from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are relative to now so the demo never looks stale
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString();
+const dateOnly = (days: number) => daysFromNow(days).split('T')[0];
+
+// Sample patient shown throughout demo mode
+export const demoPatient = {
+  id: 'demo-patient',
+  name: 'Rachel Cash',
+  email: 'rachel.cash@example.com'
+};
+
+export const demoProviders: HealthProvider[] = [
+  {
+    id: 'demo-provider-1',
+    name: 'Baptist Health',
+    category: 'Primary Care',
+    status: 'active',
+    dataTypes: ['Lab Results', 'Prescriptions', 'Fitness Metrics'],
+    lastSync: daysFromNow(-30),
+    logo: '/elroi-logo.svg',
+    permissions: [
+      { dataTypeId: 'lab-results', name: 'Lab Results', granted: true, purposes: ['treatment'] },
+      { dataTypeId: 'prescriptions', name: 'Prescriptions', granted: true, purposes: ['treatment'] },
+      { dataTypeId: 'fitness-metrics', name: 'Fitness Metrics', granted: true, purposes: ['treatment'] }
+    ],
+    consentEndDate: daysFromNow(5),
+    consentExpired: false
+  },
+  {
+    id: 'demo-provider-2',
+    name: 'HealthMart Pharmacy',
+    category: 'Pharmacy',
+    status: 'inactive',
+    dataTypes: ['Prescriptions'],
+    lastSync: daysFromNow(-14),
+    logo: '/elroi-logo.svg',
+    permissions: [
+      { dataTypeId: 'prescriptions', name: 'Prescriptions', granted: false, purposes: [] }
+    ],
+    consentEndDate: null,
+    consentExpired: false
+  },
+  {
+    id: 'demo-provider-3',
+    name: 'VA Medical Center',
+    category: 'Cardiology',
+    status: 'active',
+    dataTypes: ['Lab Results', 'Prescriptions'],
+    lastSync: daysFromNow(-5),
+    logo: '/elroi-logo.svg',
+    permissions: [
+      { dataTypeId: 'lab-results', name: 'Lab Results', granted: true, purposes: ['treatment', 'research'] },
+      { dataTypeId: 'prescriptions', name: 'Prescriptions', granted: true, purposes: ['treatment'] }
+    ],
+    consentEndDate: null,
+    consentExpired: false
+  }
+];
+
+export const demoCounts: DashboardCounts = {
+  companies: demoProviders.length,
+  contracts: 5,
+  dataElements: 12,
+  privacyStatements: 2
+};
+
+export const demoHealthRecords: HealthRecord[] = [
+  {
+    id: 'demo-record-1',
+    title: 'Annual Physical Results',
+    content: 'Routine annual physical. Blood pressure 120/80 mmHg, heart rate 72 bpm.',
+    date: daysFromNow(-20),
+    type: 'visit',
+    provider: { name: 'Baptist Health', logo: '/elroi-logo.svg' }
+  },
+  {
+    id: 'demo-record-2',
+    title: 'Blood Test Results',
+    content: 'Blood glucose 126 mg/dL, total cholesterol 195 mg/dL, LDL 128 mg/dL.',
+    date: daysFromNow(-35),
+    type: 'lab',
+    provider: { name: 'VA Medical Center', logo: '/elroi-logo.svg' }
+  }
+];
+
+export const demoAppointments: Appointment[] = [
+  {
+    id: 'demo-appointment-1',
+    providerId: 'demo-provider-1',
+    provider: { name: 'Baptist Health', logo: '/elroi-logo.svg' },
+    date: dateOnly(3),
+    time: '10:30',
+    type: 'Annual Check-up',
+    status: 'confirmed',
+    details: {
+      doctorName: 'Dr. Emily Carter',
+      specialty: 'Primary Care',
+      location: 'Baptist Health Medical Center',
+      address: 'Chicago, IL',
+      status: 'confirmed'
+    }
+  },
+  {
+    id: 'demo-appointment-2',
+    providerId: 'demo-provider-3',
+    provider: { name: 'VA Medical Center', logo: '/elroi-logo.svg' },
+    date: dateOnly(10),
+    time: '14:00',
+    type: 'Follow-up Visit',
+    status: 'pending',
+    details: {
+      doctorName: 'Dr. Raj Patel',
+      specialty: 'Cardiology',
+      location: 'VA Medical Center',
+      address: 'Chicago, IL',
+      status: 'pending'
+    }
+  }
+];
+
+export const demoHealthMetrics: HealthMetric[] = [
+  { id: 'demo-metric-1', type: 'Blood Pressure', value: '120/80', unit: 'mmHg', date: daysFromNow(-1), source: 'manual entry' },
+  { id: 'demo-metric-2', type: 'Heart Rate', value: '72', unit: 'bpm', date: daysFromNow(-1), source: 'manual entry' }
+];
+
+export const demoUserSettings: UserSettings = {
+  emailNotifications: true,
+  smsNotifications: true,
+  pushNotifications: true
+};
+
+export const demoHealthSummary: HealthSummary = {
+  record: {
+    id: 'demo-summary',
+    title: 'Health Records Overview',
+    content: `Patient Health Summary for ${demoPatient.name}
+
+Vital Signs:
+- Blood Glucose: 126 mg/dL (High)
+- Blood Pressure: 138/82 (Normal)
+- Total Cholesterol: 195 mg/dL (Normal)
+- HDL: 45 mg/dL (Normal)
+- LDL: 128 mg/dL (Borderline)
+
+Current Conditions:
+- Type 2 Diabetes (Active)
+- Hypertension (Borderline)
+
+Health Score: 80/100
+
+Next Steps:
+1. Blood Pressure Check Due
+2. Medication Refill: Lisinopril
+3. Recommended: 30-minute daily walk`,
+    date: daysFromNow(0),
+    type: 'summary'
+  },
+  score: 80,
+  helping: [
+    'Your medication adherence is excellent',
+    'Your blood pressure is in the healthy range'
+  ],
+  needsAttention: [
+    'Your cholesterol increased by 10%—consider diet changes',
+    'Your sleep has been inconsistent—try a steady schedule'
+  ],
+  notes: [
+    {
+      title: 'Medication Adherence',
+      text: 'Your medication adherence is strong, contributing positively to your overall health score.'
+    },
+    {
+      title: 'Lifestyle',
+      text: 'Regular activity, balanced nutrition, and stress management all play a role in keeping your score high.'
+    }
+  ],
+  conditions: [
+    { name: 'Type 2 Diabetes', status: 'Active' },
+    { name: 'Hypertension', status: 'Borderline' }
+  ],
+  vitals: [
+    { name: 'Blood Glucose', value: '126 mg/dL', status: 'High', date: dateOnly(-20) },
+    { name: 'Blood Pressure', value: '138/82', status: 'Normal', date: dateOnly(-23) },
+    { name: 'Total Cholesterol', value: '195 mg/dL', status: 'Normal', date: dateOnly(-25) },
+    { name: 'HDL', value: '45 mg/dL', status: 'Normal', date: dateOnly(-25) },
+    { name: 'LDL', value: '128 mg/dL', status: 'Borderline', date: dateOnly(-25) }
+  ],
+  documents: [
+    { name: 'Blood Test Results.pdf', date: dateOnly(-20), size: '2.4 MB' },
+    { name: 'Cardiology Report.docx', date: dateOnly(-23), size: '1.8 MB' },
+    { name: 'Prescription.pdf', date: dateOnly(-25), size: '0.8 MB' },
+    { name: 'X-Ray Scan.jpg', date: dateOnly(-30), size: '3.2 MB' }
+  ],
+  nextSteps: [
+    {
+      title: 'Time for Blood Pressure Check',
+      description: 'Your last reading was 3 months ago, time for a follow-up.',
+      action: 'Schedule'
+    },
+    {
+      title: 'Medication Reminder',
+      description: 'Your prescription for Lisinopril needs to be refilled next week.',
+      action: 'Refill'
+    },
+    {
+      title: 'Exercise Recommendation',
+      description: 'Based on your profile, a 30-minute daily walk would benefit your health.',
+      action: 'View'
+    }
+  ]
+};
+
+export const demoDataElementCategories: DataElementCategory[] = [
+  {
+    id: 'general',
+    name: 'General',
+    description: 'Basic personal and demographic information',
+    sections: [
+      {
+        id: 'personal',
+        title: 'Personal Information',
+        elements: [
+          { id: 'demo-element-1', name: 'Full Name', description: demoPatient.name, status: 'active', lastUpdated: dateOnly(-30) },
+          { id: 'demo-element-2', name: 'Date of Birth', description: '1988-05-15', status: 'active', lastUpdated: dateOnly(-30) }
+        ]
+      },
+      {
+        id: 'contact',
+        title: 'Contact Information',
+        elements: [
+          { id: 'demo-element-3', name: 'Email Address', description: demoPatient.email, status: 'active', lastUpdated: dateOnly(-30) },
+          { id: 'demo-element-4', name: 'Phone Number', description: '(555) 123-4567', status: 'active', lastUpdated: dateOnly(-30) }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'medical',
+    name: 'Medical Files',
+    description: 'Summary information for received medical files',
+    sections: [
+      {
+        id: 'medical-history',
+        title: 'Medical History',
+        elements: [
+          {
+            id: 'demo-element-5',
+            name: 'Medical History Summary',
+            description: `${demoPatient.name} has a history of hypertension and asthma.`,
+            status: 'active',
+            lastUpdated: dateOnly(-30)
+          }
+        ]
+      },
+      {
+        id: 'prescription-history',
+        title: 'Prescription History',
+        elements: [
+          {
+            id: 'demo-element-6',
+            name: 'Prescription History Summary',
+            description: `${demoPatient.name} is currently prescribed Lisinopril for hypertension and Albuterol for asthma.`,
+            status: 'active',
+            lastUpdated: dateOnly(-30)
+          }
+        ]
+      },
+      {
+        id: 'lab-results',
+        title: 'Lab Results',
+        elements: [
+          {
+            id: 'demo-element-7',
+            name: 'Lab Results Summary',
+            description: 'Normal blood glucose levels and slightly elevated cholesterol.',
+            status: 'active',
+            lastUpdated: dateOnly(-30)
+          }
+        ]
+      }
+    ]
+  }
+];
+
+export const demoNotifications: NotificationItem[] = [
+  {
+    id: 'demo-notification-1',
+    message: 'Your appointment with Dr. Emily Carter is in 3 days.',
+    linkText: 'View appointment',
+    link: '/care-planner',
+    kind: 'appointment',
+    createdAt: daysFromNow(0)
+  },
+  {
+    id: 'demo-notification-2',
+    message: 'Your lab results from VA Medical Center are now available.',
+    linkText: 'View results',
+    link: '/health-records',
+    kind: 'medical',
+    createdAt: daysFromNow(0)
+  },
+  {
+    id: 'demo-notification-3',
+    message: 'Reminder: Take your medication Lisinopril 10mg daily.',
+    linkText: 'View medication',
+    link: '/health-records',
+    kind: 'medication',
+    createdAt: daysFromNow(-1)
+  },
+  {
+    id: 'demo-notification-4',
+    message: "You've completed your fitness goal! 10,000 steps achieved.",
+    linkText: 'View progress',
+    link: '/health-records',
+    kind: 'activity',
+    createdAt: daysFromNow(-5)
+  }
+];
+
+export const demoHealthInsights: HealthInsight[] = [
+  { id: 'demo-insight-1', title: 'Average Sleep hrs', value: '6.5', trend: 'up', period: 'This week', kind: 'sleep' },
+  { id: 'demo-insight-2', title: 'Total Steps Taken', value: '100,000', trend: 'up', period: 'This month', added: true, kind: 'steps' },
+  { id: 'demo-insight-3', title: 'Calorie Intake', value: '300', trend: 'up', period: 'Today', kind: 'calories' },
+  { id: 'demo-insight-4', title: 'Water Intake', value: '5 gal', trend: 'down', period: 'This week', kind: 'water' },
+  { id: 'demo-insight-5', title: 'Mindfulness Minutes', value: '300', trend: 'up', period: 'This week', kind: 'mindfulness' },
+  { id: 'demo-insight-6', title: 'Journal Entries', value: '25', trend: 'up', period: 'This month', kind: 'journal' }
+];
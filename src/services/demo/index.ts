@@ -0,0 +1,68 @@
+import { DEMO_MODE } from '../../config/constants';
+import { DataAccessError } from '../repositories/errors';
+import type { ConsentTerm, ExpiringConsent } from '../../types/consent';
+import {
+  demoAppointments,
+  demoCounts,
+  demoDataElementCategories,
+  demoHealthInsights,
+  demoHealthMetrics,
+  demoHealthRecords,
+  demoHealthSummary,
+  demoNotifications,
+  demoProviders,
+  demoUserSettings
+} from './fixtures';
+
+export { demoPatient } from './fixtures';
+
+// Writes would go to the real backend, so they are refused in demo mode
+export const assertNotDemo = () => {
+  if (DEMO_MODE) {
+    throw new DataAccessError('forbidden', 'Changes are disabled in demo mode');
+  }
+};
+
+// Hand out copies so a page editing its data never changes the fixtures
+const serve = async <T>(fixture: T): Promise<T> => structuredClone(fixture);
+
+// Sample data served in place of the backends when demo mode is on
+export const demoData = {
+  getDashboardCounts: () => serve(demoCounts),
+  getProviders: () => serve(demoProviders),
+  getHealthRecords: () => serve(demoHealthRecords),
+  getAppointments: () => serve(demoAppointments),
+  getHealthMetrics: () => serve(demoHealthMetrics),
+  getUserSettings: () => serve(demoUserSettings),
+  getHealthSummary: () => serve(demoHealthSummary),
+  getDataElementCategories: () => serve(demoDataElementCategories),
+  getNotifications: () => serve(demoNotifications),
+  getHealthInsights: () => serve(demoHealthInsights),
+
+  // Consent terms for the demo providers, by provider id
+  async getConsentTerms(): Promise<Record<string, ConsentTerm>> {
+    return Object.fromEntries(demoProviders.map(provider => [provider.id, {
+      providerId: provider.id,
+      approved: true,
+      startDate: provider.lastSync,
+      endDate: provider.consentEndDate,
+      expired: provider.consentExpired
+    }]));
+  },
+
+  // Demo providers whose consent ends within the window
+  async getExpiringConsents(withinDays: number): Promise<ExpiringConsent[]> {
+    const horizon = Date.now() + withinDays * 24 * 60 * 60 * 1000;
+    return demoProviders
+      .filter(provider => provider.consentEndDate && new Date(provider.consentEndDate).getTime() <= horizon)
+      .map(provider => ({
+        providerId: provider.id,
+        approved: true,
+        startDate: provider.lastSync,
+        endDate: provider.consentEndDate as string,
+        expired: provider.consentExpired,
+        providerName: provider.name,
+        providerLogo: provider.logo
+      }));
+  }
+};
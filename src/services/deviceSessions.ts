@@ -0,0 +1,105 @@
+import { api } from './api';
+import { supabase } from './supabase';
+import { toDataAccessError } from './repositories/errors';
+import { describeUserAgent, type DeviceType } from '../utils/userAgent';
+
+// supabase: signed in to the account; legacy: a token for the legacy API,
+// which each signed-in browser exchanges its Supabase session for
+export type DeviceSessionSource = 'supabase' | 'legacy';
+
+export interface DeviceSession {
+  id: string;
+  source: DeviceSessionSource;
+  deviceType: DeviceType;
+  browser: string;
+  os: string;
+  // The only hint at where the device is; null when the server did not record it
+  ipAddress: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  // The session this browser is using
+  current: boolean;
+}
+
+interface LegacySessionsResponse {
+  sessions: {
+    id: string;
+    createdAt: string;
+    lastActiveAt: string;
+    userAgent: string | null;
+    ipAddress: string | null;
+    current: boolean;
+  }[];
+}
+
+const describe = (userAgent: string | null) => {
+  const { type, browser, os } = describeUserAgent(userAgent);
+  return { deviceType: type, browser, os };
+};
+
+// This browser first, then the most recently active
+const byRecentUse = (a: DeviceSession, b: DeviceSession) =>
+  Number(b.current) - Number(a.current) || b.lastActiveAt.localeCompare(a.lastActiveAt);
+
+const listSupabaseSessions = async (): Promise<DeviceSession[]> => {
+  const { data, error } = await supabase.rpc('list_my_sessions');
+  if (error) throw toDataAccessError(error, 'Failed to load your sessions');
+  return (data ?? []).map(row => ({
+    id: row.id,
+    source: 'supabase' as const,
+    ...describe(row.user_agent),
+    ipAddress: row.ip,
+    createdAt: row.created_at,
+    lastActiveAt: row.last_active_at,
+    current: row.is_current
+  }));
+};
+
+const listLegacySessions = async (): Promise<DeviceSession[]> => {
+  const { sessions } = await api.get<LegacySessionsResponse>('sessions');
+  return sessions.map(session => ({
+    id: session.id,
+    source: 'legacy' as const,
+    ...describe(session.userAgent),
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    current: session.current
+  }));
+};
+
+// The places the user is signed in, from the watchful_tower migration's
+// functions and the legacy API's token list
+export const deviceSessionService = {
+  // The legacy list is best-effort: a browser without a legacy token still
+  // sees its Supabase sessions
+  async list(): Promise<DeviceSession[]> {
+    const [supabaseSessions, legacySessions] = await Promise.all([
+      listSupabaseSessions(),
+      listLegacySessions().catch(err => {
+        console.error('Error loading legacy API sessions:', err);
+        return [];
+      })
+    ]);
+    return [...supabaseSessions, ...legacySessions].sort(byRecentUse);
+  },
+
+  // Sign another session out; this browser's session ends with sign out instead
+  async revoke(session: DeviceSession): Promise<void> {
+    if (session.source === 'legacy') {
+      await api.post('revoke-session', { sessionId: session.id });
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('revoke_my_session', { p_session_id: session.id });
+    if (error) throw toDataAccessError(error, 'Failed to sign out the session');
+    if (!data) throw new Error('That session has already ended');
+  },
+
+  // Sign out every session but this browser's, in both systems
+  async revokeOthers(): Promise<void> {
+    const { error } = await supabase.auth.signOut({ scope: 'others' });
+    if (error) throw new Error(error.message);
+    await api.post('revoke-other-sessions', {});
+  }
+};
@@ -0,0 +1,75 @@
+import { supabase } from './supabase';
+import { toDataAccessError } from './repositories/errors';
+import { TENANT, TENANT_CONFIG } from '../config/constants';
+import { FLAG_DEFAULTS, isFlagName, type Flags } from '../config/flags';
+import type { Tables } from '../types/database';
+
+export interface FlagSnapshot {
+  flags: Flags;
+  // False until the signed-in user's overrides have loaded, or failed to
+  loaded: boolean;
+}
+
+const listeners = new Set<() => void>();
+
+// The flags before any overrides: the defaults, then the tenant's configuration
+const baseFlags = (): Flags => ({ ...FLAG_DEFAULTS, ...TENANT_CONFIG.features });
+
+let snapshot: FlagSnapshot = { flags: baseFlags(), loaded: false };
+// Bumped on reset, so overrides still loading for a signed-out user are dropped
+let generation = 0;
+
+// Overrides for every tenant apply first, then this tenant's, then the user's
+const precedence = (row: Tables<'feature_flag_overrides'>) =>
+  row.user_id ? 2 : row.tenant ? 1 : 0;
+
+const set = (next: FlagSnapshot) => {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+};
+
+// Which modules are turned on. RLS shows each user the overrides for
+// everyone and their own.
+export const featureFlags = {
+  getSnapshot(): FlagSnapshot {
+    return snapshot;
+  },
+
+  // Apply the overrides for the signed-in user and this tenant. Without them
+  // the flags stay at their defaults.
+  async load(): Promise<void> {
+    const loading = generation;
+
+    const { data, error } = await supabase
+      .from('feature_flag_overrides')
+      .select('*');
+
+    if (loading !== generation) return;
+    if (error) {
+      set({ flags: baseFlags(), loaded: true });
+      throw toDataAccessError(error, 'Failed to load feature flags');
+    }
+
+    const next = baseFlags();
+    data
+      .filter(row => row.tenant === null || row.tenant === TENANT)
+      .sort((a, b) => precedence(a) - precedence(b))
+      .forEach(row => {
+        if (isFlagName(row.flag)) next[row.flag] = row.enabled;
+      });
+    set({ flags: next, loaded: true });
+  },
+
+  // Back to the defaults once the user signs out
+  reset() {
+    generation++;
+    set({ flags: baseFlags(), loaded: false });
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
@@ -0,0 +1,124 @@
+import type { Factor } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { toDataAccessError } from './repositories/errors';
+
+export interface MfaFactor {
+  id: string;
+  friendlyName: string;
+  verified: boolean;
+  createdAt: string;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  // SVG data URL to show as an image
+  qrCode: string;
+  // For typing into an app that cannot scan
+  secret: string;
+}
+
+const ISSUER = 'Elroi Health';
+
+const toMfaFactor = (factor: Factor): MfaFactor => ({
+  id: factor.id,
+  friendlyName: factor.friendly_name || 'Authenticator app',
+  verified: factor.status === 'verified',
+  createdAt: factor.created_at
+});
+
+// Supabase reports auth failures as AuthErrors; surface their message
+// Supabase's own error, whose status tells a refused code from a failed request
+const fail = (error: Error): never => {
+  throw error;
+};
+
+const listTotpFactors = async () => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) fail(error);
+  return (data?.all ?? []).filter(factor => factor.factor_type === 'totp');
+};
+
+// Authenticator-app MFA through Supabase factors, plus one-time recovery codes
+// kept by the sturdy_lantern migration
+export const mfaService = {
+  async listFactors(): Promise<MfaFactor[]> {
+    return (await listTotpFactors()).map(toMfaFactor);
+  },
+
+  // Start adding an authenticator app; it only counts once confirmEnrollment
+  // has checked a code from it
+  async enroll(friendlyName: string): Promise<TotpEnrollment> {
+    // Abandoned enrolments would block reusing their name
+    for (const factor of await listTotpFactors()) {
+      if (factor.status !== 'verified') {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName, issuer: ISSUER });
+    if (error || !data) return fail(error ?? new Error('Could not start setting up the authenticator app'));
+
+    return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+  },
+
+  // Resolves to the recovery codes when this is the first authenticator, since
+  // the account could not be recovered without them
+  async confirmEnrollment(factorId: string, code: string): Promise<string[] | null> {
+    const firstFactor = !(await listTotpFactors()).some(factor => factor.status === 'verified');
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+    if (error) fail(error);
+
+    return firstFactor ? mfaService.generateRecoveryCodes() : null;
+  },
+
+  // Check a code against the user's authenticator, raising the session to AAL2
+  async verify(code: string): Promise<void> {
+    const factor = (await listTotpFactors()).find(candidate => candidate.status === 'verified');
+    if (!factor) throw new Error('No authenticator app is set up for this account');
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId: factor.id, code });
+    if (error) fail(error);
+  },
+
+  async unenroll(factorId: string): Promise<void> {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId });
+    if (error) fail(error);
+
+    // Recovery codes are only for accounts that still have a second factor
+    if (!(await listTotpFactors()).some(factor => factor.status === 'verified')) {
+      const { error: deleteError } = await supabase.from('mfa_recovery_codes').delete().not('id', 'is', null);
+      if (deleteError) throw toDataAccessError(deleteError, 'Failed to remove recovery codes');
+    }
+
+    // Pick up the removed factor in the session's user
+    await supabase.auth.refreshSession();
+  },
+
+  // Replace every recovery code; needs an AAL2 session
+  async generateRecoveryCodes(): Promise<string[]> {
+    const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+    if (error) throw toDataAccessError(error, 'Failed to create recovery codes');
+    return data ?? [];
+  },
+
+  async countRecoveryCodes(): Promise<number> {
+    const { count, error } = await supabase
+      .from('mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .is('used_at', null);
+    if (error) throw toDataAccessError(error, 'Failed to load recovery codes');
+    return count ?? 0;
+  },
+
+  // Spend a recovery code in place of the authenticator. This removes the
+  // user's factors, so they should set up a new app afterwards.
+  async redeemRecoveryCode(code: string): Promise<void> {
+    const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', { p_code: code });
+    if (error) throw toDataAccessError(error, 'Failed to check the recovery code');
+    if (!data) throw new Error('That recovery code is not valid or has already been used');
+
+    const { error: refreshError } = await supabase.auth.refreshSession();
+    if (refreshError) fail(refreshError);
+  }
+};
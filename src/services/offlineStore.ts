@@ -0,0 +1,106 @@
+import { supabase } from './supabase';
+import type { QueryKey } from './queryCache';
+import type { OutboxEntry } from '../types/offline';
+
+const DB_NAME = 'elroi-offline';
+const DB_VERSION = 1;
+const QUERY_STORE = 'queries';
+const OUTBOX_STORE = 'outbox';
+
+interface PersistedQuery<T> {
+  data: T;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(QUERY_STORE)) {
+          db.createObjectStore(QUERY_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return toPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+// Read the user id from the stored session, which works without a connection
+export const getSessionUserId = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+// Persisted reads are scoped to the user so a shared device never shows
+// someone else's data
+const toStorageKey = (userId: string, key: QueryKey) => `${userId}:${JSON.stringify(key)}`;
+
+// IndexedDB storage for last-known reads and the offline write outbox
+export const offlineStore = {
+  async readQuery<T>(userId: string, key: QueryKey): Promise<PersistedQuery<T> | null> {
+    const saved = await withStore<PersistedQuery<T> | undefined>(QUERY_STORE, 'readonly', store =>
+      store.get(toStorageKey(userId, key))
+    );
+    return saved ?? null;
+  },
+
+  async writeQuery<T>(userId: string, key: QueryKey, data: T): Promise<void> {
+    const saved: PersistedQuery<T> = { data, updatedAt: Date.now() };
+    await withStore(QUERY_STORE, 'readwrite', store => store.put(saved, toStorageKey(userId, key)));
+  },
+
+  // Get the user's queued writes, oldest first
+  async listOutbox(userId: string): Promise<OutboxEntry[]> {
+    const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+    return entries
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async putOutbox(entry: OutboxEntry): Promise<void> {
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+  },
+
+  async deleteOutbox(id: string): Promise<void> {
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  },
+
+  // Remove every persisted read, e.g. when a session ends
+  async clearQueries(): Promise<void> {
+    await withStore(QUERY_STORE, 'readwrite', store => store.clear());
+  },
+
+  // Remove the user's queued writes, e.g. when they sign out
+  async clearOutbox(userId: string): Promise<void> {
+    const entries = await offlineStore.listOutbox(userId);
+    await Promise.all(entries.map(entry => offlineStore.deleteOutbox(entry.id)));
+  }
+};
@@ -0,0 +1,198 @@
+import { actingAs } from './actingAs';
+import { getSessionUserId, offlineStore } from './offlineStore';
+import type { OutboxEntry, OutboxOperation, OutboxOperationKind } from '../types/offline';
+
+// Thrown by a replay handler when the data changed elsewhere after the write
+// was queued, so applying it would overwrite a newer change
+export class OutboxConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboxConflictError';
+  }
+}
+
+type OutboxHandler<K extends OutboxOperationKind> = (
+  operation: Extract<OutboxOperation, { kind: K }>,
+  entry: OutboxEntry
+) => Promise<void>;
+
+export interface OutboxSnapshot {
+  // Writes waiting to be replayed
+  pending: number;
+  // Writes that hit a conflict or were rejected, kept until dismissed
+  issues: OutboxEntry[];
+  syncing: boolean;
+}
+
+const handlers: { [K in OutboxOperationKind]?: OutboxHandler<K> } = {};
+const listeners = new Set<() => void>();
+let snapshot: OutboxSnapshot = { pending: 0, issues: [], syncing: false };
+let replayPromise: Promise<void> | null = null;
+
+export const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// Failed fetches reach us as errors whose message names the browser's
+// network failure rather than as a status code
+export const isConnectivityError = (error: unknown): boolean => {
+  if (isOffline()) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|networkerror|load failed|fetcherror/i.test(message);
+};
+
+const setSnapshot = (next: Partial<OutboxSnapshot>) => {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach(listener => listener());
+};
+
+const refresh = async () => {
+  const userId = await getSessionUserId();
+  const entries = userId ? await offlineStore.listOutbox(userId) : [];
+  setSnapshot({
+    pending: entries.filter(entry => entry.status === 'pending').length,
+    issues: entries.filter(entry => entry.status !== 'pending')
+  });
+};
+
+// Queued writes are the user's own, so they wait while acting for someone else
+const replayEntries = async () => {
+  const userId = await getSessionUserId();
+  if (!userId || actingAs.getSnapshot()) return;
+
+  const entries = await offlineStore.listOutbox(userId);
+  for (const entry of entries) {
+    if (entry.status !== 'pending') continue;
+
+    const handler = handlers[entry.operation.kind] as OutboxHandler<OutboxOperationKind> | undefined;
+    if (!handler) continue;
+
+    try {
+      await handler(entry.operation, entry);
+      await offlineStore.deleteOutbox(entry.id);
+    } catch (error) {
+      // Still offline; keep this and everything after it for the next attempt
+      if (isConnectivityError(error)) break;
+
+      await offlineStore.putOutbox({
+        ...entry,
+        status: error instanceof OutboxConflictError ? 'conflict' : 'failed',
+        error: error instanceof Error ? error.message : 'The change could not be saved'
+      });
+    }
+  }
+};
+
+// Queue of writes made offline, persisted in IndexedDB and replayed in order
+// once the connection is back
+export const outbox = {
+  // Services register how to replay each kind of write
+  register<K extends OutboxOperationKind>(kind: K, handler: OutboxHandler<K>) {
+    (handlers as Record<K, OutboxHandler<K>>)[kind] = handler;
+  },
+
+  async enqueue(operation: OutboxOperation): Promise<OutboxEntry> {
+    const userId = await getSessionUserId();
+    if (!userId) throw new Error('You need to be signed in to save changes offline');
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      userId,
+      operation,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      error: null
+    };
+    await offlineStore.putOutbox(entry);
+    await refresh();
+    return entry;
+  },
+
+  // Send a write straight away when online; queue it when offline or when the
+  // connection drops mid-request, and return the optimistic result instead.
+  // Writes for an account the user acts on behalf of are never queued: the
+  // replay would go to whichever account is selected by then.
+  async run<T>(operation: OutboxOperation, send: () => Promise<T>, optimistic: () => T): Promise<T> {
+    if (actingAs.getSnapshot()) return send();
+
+    if (!isOffline()) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!isConnectivityError(error)) throw error;
+      }
+    }
+
+    await outbox.enqueue(operation);
+    return optimistic();
+  },
+
+  // Replay pending writes; concurrent callers share one pass
+  replay(): Promise<void> {
+    if (!replayPromise) {
+      setSnapshot({ syncing: true });
+      replayPromise = replayEntries()
+        .catch(error => console.error('Error replaying offline changes:', error))
+        .finally(async () => {
+          replayPromise = null;
+          setSnapshot({ syncing: false });
+          await refresh().catch(() => undefined);
+        });
+    }
+    return replayPromise;
+  },
+
+  // Drop a write that conflicted or failed once the user has seen it
+  async dismiss(id: string): Promise<void> {
+    await offlineStore.deleteOutbox(id);
+    await refresh();
+  },
+
+  // Load the queue for the signed-in user and replay it whenever the
+  // connection comes back or they switch back to their own account; returns
+  // the cleanup function
+  start(): () => void {
+    const handleOnline = () => {
+      outbox.replay();
+    };
+    const stopWatchingAccount = actingAs.subscribe(() => {
+      if (!actingAs.getSnapshot() && !isOffline() && snapshot.pending > 0) outbox.replay();
+    });
+
+    window.addEventListener('online', handleOnline);
+    refresh()
+      .then(() => {
+        if (!isOffline() && snapshot.pending > 0) outbox.replay();
+      })
+      .catch(error => console.error('Error loading offline changes:', error));
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      stopWatchingAccount();
+    };
+  },
+
+  // Drop the persisted reads when a session times out or expires. The queue
+  // stays, under the user's id, and is replayed when they sign in again.
+  async suspend(): Promise<void> {
+    setSnapshot({ pending: 0, issues: [] });
+    await offlineStore.clearQueries();
+  },
+
+  // Drop the persisted reads and the user's queue when they sign out, once
+  // they have been warned about any unsent changes
+  async clear(userId: string): Promise<void> {
+    setSnapshot({ pending: 0, issues: [] });
+    await offlineStore.clearQueries();
+    await offlineStore.clearOutbox(userId);
+  },
+
+  getSnapshot(): OutboxSnapshot {
+    return snapshot;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
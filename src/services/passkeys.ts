@@ -0,0 +1,196 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { toDataAccessError } from './repositories/errors';
+
+export interface Passkey {
+  id: string;
+  name: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// What a passkey assertion is for: signing in, or confirming it is still the
+// signed-in user before a sensitive action
+export type PasskeyPurpose = 'sign-in' | 'step-up';
+
+// The relying party's options, with binary fields as base64url strings
+interface CreationOptionsJSON {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout?: number;
+  attestation?: AttestationConveyancePreference;
+  authenticatorSelection?: AuthenticatorSelectionCriteria;
+  excludeCredentials?: { id: string; type: 'public-key'; transports?: string[] }[];
+}
+
+interface RequestOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout?: number;
+  userVerification?: UserVerificationRequirement;
+  allowCredentials?: { id: string; type: 'public-key'; transports?: string[] }[];
+}
+
+// The Edge Function that acts as relying party: it issues challenges, checks
+// attestations and assertions, and keeps the passkeys table. The mock backend
+// has a stand-in for it.
+const RELYING_PARTY_FUNCTION = 'webauthn';
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0)).buffer;
+};
+
+const toDescriptor = (credential: { id: string; transports?: string[] }): PublicKeyCredentialDescriptor => ({
+  id: fromBase64Url(credential.id),
+  type: 'public-key',
+  transports: credential.transports as AuthenticatorTransport[] | undefined
+});
+
+const toPasskey = (row: { id: string; name: string; created_at: string; last_used_at: string | null }): Passkey => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at
+});
+
+// Call the relying party, surfacing the reason it gives for a refusal
+const callRelyingParty = async <T>(action: string, body: Record<string, unknown> = {}): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke<T>(RELYING_PARTY_FUNCTION, { body: { action, ...body } });
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const details = await (error.context as Response).json().catch(() => null);
+      throw new Error(details?.error ?? 'The passkey service refused the request');
+    }
+    throw new Error('Could not reach the passkey service');
+  }
+  return data as T;
+};
+
+// The browser rejects with NotAllowedError both when the user dismisses the
+// prompt and when it times out
+const askAuthenticator = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'NotAllowedError') {
+      throw new Error('The passkey request was cancelled or timed out');
+    }
+    if (err instanceof DOMException && err.name === 'InvalidStateError') {
+      throw new Error('This device already has a passkey for your account');
+    }
+    throw err;
+  }
+};
+
+// Run the assertion ceremony for a purpose and return what the relying party
+// answers once it has checked the signature
+const assert = async <T>(purpose: PasskeyPurpose): Promise<T> => {
+  const options = await callRelyingParty<RequestOptionsJSON>('authentication-options', { purpose });
+
+  const credential = await askAuthenticator(() => navigator.credentials.get({
+    publicKey: {
+      challenge: fromBase64Url(options.challenge),
+      rpId: options.rpId,
+      timeout: options.timeout,
+      userVerification: options.userVerification,
+      allowCredentials: options.allowCredentials?.map(toDescriptor)
+    }
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error('No passkey was chosen');
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return callRelyingParty<T>('authentication-verify', {
+    purpose,
+    credential: {
+      id: credential.id,
+      rawId: toBase64Url(credential.rawId),
+      type: credential.type,
+      response: {
+        clientDataJSON: toBase64Url(response.clientDataJSON),
+        authenticatorData: toBase64Url(response.authenticatorData),
+        signature: toBase64Url(response.signature),
+        userHandle: response.userHandle ? toBase64Url(response.userHandle) : null
+      }
+    }
+  });
+};
+
+// WebAuthn passkeys, registered against the webauthn relying party and kept
+// in the quiet_meadow migration's passkeys table
+export const passkeyService = {
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'PublicKeyCredential' in window && Boolean(navigator.credentials);
+  },
+
+  async list(): Promise<Passkey[]> {
+    const { data, error } = await supabase
+      .from('passkeys')
+      .select('id, name, created_at, last_used_at')
+      .order('created_at', { ascending: true });
+    if (error) throw toDataAccessError(error, 'Failed to load passkeys');
+    return (data ?? []).map(toPasskey);
+  },
+
+  // Create a passkey on this device for the signed-in user
+  async register(name: string): Promise<Passkey> {
+    const options = await callRelyingParty<CreationOptionsJSON>('registration-options');
+
+    const credential = await askAuthenticator(() => navigator.credentials.create({
+      publicKey: {
+        challenge: fromBase64Url(options.challenge),
+        rp: options.rp,
+        user: { ...options.user, id: fromBase64Url(options.user.id) },
+        pubKeyCredParams: options.pubKeyCredParams,
+        timeout: options.timeout,
+        attestation: options.attestation,
+        authenticatorSelection: options.authenticatorSelection,
+        excludeCredentials: options.excludeCredentials?.map(toDescriptor)
+      }
+    })) as PublicKeyCredential | null;
+    if (!credential) throw new Error('No passkey was created');
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    const { passkey } = await callRelyingParty<{ passkey: Parameters<typeof toPasskey>[0] }>('registration-verify', {
+      name,
+      credential: {
+        id: credential.id,
+        rawId: toBase64Url(credential.rawId),
+        type: credential.type,
+        response: {
+          clientDataJSON: toBase64Url(response.clientDataJSON),
+          attestationObject: toBase64Url(response.attestationObject),
+          transports: response.getTransports?.() ?? []
+        }
+      }
+    });
+    return toPasskey(passkey);
+  },
+
+  async remove(id: string): Promise<void> {
+    const { error } = await supabase.from('passkeys').delete().eq('id', id);
+    if (error) throw toDataAccessError(error, 'Failed to remove the passkey');
+  },
+
+  // Sign in with a discoverable passkey. The relying party answers with a
+  // one-time token hash, which Supabase turns into a session; the SIGNED_IN
+  // event finishes signing in.
+  async signIn(): Promise<void> {
+    const { tokenHash } = await assert<{ tokenHash: string }>('sign-in');
+    const { error } = await supabase.auth.verifyOtp({ token_hash: tokenHash, type: 'magiclink' });
+    if (error) throw new Error(error.message);
+  },
+
+  // Check one of the signed-in user's passkeys again, for step-up verification
+  async verify(): Promise<void> {
+    await assert<{ verifiedAt: string }>('step-up');
+  }
+};
@@ -0,0 +1,171 @@
+// Identifies a query, e.g. ['providers'] or ['consent', providerId]
+export type QueryKey = readonly unknown[];
+
+export interface QueryOptions {
+  // Milliseconds a result is served without being revalidated
+  staleTime?: number;
+}
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  hasData: boolean;
+  fetching: boolean;
+}
+
+interface CacheEntry<T> {
+  key: QueryKey;
+  data?: T;
+  error?: unknown;
+  hasData: boolean;
+  // When the data was loaded; 0 marks it stale
+  updatedAt: number;
+  promise?: Promise<T>;
+  load?: () => Promise<T>;
+  listeners: Set<() => void>;
+}
+
+// Keys for the supabaseData reads, so mutations can invalidate what they change
+export const queryKeys = {
+  dashboardCounts: ['dashboard-counts'],
+  providers: ['providers'],
+  contracts: ['contracts'],
+  healthRecords: ['health-records'],
+  appointments: ['appointments'],
+  healthMetrics: ['health-metrics'],
+  userSettings: ['user-settings']
+};
+
+const DEFAULT_STALE_TIME = 30000; // 30 seconds
+
+const entries = new Map<string, CacheEntry<unknown>>();
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const getEntry = <T>(key: QueryKey): CacheEntry<T> => {
+  const hash = hashKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, hasData: false, updatedAt: 0, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry as CacheEntry<T>;
+};
+
+const notify = (entry: CacheEntry<unknown>) => {
+  entry.listeners.forEach(listener => listener());
+};
+
+// Whether a key falls under a prefix, e.g. ['consent', '1'] under ['consent']
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+// Load an entry, sharing the request with anyone who asks while it is in flight
+const revalidate = <T>(entry: CacheEntry<T>, load: () => Promise<T>): Promise<T> => {
+  if (entry.promise) return entry.promise;
+
+  const promise: Promise<T> = load()
+    .then(data => {
+      // A newer request replaced this one after an invalidation
+      if (entry.promise !== promise) return data;
+      entry.data = data;
+      entry.error = undefined;
+      entry.hasData = true;
+      entry.updatedAt = Date.now();
+      return data;
+    }, error => {
+      if (entry.promise === promise) entry.error = error;
+      throw error;
+    })
+    .finally(() => {
+      if (entry.promise === promise) {
+        entry.promise = undefined;
+        notify(entry as CacheEntry<unknown>);
+      }
+    });
+
+  entry.promise = promise;
+  notify(entry as CacheEntry<unknown>);
+  return promise;
+};
+
+// Shared in-memory cache for reads, with stale-while-revalidate
+export const queryCache = {
+  // Return cached data when there is any, refreshing it in the background once
+  // it is stale; otherwise wait for the load
+  async fetch<T>(key: QueryKey, load: () => Promise<T>, options: QueryOptions = {}): Promise<T> {
+    const entry = getEntry<T>(key);
+    entry.load = load;
+
+    if (entry.hasData) {
+      const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+      if (Date.now() - entry.updatedAt > staleTime) {
+        revalidate(entry, load).catch(() => undefined);
+      }
+      return entry.data as T;
+    }
+
+    return revalidate(entry, load);
+  },
+
+  peek<T>(key: QueryKey): QueryState<T> {
+    const entry = entries.get(hashKey(key)) as CacheEntry<T> | undefined;
+    return {
+      data: entry?.data,
+      error: entry?.error,
+      hasData: !!entry?.hasData,
+      fetching: !!entry?.promise
+    };
+  },
+
+  // Listen for changes to one entry; returns the unsubscribe function
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  },
+
+  // Replace cached data directly, e.g. after a mutation returns the new value
+  setData<T>(key: QueryKey, update: T | ((current: T | undefined) => T)) {
+    const entry = getEntry<T>(key);
+    entry.data = typeof update === 'function'
+      ? (update as (current: T | undefined) => T)(entry.data)
+      : update;
+    entry.error = undefined;
+    entry.hasData = true;
+    entry.updatedAt = Date.now();
+    notify(entry as CacheEntry<unknown>);
+  },
+
+  // Mark every entry under the prefix stale. Entries that are on screen are
+  // reloaded straight away; the rest reload the next time they are read.
+  invalidate(prefix: QueryKey) {
+    entries.forEach(entry => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+
+      entry.updatedAt = 0;
+      // Drop any in-flight request, its result may predate the mutation
+      entry.promise = undefined;
+      if (entry.listeners.size > 0 && entry.load) {
+        revalidate(entry, entry.load).catch(() => undefined);
+      }
+    });
+  },
+
+  // Forget everything, e.g. when the user signs out
+  clear() {
+    entries.forEach(entry => {
+      entry.data = undefined;
+      entry.error = undefined;
+      entry.hasData = false;
+      entry.updatedAt = 0;
+      entry.promise = undefined;
+      notify(entry);
+    });
+    entries.forEach((entry, hash) => {
+      if (entry.listeners.size === 0) entries.delete(hash);
+    });
+  }
+};
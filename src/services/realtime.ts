@@ -0,0 +1,116 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { MOCK_BACKEND } from '../config/constants';
+import { supabase } from './supabase';
+import { queryCache, queryKeys, type QueryKey } from './queryCache';
+
+export type RealtimeTable = 'user_provider_consents' | 'appointments' | 'health_records' | 'health_metrics';
+
+type RealtimeListener = (table: RealtimeTable) => void;
+
+// Cached reads that go stale when a table changes
+const tableQueries: Record<RealtimeTable, QueryKey[]> = {
+  user_provider_consents: [queryKeys.providers, queryKeys.dashboardCounts],
+  appointments: [queryKeys.appointments],
+  health_records: [queryKeys.healthRecords, queryKeys.dashboardCounts],
+  health_metrics: [queryKeys.healthMetrics]
+};
+
+const realtimeTables = Object.keys(tableQueries) as RealtimeTable[];
+
+// Tables a caregiver reads for the account they act on behalf of
+const delegatedTables: RealtimeTable[] = ['user_provider_consents', 'appointments', 'health_records', 'health_metrics'];
+
+// Bursts of changes, e.g. from a bulk consent action, refresh once
+const FLUSH_DELAY = 250;
+
+let channel: RealtimeChannel | null = null;
+let channelUserId: string | null = null;
+let channelActingUserId: string | null = null;
+let hasSubscribed = false;
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+const pending = new Set<RealtimeTable>();
+const listeners = new Set<{ tables: RealtimeTable[]; listener: RealtimeListener }>();
+
+const flush = () => {
+  flushTimer = undefined;
+  const tables = [...pending];
+  pending.clear();
+
+  tables.forEach(table => {
+    tableQueries[table].forEach(key => queryCache.invalidate(key));
+    listeners.forEach(({ tables: watched, listener }) => {
+      if (watched.includes(table)) listener(table);
+    });
+  });
+};
+
+const handleChange = (table: RealtimeTable) => {
+  pending.add(table);
+  if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY);
+};
+
+// Realtime doesn't apply RLS to delete events, so rather than receive every
+// user's deletes, pick up rows deleted elsewhere when the tab is focused
+const handleVisibilityChange = () => {
+  if (document.visibilityState === 'visible') realtimeTables.forEach(handleChange);
+};
+
+// One channel per signed-in user carries changes to all of their rows. While
+// a caregiver acts on behalf of another account, the delegated tables follow
+// that account instead.
+export const realtimeService = {
+  start(userId: string, actingUserId = userId) {
+    // The mock backend has no realtime socket; its writes refresh the cache as usual
+    if (MOCK_BACKEND) return;
+    if (channel && channelUserId === userId && channelActingUserId === actingUserId) return;
+    realtimeService.stop();
+
+    channelUserId = userId;
+    channelActingUserId = actingUserId;
+    // Deletes are not published (see the quiet_wire migration), so only
+    // inserts and updates are subscribed to
+    channel = realtimeTables.reduce((current, table) => {
+      const filter = `user_id=eq.${delegatedTables.includes(table) ? actingUserId : userId}`;
+      const onChange = () => handleChange(table);
+      return current
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, onChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, onChange);
+    }, supabase.channel(`user-data:${userId}:${actingUserId}`));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    channel.subscribe((status, err) => {
+      if (status === 'SUBSCRIBED') {
+        // Changes made while we were reconnecting were missed, so refresh everything
+        if (hasSubscribed) realtimeTables.forEach(handleChange);
+        hasSubscribed = true;
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('Realtime subscription error:', err ?? status);
+      }
+    });
+  },
+
+  stop() {
+    if (channel) {
+      supabase.removeChannel(channel);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+    channel = null;
+    channelUserId = null;
+    channelActingUserId = null;
+    hasSubscribed = false;
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    pending.clear();
+  },
+
+  // Run a listener after changes to any of the tables; returns the unsubscribe
+  // function. Cached reads refresh on their own, so this is for pages that
+  // load data outside the query cache.
+  subscribe(tables: RealtimeTable[], listener: RealtimeListener): () => void {
+    const subscription = { tables, listener };
+    listeners.add(subscription);
+    return () => {
+      listeners.delete(subscription);
+    };
+  }
+};
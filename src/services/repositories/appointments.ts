@@ -0,0 +1,56 @@
+import { supabase } from '../supabase';
+import type { Appointment, NewAppointment } from '../../types';
+import { getActingUserId } from '../actingAs';
+import { toDataAccessError } from './errors';
+import { toAppointment, toAppointmentInsert } from './mappers';
+
+// Appointments belong to the account being acted on behalf of, if any; a
+// caregiver can see their own and the other account's through RLS, so reads
+// filter by user explicitly
+export const appointmentRepository = {
+  async list(): Promise<Appointment[]> {
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('*, providers(name, logo)')
+      .eq('user_id', userId)
+      .order('date', { ascending: true });
+
+    if (error) throw toDataAccessError(error);
+    return data.map(toAppointment);
+  },
+
+  async create(appointment: NewAppointment): Promise<Appointment> {
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .insert(toAppointmentInsert(userId, appointment))
+      .select('*, providers(name, logo)')
+      .single();
+
+    if (error) throw toDataAccessError(error);
+    return toAppointment(data);
+  },
+
+  // Find the user's active appointment with a provider in a given slot
+  async findInSlot(providerId: string, date: string, time?: string): Promise<Appointment | null> {
+    const userId = await getActingUserId();
+
+    let query = supabase
+      .from('appointments')
+      .select('*, providers(name, logo)')
+      .eq('user_id', userId)
+      .eq('provider_id', providerId)
+      .eq('date', date)
+      .neq('status', 'cancelled');
+
+    query = time ? query.eq('time', time) : query.is('time', null);
+
+    const { data, error } = await query.limit(1).maybeSingle();
+
+    if (error) throw toDataAccessError(error);
+    return data ? toAppointment(data) : null;
+  }
+};
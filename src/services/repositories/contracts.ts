@@ -0,0 +1,15 @@
+import { supabase } from '../supabase';
+import type { Contract } from '../../types';
+import { toDataAccessError } from './errors';
+import { toContract } from './mappers';
+
+export const contractRepository = {
+  async list(): Promise<Contract[]> {
+    const { data, error } = await supabase
+      .from('contracts')
+      .select('*, providers(id, name, logo)');
+
+    if (error) throw toDataAccessError(error);
+    return data.map(toContract);
+  }
+};
@@ -0,0 +1,37 @@
+import { supabase } from '../supabase';
+import type { DashboardCounts } from '../../types';
+import { getActingUserId } from '../actingAs';
+import { toDataAccessError } from './errors';
+
+type CountedTable = 'providers' | 'contracts' | 'data_types' | 'user_provider_consents';
+
+// Count the rows the user can see, or only one user's
+const count = async (table: CountedTable, userId?: string): Promise<number> => {
+  let query = supabase
+    .from(table)
+    .select('*', { count: 'exact', head: true });
+
+  if (userId) query = query.eq('user_id', userId);
+
+  const { count: total, error } = await query;
+
+  if (error) throw toDataAccessError(error);
+  return total || 0;
+};
+
+export const dashboardRepository = {
+  async getCounts(): Promise<DashboardCounts> {
+    const actingUserId = await getActingUserId();
+    const [companies, contracts, dataElements, privacyStatements] = await Promise.all([
+      count('providers'),
+      count('contracts'),
+      // Data types stand in for data elements
+      count('data_types'),
+      // Consents stand in for privacy statements; a caregiver can see another
+      // account's too
+      count('user_provider_consents', actingUserId)
+    ]);
+
+    return { companies, contracts, dataElements, privacyStatements };
+  }
+};
@@ -0,0 +1,56 @@
+import { supabase } from '../supabase';
+
+export type DataAccessErrorCode =
+  | 'unauthenticated'
+  | 'not_found'
+  | 'conflict'
+  | 'forbidden'
+  | 'invalid'
+  | 'unknown';
+
+// Error thrown by every repository, whatever the underlying failure
+export class DataAccessError extends Error {
+  constructor(
+    public code: DataAccessErrorCode,
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'DataAccessError';
+  }
+}
+
+// Postgres and PostgREST error codes we can classify
+const errorCodes: Record<string, DataAccessErrorCode> = {
+  PGRST116: 'not_found',
+  PGRST301: 'unauthenticated',
+  '23505': 'conflict',
+  '42501': 'forbidden',
+  '23502': 'invalid',
+  '23503': 'invalid',
+  '23514': 'invalid',
+  '22P02': 'invalid'
+};
+
+// Convert a Supabase or unexpected error into a DataAccessError
+export const toDataAccessError = (error: unknown, fallbackMessage = 'An error occurred'): DataAccessError => {
+  if (error instanceof DataAccessError) return error;
+
+  if (error && typeof error === 'object') {
+    const { code, message } = error as { code?: string; message?: string };
+    return new DataAccessError(
+      (code && errorCodes[code]) || 'unknown',
+      message || fallbackMessage,
+      error
+    );
+  }
+
+  return new DataAccessError('unknown', fallbackMessage, error);
+};
+
+// Get the signed-in user's id, or fail with an unauthenticated error
+export const getCurrentUserId = async (): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new DataAccessError('unauthenticated', 'User not authenticated');
+  return user.id;
+};
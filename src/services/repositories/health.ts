@@ -0,0 +1,50 @@
+import { supabase } from '../supabase';
+import type { HealthMetric, HealthRecord, NewHealthMetric } from '../../types';
+import { getActingUserId } from '../actingAs';
+import { getCurrentUserId, toDataAccessError } from './errors';
+import { toHealthMetric, toHealthMetricInsert, toHealthRecord } from './mappers';
+
+export const healthMetricRepository = {
+  // Get the metrics of the account being acted on behalf of, if any, most
+  // recent first
+  async list(): Promise<HealthMetric[]> {
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('health_metrics')
+      .select('*')
+      .eq('user_id', userId)
+      .order('recorded_at', { ascending: false });
+
+    if (error) throw toDataAccessError(error);
+    return data.map(toHealthMetric);
+  },
+
+  async create(metric: NewHealthMetric): Promise<HealthMetric> {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('health_metrics')
+      .insert(toHealthMetricInsert(userId, metric))
+      .select()
+      .single();
+
+    if (error) throw toDataAccessError(error);
+    return toHealthMetric(data);
+  }
+};
+
+// Records of the account being acted on behalf of, if any
+export const healthRecordRepository = {
+  async list(): Promise<HealthRecord[]> {
+    const userId = await getActingUserId();
+
+    const { data, error } = await supabase
+      .from('health_records')
+      .select('*, providers(name, logo)')
+      .eq('user_id', userId);
+
+    if (error) throw toDataAccessError(error);
+    return data.map(toHealthRecord);
+  }
+};
@@ -0,0 +1,8 @@
+export { DataAccessError, toDataAccessError, getCurrentUserId } from './errors';
+export type { DataAccessErrorCode } from './errors';
+export { providerRepository } from './providers';
+export { appointmentRepository } from './appointments';
+export { healthMetricRepository, healthRecordRepository } from './health';
+export { contractRepository } from './contracts';
+export { settingsRepository } from './settings';
+export { dashboardRepository } from './dashboard';
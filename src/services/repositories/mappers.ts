@@ -0,0 +1,140 @@
+import type { Json, Tables, TablesInsert } from '../../types/database';
+import type {
+  Appointment,
+  AppointmentDetails,
+  AppointmentStatus,
+  Contract,
+  HealthMetric,
+  HealthProvider,
+  HealthRecord,
+  NewAppointment,
+  NewHealthMetric,
+  UserSettings
+} from '../../types';
+import type { ConsentGrant } from '../../types/consent';
+
+export const DEFAULT_LOGO = '/elroi-logo.svg';
+
+type ProviderBrief = Pick<Tables<'providers'>, 'name' | 'logo'>;
+
+const appointmentStatuses: AppointmentStatus[] = ['pending', 'confirmed', 'cancelled'];
+const providerStatuses: HealthProvider['status'][] = ['active', 'pending', 'inactive'];
+const contractStatuses: Contract['status'][] = ['pending', 'active', 'ended'];
+
+// Narrow a free-text column to one of the allowed values
+const toOneOf = <T extends string>(value: string | null, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+const toProviderBrief = (provider: ProviderBrief | null) => ({
+  name: provider?.name || 'Unknown Provider',
+  logo: provider?.logo || DEFAULT_LOGO
+});
+
+export const toHealthProvider = (
+  row: Tables<'providers'>,
+  dataTypes: string[],
+  consent: { permissions: ConsentGrant[]; endDate: string | null; expired: boolean }
+): HealthProvider => ({
+  id: row.id,
+  name: row.name,
+  category: row.category || 'Healthcare Provider',
+  status: toOneOf(row.status, providerStatuses, 'active'),
+  dataTypes: dataTypes.length > 0 ? dataTypes : ['Medical Records'],
+  lastSync: row.updated_at || new Date().toISOString(),
+  logo: row.logo || DEFAULT_LOGO,
+  permissions: consent.permissions,
+  consentEndDate: consent.endDate,
+  consentExpired: consent.expired
+});
+
+export const toAppointment = (
+  row: Tables<'appointments'> & { providers: ProviderBrief | null }
+): Appointment => ({
+  id: row.id,
+  providerId: row.provider_id,
+  provider: toProviderBrief(row.providers),
+  date: row.date,
+  time: row.time ?? undefined,
+  type: row.type,
+  status: toOneOf(row.status, appointmentStatuses, 'pending'),
+  details: (row.details as AppointmentDetails | null) ?? undefined
+});
+
+export const toAppointmentInsert = (userId: string, appointment: NewAppointment): TablesInsert<'appointments'> => ({
+  ...(appointment.id && { id: appointment.id }),
+  user_id: userId,
+  provider_id: appointment.providerId,
+  type: appointment.type,
+  date: appointment.date,
+  time: appointment.time ?? null,
+  status: 'pending',
+  details: (appointment.details ?? {}) as Json
+});
+
+export const toHealthMetric = (row: Tables<'health_metrics'>): HealthMetric => ({
+  id: row.id,
+  type: row.metric_type,
+  value: row.value,
+  unit: row.unit ?? undefined,
+  date: row.recorded_at || row.created_at || new Date().toISOString(),
+  source: row.source ?? undefined
+});
+
+export const toHealthMetricInsert = (userId: string, metric: NewHealthMetric): TablesInsert<'health_metrics'> => ({
+  ...(metric.id && { id: metric.id }),
+  user_id: userId,
+  metric_type: metric.type,
+  value: metric.value.toString(),
+  unit: metric.unit ?? null,
+  source: metric.source || 'manual entry'
+});
+
+export const toHealthRecord = (
+  row: Tables<'health_records'> & { providers: ProviderBrief | null }
+): HealthRecord => ({
+  id: row.id,
+  title: row.title,
+  content: row.content || '',
+  date: row.created_at || new Date().toISOString(),
+  type: row.type || 'medical',
+  provider: row.providers ? toProviderBrief(row.providers) : undefined
+});
+
+export const toContract = (
+  row: Tables<'contracts'> & { providers: Pick<Tables<'providers'>, 'id' | 'name' | 'logo'> | null }
+): Contract => ({
+  id: row.id,
+  title: row.title,
+  description: row.description || '',
+  status: toOneOf(row.status, contractStatuses, 'pending'),
+  companyId: row.provider_id || '',
+  company: row.providers ? {
+    id: row.providers.id,
+    name: row.providers.name,
+    logo: row.providers.logo ?? undefined
+  } : undefined,
+  createdAt: row.created_at || '',
+  updatedAt: row.updated_at || ''
+});
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  emailNotifications: true,
+  smsNotifications: false,
+  pushNotifications: true
+};
+
+export const toUserSettings = (row: Tables<'user_settings'> | null): UserSettings =>
+  row ? {
+    emailNotifications: row.email_notifications ?? DEFAULT_USER_SETTINGS.emailNotifications,
+    smsNotifications: row.sms_notifications ?? DEFAULT_USER_SETTINGS.smsNotifications,
+    pushNotifications: row.push_notifications ?? DEFAULT_USER_SETTINGS.pushNotifications,
+    updatedAt: row.updated_at ?? undefined
+  } : DEFAULT_USER_SETTINGS;
+
+export const toUserSettingsUpsert = (userId: string, settings: UserSettings): TablesInsert<'user_settings'> => ({
+  user_id: userId,
+  email_notifications: settings.emailNotifications,
+  sms_notifications: settings.smsNotifications,
+  push_notifications: settings.pushNotifications,
+  updated_at: new Date().toISOString()
+});
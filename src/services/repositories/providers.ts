@@ -0,0 +1,140 @@
+import { supabase } from '../supabase';
+import { consentService, toConsentGrants } from '../consent';
+import type { DeclaredDataType } from '../consent';
+import type { HealthProvider, NewProvider } from '../../types';
+import { getCurrentUserId, toDataAccessError } from './errors';
+import { DEFAULT_LOGO, toHealthProvider } from './mappers';
+
+// Find a data type by name, creating it when it does not exist yet
+const getOrCreateDataTypeId = async (name: string): Promise<string> => {
+  const { data: existing, error } = await supabase
+    .from('data_types')
+    .select('id')
+    .eq('name', name)
+    .maybeSingle();
+
+  if (error) throw toDataAccessError(error);
+  if (existing) return existing.id;
+
+  const { data: created, error: createError } = await supabase
+    .from('data_types')
+    .insert({ name })
+    .select('id')
+    .single();
+
+  if (createError) throw toDataAccessError(createError);
+  return created.id;
+};
+
+export const providerRepository = {
+  // Get every provider with the data types it declares and the user's consent to it
+  async list(): Promise<HealthProvider[]> {
+    const { data, error } = await supabase
+      .from('providers')
+      .select(`
+        *,
+        provider_data_types(
+          data_types(id, name, description)
+        )
+      `);
+
+    if (error) throw toDataAccessError(error);
+
+    // Get the user's per-data-type consent grants and their validity
+    const [grantRows, terms] = await Promise.all([
+      consentService.getGrantRows(),
+      consentService.getTerms()
+    ]);
+
+    return data.map(({ provider_data_types, ...row }) => {
+      const declaredTypes: DeclaredDataType[] = provider_data_types
+        .flatMap(link => link.data_types ? [link.data_types] : [])
+        .map(dataType => ({
+          id: dataType.id,
+          name: dataType.name,
+          description: dataType.description ?? undefined
+        }));
+
+      // Expired consent is treated as revoked
+      const term = terms[row.id];
+      const permissions = toConsentGrants(declaredTypes, term?.expired ? [] : grantRows[row.id] || []);
+
+      return toHealthProvider(row, declaredTypes.map(dataType => dataType.name), {
+        permissions,
+        endDate: term?.endDate ?? null,
+        expired: term?.expired ?? false
+      });
+    });
+  },
+
+  // Get the names of every provider
+  async listNames(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('providers')
+      .select('name');
+
+    if (error) throw toDataAccessError(error);
+    return data.map(provider => provider.name);
+  },
+
+  // Add a provider owned by the current user, declaring the given data types
+  async create(provider: NewProvider): Promise<string> {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('providers')
+      .insert({
+        name: provider.name,
+        category: provider.category,
+        status: 'active',
+        logo: DEFAULT_LOGO,
+        user_id: userId
+      })
+      .select('id')
+      .single();
+
+    if (error) throw toDataAccessError(error);
+
+    const dataTypeIds = await Promise.all(provider.dataTypes.map(getOrCreateDataTypeId));
+
+    if (dataTypeIds.length > 0) {
+      const { error: linkError } = await supabase
+        .from('provider_data_types')
+        .insert(dataTypeIds.map(dataTypeId => ({ provider_id: data.id, data_type_id: dataTypeId })));
+
+      if (linkError) throw toDataAccessError(linkError);
+    }
+
+    return data.id;
+  },
+
+  // Delete a provider and its data type links; only the provider's owner may do this.
+  // Returns false when the provider belongs to someone else and was left in place.
+  async removeOwned(providerId: string): Promise<boolean> {
+    const userId = await getCurrentUserId();
+
+    const { data: provider, error } = await supabase
+      .from('providers')
+      .select('user_id')
+      .eq('id', providerId)
+      .single();
+
+    if (error) throw toDataAccessError(error);
+    if (provider.user_id !== userId) return false;
+
+    const { error: linkError } = await supabase
+      .from('provider_data_types')
+      .delete()
+      .eq('provider_id', providerId);
+
+    if (linkError) throw toDataAccessError(linkError);
+
+    const { error: deleteError } = await supabase
+      .from('providers')
+      .delete()
+      .eq('id', providerId);
+
+    if (deleteError) throw toDataAccessError(deleteError);
+    return true;
+  }
+};
@@ -0,0 +1,34 @@
+import { supabase } from '../supabase';
+import type { UserSettings } from '../../types';
+import { getCurrentUserId, toDataAccessError } from './errors';
+import { toUserSettings, toUserSettingsUpsert } from './mappers';
+
+export const settingsRepository = {
+  // Get the user's settings, falling back to defaults when none are saved
+  async get(): Promise<UserSettings> {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw toDataAccessError(error);
+    return toUserSettings(data);
+  },
+
+  // Save the user's settings, creating the row on first save
+  async save(settings: UserSettings): Promise<UserSettings> {
+    const userId = await getCurrentUserId();
+
+    const { data, error } = await supabase
+      .from('user_settings')
+      .upsert(toUserSettingsUpsert(userId, settings), { onConflict: 'user_id' })
+      .select()
+      .single();
+
+    if (error) throw toDataAccessError(error);
+    return toUserSettings(data);
+  }
+};
@@ -0,0 +1,486 @@
+import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
+import { IDLE_TIMEOUT_MINUTES, PHI_LOCK_MINUTES, SESSION_MAX_HOURS, TENANT } from '../config/constants';
+import { actingAs } from './actingAs';
+import { api, SESSION_EXPIRED_EVENT, SESSION_EXPIRED_MESSAGE } from './api';
+import { authBridge } from './authBridge';
+import { mfaService } from './mfa';
+import { outbox } from './outbox';
+import { passkeyService } from './passkeys';
+import { queryCache } from './queryCache';
+import { supabase } from './supabase';
+import { rateLimit } from '../utils/rateLimit';
+import type { AuthResponse, User } from '../types/auth';
+
+// anonymous: nobody is signed in
+// authenticating: restoring a stored session or signing in
+// mfa_required: signed in with a password (AAL1) on an account with an
+//   authenticator app, which has not been entered yet
+// authenticated: signed in at the level the account needs
+// recovering: signed in by a password reset link or code, which is only good
+//   for choosing a new password
+// expired: the session ended without the user signing out
+export type SessionStatus = 'anonymous' | 'authenticating' | 'mfa_required' | 'authenticated' | 'recovering' | 'expired';
+
+export interface SessionSnapshot {
+  status: SessionStatus;
+  user: User | null;
+  // Why the session ended, for the login page
+  error: string | null;
+  // When an idle session will be signed out, in epoch milliseconds; set only
+  // during the warning before it happens
+  idleDeadline: number | null;
+  // Health information stays hidden until the user confirms it is them
+  phiLocked: boolean;
+}
+
+export const IDLE_TIMEOUT_MESSAGE = 'You were signed out because you were inactive for a while. Please sign in again.';
+export const SESSION_LIFETIME_MESSAGE = `For your security, sessions end ${SESSION_MAX_HOURS} hours after signing in. Please sign in again.`;
+
+// The legacy credentials live under the keys the API client reads
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const USER_KEY = 'user';
+// Time of the last input in any tab, so working in one keeps the others signed in
+const LAST_ACTIVITY_KEY = 'lastActivity';
+// When health information was locked, so reloading or opening another tab
+// keeps it locked
+const PHI_LOCKED_KEY = 'phiLockedAt';
+const TAB_CHANNEL = 'elroi:session';
+
+const IDLE_TIMEOUT_MS = IDLE_TIMEOUT_MINUTES * 60 * 1000;
+const IDLE_WARNING_MS = 60 * 1000;
+const PHI_LOCK_MS = PHI_LOCK_MINUTES * 60 * 1000;
+const SESSION_MAX_MS = SESSION_MAX_HOURS * 60 * 60 * 1000;
+// Long timers overflow, and every timer drifts while the computer sleeps
+const MAX_TIMER_MS = 60 * 60 * 1000;
+// Input is recorded at most this often, to keep storage writes down
+const ACTIVITY_THROTTLE_MS = 5 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+
+// Between the app's tabs: changed when one records activity or locks or
+// unlocks health information, ended when one ends the session, with the
+// reason for the login page when it was not signed out on purpose
+type TabMessage = { type: 'changed' } | { type: 'ended'; message: string | null };
+
+const listeners = new Set<() => void>();
+let snapshot: SessionSnapshot = { status: 'authenticating', user: null, error: null, idleDeadline: null, phiLocked: false };
+let session: Session | null = null;
+// When the current session signed in, in epoch milliseconds; signing in again
+// to confirm it is the user does not move it
+let signedInAt: number | null = null;
+// Bumped whenever the session changes, so a slow token exchange for an
+// older session cannot overwrite a newer state
+let generation = 0;
+let signingOut = false;
+let sessionTimer: ReturnType<typeof setTimeout> | undefined;
+let lastRecordedActivity = 0;
+let tabChannel: BroadcastChannel | null = null;
+
+const setSnapshot = (next: Partial<SessionSnapshot>) => {
+  const previous = snapshot.status;
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach(listener => listener());
+
+  if (snapshot.status !== previous) checkTimers();
+};
+
+const tellOtherTabs = (message: TabMessage) => {
+  tabChannel?.postMessage(message);
+};
+
+const recordActivity = () => {
+  lastRecordedActivity = Date.now();
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(lastRecordedActivity));
+  tellOtherTabs({ type: 'changed' });
+};
+
+// Lock health information once the session has been idle for the PHI lock,
+// warn in the last minute before the idle timeout, and sign out at the idle
+// timeout or the session's hard lifetime. Runs again whenever one of them is
+// due and when another tab changes the shared state. Idle time counts from
+// the last input in any tab or the sign-in, whichever is later, so a session
+// restored after a long break is locked or signed out straight away.
+const checkTimers = () => {
+  clearTimeout(sessionTimer);
+  if (snapshot.status !== 'authenticated') {
+    if (snapshot.idleDeadline !== null || snapshot.phiLocked) setSnapshot({ idleDeadline: null, phiLocked: false });
+    return;
+  }
+
+  const now = Date.now();
+  const since = signedInAt ?? now;
+  const lastActivity = Math.max(Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0, since);
+
+  const lifetimeEnd = SESSION_MAX_MS > 0 ? since + SESSION_MAX_MS : Infinity;
+  if (now >= lifetimeEnd) {
+    signOutThisDevice(SESSION_LIFETIME_MESSAGE);
+    return;
+  }
+  const idleEnd = IDLE_TIMEOUT_MS > 0 ? lastActivity + IDLE_TIMEOUT_MS : Infinity;
+  if (now >= idleEnd) {
+    signOutThisDevice(IDLE_TIMEOUT_MESSAGE);
+    return;
+  }
+
+  // A lock from before this sign-in belongs to an earlier session
+  const lockAt = PHI_LOCK_MS > 0 ? lastActivity + PHI_LOCK_MS : Infinity;
+  const lockedAt = Number(localStorage.getItem(PHI_LOCKED_KEY)) || 0;
+  const phiLocked = lockedAt >= since || now >= lockAt;
+  if (phiLocked && lockedAt < since) {
+    localStorage.setItem(PHI_LOCKED_KEY, String(now));
+    tellOtherTabs({ type: 'changed' });
+  }
+
+  const warnAt = idleEnd - IDLE_WARNING_MS;
+  const idleDeadline = now >= warnAt ? idleEnd : null;
+  if (idleDeadline !== snapshot.idleDeadline || phiLocked !== snapshot.phiLocked) {
+    setSnapshot({ idleDeadline, phiLocked });
+  }
+
+  const next = Math.min(lifetimeEnd, idleEnd, phiLocked ? Infinity : lockAt, idleDeadline ? Infinity : warnAt);
+  sessionTimer = setTimeout(checkTimers, Math.min(next - now, MAX_TIMER_MS));
+};
+
+// Once the warning is showing, only Stay signed in keeps the session
+const handleActivity = () => {
+  if (snapshot.status !== 'authenticated' || snapshot.idleDeadline !== null) return;
+  if (Date.now() - lastRecordedActivity < ACTIVITY_THROTTLE_MS) return;
+  recordActivity();
+};
+
+const handleTabMessage = (event: MessageEvent<TabMessage>) => {
+  if (event.data.type === 'changed') {
+    checkTimers();
+    return;
+  }
+  if (snapshot.status === 'anonymous' || snapshot.status === 'expired') return;
+  if (event.data.message) {
+    endSession('expired', event.data.message);
+  } else {
+    endSession('anonymous');
+  }
+};
+
+// Timers pause while the computer sleeps, so check again on coming back
+const handleVisibilityChange = () => {
+  if (document.visibilityState === 'visible') checkTimers();
+};
+
+const readLegacyUser = (): User | null => {
+  try {
+    const saved = localStorage.getItem(USER_KEY);
+    return saved ? (JSON.parse(saved) as User) : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeLegacyCredentials = (response: AuthResponse) => {
+  localStorage.setItem(TOKEN_KEY, response.token);
+  if (response.refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, response.refreshToken);
+  }
+  localStorage.setItem(USER_KEY, JSON.stringify(response.user));
+};
+
+const clearCredentials = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+};
+
+// Reuse the legacy token this browser already holds for the same account;
+// otherwise exchange the Supabase session for a new one
+const connectLegacy = async (current: Session): Promise<User | null> => {
+  const stored = readLegacyUser();
+  if (localStorage.getItem(TOKEN_KEY) && stored && stored.email === current.user.email) {
+    return stored;
+  }
+
+  const response = await authBridge.exchangeSupabaseSession(current);
+  if (!response) return null;
+  storeLegacyCredentials(response);
+  return response.user;
+};
+
+// One user for every page: the legacy profile where the exchange returned one,
+// filled in from the Supabase user where it did not
+const toUser = (current: Session, legacyUser: User | null): User => ({
+  id: current.user.id,
+  email: current.user.email ?? legacyUser?.email ?? '',
+  name: legacyUser?.name ?? current.user.user_metadata?.name ?? '',
+  tenant: legacyUser?.tenant ?? TENANT,
+  isEmailVerified: legacyUser?.isEmailVerified ?? Boolean(current.user.email_confirmed_at),
+  phone: legacyUser?.phone ?? (current.user.phone || undefined),
+  twoFactorEnabled: hasAuthenticator(current),
+  updatedAt: current.user.updated_at
+});
+
+const hasAuthenticator = (current: Session) =>
+  (current.user.factors ?? []).some(factor => factor.status === 'verified');
+
+// Supabase asks for AAL2 once the account has a verified authenticator, and
+// marks sessions from a password reset link or code with the recovery method
+const checkAssurance = async () => {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  const methods = data.currentAuthenticationMethods;
+  return {
+    secondFactor: data.nextLevel === 'aal2' && data.currentLevel !== 'aal2',
+    recovery: methods.some(entry => entry.method === 'recovery'),
+    // The first method is the sign-in; a second factor comes later
+    signedInAt: methods.length > 0 ? Math.min(...methods.map(entry => entry.timestamp)) * 1000 : Date.now()
+  };
+};
+
+const establish = async (current: Session, run: number) => {
+  if (run !== generation) return;
+  session = current;
+  if (snapshot.status === 'anonymous' || snapshot.status === 'expired') {
+    setSnapshot({ status: 'authenticating' });
+  }
+
+  const assurance = await checkAssurance();
+  const { secondFactor, recovery } = assurance;
+  if (run !== generation) return;
+  signedInAt = assurance.signedInAt;
+
+  // A recovery session still needs the second factor before the password can
+  // change, but never reaches the legacy API or the rest of the app
+  if (recovery) {
+    setSnapshot({ status: secondFactor ? 'mfa_required' : 'recovering', user: toUser(current, null), error: null });
+    return;
+  }
+
+  const legacyUser = await connectLegacy(current);
+  if (run !== generation) return;
+
+  const user = toUser(current, legacyUser);
+  setSnapshot({ status: secondFactor ? 'mfa_required' : 'authenticated', user, error: null });
+};
+
+// Supabase holds its auth lock while it notifies listeners, so anything that
+// calls back into supabase.auth waits until the listener has returned
+const settle = (current: Session) => {
+  const run = ++generation;
+  setTimeout(() => {
+    establish(current, run).catch(err => {
+      console.error('Error establishing session:', err);
+      if (run === generation) setSnapshot({ status: 'anonymous', user: null });
+    });
+  }, 0);
+};
+
+// Cached reads and the account acted on behalf of belong to the previous
+// user. Their queued writes are only dropped when they sign out themselves;
+// after a timeout or expiry they wait for the same user to sign in again.
+const endSession = (status: 'anonymous' | 'expired', message = SESSION_EXPIRED_MESSAGE) => {
+  const userId = session?.user.id;
+  generation++;
+  session = null;
+  signedInAt = null;
+  clearCredentials();
+  actingAs.set(null);
+  queryCache.clear();
+  const clearing = status === 'anonymous' && userId ? outbox.clear(userId) : outbox.suspend();
+  clearing.catch(err => console.error('Error clearing offline data:', err));
+  setSnapshot({ status, user: null, error: status === 'expired' ? message : null });
+};
+
+const handleAuthChange = (event: AuthChangeEvent, next: Session | null) => {
+  switch (event) {
+    case 'INITIAL_SESSION':
+    case 'SIGNED_IN':
+    case 'PASSWORD_RECOVERY':
+    case 'MFA_CHALLENGE_VERIFIED':
+      if (!next) {
+        setSnapshot({ status: 'anonymous', user: null });
+        return;
+      }
+      // Supabase repeats SIGNED_IN when the tab regains focus
+      if (event === 'SIGNED_IN' && session?.user.id === next.user.id && snapshot.status !== 'authenticating') {
+        session = next;
+        return;
+      }
+      settle(next);
+      return;
+
+    case 'TOKEN_REFRESHED':
+    case 'USER_UPDATED':
+      session = next;
+      if (next && snapshot.user) {
+        setSnapshot({
+          user: {
+            ...snapshot.user,
+            email: next.user.email ?? snapshot.user.email,
+            twoFactorEnabled: hasAuthenticator(next),
+            updatedAt: next.user.updated_at
+          }
+        });
+      }
+      // A redeemed recovery code removes the factors, so AAL2 is no longer needed
+      if (next && snapshot.status === 'mfa_required') settle(next);
+      return;
+
+    case 'SIGNED_OUT':
+      // Signed out elsewhere, or Supabase could not refresh the session
+      if (snapshot.status !== 'anonymous' && snapshot.status !== 'expired') {
+        endSession(signingOut ? 'anonymous' : 'expired');
+      }
+      return;
+  }
+};
+
+// The API client gave up refreshing the legacy token, which ends the session
+// for both systems
+const handleLegacyExpired = () => {
+  if (signingOut || !session) return;
+  tellOtherTabs({ type: 'ended', message: SESSION_EXPIRED_MESSAGE });
+  endSession('expired');
+  supabase.auth.signOut({ scope: 'local' }).catch(err => {
+    console.error('Error signing out after session expiry:', err);
+  });
+};
+
+// Ends this browser's session in both systems, in every tab, without touching
+// the user's other devices, and tells the login page why
+const signOutThisDevice = async (message: string) => {
+  if (signingOut) return;
+  signingOut = true;
+  try {
+    if (localStorage.getItem(TOKEN_KEY)) {
+      await api.get('logout', { timeout: 5000, retries: 0 })
+        .catch(err => console.error('Error signing out of the legacy API:', err));
+    }
+    tellOtherTabs({ type: 'ended', message });
+    endSession('expired', message);
+    const { error } = await supabase.auth.signOut({ scope: 'local' });
+    if (error) console.error('Error signing out after the session timed out:', error);
+  } finally {
+    signingOut = false;
+  }
+};
+
+// Owns the Supabase session and the legacy API credentials together, so every
+// page sees the same user and the same signed-in state
+export const sessionManager = {
+  // Restore the stored session and follow changes to it; returns the cleanup function
+  start(): () => void {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(handleAuthChange);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleLegacyExpired);
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    if (typeof BroadcastChannel !== 'undefined') {
+      tabChannel = new BroadcastChannel(TAB_CHANNEL);
+      tabChannel.addEventListener('message', handleTabMessage);
+    }
+
+    return () => {
+      subscription.unsubscribe();
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleLegacyExpired);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      tabChannel?.close();
+      tabChannel = null;
+      clearTimeout(sessionTimer);
+    };
+  },
+
+  // Rejects with the reason when the credentials are refused, or with a
+  // RateLimitError while the address is locked out; the SIGNED_IN event
+  // finishes signing in
+  async signIn(email: string, password: string): Promise<void> {
+    await rateLimit.attempt('login', email, async () => {
+      // Thrown as is, so a failed request is told apart from a wrong password
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+    });
+  },
+
+  // Rejects when the passkey is refused or the prompt is dismissed; the
+  // SIGNED_IN event finishes signing in
+  async signInWithPasskey(): Promise<void> {
+    await passkeyService.signIn();
+  },
+
+  // Resolves to whether the user has to confirm their email before signing in
+  async signUp(email: string, password: string, name: string): Promise<{ confirmationRequired: boolean }> {
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: { data: { name } }
+    });
+    if (error) throw new Error(error.message);
+    return { confirmationRequired: !data.session };
+  },
+
+  async signOut(): Promise<void> {
+    signingOut = true;
+    try {
+      if (localStorage.getItem(TOKEN_KEY)) {
+        await api.get('logout').catch(err => console.error('Error signing out of the legacy API:', err));
+      }
+      // Before Supabase tells the other tabs, which would take it for an expiry
+      tellOtherTabs({ type: 'ended', message: null });
+      const { error } = await supabase.auth.signOut();
+      if (error) console.error('Error signing out:', error);
+      if (snapshot.status !== 'anonymous') endSession('anonymous');
+    } finally {
+      signingOut = false;
+    }
+  },
+
+  // Rejects when the code is wrong; the MFA_CHALLENGE_VERIFIED event finishes
+  // signing in
+  async verifySecondFactor(code: string): Promise<void> {
+    if (snapshot.status !== 'mfa_required' || !snapshot.user) return;
+    await rateLimit.attempt('two_factor', snapshot.user.id, () => mfaService.verify(code));
+  },
+
+  // Sign in with a recovery code when the authenticator app is lost. The
+  // account's authenticators are removed, so the user should add a new one.
+  async redeemRecoveryCode(code: string): Promise<void> {
+    if (snapshot.status !== 'mfa_required' || !snapshot.user) return;
+    await rateLimit.attempt('two_factor', snapshot.user.id, () => mfaService.redeemRecoveryCode(code));
+  },
+
+  // Answer the idle warning: count as activity in every tab
+  stayActive(): void {
+    if (snapshot.status !== 'authenticated') return;
+    recordActivity();
+    checkTimers();
+  },
+
+  // Show health information again, in every tab, once the user has confirmed
+  // it is them
+  unlockPhi(): void {
+    if (snapshot.status !== 'authenticated') return;
+    localStorage.removeItem(PHI_LOCKED_KEY);
+    recordActivity();
+    checkTimers();
+  },
+
+  // Keep the session's user in step after a profile or security change
+  updateUser(changes: Partial<User>): void {
+    if (!snapshot.user) return;
+
+    const user = { ...snapshot.user, ...changes };
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    setSnapshot({ user });
+  },
+
+  getSession(): Session | null {
+    return session;
+  },
+
+  getSnapshot(): SessionSnapshot {
+    return snapshot;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+};
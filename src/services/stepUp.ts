@@ -0,0 +1,74 @@
+import { mfaService } from './mfa';
+import { passkeyService } from './passkeys';
+import { sessionManager } from './session';
+import { supabase } from './supabase';
+import { toDataAccessError } from './repositories/errors';
+import { rateLimit } from '../utils/rateLimit';
+
+// How the user can confirm it is them; the password is only offered to
+// accounts without a passkey or authenticator app
+export type StepUpMethod = 'passkey' | 'totp' | 'password';
+
+// One confirmation covers sensitive actions for this long; has_recent_step_up
+// in the steady_hand migration allows the same
+const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+// Epoch milliseconds of the last confirmation in this session
+let verifiedAt: number | null = null;
+
+const markVerified = () => {
+  verifiedAt = Date.now();
+};
+
+// A confirmation never carries over to the next sign-in, or past the health
+// information lock, which needs a confirmation of its own
+sessionManager.subscribe(() => {
+  const { status, phiLocked } = sessionManager.getSnapshot();
+  if (status !== 'authenticated' || phiLocked) verifiedAt = null;
+});
+
+// Step-up verification: a fresh passkey or authenticator check before actions
+// such as removing a provider, changing the email address or exporting records
+export const stepUpService = {
+  isFresh(): boolean {
+    return verifiedAt !== null && Date.now() - verifiedAt < STEP_UP_WINDOW_MS;
+  },
+
+  // The strongest methods set up on the account, in the order to offer them
+  async availableMethods(): Promise<StepUpMethod[]> {
+    const [passkeys, factors] = await Promise.all([
+      passkeyService.isSupported() ? passkeyService.list() : Promise.resolve([]),
+      mfaService.listFactors()
+    ]);
+
+    const methods: StepUpMethod[] = [];
+    if (passkeys.length > 0) methods.push('passkey');
+    if (factors.some(factor => factor.verified)) methods.push('totp');
+    return methods.length > 0 ? methods : ['password'];
+  },
+
+  async withPasskey(): Promise<void> {
+    await passkeyService.verify();
+    markVerified();
+  },
+
+  async withTotp(code: string): Promise<void> {
+    const userId = sessionManager.getSession()?.user.id ?? '';
+    await rateLimit.attempt('two_factor', userId, () => mfaService.verify(code));
+    markVerified();
+  },
+
+  // Checked by the database rather than by signing in again, which would
+  // start a new session; it records the verification for this session
+  async withPassword(password: string): Promise<void> {
+    const email = sessionManager.getSession()?.user.email;
+    if (!email) throw new Error('You need to be signed in');
+
+    await rateLimit.attempt('login', email, async () => {
+      const { data, error } = await supabase.rpc('verify_my_password', { p_password: password });
+      if (error) throw toDataAccessError(error, 'Could not check your password');
+      if (!data) throw new Error('That password is not correct');
+    });
+    markVerified();
+  }
+};
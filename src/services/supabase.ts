@@ -1,10 +1,21 @@
 import { createClient } from '@supabase/supabase-js';
+import { MOCK_BACKEND, MOCK_SUPABASE_URL, TENANT_CONFIG } from '../config/constants';
+import type { Database } from '../types/database';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+// A tenant with its own Supabase project names it in src/config/tenants.ts
+const supabaseUrl = MOCK_BACKEND
+  ? MOCK_SUPABASE_URL
+  : TENANT_CONFIG.api.supabaseUrl ?? import.meta.env.VITE_SUPABASE_URL as string;
+const supabaseAnonKey = MOCK_BACKEND
+  ? 'mock-anon-key'
+  : TENANT_CONFIG.api.supabaseAnonKey ?? import.meta.env.VITE_SUPABASE_ANON_KEY as string;
 
 if (!supabaseUrl || !supabaseAnonKey) {
   console.error('Missing Supabase environment variables. Please check your .env file.');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+  // The client keeps the fetch it was created with, and the mock backend may
+  // be installed after this module loads; look fetch up on every request
+  ...(MOCK_BACKEND && { global: { fetch: (...args: Parameters<typeof fetch>) => fetch(...args) } })
+});
\ No newline at end of file
@@ -1,330 +1,213 @@
-import { supabase } from './supabase';
-
-// Dashboard data service using Supabase
+import {
+  appointmentRepository,
+  contractRepository,
+  dashboardRepository,
+  healthMetricRepository,
+  healthRecordRepository,
+  providerRepository,
+  settingsRepository
+} from './repositories';
+import { DataAccessError } from './repositories/errors';
+import { actingAs } from './actingAs';
+import { DEFAULT_LOGO } from './repositories/mappers';
+import { queryCache, queryKeys, type QueryKey } from './queryCache';
+import { getSessionUserId, offlineStore } from './offlineStore';
+import { isConnectivityError, outbox, OutboxConflictError } from './outbox';
+import { assertNotDemo, demoData } from './demo';
+import { DEMO_MODE } from '../config/constants';
+import type {
+  Appointment,
+  HealthMetric,
+  HealthProvider,
+  NewAppointment,
+  NewHealthMetric,
+  NewProvider,
+  UserSettings
+} from '../types';
+
+// Log a failed call with its method name before passing the error on
+const withLogging = async <T>(method: string, load: () => Promise<T>): Promise<T> => {
+  try {
+    return await load();
+  } catch (error) {
+    console.error(`Error in ${method}:`, error);
+    throw error;
+  }
+};
+
+// Persist each successful read, and fall back to the last persisted copy when
+// the connection is down so pages still render offline. Another account's
+// data, read on their behalf, is never kept on this device.
+const readThrough = async <T>(key: QueryKey, load: () => Promise<T>): Promise<T> => {
+  const userId = actingAs.getSnapshot() ? null : await getSessionUserId().catch(() => null);
+
+  try {
+    const data = await load();
+    if (userId) {
+      offlineStore.writeQuery(userId, key, data).catch(() => undefined);
+    }
+    return data;
+  } catch (error) {
+    if (userId && isConnectivityError(error)) {
+      const saved = await offlineStore.readQuery<T>(userId, key).catch(() => null);
+      if (saved) return saved.data;
+    }
+    throw error;
+  }
+};
+
+// Read through the query cache so concurrent and repeated reads share a request.
+// Demo mode serves the fixture instead and never touches the backend.
+const cached = <T>(key: QueryKey, method: string, load: () => Promise<T>, demo: () => Promise<T>) =>
+  queryCache.fetch(key, DEMO_MODE ? demo : () => readThrough(key, () => withLogging(method, load)));
+
+// A replayed insert that already reached the server fails on its client id
+const ignoreDuplicate = async (write: Promise<unknown>) => {
+  try {
+    await write;
+  } catch (error) {
+    if (!(error instanceof DataAccessError && error.code === 'conflict')) throw error;
+  }
+};
+
+const findCachedProvider = (providerId: string) =>
+  queryCache.peek<HealthProvider[]>(queryKeys.providers).data?.find(provider => provider.id === providerId);
+
+// Show a booking queued offline alongside the rest until it is replayed
+const toPendingAppointment = (appointment: NewAppointment & { id: string }): Appointment => {
+  const provider = findCachedProvider(appointment.providerId);
+  return {
+    id: appointment.id,
+    providerId: appointment.providerId,
+    provider: {
+      name: provider?.name || 'Unknown Provider',
+      logo: provider?.logo || DEFAULT_LOGO
+    },
+    date: appointment.date,
+    time: appointment.time,
+    type: appointment.type,
+    status: 'pending',
+    details: appointment.details
+  };
+};
+
+const toPendingHealthMetric = (metric: NewHealthMetric & { id: string }): HealthMetric => ({
+  id: metric.id,
+  type: metric.type,
+  value: metric.value.toString(),
+  unit: metric.unit,
+  date: new Date().toISOString(),
+  source: metric.source || 'manual entry'
+});
+
+const invalidate = (...keys: QueryKey[]) => keys.forEach(key => queryCache.invalidate(key));
+
+// App data service backed by the Supabase repositories
 export const supabaseData = {
   async getDashboardCounts() {
-    try {
-      // Get providers count
-      const { count: companiesCount, error: providersError } = await supabase
-        .from('providers')
-        .select('*', { count: 'exact', head: true });
-
-      // Get contracts count
-      const { count: contractsCount, error: contractsError } = await supabase
-        .from('contracts')
-        .select('*', { count: 'exact', head: true });
-
-      // Get data types count (as proxy for data elements)
-      const { count: dataTypesCount, error: dataTypesError } = await supabase
-        .from('data_types')
-        .select('*', { count: 'exact', head: true });
-
-      // Get consents count (as proxy for privacy statements)
-      const { count: consentsCount, error: consentsError } = await supabase
-        .from('user_provider_consents')
-        .select('*', { count: 'exact', head: true });
-
-      if (providersError || contractsError || dataTypesError || consentsError) {
-        throw new Error('Error fetching dashboard counts');
-      }
-
-      return {
-        companies: companiesCount || 0,
-        contracts: contractsCount || 0,
-        dataElements: dataTypesCount || 0,
-        privacyStatements: consentsCount || 0,
-      };
-    } catch (error) {
-      console.error('Error in getDashboardCounts:', error);
-      throw error;
-    }
+    return cached(queryKeys.dashboardCounts, 'getDashboardCounts', () => dashboardRepository.getCounts(), demoData.getDashboardCounts);
   },
 
   async getProviders() {
-    try {
-      // Get current user to filter providers properly
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-      
-      // Get all providers
-      const { data: allProviders, error: providersError } = await supabase
-        .from('providers')
-        .select(`
-          *,
-          provider_data_types(
-            data_type_id,
-            data_types(name)
-          )
-        `);
-
-      if (providersError) throw providersError;
-      
-      // Get user consents for these providers
-      const { data: userConsents, error: consentsError } = await supabase
-        .from('user_provider_consents')
-        .select('*')
-        .eq('user_id', user.id);
-        
-      if (consentsError) throw consentsError;
-
-      // Format providers in the expected format for the app
-      return allProviders.map(provider => {
-        // Extract data types
-        const dataTypes = provider.provider_data_types
-          ?.filter(dt => dt.data_types?.name)
-          .map(dt => dt.data_types.name) || ['Medical Records'];
+    return cached(queryKeys.providers, 'getProviders', () => providerRepository.list(), demoData.getProviders);
+  },
 
-        // Find user consent for this provider
-        const userConsent = userConsents?.find(consent => 
-          consent.provider_id === provider.id
-        );
+  async addProvider(provider: NewProvider) {
+    assertNotDemo();
+    const created = await withLogging('addProvider', () => providerRepository.create(provider));
+    invalidate(queryKeys.providers, queryKeys.dashboardCounts);
+    return created;
+  },
 
-        return {
-          id: provider.id,
-          name: provider.name,
-          category: provider.category || 'Healthcare Provider',
-          status: provider.status || 'active',
-          dataTypes: dataTypes.length > 0 ? dataTypes : ['Medical Records'],
-          lastSync: provider.updated_at || new Date().toISOString(),
-          logo: provider.logo || '/elroi-logo.svg',
-          permissions: userConsent ? {
-            labResults: userConsent.lab_results || false,
-            medications: userConsent.medications || false,
-            fitnessData: userConsent.fitness_data || false
-          } : {
-            labResults: false,
-            medications: false,
-            fitnessData: false
-          }
-        };
-      }) || [];
-    } catch (error) {
-      console.error('Error in getProviders:', error);
-      throw error;
-    }
+  async removeProvider(providerId: string) {
+    assertNotDemo();
+    const removed = await withLogging('removeProvider', () => providerRepository.removeOwned(providerId));
+    invalidate(queryKeys.providers, queryKeys.dashboardCounts);
+    return removed;
   },
 
   async getContracts() {
-    try {
-      const { data, error } = await supabase
-        .from('contracts')
-        .select(`
-          *,
-          providers(*)
-        `);
-
-      if (error) throw error;
-
-      return data?.map(contract => ({
-        id: contract.id,
-        title: contract.title,
-        description: contract.description || '',
-        status: contract.status,
-        companyId: contract.provider_id,
-        company: contract.providers ? {
-          id: contract.providers.id,
-          name: contract.providers.name,
-          logo: contract.providers.logo
-        } : undefined,
-        createdAt: contract.created_at,
-        updatedAt: contract.updated_at
-      })) || [];
-    } catch (error) {
-      console.error('Error in getContracts:', error);
-      throw error;
-    }
+    return cached(queryKeys.contracts, 'getContracts', () => contractRepository.list(), async () => []);
   },
-  
-  async getHealthRecords() {
-    try {
-      const { data, error } = await supabase
-        .from('health_records')
-        .select(`
-          *,
-          providers(*)
-        `);
 
-      if (error) throw error;
-
-      return data?.map(record => ({
-        id: record.id,
-        title: record.title,
-        content: record.content || '',
-        date: record.created_at,
-        type: record.type || 'medical',
-        provider: record.providers ? {
-          name: record.providers.name,
-          logo: record.providers.logo || '/elroi-logo.svg'
-        } : undefined
-      })) || [];
-    } catch (error) {
-      console.error('Error in getHealthRecords:', error);
-      throw error;
-    }
+  async getHealthRecords() {
+    return cached(queryKeys.healthRecords, 'getHealthRecords', () => healthRecordRepository.list(), demoData.getHealthRecords);
   },
 
   async getAppointments() {
-    try {
-      const { data, error } = await supabase
-        .from('appointments')
-        .select(`
-          *,
-          providers(*)
-        `);
-
-      if (error) throw error;
-
-      return data?.map(appointment => ({
-        id: appointment.id,
-        provider: appointment.providers ? {
-          name: appointment.providers.name,
-          logo: appointment.providers.logo || '/elroi-logo.svg'
-        } : { name: 'Unknown Provider', logo: '/elroi-logo.svg' },
-        date: appointment.date,
-        time: appointment.time,
-        type: appointment.type,
-        status: appointment.status,
-        details: appointment.details
-      })) || [];
-    } catch (error) {
-      console.error('Error in getAppointments:', error);
-      throw error;
-    }
+    return cached(queryKeys.appointments, 'getAppointments', () => appointmentRepository.list(), demoData.getAppointments);
   },
 
-  async bookAppointment(appointmentData: any) {
-    try {
-      const { error } = await supabase
-        .from('appointments')
-        .insert({
-          user_id: (await supabase.auth.getUser()).data.user?.id,
-          provider_id: appointmentData.providerId,
-          type: appointmentData.type,
-          date: appointmentData.date,
-          time: appointmentData.time,
-          status: 'pending',
-          details: appointmentData.details || {}
-        });
-
-      if (error) throw error;
-      return true;
-    } catch (error) {
-      console.error('Error in bookAppointment:', error);
-      throw error;
-    }
+  // Queued in the outbox when offline
+  async bookAppointment(appointment: NewAppointment) {
+    assertNotDemo();
+    const queued = { ...appointment, id: appointment.id ?? crypto.randomUUID() };
+
+    return outbox.run(
+      { kind: 'bookAppointment', appointment: queued },
+      async () => {
+        const booked = await withLogging('bookAppointment', () => appointmentRepository.create(queued));
+        invalidate(queryKeys.appointments);
+        return booked;
+      },
+      () => {
+        const pending = toPendingAppointment(queued);
+        queryCache.setData<Appointment[]>(queryKeys.appointments, current => [...(current ?? []), pending]);
+        return pending;
+      }
+    );
   },
 
   async getHealthMetrics() {
-    try {
-      const { data, error } = await supabase
-        .from('health_metrics')
-        .select('*')
-        .order('recorded_at', { ascending: false });
-
-      if (error) throw error;
-
-      return data?.map(metric => ({
-        id: metric.id,
-        type: metric.metric_type,
-        value: metric.value,
-        unit: metric.unit,
-        date: metric.recorded_at,
-        source: metric.source
-      })) || [];
-    } catch (error) {
-      console.error('Error in getHealthMetrics:', error);
-      throw error;
-    }
+    return cached(queryKeys.healthMetrics, 'getHealthMetrics', () => healthMetricRepository.list(), demoData.getHealthMetrics);
   },
 
-  async addHealthMetric(metricData: any) {
-    try {
-      const { error } = await supabase
-        .from('health_metrics')
-        .insert({
-          user_id: (await supabase.auth.getUser()).data.user?.id,
-          metric_type: metricData.type,
-          value: metricData.value.toString(),
-          unit: metricData.unit,
-          source: metricData.source || 'manual entry'
-        });
-
-      if (error) throw error;
-      return true;
-    } catch (error) {
-      console.error('Error in addHealthMetric:', error);
-      throw error;
-    }
+  // Queued in the outbox when offline
+  async addHealthMetric(metric: NewHealthMetric) {
+    assertNotDemo();
+    const queued = { ...metric, id: metric.id ?? crypto.randomUUID() };
+
+    return outbox.run(
+      { kind: 'addHealthMetric', metric: queued },
+      async () => {
+        const added = await withLogging('addHealthMetric', () => healthMetricRepository.create(queued));
+        invalidate(queryKeys.healthMetrics);
+        return added;
+      },
+      () => {
+        const pending = toPendingHealthMetric(queued);
+        queryCache.setData<HealthMetric[]>(queryKeys.healthMetrics, current => [pending, ...(current ?? [])]);
+        return pending;
+      }
+    );
   },
 
   async getUserSettings() {
-    try {
-      const { data, error } = await supabase
-        .from('user_settings')
-        .select('*')
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
-
-      // If no settings found, return defaults
-      if (!data) {
-        return {
-          emailNotifications: true,
-          smsNotifications: false,
-          pushNotifications: true,
-        };
-      }
-
-      return {
-        emailNotifications: data.email_notifications,
-        smsNotifications: data.sms_notifications,
-        pushNotifications: data.push_notifications,
-      };
-    } catch (error) {
-      console.error('Error in getUserSettings:', error);
-      throw error;
-    }
+    return cached(queryKeys.userSettings, 'getUserSettings', () => settingsRepository.get(), demoData.getUserSettings);
   },
 
-  async updateUserSettings(settings: any) {
-    try {
-      const { data: existingSettings } = await supabase
-        .from('user_settings')
-        .select('*')
-        .single();
-
-      // If settings exist, update them
-      if (existingSettings) {
-        const { error } = await supabase
-          .from('user_settings')
-          .update({
-            email_notifications: settings.emailNotifications,
-            sms_notifications: settings.smsNotifications,
-            push_notifications: settings.pushNotifications,
-            updated_at: new Date().toISOString()
-          })
-          .eq('user_id', (await supabase.auth.getUser()).data.user?.id);
-
-        if (error) throw error;
-      } 
-      // Otherwise, insert new settings
-      else {
-        const { error } = await supabase
-          .from('user_settings')
-          .insert({
-            user_id: (await supabase.auth.getUser()).data.user?.id,
-            email_notifications: settings.emailNotifications,
-            sms_notifications: settings.smsNotifications,
-            push_notifications: settings.pushNotifications
-          });
+  async updateUserSettings(settings: UserSettings) {
+    assertNotDemo();
+    const saved = await withLogging('updateUserSettings', () => settingsRepository.save(settings));
+    queryCache.setData(queryKeys.userSettings, saved);
+    return saved;
+  }
+};
+
+// Replays of writes queued offline. Inserts carry their client id, so a write
+// that already went through is recognised rather than duplicated.
+outbox.register('bookAppointment', async ({ appointment }) => {
+  const existing = await appointmentRepository.findInSlot(appointment.providerId, appointment.date, appointment.time);
+  if (existing?.id === appointment.id) return;
+  if (existing) {
+    throw new OutboxConflictError('You already have an appointment with this provider at that time');
+  }
 
-        if (error) throw error;
-      }
+  await ignoreDuplicate(appointmentRepository.create(appointment));
+  invalidate(queryKeys.appointments);
+});
 
-      return settings;
-    } catch (error) {
-      console.error('Error in updateUserSettings:', error);
-      throw error;
-    }
-  }
-};
\ No newline at end of file
+outbox.register('addHealthMetric', async ({ metric }) => {
+  await ignoreDuplicate(healthMetricRepository.create(metric));
+  invalidate(queryKeys.healthMetrics);
+});
@@ -12,15 +12,48 @@ export interface User {
   isEmailVerified: boolean;
   phone?: string;
   twoFactorEnabled?: boolean;
+  updatedAt?: string;
 }
 
-// Password validation
+// Password validation; the character classes count as met when the policy
+// does not require them
 export interface PasswordRequirements {
   minLength: boolean;
   hasUpperCase: boolean;
   hasLowerCase: boolean;
   hasNumber: boolean;
   hasSpecialChar: boolean;
+  // Not one of the policy's banned words, however it is dressed up
+  notBanned: boolean;
+  // Does not contain the user's name or email address
+  notPersonal: boolean;
+  // The strength estimate reaches the policy's minimum score
+  hardToGuess: boolean;
+}
+
+// How guessable a password is, on zxcvbn's scale: 0 is too guessable, 4 is
+// very unguessable
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  guessesLog10: number;
+  // Why the password is weak, when it is
+  warning: string;
+  suggestions: string[];
+}
+
+// checking: the breached password ranges are being looked up
+// breached: the password is in them
+// clear: it is not, or breaches are not checked
+// unknown: the ranges could not be loaded
+export type BreachStatus = 'checking' | 'breached' | 'clear' | 'unknown';
+
+// Everything known about a password being typed, for the strength indicator
+export interface PasswordCheck {
+  requirements: PasswordRequirements;
+  strength: PasswordStrength;
+  breach: BreachStatus;
+  // The first reason to refuse the password, or null when it can be used
+  problem: string | null;
 }
 
 // Error types
@@ -53,9 +86,9 @@ export interface ResetPasswordCredentials {
   password: string;
 }
 
-export interface TwoFactorVerifyCredentials {
-  verification_code: string;
-}
+// Which system accepted the password reset code: Supabase Auth, or the legacy
+// API for accounts it still holds the password of
+export type RecoveryMethod = 'supabase' | 'legacy';
 
 export interface UpdateProfileCredentials {
   name?: string;
@@ -77,4 +110,6 @@ export interface NotificationSettings {
 export interface AuthResponse {
   user: User;
   token: string;
+  // Exchanged for a new token when the current one expires
+  refreshToken?: string;
 }
\ No newline at end of file
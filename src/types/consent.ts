@@ -0,0 +1,126 @@
+// What a provider may use shared data for
+export type ConsentPurpose = 'treatment' | 'payment' | 'research' | 'marketing';
+
+// A single data type a provider declares and whether the user shares it
+export interface ConsentGrant {
+  dataTypeId: string;
+  name: string;
+  description?: string;
+  granted: boolean;
+  purposes: ConsentPurpose[];
+}
+
+// Consent state for one provider, one grant per declared data type
+export interface ProviderConsent {
+  providerId: string;
+  approved: boolean;
+  grants: ConsentGrant[];
+  updatedAt?: string;
+}
+
+// How long a consent stays valid once granted
+export type ConsentDuration =
+  | { kind: 'open' }
+  | { kind: 'days'; days: number }
+  | { kind: 'months'; months: number }
+  | { kind: 'until'; date: string };
+
+// Validity window of a provider consent, from user_provider_consents
+export interface ConsentTerm {
+  providerId: string;
+  approved: boolean;
+  startDate: string | null;
+  endDate: string | null;
+  expired: boolean;
+}
+
+// Consent that has expired or will expire soon, for renewal prompts
+export interface ExpiringConsent extends ConsentTerm {
+  providerName: string;
+  providerLogo: string;
+  endDate: string;
+}
+
+// Grant changes keyed by data type id; an empty purpose list revokes the grant
+export type ConsentChanges = Record<string, ConsentPurpose[]>;
+
+// Change applied to several providers at once
+export type BulkConsentAction =
+  | { kind: 'revoke' }
+  | { kind: 'grant'; dataTypeId: string; purposes: ConsentPurpose[] }
+  | { kind: 'disconnect' };
+
+// Outcome of a bulk consent change for one provider
+export interface BulkConsentResult {
+  providerId: string;
+  succeeded: boolean;
+  error: string | null;
+}
+
+// Data type granted at the time of a consent event
+export interface ConsentScope {
+  dataTypeId: string;
+  name: string;
+  purposes?: ConsentPurpose[];
+}
+
+export type ConsentEventType = 'grant' | 'revoke' | 'modify' | 'disconnect';
+
+// Entry in the append-only consent ledger
+export interface ConsentEvent {
+  id: string;
+  providerId: string | null;
+  actorId: string;
+  type: ConsentEventType;
+  scopesBefore: ConsentScope[];
+  scopesAfter: ConsentScope[];
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export type ConsentReceiptStatus = 'active' | 'expired' | 'withdrawn';
+
+// Purpose entry of a consent receipt service (Kantara CR v1.1)
+export interface ConsentReceiptPurpose {
+  purpose: string;
+  purposeCategory: string[];
+  consentType: 'EXPLICIT';
+  piiCategory: string[];
+  primaryPurpose: boolean;
+  termination: string;
+  thirdPartyDisclosure: boolean;
+}
+
+// Machine-readable consent receipt following the Kantara Consent Receipt
+// structure, with ISO/IEC 27560 status and validity fields
+export interface ConsentReceipt {
+  version: 'KI-CR-v1.1.0';
+  jurisdiction: string;
+  consentTimestamp: number;
+  collectionMethod: string;
+  consentReceiptID: string;
+  language: string;
+  piiPrincipalId: string;
+  piiControllers: {
+    piiController: string;
+    onBehalf: boolean;
+    contact: string;
+    email?: string;
+  }[];
+  policyUrl: string;
+  services: {
+    service: string;
+    purposes: ConsentReceiptPurpose[];
+  }[];
+  sensitive: boolean;
+  spiCat: string[];
+  consentStatus: ConsentReceiptStatus;
+  validFrom: string | null;
+  validUntil: string | null;
+  issuedAt: string;
+  // The caregiver who generated the receipt for the user they act for
+  actor?: {
+    id: string;
+    email?: string;
+  };
+}
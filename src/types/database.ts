@@ -0,0 +1,727 @@
+// Generated from supabase/migrations with `npm run types:db`. Do not edit by hand;
+// add a migration and regenerate instead.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      appointments: {
+        Row: {
+          created_at: string | null
+          date: string
+          details: Json | null
+          id: string
+          provider_id: string | null
+          status: string | null
+          time: string | null
+          type: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          date: string
+          details?: Json | null
+          id?: string
+          provider_id?: string | null
+          status?: string | null
+          time?: string | null
+          type: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          date?: string
+          details?: Json | null
+          id?: string
+          provider_id?: string | null
+          status?: string | null
+          time?: string | null
+          type?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointments_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      caregiver_delegations: {
+        Row: {
+          accepted_at: string | null
+          caregiver_email: string
+          caregiver_id: string | null
+          created_at: string
+          id: string
+          owner_name: string
+          roles: string[]
+          status: string
+          user_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          caregiver_email: string
+          caregiver_id?: string | null
+          created_at?: string
+          id?: string
+          owner_name: string
+          roles: string[]
+          status?: string
+          user_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          caregiver_email?: string
+          caregiver_id?: string | null
+          created_at?: string
+          id?: string
+          owner_name?: string
+          roles?: string[]
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      consent_events: {
+        Row: {
+          actor_id: string
+          created_at: string
+          event_type: string
+          expires_at: string | null
+          id: string
+          provider_id: string | null
+          scopes_after: Json
+          scopes_before: Json
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string
+          created_at?: string
+          event_type: string
+          expires_at?: string | null
+          id?: string
+          provider_id?: string | null
+          scopes_after?: Json
+          scopes_before?: Json
+          user_id: string
+        }
+        Update: {
+          actor_id?: string
+          created_at?: string
+          event_type?: string
+          expires_at?: string | null
+          id?: string
+          provider_id?: string | null
+          scopes_after?: Json
+          scopes_before?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consent_events_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contracts: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          end_date: string | null
+          id: string
+          provider_id: string | null
+          start_date: string | null
+          status: string | null
+          title: string
+          type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          provider_id?: string | null
+          start_date?: string | null
+          status?: string | null
+          title: string
+          type?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          provider_id?: string | null
+          start_date?: string | null
+          status?: string | null
+          title?: string
+          type?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contracts_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_types: {
+        Row: {
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      feature_flag_overrides: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          flag: string
+          id: string
+          tenant: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          enabled: boolean
+          flag: string
+          id?: string
+          tenant?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          flag?: string
+          id?: string
+          tenant?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      health_metrics: {
+        Row: {
+          created_at: string | null
+          id: string
+          metric_type: string
+          recorded_at: string | null
+          source: string | null
+          unit: string | null
+          updated_at: string | null
+          user_id: string | null
+          value: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          metric_type: string
+          recorded_at?: string | null
+          source?: string | null
+          unit?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+          value: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          metric_type?: string
+          recorded_at?: string | null
+          source?: string | null
+          unit?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+          value?: string
+        }
+        Relationships: []
+      }
+      health_records: {
+        Row: {
+          content: string | null
+          created_at: string | null
+          id: string
+          provider_id: string | null
+          title: string
+          type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          content?: string | null
+          created_at?: string | null
+          id?: string
+          provider_id?: string | null
+          title: string
+          type?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          content?: string | null
+          created_at?: string | null
+          id?: string
+          provider_id?: string | null
+          title?: string
+          type?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "health_records_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      passkeys: {
+        Row: {
+          created_at: string
+          credential_id: string
+          id: string
+          last_used_at: string | null
+          name: string
+          public_key: string
+          sign_count: number
+          transports: string[]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          credential_id: string
+          id?: string
+          last_used_at?: string | null
+          name: string
+          public_key: string
+          sign_count?: number
+          transports?: string[]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          credential_id?: string
+          id?: string
+          last_used_at?: string | null
+          name?: string
+          public_key?: string
+          sign_count?: number
+          transports?: string[]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          full_name: string | null
+          id: string
+          phone: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      provider_data_types: {
+        Row: {
+          data_type_id: string
+          provider_id: string
+        }
+        Insert: {
+          data_type_id: string
+          provider_id: string
+        }
+        Update: {
+          data_type_id?: string
+          provider_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_data_types_data_type_id_fkey"
+            columns: ["data_type_id"]
+            isOneToOne: false
+            referencedRelation: "data_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "provider_data_types_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      providers: {
+        Row: {
+          category: string | null
+          created_at: string | null
+          id: string
+          logo: string | null
+          name: string
+          status: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          logo?: string | null
+          name: string
+          status?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          logo?: string | null
+          name?: string
+          status?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      user_consent_grants: {
+        Row: {
+          created_at: string | null
+          data_type_id: string
+          granted: boolean
+          provider_id: string
+          purposes: string[]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          data_type_id: string
+          granted?: boolean
+          provider_id: string
+          purposes?: string[]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          data_type_id?: string
+          granted?: boolean
+          provider_id?: string
+          purposes?: string[]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_consent_grants_data_type_id_fkey"
+            columns: ["data_type_id"]
+            isOneToOne: false
+            referencedRelation: "data_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_consent_grants_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_provider_consents: {
+        Row: {
+          approved: boolean | null
+          created_at: string | null
+          end_date: string | null
+          fitness_data: boolean | null
+          lab_results: boolean | null
+          medications: boolean | null
+          provider_id: string
+          start_date: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          approved?: boolean | null
+          created_at?: string | null
+          end_date?: string | null
+          fitness_data?: boolean | null
+          lab_results?: boolean | null
+          medications?: boolean | null
+          provider_id: string
+          start_date?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          approved?: boolean | null
+          created_at?: string | null
+          end_date?: string | null
+          fitness_data?: boolean | null
+          lab_results?: boolean | null
+          medications?: boolean | null
+          provider_id?: string
+          start_date?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_provider_consents_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          created_at: string | null
+          data_sharing: boolean | null
+          email_notifications: boolean | null
+          privacy_enabled: boolean | null
+          push_notifications: boolean | null
+          sms_notifications: boolean | null
+          theme: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          data_sharing?: boolean | null
+          email_notifications?: boolean | null
+          privacy_enabled?: boolean | null
+          push_notifications?: boolean | null
+          sms_notifications?: boolean | null
+          theme?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          data_sharing?: boolean | null
+          email_notifications?: boolean | null
+          privacy_enabled?: boolean | null
+          push_notifications?: boolean | null
+          sms_notifications?: boolean | null
+          theme?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_caregiver_invitation: {
+        Args: {
+          p_delegation_id: string
+        }
+        Returns: boolean
+      }
+      apply_consent_batch: {
+        Args: {
+          p_action: string
+          p_provider_ids: string[]
+          p_data_type_id?: string
+          p_purposes?: string[]
+          p_user_id?: string
+          p_changes?: Json
+          p_restart?: boolean
+          p_end_date?: string | null
+        }
+        Returns: {
+          provider_id: string
+          succeeded: boolean
+          error: string | null
+        }[]
+      }
+      consume_rate_limit: {
+        Args: {
+          p_action: string
+          p_identifier: string
+        }
+        Returns: number
+      }
+      consent_scopes: {
+        Args: {
+          p_user_id: string
+          p_provider_id: string
+        }
+        Returns: Json
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      has_consent_for_purpose: {
+        Args: {
+          p_user_id: string
+          p_provider_id: string
+          p_data_type_id: string
+          p_purpose: string
+        }
+        Returns: boolean
+      }
+      has_delegated_role: {
+        Args: {
+          p_user_id: string
+          p_roles: string[]
+        }
+        Returns: boolean
+      }
+      has_recent_step_up: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      has_required_aal: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_consent_active: {
+        Args: {
+          p_user_id: string
+          p_provider_id: string
+        }
+        Returns: boolean
+      }
+      list_my_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          created_at: string
+          last_active_at: string
+          user_agent: string | null
+          ip: string | null
+          aal: string | null
+          is_current: boolean
+        }[]
+      }
+      redeem_mfa_recovery_code: {
+        Args: {
+          p_code: string
+        }
+        Returns: boolean
+      }
+      revoke_my_session: {
+        Args: {
+          p_session_id: string
+        }
+        Returns: boolean
+      }
+      verify_my_password: {
+        Args: {
+          p_password: string
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
+
+export type Functions<FunctionName extends keyof PublicSchema["Functions"]> =
+  PublicSchema["Functions"][FunctionName]
@@ -0,0 +1,29 @@
+// What a caregiver may do for the user who invited them
+export type CaregiverRole = 'view_records' | 'manage_appointments' | 'manage_consent';
+
+// pending: invited but not accepted yet; active: the caregiver accepted
+export type DelegationStatus = 'pending' | 'active';
+
+// Access a user has given a caregiver, from caregiver_delegations. Both sides
+// see the same record: the user under Caregivers, the caregiver under the
+// accounts they help with.
+export interface CaregiverDelegation {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  caregiverEmail: string;
+  // Set once the invitation is accepted
+  caregiverId: string | null;
+  roles: CaregiverRole[];
+  status: DelegationStatus;
+  createdAt: string;
+  acceptedAt: string | null;
+}
+
+// The account a caregiver is acting on behalf of
+export interface ActingAccount {
+  delegationId: string;
+  userId: string;
+  name: string;
+  roles: CaregiverRole[];
+}
@@ -1,3 +1,5 @@
+import type { ConsentGrant } from './consent';
+
 export interface User {
   id: string;
   name: string;
@@ -77,4 +79,184 @@ export interface NotificationSettings {
   contractNotifications: boolean;
   privacyNotifications: boolean;
   marketingNotifications: boolean;
-}
\ No newline at end of file
+}
+
+// Provider as shown across the app, with the user's consent to it
+export interface HealthProvider {
+  id: string;
+  name: string;
+  category: string;
+  status: 'active' | 'pending' | 'inactive';
+  dataTypes: string[];
+  lastSync: string;
+  logo: string;
+  permissions: ConsentGrant[];
+  consentEndDate: string | null;
+  consentExpired: boolean;
+}
+
+export interface NewProvider {
+  name: string;
+  category: string;
+  dataTypes: string[];
+}
+
+export type AppointmentStatus = 'pending' | 'confirmed' | 'cancelled';
+
+export interface AppointmentDetails {
+  doctorName?: string;
+  specialty?: string;
+  location?: string;
+  address?: string;
+  status?: AppointmentStatus;
+}
+
+export interface Appointment {
+  id: string;
+  providerId: string | null;
+  provider: {
+    name: string;
+    logo: string;
+  };
+  date: string;
+  time?: string;
+  type: string;
+  status: AppointmentStatus;
+  details?: AppointmentDetails;
+}
+
+export interface NewAppointment {
+  // Set by the client when the booking is queued offline, so a replay that
+  // already went through is recognised
+  id?: string;
+  providerId: string;
+  type: string;
+  date: string;
+  time?: string;
+  details?: AppointmentDetails;
+}
+
+export interface HealthMetric {
+  id: string;
+  type: string;
+  value: string;
+  unit?: string;
+  date: string;
+  source?: string;
+}
+
+export interface NewHealthMetric {
+  // Set by the client when the metric is queued offline
+  id?: string;
+  type: string;
+  value: string | number;
+  unit?: string;
+  source?: string;
+}
+
+export interface HealthRecord {
+  id: string;
+  title: string;
+  content: string;
+  date: string;
+  type: string;
+  provider?: {
+    name: string;
+    logo: string;
+  };
+}
+
+export type VitalSignStatus = 'Normal' | 'Borderline' | 'High';
+
+export interface VitalSign {
+  name: string;
+  value: string;
+  status: VitalSignStatus;
+  range?: string;
+  date: string;
+}
+
+export interface HealthDocument {
+  name: string;
+  date: string;
+  // Unknown for documents listed from the legacy API
+  size?: string;
+}
+
+export interface HealthCondition {
+  name: string;
+  status: 'Active' | 'Borderline' | 'Resolved';
+}
+
+export interface HealthNextStep {
+  title: string;
+  description: string;
+  action: string;
+}
+
+// Everything the health records overview shows. Only the demo fixtures have
+// a score and the derived insights; nothing is estimated from partial data.
+export interface HealthSummary {
+  record: HealthRecord;
+  score: number | null;
+  helping: string[];
+  needsAttention: string[];
+  notes: { title: string; text: string }[];
+  conditions: HealthCondition[];
+  vitals: VitalSign[];
+  documents: HealthDocument[];
+  nextSteps: HealthNextStep[];
+}
+
+export interface DataElementEntry {
+  id: string;
+  name: string;
+  description: string;
+  status: 'active' | 'inactive';
+  lastUpdated: string;
+}
+
+// Data elements grouped the way the Data Elements page shows them
+export interface DataElementCategory {
+  id: string;
+  name: string;
+  description: string;
+  sections: {
+    id: string;
+    title: string;
+    elements: DataElementEntry[];
+  }[];
+}
+
+export type NotificationKind = 'appointment' | 'message' | 'medical' | 'medication' | 'activity' | 'default';
+
+export interface NotificationItem {
+  id: string;
+  message: string;
+  link?: string;
+  linkText?: string;
+  kind: NotificationKind;
+  createdAt: string;
+}
+
+export type HealthInsightKind = 'sleep' | 'steps' | 'calories' | 'water' | 'mindfulness' | 'journal';
+
+// A health insight widget shown next to the notifications
+export interface HealthInsight {
+  id: string;
+  title: string;
+  value: string;
+  trend: 'up' | 'down';
+  period: string;
+  added?: boolean;
+  kind: HealthInsightKind;
+}
+
+// Notification preferences stored in user_settings
+export interface UserSettings {
+  emailNotifications: boolean;
+  smsNotifications: boolean;
+  pushNotifications: boolean;
+  // Unset until the user first saves their settings
+  updatedAt?: string;
+}
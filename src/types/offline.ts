@@ -0,0 +1,24 @@
+import type { NewAppointment, NewHealthMetric } from './index';
+import type { ConsentChanges, ConsentDuration } from './consent';
+
+// Writes that can be queued while offline and replayed later
+export type OutboxOperation =
+  | { kind: 'updateGrants'; providerId: string; changes: ConsentChanges; duration?: ConsentDuration }
+  | { kind: 'addHealthMetric'; metric: NewHealthMetric }
+  | { kind: 'bookAppointment'; appointment: NewAppointment };
+
+export type OutboxOperationKind = OutboxOperation['kind'];
+
+// pending: waiting to replay; conflict: the data changed elsewhere since the
+// write was queued; failed: the server rejected it
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  operation: OutboxOperation;
+  // Used for conflict detection: server changes after this win
+  createdAt: string;
+  status: OutboxStatus;
+  error: string | null;
+}
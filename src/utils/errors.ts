@@ -0,0 +1,3 @@
+// An error's own message for the user, or the fallback when it has none
+export const getErrorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error ? err.message : fallback;
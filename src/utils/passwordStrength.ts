@@ -0,0 +1,281 @@
+import type { PasswordStrength } from '../types/auth';
+
+// A small take on zxcvbn: the password is split into the pieces an attacker
+// would guess together (common passwords, words from the user's details,
+// sequences, repeats, keyboard rows, years), the cheapest split gives the
+// number of guesses, and the guesses give a score from 0 to 4.
+
+// Most used passwords and the words in them, most common first; a word's
+// rank is how many guesses it takes to reach it working down the list
+const COMMON_PASSWORDS = [
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567', 'dragon',
+  '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', 'shadow', 'master', '696969', 'mustang',
+  '666666', 'qwertyuiop', '123321', '1234567890', 'michael', 'superman', 'iloveyou', '000000', 'trustno1', 'sunshine',
+  'princess', 'welcome', 'admin', 'login', 'starwars', 'charlie', 'donald', 'qazwsx', 'freedom', 'whatever',
+  'jordan', 'jennifer', 'hunter', 'buster', 'soccer', 'harley', 'batman', 'andrew', 'tigger', 'hockey',
+  'ranger', 'daniel', 'hannah', 'maggie', 'jessica', 'pepper', 'killer', 'summer', 'winter', 'spring',
+  'autumn', 'flower', 'cheese', 'computer', 'internet', 'secret', 'hello', 'love', 'lovely', 'angel',
+  'family', 'friends', 'america', 'liberty', 'eagle', 'patriot', 'army', 'navy', 'marine', 'soldier',
+  'service', 'doctor', 'nurse', 'health', 'medical', 'change', 'changeme', 'default', 'guest', 'user',
+  'test', 'access', 'money', 'orange', 'purple', 'yellow', 'silver', 'golden', 'diamond', 'thomas',
+  'robert', 'william', 'david', 'richard', 'joseph', 'james', 'george', 'matthew', 'ashley', 'nicole',
+  '1q2w3e4r', '1qaz2wsx', 'zaq12wsx', 'asdfgh', 'zxcvbn', 'passw0rd', 'abcdef', 'abcd1234', 'qwe123', 'aa123456'
+];
+
+const KEYBOARD_ROWS = ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'];
+
+// Digits and symbols people use for look-alike letters
+const LEET: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '1': 'i', '!': 'i',
+  '|': 'l', '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z'
+};
+
+// zxcvbn's values: guesses for each character nothing else explains, the
+// least a piece can count for, and the guesses at each score boundary
+const BRUTEFORCE_CARDINALITY = 10;
+const MIN_SINGLE_GUESSES = 10;
+const MIN_GUESSES = 50;
+const SCORE_THRESHOLDS = [1e3, 1e6, 1e8, 1e10];
+// Longer passwords are strong anyway; this bounds the work while typing
+const MAX_ESTIMATED_LENGTH = 64;
+
+type MatchKind = 'common' | 'personal' | 'sequence' | 'repeat' | 'keyboard' | 'year';
+
+interface Match {
+  // The piece is password.slice(start, end)
+  start: number;
+  end: number;
+  kind: MatchKind;
+  guesses: number;
+  capitalised?: boolean;
+  substituted?: boolean;
+}
+
+const binomial = (n: number, k: number) => {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return result;
+};
+
+// Capitalising the first letter or every letter barely helps; anything
+// else multiplies the guesses by the ways of placing the capitals
+const capitalisationVariations = (piece: string) => {
+  const upper = piece.replace(/[^A-Z]/g, '').length;
+  const lower = piece.replace(/[^a-z]/g, '').length;
+  if (upper === 0) return 1;
+  if (lower === 0 || /^[A-Z][^A-Z]+$/.test(piece) || /^[^A-Z]+[A-Z]$/.test(piece)) return 2;
+
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) variations += binomial(upper + lower, i);
+  return variations;
+};
+
+const unleet = (text: string) => Array.from(text, char => LEET[char] ?? char).join('');
+
+export interface EstimateOptions {
+  // Words an attacker would try first for this user, such as their name and
+  // email address
+  userInputs?: string[];
+  // Words the policy bans, guessed as the most common of all
+  bannedWords?: string[];
+}
+
+const rankedWords = ({ userInputs = [], bannedWords = [] }: EstimateOptions) => {
+  const ranks = new Map<string, { rank: number; kind: MatchKind }>();
+  COMMON_PASSWORDS.forEach((word, index) => ranks.set(word, { rank: index + 1, kind: 'common' }));
+  bannedWords.forEach(word => ranks.set(word.toLowerCase(), { rank: 1, kind: 'common' }));
+  userInputs
+    .map(input => input.toLowerCase())
+    .filter(input => input.length >= 3)
+    .forEach((input, index) => {
+      if (!ranks.has(input)) ranks.set(input, { rank: index + 1, kind: 'personal' });
+    });
+  return ranks;
+};
+
+const dictionaryMatches = (password: string, options: EstimateOptions): Match[] => {
+  const ranks = rankedWords(options);
+  const lower = password.toLowerCase();
+  const plain = unleet(lower);
+  const matches: Match[] = [];
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + 3; end <= password.length; end++) {
+      const asTyped = lower.slice(start, end);
+      const entry = ranks.get(asTyped) ?? ranks.get(plain.slice(start, end));
+      if (!entry) continue;
+
+      const piece = password.slice(start, end);
+      const substituted = !ranks.has(asTyped);
+      const substitutions = substituted ? Array.from(asTyped).filter(char => char in LEET).length : 0;
+      const variations = capitalisationVariations(piece);
+      matches.push({
+        start,
+        end,
+        kind: entry.kind,
+        guesses: entry.rank * variations * (substituted ? 2 ** substitutions : 1),
+        capitalised: variations > 1,
+        substituted
+      });
+    }
+  }
+  return matches;
+};
+
+// Runs like abc, 9876 or ZYX
+const sequenceMatches = (password: string): Match[] => {
+  const matches: Match[] = [];
+  let start = 0;
+  while (start < password.length - 2) {
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    let end = start + 1;
+    if (Math.abs(delta) === 1) {
+      while (end < password.length && password.charCodeAt(end) - password.charCodeAt(end - 1) === delta) end++;
+    }
+
+    if (end - start >= 3) {
+      const first = password[start];
+      const base = /[aAzZ019]/.test(first) ? 4 : /\d/.test(first) ? 10 : 26;
+      matches.push({ start, end, kind: 'sequence', guesses: base * (end - start) * (delta < 0 ? 2 : 1) });
+      start = end - 1;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+};
+
+// Runs along one row of the keyboard, either way, like qwerty or lkjh
+const keyboardMatches = (password: string): Match[] => {
+  const lower = password.toLowerCase();
+  const matches: Match[] = [];
+  for (const row of KEYBOARD_ROWS) {
+    for (const line of [row, Array.from(row).reverse().join('')]) {
+      let start = 0;
+      while (start < lower.length) {
+        let end = start;
+        const position = line.indexOf(lower[start]);
+        while (position >= 0 && end < lower.length && line[position + end - start] === lower[end]) end++;
+
+        if (end - start >= 4) {
+          matches.push({ start, end, kind: 'keyboard', guesses: line.length * (end - start) * 2 });
+          start = end;
+        } else {
+          start++;
+        }
+      }
+    }
+  }
+  return matches;
+};
+
+// The same character or chunk over again, like aaaa or abcabc
+const repeatMatches = (password: string, options: EstimateOptions): Match[] => {
+  const matches: Match[] = [];
+  for (const match of password.matchAll(/(.+?)\1+/g)) {
+    const [whole, unit] = match;
+    if (whole.length < 3) continue;
+    const unitGuesses = unit.length === 1 ? BRUTEFORCE_CARDINALITY : estimateGuesses(unit, options);
+    matches.push({
+      start: match.index!,
+      end: match.index! + whole.length,
+      kind: 'repeat',
+      guesses: unitGuesses * (whole.length / unit.length)
+    });
+  }
+  return matches;
+};
+
+// Years people pick: birthdays, anniversaries and the current year
+const yearMatches = (password: string): Match[] => {
+  const thisYear = new Date().getFullYear();
+  return Array.from(password.matchAll(/(?:19|20)\d\d/g), match => ({
+    start: match.index!,
+    end: match.index! + 4,
+    kind: 'year' as const,
+    guesses: Math.max(Math.abs(Number(match[0]) - thisYear), 20)
+  }));
+};
+
+// The cheapest way to cover the password with matches, paying the brute
+// force price for every character no match explains
+const cheapestSplit = (password: string, matches: Match[]) => {
+  const best: { guesses: number; match: Match | null }[] = [{ guesses: 1, match: null }];
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { guesses: best[end - 1].guesses * BRUTEFORCE_CARDINALITY, match: null };
+    for (const match of matches) {
+      if (match.end !== end) continue;
+      const floor = match.end - match.start === 1 ? MIN_SINGLE_GUESSES : MIN_GUESSES;
+      const guesses = best[match.start].guesses * Math.max(match.guesses, floor);
+      if (guesses < best[end].guesses) best[end] = { guesses, match };
+    }
+  }
+
+  const path: Match[] = [];
+  for (let end = password.length; end > 0;) {
+    const { match } = best[end];
+    if (match) {
+      path.unshift(match);
+      end = match.start;
+    } else {
+      end--;
+    }
+  }
+  return { guesses: best[password.length].guesses, path };
+};
+
+const findMatches = (password: string, options: EstimateOptions) => [
+  ...dictionaryMatches(password, options),
+  ...sequenceMatches(password),
+  ...keyboardMatches(password),
+  ...repeatMatches(password, options),
+  ...yearMatches(password)
+];
+
+function estimateGuesses(password: string, options: EstimateOptions): number {
+  return cheapestSplit(password, findMatches(password, options)).guesses;
+}
+
+const WARNINGS: Record<MatchKind, string> = {
+  personal: 'Passwords made from your name or email address are easy to guess',
+  common: 'This is similar to a commonly used password',
+  keyboard: 'Straight rows of keys are easy to guess',
+  repeat: 'Repeated characters like "aaa" or "abcabc" are easy to guess',
+  sequence: 'Sequences like "abc" or "6543" are easy to guess',
+  year: 'Recent years are easy to guess'
+};
+
+// The order the warnings are worth giving in
+const WARNING_ORDER: MatchKind[] = ['personal', 'common', 'keyboard', 'repeat', 'sequence', 'year'];
+
+const feedback = (password: string, path: Match[], score: number) => {
+  if (score >= 3) return { warning: '', suggestions: [] };
+
+  const kinds = new Set(path.map(match => match.kind));
+  const warningKind = WARNING_ORDER.find(kind => kinds.has(kind));
+  const whole = path.length === 1 && path[0].start === 0 && path[0].end === password.length;
+
+  const suggestions = ['Add another word or two. Uncommon words are better.'];
+  if (path.some(match => match.capitalised)) suggestions.push("Capitalisation doesn't help very much.");
+  if (path.some(match => match.substituted)) {
+    suggestions.push("Predictable substitutions like '@' instead of 'a' don't help very much.");
+  }
+  if (kinds.has('year')) suggestions.push('Avoid years that are associated with you.');
+
+  return {
+    warning: warningKind === 'common' && whole ? 'This is a commonly used password' : warningKind ? WARNINGS[warningKind] : '',
+    suggestions
+  };
+};
+
+export const estimatePasswordStrength = (password: string, options: EstimateOptions = {}): PasswordStrength => {
+  const estimated = password.slice(0, MAX_ESTIMATED_LENGTH);
+  const { guesses, path } = cheapestSplit(estimated, findMatches(estimated, options));
+  const score = SCORE_THRESHOLDS.filter(threshold => guesses >= threshold).length as PasswordStrength['score'];
+
+  return {
+    score,
+    guessesLog10: Math.log10(guesses),
+    ...feedback(estimated, path, score)
+  };
+};
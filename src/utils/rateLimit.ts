@@ -1,57 +1,187 @@
-interface RateLimitEntry {
-  count: number;
-  timestamp: number;
+export type RateLimitAction = 'login' | 'two_factor' | 'resend_verification' | 'password_reset' | 'reset_code';
+
+interface RateLimitPolicy {
+  // Attempts allowed within the window before a lockout
+  maxAttempts: number;
+  windowMs: number;
+  // The first lockout; each one after it doubles, up to maxLockoutMs
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+// Keep in step with rate_limit_policies in the firm_threshold migration,
+// which Supabase enforces whatever this browser remembers. Reset codes have
+// no auth hook, so only this browser counts them.
+const POLICIES: Record<RateLimitAction, RateLimitPolicy> = {
+  login: { maxAttempts: 5, windowMs: 15 * 60 * 1000, baseLockoutMs: 60 * 1000, maxLockoutMs: 60 * 60 * 1000 },
+  two_factor: { maxAttempts: 5, windowMs: 5 * 60 * 1000, baseLockoutMs: 5 * 60 * 1000, maxLockoutMs: 60 * 60 * 1000 },
+  resend_verification: { maxAttempts: 3, windowMs: 15 * 60 * 1000, baseLockoutMs: 5 * 60 * 1000, maxLockoutMs: 60 * 60 * 1000 },
+  password_reset: { maxAttempts: 3, windowMs: 15 * 60 * 1000, baseLockoutMs: 5 * 60 * 1000, maxLockoutMs: 60 * 60 * 1000 },
+  reset_code: { maxAttempts: 5, windowMs: 15 * 60 * 1000, baseLockoutMs: 5 * 60 * 1000, maxLockoutMs: 60 * 60 * 1000 }
+};
+
+export interface RateLimitEntry {
+  attempts: number;
+  // Epoch milliseconds
+  windowStart: number;
+  // Lockouts in a row, for the backoff
+  lockouts: number;
+  lockedUntil: number | null;
 }
 
-class RateLimit {
-  private limits: Map<string, RateLimitEntry>;
-  private readonly maxAttempts = 5;
-  private readonly timeWindow = 15 * 60 * 1000; // 15 minutes
+// Where attempts are kept between checks
+export interface RateLimitStore {
+  get(key: string): RateLimitEntry | null;
+  set(key: string, entry: RateLimitEntry): void;
+  delete(key: string): void;
+}
+
+export const memoryStore = (): RateLimitStore => {
+  const entries = new Map<string, RateLimitEntry>();
+  return {
+    get: key => entries.get(key) ?? null,
+    set: (key, entry) => {
+      entries.set(key, entry);
+    },
+    delete: key => {
+      entries.delete(key);
+    }
+  };
+};
 
-  constructor() {
-    this.limits = new Map();
+// Survives reloads, so a lockout cannot be skipped by refreshing the page
+export const localStorageStore = (prefix = 'elroi:rate-limit:'): RateLimitStore => ({
+  get: key => {
+    try {
+      const saved = localStorage.getItem(prefix + key);
+      return saved ? (JSON.parse(saved) as RateLimitEntry) : null;
+    } catch {
+      return null;
+    }
+  },
+  set: (key, entry) => {
+    localStorage.setItem(prefix + key, JSON.stringify(entry));
+  },
+  delete: key => {
+    localStorage.removeItem(prefix + key);
   }
+});
 
-  private getKey(action: string, identifier: string): string {
-    return `${action}:${identifier}`;
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+const describeWait = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? plural(seconds, 'second') : plural(Math.ceil(seconds / 60), 'minute');
+};
+
+// Thrown when an action is locked out; the message matches the one the
+// Supabase hooks give
+export class RateLimitError extends Error {
+  constructor(
+    public action: RateLimitAction,
+    public retryAfterMs: number
+  ) {
+    super(`Too many attempts. Try again in ${describeWait(retryAfterMs)}.`);
+    this.name = 'RateLimitError';
   }
+}
 
-  checkLimit(action: string, identifier: string): boolean {
-    const key = this.getKey(action, identifier);
-    const entry = this.limits.get(key);
+// Failures where the request got no answer: offline, timed out, aborted, or
+// a server error. They say nothing about the password or code.
+const UNANSWERED_NAMES = ['AuthRetryableFetchError', 'AbortError', 'AbortedError', 'NetworkError', 'TimeoutError'];
+const UNANSWERED_MESSAGE = /failed to fetch|fetch failed|networkerror|load failed|fetcherror|timed out/i;
 
-    if (!entry) {
-      return true;
-    }
+// Whether a failure was the password or code being refused, which is all
+// that counts against the limit
+export const isRejection = (error: unknown): boolean => {
+  if (error instanceof RateLimitError) return false;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return false;
+  if (!error || typeof error !== 'object') return true;
 
-    const now = Date.now();
-    if (now - entry.timestamp > this.timeWindow) {
-      this.limits.delete(key);
-      return true;
-    }
+  const { name, message, status, cause } = error as { name?: unknown; message?: unknown; status?: unknown; cause?: unknown };
+  if (typeof name === 'string' && UNANSWERED_NAMES.includes(name)) return false;
+  if (typeof status === 'number') return status >= 400 && status < 500 && status !== 429;
+  if (typeof message === 'string' && UNANSWERED_MESSAGE.test(message)) return false;
+  // Repositories wrap the Supabase error
+  return cause === undefined || isRejection(cause);
+};
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private policies: Record<RateLimitAction, RateLimitPolicy> = POLICIES,
+    private now: () => number = Date.now
+  ) {}
 
-    return entry.count < this.maxAttempts;
+  // Identifiers are email addresses or user ids; addresses match whatever
+  // their case
+  private getKey(action: RateLimitAction, identifier: string): string {
+    return `${action}:${identifier.trim().toLowerCase()}`;
   }
 
-  increment(action: string, identifier: string): void {
-    const key = this.getKey(action, identifier);
-    const entry = this.limits.get(key);
-    const now = Date.now();
+  // Milliseconds until the action may be tried again; 0 when it may now
+  retryAfter(action: RateLimitAction, identifier: string): number {
+    const lockedUntil = this.store.get(this.getKey(action, identifier))?.lockedUntil;
+    return lockedUntil ? Math.max(0, lockedUntil - this.now()) : 0;
+  }
 
-    if (!entry || now - entry.timestamp > this.timeWindow) {
-      this.limits.set(key, { count: 1, timestamp: now });
-    } else {
-      this.limits.set(key, {
-        count: entry.count + 1,
-        timestamp: entry.timestamp
-      });
+  assertAllowed(action: RateLimitAction, identifier: string): void {
+    const retryAfterMs = this.retryAfter(action, identifier);
+    if (retryAfterMs > 0) {
+      throw new RateLimitError(action, retryAfterMs);
     }
   }
 
-  reset(action: string, identifier: string): void {
+  // Count one attempt against the policy: a failed sign-in or code, or a sent
+  // email. Returns the milliseconds until the next attempt is allowed.
+  record(action: RateLimitAction, identifier: string): number {
+    const policy = this.policies[action];
     const key = this.getKey(action, identifier);
-    this.limits.delete(key);
+    const now = this.now();
+    const entry: RateLimitEntry = this.store.get(key) ?? { attempts: 0, windowStart: now, lockouts: 0, lockedUntil: null };
+
+    if (entry.lockedUntil && entry.lockedUntil > now) {
+      return entry.lockedUntil - now;
+    }
+
+    // A quiet spell as long as the longest lockout forgives earlier lockouts
+    if (entry.lockedUntil && now - entry.lockedUntil > policy.maxLockoutMs) {
+      entry.lockouts = 0;
+    }
+    if (now - entry.windowStart > policy.windowMs) {
+      entry.attempts = 0;
+      entry.windowStart = now;
+    }
+
+    entry.attempts += 1;
+    if (entry.attempts >= policy.maxAttempts) {
+      entry.lockedUntil = now + Math.min(policy.baseLockoutMs * 2 ** entry.lockouts, policy.maxLockoutMs);
+      entry.lockouts += 1;
+      entry.attempts = 0;
+      entry.windowStart = now;
+    }
+
+    this.store.set(key, entry);
+    return this.retryAfter(action, identifier);
+  }
+
+  reset(action: RateLimitAction, identifier: string): void {
+    this.store.delete(this.getKey(action, identifier));
+  }
+
+  // Run a sign-in or code check: refused while locked out, counted when the
+  // password or code is refused, and the count cleared once it succeeds
+  async attempt<T>(action: RateLimitAction, identifier: string, run: () => Promise<T>): Promise<T> {
+    this.assertAllowed(action, identifier);
+    try {
+      const result = await run();
+      this.reset(action, identifier);
+      return result;
+    } catch (err) {
+      if (isRejection(err)) this.record(action, identifier);
+      throw err;
+    }
   }
 }
 
-export const rateLimit = new RateLimit();
\ No newline at end of file
+export const rateLimit = new RateLimiter(typeof localStorage === 'undefined' ? memoryStore() : localStorageStore());
@@ -0,0 +1,37 @@
+// Helper to format relative time (e.g., "5 minutes ago")
+export const getRelativeTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffInMilliseconds = now.getTime() - date.getTime();
+  
+  // Convert to seconds
+  const diffInSeconds = Math.floor(diffInMilliseconds / 1000);
+  
+  if (diffInSeconds < 60) {
+    return 'Just now';
+  }
+  
+  // Convert to minutes
+  const diffInMinutes = Math.floor(diffInSeconds / 60);
+  
+  if (diffInMinutes < 60) {
+    return `${diffInMinutes} ${diffInMinutes === 1 ? 'minute' : 'minutes'} ago`;
+  }
+  
+  // Convert to hours
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  
+  if (diffInHours < 24) {
+    return `${diffInHours} ${diffInHours === 1 ? 'hour' : 'hours'} ago`;
+  }
+  
+  // Convert to days
+  const diffInDays = Math.floor(diffInHours / 24);
+  
+  if (diffInDays < 30) {
+    return `${diffInDays} ${diffInDays === 1 ? 'day' : 'days'} ago`;
+  }
+  
+  // For older dates, just return the formatted date
+  return date.toLocaleDateString();
+};
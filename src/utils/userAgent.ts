@@ -0,0 +1,43 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet';
+
+export interface DeviceDescription {
+  type: DeviceType;
+  browser: string;
+  os: string;
+}
+
+// Checked in order: Edge, Opera and Samsung Internet also call themselves
+// Chrome, and Chrome also calls itself Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+// iPads ask for desktop sites, so they only show up as tablets when they say so
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPod/, 'iOS'],
+  [/iPad/, 'iPadOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+// A rough description of the device behind a User-Agent header, for telling
+// sessions apart; unknown agents come back as an unknown browser on a desktop
+export const describeUserAgent = (userAgent: string | null | undefined): DeviceDescription => {
+  const agent = userAgent ?? '';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(agent))?.[1] ?? 'Unknown browser';
+  const os = SYSTEMS.find(([pattern]) => pattern.test(agent))?.[1] ?? 'an unknown device';
+
+  const type: DeviceType = /iPad|Tablet/.test(agent) || (/Android/.test(agent) && !/Mobile/.test(agent))
+    ? 'tablet'
+    : /Mobi|iPhone|iPod/.test(agent) ? 'mobile' : 'desktop';
+
+  return { type, browser, os };
+};
@@ -1,12 +1,46 @@
-import { PasswordRequirements } from '../types/auth';
+import { PASSWORD_POLICY, type PasswordPolicy } from '../config/passwordPolicy';
+import { estimatePasswordStrength } from './passwordStrength';
+import type { BreachStatus, PasswordRequirements, PasswordStrength } from '../types/auth';
+
+// Look-alike digits and symbols, undone before comparing with banned words
+const LOOK_ALIKES: Record<string, string> = { '4': 'a', '@': 'a', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't' };
+
+// Words from the user's name and email address worth refusing in their
+// password; short ones would match too much by chance
+export const personalWords = (...details: (string | undefined)[]): string[] =>
+  Array.from(new Set(
+    details
+      .flatMap(detail => (detail ?? '').toLowerCase().split('@')[0].split(/[^a-z]+/))
+      .filter(word => word.length >= 4)
+  ));
+
+// The password as typed and with look-alikes undone, without the digits and
+// symbols padding it, so Elroi2025! and P@ssw0rd1 compare as elroi and password
+const bareForms = (password: string) => {
+  const lower = password.toLowerCase();
+  const strip = (text: string) => text.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  const undo = (text: string) => Array.from(text, char => LOOK_ALIKES[char] ?? char).join('');
+  return [lower, strip(lower), undo(strip(lower)), strip(undo(lower))];
+};
+
+export const validatePassword = (
+  password: string,
+  personalInfo: string[] = [],
+  policy: PasswordPolicy = PASSWORD_POLICY
+): PasswordRequirements => {
+  const classes = !policy.requireCharacterClasses;
+  const forms = bareForms(password);
+  const strength = estimatePasswordStrength(password, { userInputs: personalInfo, bannedWords: policy.bannedWords });
 
-export const validatePassword = (password: string): PasswordRequirements => {
   return {
-    minLength: password.length >= 8,
-    hasUpperCase: /[A-Z]/.test(password),
-    hasLowerCase: /[a-z]/.test(password),
-    hasNumber: /[0-9]/.test(password),
-    hasSpecialChar: /[!@#$%^&*(),.?":{}|<>]/.test(password),
+    minLength: password.length >= policy.minLength,
+    hasUpperCase: classes || /[A-Z]/.test(password),
+    hasLowerCase: classes || /[a-z]/.test(password),
+    hasNumber: classes || /[0-9]/.test(password),
+    hasSpecialChar: classes || /[!@#$%^&*(),.?":{}|<>]/.test(password),
+    notBanned: !policy.bannedWords.some(word => forms.includes(word)),
+    notPersonal: !policy.rejectPersonalInfo || !personalInfo.some(word => forms.some(form => form.includes(word))),
+    hardToGuess: strength.score >= policy.minScore
   };
 };
 
@@ -21,4 +55,24 @@ export const sanitizeInput = (input: string): string => {
 
 export const isStrongPassword = (requirements: PasswordRequirements): boolean => {
   return Object.values(requirements).every(Boolean);
-};
\ No newline at end of file
+};
+
+// The first reason to refuse a password, worded for the form; a password
+// whose breach check could not run is not held up by it
+export const passwordProblem = (
+  requirements: PasswordRequirements,
+  strength: PasswordStrength,
+  breach: BreachStatus,
+  policy: PasswordPolicy = PASSWORD_POLICY
+): string | null => {
+  if (!requirements.minLength) return `Use at least ${policy.minLength} characters`;
+  if (!requirements.hasUpperCase || !requirements.hasLowerCase || !requirements.hasNumber || !requirements.hasSpecialChar) {
+    return 'Use upper and lower case letters, a number and a special character';
+  }
+  if (!requirements.notBanned) return 'That password is too common. Please choose another.';
+  if (!requirements.notPersonal) return "Don't use your name or email address in your password";
+  if (!requirements.hardToGuess) return `${strength.warning || 'That password is too easy to guess'}. ${strength.suggestions[0] ?? ''}`.trim();
+  if (breach === 'breached') return 'This password has appeared in a data breach. Please choose a different one.';
+  if (breach === 'checking') return 'Still checking your password against known data breaches. Try again in a moment.';
+  return null;
+};
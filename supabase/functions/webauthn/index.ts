@@ -0,0 +1,310 @@
+import { createClient, type User } from 'npm:@supabase/supabase-js@2';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON
+} from 'npm:@simplewebauthn/server@10';
+import { isoBase64URL } from 'npm:@simplewebauthn/server@10/helpers';
+
+// The WebAuthn relying party for passkeys: it issues challenges, checks
+// attestations and assertions, keeps the passkeys table and turns a passkey
+// sign-in into a Supabase session. src/mocks/supabase/webauthn.ts stands in
+// for it in the mock backend.
+//
+// Configure with WEBAUTHN_RP_ID (the site's host name), WEBAUTHN_ORIGINS
+// (comma separated origins the app is served from) and WEBAUTHN_RP_NAME.
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const TIMEOUT_MS = 60 * 1000;
+
+const RP_ID = Deno.env.get('WEBAUTHN_RP_ID') ?? 'localhost';
+const RP_NAME = Deno.env.get('WEBAUTHN_RP_NAME') ?? 'Elroi Health';
+const ORIGINS = (Deno.env.get('WEBAUTHN_ORIGINS') ?? 'http://localhost:5173')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+// COSE algorithms accepted: ES256 and RS256
+const ES256 = -7;
+const RS256 = -257;
+
+type Purpose = 'registration' | 'sign-in' | 'step-up';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// The service role bypasses RLS: passkeys and challenges are only written here
+const admin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Errors in the shape the client reads from a refused call
+const refuse = (message: string, status = 400) => json({ error: message }, status);
+
+const notSignedIn = () => refuse('You need to be signed in', 401);
+
+const bearerToken = (request: Request) =>
+  request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? null;
+
+// The signed-in caller, or null for the anon key when signing in
+const getCaller = async (request: Request): Promise<User | null> => {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  const { data, error } = await admin.auth.getUser(token);
+  return error ? null : data.user;
+};
+
+// The session a signed-in call comes from; getCaller has checked the token
+const callerSessionId = (request: Request): string | null => {
+  try {
+    return JSON.parse(isoBase64URL.toUTF8String(bearerToken(request)?.split('.')[1] ?? '')).session_id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// The browser's user handle is the user id as UTF-8 bytes
+const userHandle = (userId: string) => isoBase64URL.fromUTF8String(userId);
+
+const issueChallenge = async (challenge: string, purpose: Purpose, userId: string | null) => {
+  await admin.from('webauthn_challenges').delete().lt('expires_at', new Date().toISOString());
+
+  const { error } = await admin.from('webauthn_challenges').insert({
+    challenge,
+    purpose,
+    user_id: userId,
+    expires_at: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString()
+  });
+  if (error) throw error;
+};
+
+// Spend the challenge the client data answers, so it cannot be used twice;
+// returns it when it was issued for this purpose and user and has not expired
+const consumeChallenge = async (clientDataJSON: string, purpose: Purpose, userId: string | null) => {
+  let challenge: string;
+  try {
+    challenge = JSON.parse(isoBase64URL.toUTF8String(clientDataJSON)).challenge;
+  } catch {
+    return null;
+  }
+
+  const { data } = await admin
+    .from('webauthn_challenges')
+    .delete()
+    .eq('challenge', challenge)
+    .select()
+    .maybeSingle();
+
+  if (!data || data.purpose !== purpose || data.user_id !== userId || new Date(data.expires_at) <= new Date()) {
+    return null;
+  }
+  return challenge;
+};
+
+const ownPasskeys = async (userId: string) => {
+  const { data, error } = await admin
+    .from('passkeys')
+    .select('credential_id, transports')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return data.map(row => ({ id: row.credential_id, transports: row.transports }));
+};
+
+const registrationOptions = async (user: User | null) => {
+  if (!user) return notSignedIn();
+
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: RP_ID,
+    userID: new TextEncoder().encode(user.id),
+    userName: user.email ?? user.id,
+    userDisplayName: user.user_metadata?.name || user.email || user.id,
+    timeout: TIMEOUT_MS,
+    attestationType: 'none',
+    // Discoverable, so the passkey can sign in without typing an email
+    authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+    supportedAlgorithmIDs: [ES256, RS256],
+    excludeCredentials: await ownPasskeys(user.id)
+  });
+
+  await issueChallenge(options.challenge, 'registration', user.id);
+  return json(options);
+};
+
+const verifyRegistration = async (body: { credential?: RegistrationResponseJSON; name?: string }, user: User | null) => {
+  if (!user) return notSignedIn();
+  const { credential } = body;
+  if (!credential) return refuse('A credential is required');
+
+  const challenge = await consumeChallenge(credential.response.clientDataJSON, 'registration', user.id);
+  if (!challenge) return refuse('The passkey request has expired; please try again');
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response: { ...credential, clientExtensionResults: credential.clientExtensionResults ?? {} },
+      expectedChallenge: challenge,
+      expectedOrigin: ORIGINS,
+      expectedRPID: RP_ID,
+      requireUserVerification: true,
+      supportedAlgorithmIDs: [ES256, RS256]
+    });
+  } catch (error) {
+    return refuse(error instanceof Error ? error.message : 'The passkey could not be verified');
+  }
+  if (!verification.verified || !verification.registrationInfo) {
+    return refuse('The passkey could not be verified');
+  }
+
+  const { credentialID, credentialPublicKey, counter } = verification.registrationInfo;
+  const { data: passkey, error } = await admin
+    .from('passkeys')
+    .insert({
+      user_id: user.id,
+      credential_id: credentialID,
+      public_key: isoBase64URL.fromBuffer(credentialPublicKey),
+      sign_count: counter,
+      transports: credential.response.transports ?? [],
+      name: body.name?.trim() || 'Passkey'
+    })
+    .select('id, name, created_at, last_used_at')
+    .single();
+
+  if (error?.code === '23505') return refuse('This passkey is already registered');
+  if (error) throw error;
+  return json({ passkey });
+};
+
+const authenticationOptions = async (body: { purpose?: string }, user: User | null) => {
+  const stepUp = body.purpose === 'step-up';
+  if (stepUp && !user) return notSignedIn();
+
+  // Signing in leaves the choice of account to the authenticator
+  const options = await generateAuthenticationOptions({
+    rpID: RP_ID,
+    timeout: TIMEOUT_MS,
+    userVerification: 'required',
+    allowCredentials: stepUp ? await ownPasskeys(user!.id) : []
+  });
+
+  await issueChallenge(options.challenge, stepUp ? 'step-up' : 'sign-in', stepUp ? user!.id : null);
+  return json(options);
+};
+
+const verifyAuthentication = async (
+  body: { purpose?: string; credential?: AuthenticationResponseJSON },
+  user: User | null,
+  request: Request
+) => {
+  const { credential } = body;
+  if (!credential) return refuse('A credential is required');
+
+  const stepUp = body.purpose === 'step-up';
+  if (stepUp && !user) return notSignedIn();
+
+  const { data: passkey } = await admin
+    .from('passkeys')
+    .select('*')
+    .eq('credential_id', credential.id)
+    .maybeSingle();
+  if (!passkey) return refuse('This passkey is not registered');
+  if (stepUp && passkey.user_id !== user!.id) return refuse('This passkey belongs to another account');
+
+  const { response } = credential;
+  const challenge = await consumeChallenge(response.clientDataJSON, stepUp ? 'step-up' : 'sign-in', stepUp ? user!.id : null);
+  if (!challenge) return refuse('The passkey request has expired; please try again');
+  if (response.userHandle && response.userHandle !== userHandle(passkey.user_id)) {
+    return refuse('The passkey response does not match its account');
+  }
+
+  // Also refuses a counter that does not move forward, which suggests a
+  // cloned authenticator; synced passkeys always report zero
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response: { ...credential, clientExtensionResults: credential.clientExtensionResults ?? {} },
+      expectedChallenge: challenge,
+      expectedOrigin: ORIGINS,
+      expectedRPID: RP_ID,
+      requireUserVerification: true,
+      authenticator: {
+        credentialID: passkey.credential_id,
+        credentialPublicKey: isoBase64URL.toBuffer(passkey.public_key),
+        counter: Number(passkey.sign_count ?? 0),
+        transports: passkey.transports
+      }
+    });
+  } catch (error) {
+    return refuse(error instanceof Error ? error.message : 'The passkey signature is not valid');
+  }
+  if (!verification.verified) return refuse('The passkey signature is not valid');
+
+  const now = new Date().toISOString();
+  await admin
+    .from('passkeys')
+    .update({ sign_count: verification.authenticationInfo.newCounter, last_used_at: now })
+    .eq('id', passkey.id);
+
+  // Recorded for has_recent_step_up, so the database accepts the actions it
+  // guards from this session
+  if (stepUp) {
+    const sessionId = callerSessionId(request);
+    if (!sessionId) return notSignedIn();
+
+    const { error } = await admin
+      .from('step_up_verifications')
+      .upsert({ session_id: sessionId, user_id: user!.id, verified_at: now });
+    if (error) throw error;
+    return json({ verifiedAt: now });
+  }
+
+  // A one-time magic link token for the passkey's owner; the client exchanges
+  // its hash for a session with verifyOtp
+  const { data: owner } = await admin.auth.admin.getUserById(passkey.user_id);
+  if (!owner.user?.email) return refuse('This passkey is not registered');
+
+  const { data: link, error } = await admin.auth.admin.generateLink({ type: 'magiclink', email: owner.user.email });
+  if (error) throw error;
+  return json({ tokenHash: link.properties.hashed_token });
+};
+
+Deno.serve(async request => {
+  if (request.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (request.method !== 'POST') return refuse(`${request.method} is not supported`, 405);
+
+  try {
+    const user = await getCaller(request);
+    const body = await request.json().catch(() => ({}));
+
+    switch (body.action) {
+      case 'registration-options':
+        return await registrationOptions(user);
+      case 'registration-verify':
+        return await verifyRegistration(body, user);
+      case 'authentication-options':
+        return await authenticationOptions(body, user);
+      case 'authentication-verify':
+        return await verifyAuthentication(body, user, request);
+      default:
+        return refuse(`Unknown webauthn action: ${String(body.action)}`);
+    }
+  } catch (error) {
+    console.error('webauthn failed', error);
+    return refuse('The passkey service could not complete the request', 500);
+  }
+});
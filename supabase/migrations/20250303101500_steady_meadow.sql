@@ -0,0 +1,83 @@
+/*
+  # Create user_consent_grants table
+
+  1. New Tables:
+    - `user_consent_grants` - Stores per-data-type consent a user has given a provider
+      - `user_id` (uuid, foreign key)
+      - `provider_id` (uuid, foreign key)
+      - `data_type_id` (uuid, foreign key)
+      - `granted` (boolean)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+      - Primary key is (user_id, provider_id, data_type_id)
+
+  2. Data:
+    - Backfill grants from the `lab_results`, `medications` and `fitness_data`
+      columns of `user_provider_consents` (mapped to Lab Results, Prescriptions
+      and Fitness Metrics)
+
+  3. Security:
+    - Enable RLS on `user_consent_grants` table
+    - Create policies for viewing, inserting, updating and deleting grants
+
+  4. Notes:
+    - `user_provider_consents` keeps the per-provider `approved` flag; the three
+      boolean columns are no longer written by the app
+*/
+
+-- Create user_consent_grants table
+CREATE TABLE IF NOT EXISTS user_consent_grants (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider_id UUID REFERENCES providers(id) ON DELETE CASCADE,
+  data_type_id UUID REFERENCES data_types(id) ON DELETE CASCADE,
+  granted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, provider_id, data_type_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_consent_grants_provider_idx
+ON user_consent_grants (user_id, provider_id);
+
+-- Backfill from the legacy boolean columns
+INSERT INTO user_consent_grants (user_id, provider_id, data_type_id, granted)
+SELECT c.user_id, c.provider_id, dt.id, TRUE
+FROM user_provider_consents c
+JOIN data_types dt ON (
+  (dt.name = 'Lab Results' AND c.lab_results) OR
+  (dt.name = 'Prescriptions' AND c.medications) OR
+  (dt.name = 'Fitness Metrics' AND c.fitness_data)
+)
+ON CONFLICT DO NOTHING;
+
+-- Enable RLS on user_consent_grants table
+ALTER TABLE user_consent_grants ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for user_consent_grants
+CREATE POLICY "Users can view their own consent grants"
+ON user_consent_grants FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own consent grants"
+ON user_consent_grants FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own consent grants"
+ON user_consent_grants FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own consent grants"
+ON user_consent_grants FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Reuse the consent timestamp trigger function
+DROP TRIGGER IF EXISTS consent_grant_update_timestamp ON user_consent_grants;
+
+CREATE TRIGGER consent_grant_update_timestamp
+BEFORE UPDATE ON user_consent_grants
+FOR EACH ROW
+EXECUTE FUNCTION update_consent_timestamp();
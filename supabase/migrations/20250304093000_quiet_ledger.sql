@@ -0,0 +1,72 @@
+/*
+  # Create consent_events table
+
+  1. New Tables:
+    - `consent_events` - Append-only ledger of consent changes
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `provider_id` (uuid, foreign key)
+      - `actor_id` (uuid, who made the change, defaults to the caller)
+      - `event_type` (text, one of grant, revoke, modify, disconnect)
+      - `scopes_before` (jsonb, granted data types before the change)
+      - `scopes_after` (jsonb, granted data types after the change)
+      - `created_at` (timestamp)
+
+  2. Security:
+    - Enable RLS on `consent_events` table
+    - Create policies for viewing and inserting events only
+    - Reject direct UPDATE and DELETE with a trigger so the ledger stays immutable;
+      only cascades from deleted users or providers may touch existing rows
+*/
+
+-- Create consent_events table
+CREATE TABLE IF NOT EXISTS consent_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider_id UUID REFERENCES providers(id) ON DELETE SET NULL,
+  actor_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  event_type TEXT NOT NULL CHECK (event_type IN ('grant', 'revoke', 'modify', 'disconnect')),
+  scopes_before JSONB NOT NULL DEFAULT '[]'::jsonb,
+  scopes_after JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS consent_events_provider_idx
+ON consent_events (user_id, provider_id, created_at DESC);
+
+-- Enable RLS on consent_events table
+ALTER TABLE consent_events ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for consent_events
+CREATE POLICY "Users can view their own consent events"
+ON consent_events FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own consent events"
+ON consent_events FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND auth.uid() = actor_id);
+
+-- Block changes to recorded events, including from privileged roles
+CREATE OR REPLACE FUNCTION prevent_consent_event_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Foreign key cascades run inside another trigger
+  IF pg_trigger_depth() > 1 THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'consent_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS consent_events_immutable ON consent_events;
+
+CREATE TRIGGER consent_events_immutable
+BEFORE UPDATE OR DELETE ON consent_events
+FOR EACH ROW
+EXECUTE FUNCTION prevent_consent_event_change();
@@ -0,0 +1,35 @@
+/*
+  # Add consent duration to user_provider_consents
+
+  1. Changes
+    - Add `start_date` and `end_date` to `user_provider_consents`, mirroring `contracts`
+      - A NULL `end_date` means the consent does not expire
+    - Add `expires_at` to `consent_events` to record the expiry set by each change
+    - Add `is_consent_active` helper so server-side checks treat expired consent as revoked
+
+  2. Security
+    - Maintain existing RLS policies
+*/
+
+ALTER TABLE user_provider_consents
+ADD COLUMN IF NOT EXISTS start_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS end_date TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS user_provider_consents_end_date_idx
+ON user_provider_consents (user_id, end_date)
+WHERE end_date IS NOT NULL;
+
+ALTER TABLE consent_events
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+-- True when the user has approved the provider and the consent has not expired
+CREATE OR REPLACE FUNCTION is_consent_active(p_user_id UUID, p_provider_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_provider_consents
+    WHERE user_id = p_user_id
+      AND provider_id = p_provider_id
+      AND approved
+      AND (end_date IS NULL OR end_date > NOW())
+  );
+$$ LANGUAGE sql STABLE;
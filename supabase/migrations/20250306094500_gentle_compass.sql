@@ -0,0 +1,50 @@
+/*
+  # Add purpose-of-use to consent grants
+
+  1. Changes
+    - Add `purposes` to `user_consent_grants`
+      - Each grant lists the purposes the data may be used for:
+        treatment, payment, research, marketing
+      - Existing granted rows are backfilled with treatment only
+      - Revoked rows carry an empty list
+    - Add `has_consent_for_purpose` helper for server-side checks
+
+  2. Security
+    - Maintain existing RLS policies
+*/
+
+ALTER TABLE user_consent_grants
+ADD COLUMN IF NOT EXISTS purposes TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE user_consent_grants
+SET purposes = ARRAY['treatment']
+WHERE granted AND purposes = '{}';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'user_consent_grants_purposes_check'
+  ) THEN
+    ALTER TABLE user_consent_grants
+    ADD CONSTRAINT user_consent_grants_purposes_check
+    CHECK (purposes <@ ARRAY['treatment', 'payment', 'research', 'marketing']::TEXT[]);
+  END IF;
+END $$;
+
+-- True when an active consent allows the data type to be used for the purpose
+CREATE OR REPLACE FUNCTION has_consent_for_purpose(
+  p_user_id UUID,
+  p_provider_id UUID,
+  p_data_type_id UUID,
+  p_purpose TEXT
+)
+RETURNS BOOLEAN AS $$
+  SELECT is_consent_active(p_user_id, p_provider_id) AND EXISTS (
+    SELECT 1 FROM user_consent_grants
+    WHERE user_id = p_user_id
+      AND provider_id = p_provider_id
+      AND data_type_id = p_data_type_id
+      AND granted
+      AND p_purpose = ANY(purposes)
+  );
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,163 @@
+/*
+  # Add batched consent changes
+
+  1. Changes
+    - Add `consent_scopes` helper returning the data types a user currently
+      shares with a provider, in the shape recorded by `consent_events`
+      - Expired consent shares nothing
+    - Add `apply_consent_batch` to change consent for many providers in one call
+      - `revoke`: revoke every data type but keep the provider connected
+      - `grant`: grant one data type for the given purposes
+      - `disconnect`: remove every grant and the consent record
+      - Each provider is applied on its own, so one failure does not undo the rest
+      - Returns one row per provider with whether it succeeded and why not
+      - Every change is appended to `consent_events`
+
+  2. Security
+    - Functions run as the caller, so existing RLS policies apply
+*/
+
+-- Data types currently shared with a provider, as consent event scopes
+CREATE OR REPLACE FUNCTION consent_scopes(p_user_id UUID, p_provider_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_agg(
+      jsonb_build_object(
+        'dataTypeId', g.data_type_id,
+        'name', COALESCE(d.name, 'Unknown data type'),
+        'purposes', to_jsonb(g.purposes)
+      )
+      ORDER BY d.name
+    ),
+    '[]'::jsonb
+  )
+  FROM user_consent_grants g
+  LEFT JOIN data_types d ON d.id = g.data_type_id
+  WHERE g.user_id = p_user_id
+    AND g.provider_id = p_provider_id
+    AND g.granted
+    AND NOT EXISTS (
+      SELECT 1 FROM user_provider_consents c
+      WHERE c.user_id = p_user_id
+        AND c.provider_id = p_provider_id
+        AND c.end_date IS NOT NULL
+        AND c.end_date <= NOW()
+    );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION apply_consent_batch(
+  p_action TEXT,
+  p_provider_ids UUID[],
+  p_data_type_id UUID DEFAULT NULL,
+  p_purposes TEXT[] DEFAULT ARRAY['treatment']
+)
+RETURNS TABLE (provider_id UUID, succeeded BOOLEAN, error TEXT) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_provider_id UUID;
+  v_before JSONB;
+  v_after JSONB;
+  v_previous TEXT[];
+  v_end_date TIMESTAMP WITH TIME ZONE;
+  v_event_type TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_action NOT IN ('revoke', 'grant', 'disconnect') THEN
+    RAISE EXCEPTION 'Unknown consent action: %', p_action;
+  END IF;
+
+  IF p_action = 'grant' AND (p_data_type_id IS NULL OR COALESCE(cardinality(p_purposes), 0) = 0) THEN
+    RAISE EXCEPTION 'Granting access needs a data type and at least one purpose';
+  END IF;
+
+  FOREACH v_provider_id IN ARRAY p_provider_ids LOOP
+    provider_id := v_provider_id;
+
+    BEGIN
+      v_before := consent_scopes(v_user_id, v_provider_id);
+      v_event_type := NULL;
+
+      SELECT c.end_date INTO v_end_date
+      FROM user_provider_consents c
+      WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+      IF p_action = 'revoke' THEN
+        UPDATE user_consent_grants g
+        SET granted = FALSE, purposes = '{}', updated_at = NOW()
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id AND g.granted;
+
+        UPDATE user_provider_consents c
+        SET approved = FALSE, updated_at = NOW()
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        IF v_before <> '[]'::jsonb THEN
+          v_event_type := 'revoke';
+        END IF;
+
+      ELSIF p_action = 'grant' THEN
+        IF v_end_date IS NOT NULL AND v_end_date <= NOW() THEN
+          RAISE EXCEPTION 'Consent has expired; renew it before granting access';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM provider_data_types pdt
+          WHERE pdt.provider_id = v_provider_id AND pdt.data_type_id = p_data_type_id
+        ) THEN
+          RAISE EXCEPTION 'Provider does not offer this data type';
+        END IF;
+
+        SELECT g.purposes INTO v_previous
+        FROM user_consent_grants g
+        WHERE g.user_id = v_user_id
+          AND g.provider_id = v_provider_id
+          AND g.data_type_id = p_data_type_id
+          AND g.granted;
+
+        INSERT INTO user_consent_grants (user_id, provider_id, data_type_id, granted, purposes)
+        VALUES (v_user_id, v_provider_id, p_data_type_id, TRUE, p_purposes)
+        ON CONFLICT ON CONSTRAINT user_consent_grants_pkey
+        DO UPDATE SET granted = TRUE, purposes = EXCLUDED.purposes, updated_at = NOW();
+
+        INSERT INTO user_provider_consents (user_id, provider_id, approved, start_date)
+        VALUES (v_user_id, v_provider_id, TRUE, NOW())
+        ON CONFLICT ON CONSTRAINT user_provider_consents_pkey
+        DO UPDATE SET approved = TRUE, updated_at = NOW();
+
+        IF v_previous IS NULL THEN
+          v_event_type := 'grant';
+        ELSIF NOT (v_previous @> p_purposes AND p_purposes @> v_previous) THEN
+          v_event_type := 'modify';
+        END IF;
+
+      ELSE
+        DELETE FROM user_consent_grants g
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id;
+
+        DELETE FROM user_provider_consents c
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        v_event_type := 'disconnect';
+        v_end_date := NULL;
+      END IF;
+
+      v_after := consent_scopes(v_user_id, v_provider_id);
+
+      IF v_event_type IS NOT NULL THEN
+        INSERT INTO consent_events (user_id, provider_id, actor_id, event_type, scopes_before, scopes_after, expires_at)
+        VALUES (v_user_id, v_provider_id, v_user_id, v_event_type, v_before, v_after, v_end_date);
+      END IF;
+
+      succeeded := TRUE;
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      succeeded := FALSE;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
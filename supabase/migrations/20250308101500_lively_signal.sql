@@ -0,0 +1,38 @@
+/*
+  # Publish user data changes over Realtime
+
+  1. Changes
+    - Add `user_provider_consents`, `appointments`, `health_records` and
+      `health_metrics` to the `supabase_realtime` publication so the app can
+      refresh when rows change in another tab or from a provider-side process
+    - Set REPLICA IDENTITY FULL on the same tables so update events carry the
+      previous row, including `user_id`
+
+  2. Security
+    - Realtime applies the existing RLS policies, so users only receive
+      changes to their own rows
+    - Delete events only carry the primary key
+*/
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH v_table IN ARRAY ARRAY['user_provider_consents', 'appointments', 'health_records', 'health_metrics']
+  LOOP
+    EXECUTE format('ALTER TABLE %I REPLICA IDENTITY FULL', v_table);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+    END IF;
+  END LOOP;
+END $$;
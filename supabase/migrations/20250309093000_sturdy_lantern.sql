@@ -0,0 +1,121 @@
+/*
+  # Add MFA recovery codes
+
+  1. New Tables:
+    - `mfa_recovery_codes` - One-time codes for signing in without the authenticator app
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `code_hash` (text, SHA-256 of the normalised code; the code itself is never stored)
+      - `used_at` (timestamp, set once the code has been redeemed)
+      - `created_at` (timestamp)
+
+  2. Changes:
+    - Add `generate_mfa_recovery_codes` to replace the caller's codes with ten new ones
+      - Only allowed from an AAL2 session, so a stolen password cannot mint codes
+      - Returns the codes in plain text; this is the only time they are shown
+    - Add `redeem_mfa_recovery_code` to spend a code in place of the second factor
+      - Marks the code used and removes the caller's MFA factors, so the session
+        no longer needs AAL2 and the user can enrol a new authenticator
+      - Returns false for unknown or already used codes
+
+  3. Security:
+    - Enable RLS on `mfa_recovery_codes` table
+    - Users can see and delete their own codes but not add or change them;
+      codes are only created by `generate_mfa_recovery_codes`
+    - Both functions run as the definer to reach `auth.mfa_factors`, and only
+      ever act on `auth.uid()`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Create mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS mfa_recovery_codes_user_hash_idx
+ON mfa_recovery_codes (user_id, code_hash);
+
+-- Enable RLS on mfa_recovery_codes table
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for mfa_recovery_codes
+CREATE POLICY "Users can view their own recovery codes"
+ON mfa_recovery_codes FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recovery codes"
+ON mfa_recovery_codes FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Codes are compared case-insensitively and without separators
+CREATE OR REPLACE FUNCTION mfa_recovery_code_hash(p_code TEXT)
+RETURNS TEXT AS $$
+  SELECT encode(
+    extensions.digest(upper(regexp_replace(p_code, '[^A-Za-z0-9]', '', 'g')), 'sha256'),
+    'hex'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes()
+RETURNS TEXT[] AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_codes TEXT[] := ARRAY[]::TEXT[];
+  v_code TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator app before creating recovery codes';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = v_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_code := upper(encode(extensions.gen_random_bytes(5), 'hex'));
+    v_code := substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5);
+    v_codes := array_append(v_codes, v_code);
+
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (v_user_id, mfa_recovery_code_hash(v_code));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION redeem_mfa_recovery_code(p_code TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  UPDATE mfa_recovery_codes
+  SET used_at = NOW()
+  WHERE user_id = v_user_id
+    AND code_hash = mfa_recovery_code_hash(p_code)
+    AND used_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM auth.mfa_factors WHERE user_id = v_user_id;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_mfa_recovery_codes() FROM anon;
+REVOKE EXECUTE ON FUNCTION redeem_mfa_recovery_code(TEXT) FROM anon;
@@ -0,0 +1,54 @@
+/*
+  # Add passkeys
+
+  1. New Tables:
+    - `passkeys` - WebAuthn credentials registered for signing in without a password
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `credential_id` (text, base64url credential id the authenticator returns)
+      - `public_key` (text, base64url COSE public key)
+      - `sign_count` (bigint, the authenticator's signature counter)
+      - `transports` (text[], how the browser can reach the authenticator)
+      - `name` (text, label chosen by the user)
+      - `created_at` (timestamp)
+      - `last_used_at` (timestamp)
+
+  2. Security:
+    - Enable RLS on `passkeys` table
+    - Users can see and delete their own passkeys but not add or change them;
+      credentials are only written by the `webauthn` Edge Function, which
+      checks the attestation and signatures with the service role
+*/
+
+-- Create passkeys table
+CREATE TABLE IF NOT EXISTS passkeys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  credential_id TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  sign_count BIGINT NOT NULL DEFAULT 0,
+  transports TEXT[] NOT NULL DEFAULT '{}',
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS passkeys_credential_id_idx
+ON passkeys (credential_id);
+
+CREATE INDEX IF NOT EXISTS passkeys_user_id_idx
+ON passkeys (user_id);
+
+-- Enable RLS on passkeys table
+ALTER TABLE passkeys ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for passkeys
+CREATE POLICY "Users can view their own passkeys"
+ON passkeys FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own passkeys"
+ON passkeys FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,249 @@
+/*
+  # Add rate limiting for sign-in, second factors and account emails
+
+  1. New Tables:
+    - `rate_limit_policies` - Limits for each rate-limited action
+      - `action` (text, primary key: login, two_factor, resend_verification, password_reset)
+      - `max_attempts` (integer, attempts allowed within the window)
+      - `window_seconds` (integer, how long attempts are counted together)
+      - `base_lockout_seconds` (integer, the first lockout; each further one doubles)
+      - `max_lockout_seconds` (integer, the longest lockout)
+    - `auth_rate_limits` - Attempts and lockouts per action and subject
+      - `action` (text, foreign key)
+      - `subject` (text, the user id, or a SHA-256 of the email address)
+      - `attempts` (integer, attempts in the current window)
+      - `window_started_at` (timestamp)
+      - `lockouts` (integer, lockouts in a row, for the backoff)
+      - `locked_until` (timestamp)
+
+  2. Changes:
+    - Add `hook_password_verification_attempt` and `hook_mfa_verification_attempt`
+      auth hooks, which count failed passwords and authenticator codes per user
+      and reject every attempt while the user is locked out, whether the
+      password or code is right or not. Enable them under Authentication >
+      Hooks so Supabase Auth calls them.
+    - Add `consume_rate_limit` for the emailed actions, which Supabase Auth
+      has no hook for; the app calls it before sending and it refuses once
+      the address has had too many
+    - The client keeps the same policies in `src/utils/rateLimit.ts` to show
+      the lockout without a round trip
+
+  3. Security:
+    - Enable RLS on both tables with no policies, so only the functions below
+      can read or change them
+    - The helpers run as the definer and are not callable by clients; only
+      Supabase Auth may call the hooks
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Create rate_limit_policies table
+CREATE TABLE IF NOT EXISTS rate_limit_policies (
+  action TEXT PRIMARY KEY,
+  max_attempts INTEGER NOT NULL,
+  window_seconds INTEGER NOT NULL,
+  base_lockout_seconds INTEGER NOT NULL,
+  max_lockout_seconds INTEGER NOT NULL
+);
+
+INSERT INTO rate_limit_policies (action, max_attempts, window_seconds, base_lockout_seconds, max_lockout_seconds)
+VALUES
+  ('login', 5, 900, 60, 3600),
+  ('two_factor', 5, 300, 300, 3600),
+  ('resend_verification', 3, 900, 300, 3600),
+  ('password_reset', 3, 900, 300, 3600);
+
+-- Create auth_rate_limits table
+CREATE TABLE IF NOT EXISTS auth_rate_limits (
+  action TEXT NOT NULL REFERENCES rate_limit_policies(action) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  window_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  lockouts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (action, subject)
+);
+
+-- Enable RLS; neither table has policies
+ALTER TABLE rate_limit_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Seconds until the subject may try the action again; 0 when it may now
+CREATE OR REPLACE FUNCTION rate_limit_retry_after(p_action TEXT, p_subject TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT locked_until INTO v_locked_until
+  FROM auth_rate_limits
+  WHERE action = p_action AND subject = p_subject;
+
+  IF v_locked_until IS NULL OR v_locked_until <= NOW() THEN
+    RETURN 0;
+  END IF;
+  RETURN CEIL(EXTRACT(EPOCH FROM v_locked_until - NOW()))::INTEGER;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Count one attempt: a failed password or code, or a sent email. Reaching the
+-- policy's limit within its window locks the subject out, twice as long as
+-- the previous lockout. Returns the seconds until the next attempt.
+CREATE OR REPLACE FUNCTION rate_limit_record(p_action TEXT, p_subject TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_policy rate_limit_policies%ROWTYPE;
+  v_entry auth_rate_limits%ROWTYPE;
+BEGIN
+  SELECT * INTO v_policy FROM rate_limit_policies WHERE action = p_action;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown rate limit action: %', p_action;
+  END IF;
+
+  INSERT INTO auth_rate_limits (action, subject)
+  VALUES (p_action, p_subject)
+  ON CONFLICT (action, subject) DO NOTHING;
+
+  SELECT * INTO v_entry
+  FROM auth_rate_limits
+  WHERE action = p_action AND subject = p_subject
+  FOR UPDATE;
+
+  IF v_entry.locked_until > NOW() THEN
+    RETURN CEIL(EXTRACT(EPOCH FROM v_entry.locked_until - NOW()))::INTEGER;
+  END IF;
+
+  -- A quiet spell as long as the longest lockout forgives earlier lockouts
+  IF v_entry.locked_until + make_interval(secs => v_policy.max_lockout_seconds) < NOW() THEN
+    v_entry.lockouts := 0;
+  END IF;
+
+  IF v_entry.window_started_at + make_interval(secs => v_policy.window_seconds) < NOW() THEN
+    v_entry.attempts := 0;
+    v_entry.window_started_at := NOW();
+  END IF;
+
+  v_entry.attempts := v_entry.attempts + 1;
+  IF v_entry.attempts >= v_policy.max_attempts THEN
+    v_entry.locked_until := NOW() + make_interval(secs => LEAST(
+      v_policy.base_lockout_seconds * power(2, v_entry.lockouts),
+      v_policy.max_lockout_seconds
+    ));
+    v_entry.lockouts := v_entry.lockouts + 1;
+    v_entry.attempts := 0;
+    v_entry.window_started_at := NOW();
+  END IF;
+
+  UPDATE auth_rate_limits
+  SET attempts = v_entry.attempts,
+      window_started_at = v_entry.window_started_at,
+      lockouts = v_entry.lockouts,
+      locked_until = v_entry.locked_until
+  WHERE action = p_action AND subject = p_subject;
+
+  RETURN rate_limit_retry_after(p_action, p_subject);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION rate_limit_reset(p_action TEXT, p_subject TEXT)
+RETURNS VOID AS $$
+  DELETE FROM auth_rate_limits WHERE action = p_action AND subject = p_subject;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Same wording as RateLimitError on the client
+CREATE OR REPLACE FUNCTION rate_limit_message(p_retry_after INTEGER)
+RETURNS TEXT AS $$
+  SELECT format(
+    'Too many attempts. Try again in %s %s%s.',
+    t.amount,
+    t.unit,
+    CASE WHEN t.amount = 1 THEN '' ELSE 's' END
+  )
+  FROM (
+    SELECT
+      CASE WHEN p_retry_after < 60 THEN p_retry_after ELSE CEIL(p_retry_after / 60.0)::INTEGER END AS amount,
+      CASE WHEN p_retry_after < 60 THEN 'second' ELSE 'minute' END AS unit
+  ) AS t;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Supabase Auth calls this after checking a password, with the user and
+-- whether the password was right
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_subject TEXT := event ->> 'user_id';
+  v_retry_after INTEGER := rate_limit_retry_after('login', v_subject);
+BEGIN
+  IF v_retry_after > 0 THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', rate_limit_message(v_retry_after),
+      'should_logout_user', false
+    );
+  END IF;
+
+  IF (event ->> 'valid')::BOOLEAN THEN
+    PERFORM rate_limit_reset('login', v_subject);
+  ELSE
+    PERFORM rate_limit_record('login', v_subject);
+  END IF;
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql;
+
+-- The same for authenticator codes, with the factor as well as the user
+CREATE OR REPLACE FUNCTION hook_mfa_verification_attempt(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_subject TEXT := event ->> 'user_id';
+  v_retry_after INTEGER := rate_limit_retry_after('two_factor', v_subject);
+BEGIN
+  IF v_retry_after > 0 THEN
+    RETURN jsonb_build_object('decision', 'reject', 'message', rate_limit_message(v_retry_after));
+  END IF;
+
+  IF (event ->> 'valid')::BOOLEAN THEN
+    PERFORM rate_limit_reset('two_factor', v_subject);
+  ELSE
+    PERFORM rate_limit_record('two_factor', v_subject);
+  END IF;
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Take one of the address's attempts at an emailed action. Returns 0 when
+-- the email may be sent, or the seconds to wait.
+CREATE OR REPLACE FUNCTION consume_rate_limit(p_action TEXT, p_identifier TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_subject TEXT;
+  v_retry_after INTEGER;
+BEGIN
+  -- Sign-in limits are only counted by the auth hooks
+  IF p_action NOT IN ('resend_verification', 'password_reset') THEN
+    RAISE EXCEPTION 'Unknown rate limit action: %', p_action;
+  END IF;
+
+  v_subject := encode(extensions.digest(lower(trim(p_identifier)), 'sha256'), 'hex');
+  v_retry_after := rate_limit_retry_after(p_action, v_subject);
+  IF v_retry_after > 0 THEN
+    RETURN v_retry_after;
+  END IF;
+
+  PERFORM rate_limit_record(p_action, v_subject);
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION rate_limit_retry_after(TEXT, TEXT) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rate_limit_record(TEXT, TEXT) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rate_limit_reset(TEXT, TEXT) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hook_mfa_verification_attempt(JSONB) FROM public, anon, authenticated;
+
+GRANT USAGE ON SCHEMA public TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION rate_limit_retry_after(TEXT, TEXT) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION rate_limit_record(TEXT, TEXT) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION rate_limit_reset(TEXT, TEXT) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION hook_mfa_verification_attempt(JSONB) TO supabase_auth_admin;
+GRANT EXECUTE ON FUNCTION consume_rate_limit(TEXT, TEXT) TO anon, authenticated;
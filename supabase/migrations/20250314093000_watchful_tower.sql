@@ -0,0 +1,71 @@
+/*
+  # Add session listing and remote sign-out
+
+  1. Changes:
+    - Add `list_my_sessions` to list the caller's signed-in sessions from `auth.sessions`
+      - Returns each session's id, when it started and was last refreshed, the
+        browser's user agent and IP address, its assurance level, and whether
+        it is the session making the call
+    - Add `revoke_my_session` to end one of the caller's other sessions
+      - Deleting the session also deletes its refresh tokens, so it cannot be
+        refreshed; its current access token works until it expires
+      - Refuses the calling session, which should sign out instead
+      - Returns false when the session does not exist or is not the caller's
+
+  2. Security:
+    - Both functions run as the definer to reach `auth.sessions`, and only
+      ever act on `auth.uid()`
+*/
+
+CREATE OR REPLACE FUNCTION list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_active_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  ip TEXT,
+  aal TEXT,
+  is_current BOOLEAN
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at::TIMESTAMP WITH TIME ZONE, s.updated_at, s.created_at),
+    s.user_agent,
+    host(s.ip),
+    s.aal::TEXT,
+    s.id = (auth.jwt() ->> 'session_id')::UUID
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > NOW())
+  ORDER BY 3 DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_my_session(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_session_id = (auth.jwt() ->> 'session_id')::UUID THEN
+    RAISE EXCEPTION 'Sign out to end the current session';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE id = p_session_id
+    AND user_id = auth.uid();
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION list_my_sessions() FROM anon;
+REVOKE EXECUTE ON FUNCTION revoke_my_session(UUID) FROM anon;
@@ -0,0 +1,374 @@
+/*
+  # Add caregiver delegations
+
+  1. New Tables:
+    - `caregiver_delegations` - Access a user has given someone who helps with their care
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key, the user who gave access)
+      - `owner_name` (text, the user's name as the caregiver sees it)
+      - `caregiver_email` (text, who was invited)
+      - `caregiver_id` (uuid, foreign key, set when the invitation is accepted)
+      - `roles` (text[], any of view_records, manage_appointments, manage_consent)
+      - `status` (text, pending until accepted, then active)
+      - `created_at` (timestamp)
+      - `accepted_at` (timestamp)
+
+  2. Changes:
+    - Add `has_delegated_role` to check whether the caller is an active caregiver
+      of a user with any of the given roles
+    - Add `accept_caregiver_invitation` for the invited user to accept an invitation
+      sent to their email address
+    - Replace the own-rows-only policies on `health_records`, `appointments`,
+      `user_provider_consents`, `user_consent_grants` and `consent_events` with
+      ones that also let caregivers in:
+      - `view_records` can view health records, appointments and consents
+      - `manage_appointments` can view, book, change and cancel appointments
+      - `manage_consent` can view and change consents, and record them in the ledger
+    - Recreate `apply_consent_batch` with a `p_user_id` parameter so a caregiver
+      can change consent for the user they act for; events record the caregiver
+      as the actor
+
+  3. Security:
+    - Enable RLS on `caregiver_delegations`
+      - The user can invite, remove and change the roles of their caregivers;
+        invitations start pending and only the invited user can accept them
+      - The caregiver can view their delegations and invitations to their email
+        address, and remove them to decline or stop helping
+    - Only `roles` can be updated directly; accepting goes through the function
+    - Both functions run as the definer and only ever act for `auth.uid()`
+*/
+
+CREATE TABLE IF NOT EXISTS caregiver_delegations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  owner_name TEXT NOT NULL,
+  caregiver_email TEXT NOT NULL,
+  caregiver_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  roles TEXT[] NOT NULL CHECK (
+    cardinality(roles) > 0
+    AND roles <@ ARRAY['view_records', 'manage_appointments', 'manage_consent']
+  ),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  accepted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One invitation or delegation per caregiver
+CREATE UNIQUE INDEX IF NOT EXISTS caregiver_delegations_email_idx
+ON caregiver_delegations (user_id, lower(caregiver_email));
+
+CREATE INDEX IF NOT EXISTS caregiver_delegations_caregiver_idx
+ON caregiver_delegations (caregiver_id);
+
+ALTER TABLE caregiver_delegations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their caregivers"
+ON caregiver_delegations FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can invite caregivers"
+ON caregiver_delegations FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND caregiver_id IS NULL
+  AND lower(caregiver_email) <> lower(COALESCE(auth.jwt() ->> 'email', ''))
+);
+
+CREATE POLICY "Users can change their caregivers' roles"
+ON caregiver_delegations FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their caregivers"
+ON caregiver_delegations FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Caregivers can view their delegations and invitations"
+ON caregiver_delegations FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = caregiver_id
+  OR (status = 'pending' AND lower(caregiver_email) = lower(auth.jwt() ->> 'email'))
+);
+
+CREATE POLICY "Caregivers can decline or leave delegations"
+ON caregiver_delegations FOR DELETE
+TO authenticated
+USING (
+  auth.uid() = caregiver_id
+  OR (status = 'pending' AND lower(caregiver_email) = lower(auth.jwt() ->> 'email'))
+);
+
+-- The owner may only change roles; who the caregiver is and whether they
+-- accepted are set by accept_caregiver_invitation
+REVOKE UPDATE ON caregiver_delegations FROM authenticated;
+GRANT UPDATE (roles) ON caregiver_delegations TO authenticated;
+
+-- Whether the caller actively cares for a user with any of the roles. Runs as
+-- the definer so policies on other tables can check it without seeing the
+-- delegations themselves.
+CREATE OR REPLACE FUNCTION has_delegated_role(p_user_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM caregiver_delegations d
+    WHERE d.user_id = p_user_id
+      AND d.caregiver_id = auth.uid()
+      AND d.status = 'active'
+      AND d.roles && p_roles
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION accept_caregiver_invitation(p_delegation_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  UPDATE caregiver_delegations
+  SET caregiver_id = auth.uid(), status = 'active', accepted_at = NOW()
+  WHERE id = p_delegation_id
+    AND status = 'pending'
+    AND user_id <> auth.uid()
+    AND lower(caregiver_email) = lower(auth.jwt() ->> 'email');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Health records
+DROP POLICY IF EXISTS "Users can view their own health records" ON health_records;
+
+CREATE POLICY "Users and their caregivers can view health records"
+ON health_records FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['view_records']));
+
+-- Appointments
+DROP POLICY IF EXISTS "Users can view their own appointments" ON appointments;
+DROP POLICY IF EXISTS "Users can insert their own appointments" ON appointments;
+DROP POLICY IF EXISTS "Users can update their own appointments" ON appointments;
+DROP POLICY IF EXISTS "Users can delete their own appointments" ON appointments;
+
+CREATE POLICY "Users and their caregivers can view appointments"
+ON appointments FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['view_records', 'manage_appointments']));
+
+CREATE POLICY "Users and their caregivers can book appointments"
+ON appointments FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_appointments']));
+
+CREATE POLICY "Users and their caregivers can update appointments"
+ON appointments FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_appointments']));
+
+CREATE POLICY "Users and their caregivers can delete appointments"
+ON appointments FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_appointments']));
+
+-- Provider consents
+DROP POLICY IF EXISTS "Users can view their own consents" ON user_provider_consents;
+DROP POLICY IF EXISTS "Users can manage their own consents" ON user_provider_consents;
+DROP POLICY IF EXISTS "Users can update their own consents" ON user_provider_consents;
+DROP POLICY IF EXISTS "Users can delete their own consents" ON user_provider_consents;
+
+CREATE POLICY "Users and their caregivers can view consents"
+ON user_provider_consents FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['view_records', 'manage_consent']));
+
+CREATE POLICY "Users and their caregivers can give consent"
+ON user_provider_consents FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_consent']));
+
+CREATE POLICY "Users and their caregivers can update consents"
+ON user_provider_consents FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_consent']));
+
+CREATE POLICY "Users and their caregivers can delete consents"
+ON user_provider_consents FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_consent']));
+
+-- Consent grants
+DROP POLICY IF EXISTS "Users can view their own consent grants" ON user_consent_grants;
+DROP POLICY IF EXISTS "Users can insert their own consent grants" ON user_consent_grants;
+DROP POLICY IF EXISTS "Users can update their own consent grants" ON user_consent_grants;
+DROP POLICY IF EXISTS "Users can delete their own consent grants" ON user_consent_grants;
+
+CREATE POLICY "Users and their caregivers can view consent grants"
+ON user_consent_grants FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['view_records', 'manage_consent']));
+
+CREATE POLICY "Users and their caregivers can insert consent grants"
+ON user_consent_grants FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_consent']));
+
+CREATE POLICY "Users and their caregivers can update consent grants"
+ON user_consent_grants FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_consent']));
+
+CREATE POLICY "Users and their caregivers can delete consent grants"
+ON user_consent_grants FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_consent']));
+
+-- Consent ledger; whoever makes a change is recorded as its actor
+DROP POLICY IF EXISTS "Users can view their own consent events" ON consent_events;
+DROP POLICY IF EXISTS "Users can record their own consent events" ON consent_events;
+
+CREATE POLICY "Users and their caregivers can view consent events"
+ON consent_events FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['view_records', 'manage_consent']));
+
+CREATE POLICY "Users and their caregivers can record consent events"
+ON consent_events FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = actor_id
+  AND (auth.uid() = user_id OR has_delegated_role(user_id, ARRAY['manage_consent']))
+);
+
+-- Batched consent changes, for the caller or a user they manage consent for
+DROP FUNCTION IF EXISTS apply_consent_batch(TEXT, UUID[], UUID, TEXT[]);
+
+CREATE OR REPLACE FUNCTION apply_consent_batch(
+  p_action TEXT,
+  p_provider_ids UUID[],
+  p_data_type_id UUID DEFAULT NULL,
+  p_purposes TEXT[] DEFAULT ARRAY['treatment'],
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (provider_id UUID, succeeded BOOLEAN, error TEXT) AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+  v_provider_id UUID;
+  v_before JSONB;
+  v_after JSONB;
+  v_previous TEXT[];
+  v_end_date TIMESTAMP WITH TIME ZONE;
+  v_event_type TEXT;
+BEGIN
+  IF v_actor_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  -- RLS would silently skip another user's rows, so refuse up front
+  IF v_user_id <> v_actor_id AND NOT has_delegated_role(v_user_id, ARRAY['manage_consent']) THEN
+    RAISE EXCEPTION 'You cannot manage consent for this account';
+  END IF;
+
+  IF p_action NOT IN ('revoke', 'grant', 'disconnect') THEN
+    RAISE EXCEPTION 'Unknown consent action: %', p_action;
+  END IF;
+
+  IF p_action = 'grant' AND (p_data_type_id IS NULL OR COALESCE(cardinality(p_purposes), 0) = 0) THEN
+    RAISE EXCEPTION 'Granting access needs a data type and at least one purpose';
+  END IF;
+
+  FOREACH v_provider_id IN ARRAY p_provider_ids LOOP
+    provider_id := v_provider_id;
+
+    BEGIN
+      v_before := consent_scopes(v_user_id, v_provider_id);
+      v_event_type := NULL;
+
+      SELECT c.end_date INTO v_end_date
+      FROM user_provider_consents c
+      WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+      IF p_action = 'revoke' THEN
+        UPDATE user_consent_grants g
+        SET granted = FALSE, purposes = '{}', updated_at = NOW()
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id AND g.granted;
+
+        UPDATE user_provider_consents c
+        SET approved = FALSE, updated_at = NOW()
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        IF v_before <> '[]'::jsonb THEN
+          v_event_type := 'revoke';
+        END IF;
+
+      ELSIF p_action = 'grant' THEN
+        IF v_end_date IS NOT NULL AND v_end_date <= NOW() THEN
+          RAISE EXCEPTION 'Consent has expired; renew it before granting access';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM provider_data_types pdt
+          WHERE pdt.provider_id = v_provider_id AND pdt.data_type_id = p_data_type_id
+        ) THEN
+          RAISE EXCEPTION 'Provider does not offer this data type';
+        END IF;
+
+        SELECT g.purposes INTO v_previous
+        FROM user_consent_grants g
+        WHERE g.user_id = v_user_id
+          AND g.provider_id = v_provider_id
+          AND g.data_type_id = p_data_type_id
+          AND g.granted;
+
+        INSERT INTO user_consent_grants (user_id, provider_id, data_type_id, granted, purposes)
+        VALUES (v_user_id, v_provider_id, p_data_type_id, TRUE, p_purposes)
+        ON CONFLICT ON CONSTRAINT user_consent_grants_pkey
+        DO UPDATE SET granted = TRUE, purposes = EXCLUDED.purposes, updated_at = NOW();
+
+        INSERT INTO user_provider_consents (user_id, provider_id, approved, start_date)
+        VALUES (v_user_id, v_provider_id, TRUE, NOW())
+        ON CONFLICT ON CONSTRAINT user_provider_consents_pkey
+        DO UPDATE SET approved = TRUE, updated_at = NOW();
+
+        IF v_previous IS NULL THEN
+          v_event_type := 'grant';
+        ELSIF NOT (v_previous @> p_purposes AND p_purposes @> v_previous) THEN
+          v_event_type := 'modify';
+        END IF;
+
+      ELSE
+        DELETE FROM user_consent_grants g
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id;
+
+        DELETE FROM user_provider_consents c
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        v_event_type := 'disconnect';
+        v_end_date := NULL;
+      END IF;
+
+      v_after := consent_scopes(v_user_id, v_provider_id);
+
+      IF v_event_type IS NOT NULL THEN
+        INSERT INTO consent_events (user_id, provider_id, actor_id, event_type, scopes_before, scopes_after, expires_at)
+        VALUES (v_user_id, v_provider_id, v_actor_id, v_event_type, v_before, v_after, v_end_date);
+      END IF;
+
+      succeeded := TRUE;
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      succeeded := FALSE;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION has_delegated_role(UUID, TEXT[]) FROM anon;
+REVOKE EXECUTE ON FUNCTION accept_caregiver_invitation(UUID) FROM anon;
@@ -0,0 +1,45 @@
+/*
+  # Add feature flag overrides
+
+  1. New Tables:
+    - `feature_flag_overrides` - Turns a feature flag on or off for a tenant or a user
+      - `id` (uuid, primary key)
+      - `flag` (text, a flag name from src/config/flags.json)
+      - `tenant` (text, the X-Tenant id; null for every tenant)
+      - `user_id` (uuid, foreign key; null for everyone in the tenant)
+      - `enabled` (boolean)
+      - `created_at` (timestamp)
+
+  2. Changes:
+    - None; flags without an override keep the app's defaults and the tenant's
+      configuration
+
+  3. Security:
+    - Enable RLS on `feature_flag_overrides`
+      - Signed-in users can view the overrides for every user and their own
+    - Overrides are managed with the service role; users cannot change them
+*/
+
+CREATE TABLE IF NOT EXISTS feature_flag_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  flag TEXT NOT NULL,
+  tenant TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- One override per flag for each tenant and user
+CREATE UNIQUE INDEX IF NOT EXISTS feature_flag_overrides_scope_idx
+ON feature_flag_overrides (
+  flag,
+  COALESCE(tenant, ''),
+  COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::UUID)
+);
+
+ALTER TABLE feature_flag_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view feature flag overrides"
+ON feature_flag_overrides FOR SELECT
+TO authenticated
+USING (user_id IS NULL OR auth.uid() = user_id);
@@ -0,0 +1,242 @@
+/*
+  # Apply single-provider consent changes in one transaction
+
+  1. New Tables:
+    - None
+
+  2. Changes:
+    - Add `consent_event_type` to classify a change from the scopes before
+      and after it, as the client did
+    - Recreate `apply_consent_batch` with an `update` action for the consent
+      page's per-data-type changes to one provider
+      - `p_changes` maps data type ids to purposes; no purposes revokes it
+      - `p_restart` starts the consent again, ending at `p_end_date`
+      - Granting on an expired consent without restarting it is refused
+    - Grants, the consent record and the `consent_events` entry are now
+      written together, so a failed change leaves no grant without its
+      ledger entry
+
+  3. Security:
+    - Unchanged; the function runs as the caller and only caregivers with
+      `manage_consent` can act for another user
+*/
+
+-- How a change to a provider's scopes is recorded in the ledger; null when
+-- nothing changed
+CREATE OR REPLACE FUNCTION consent_event_type(p_before JSONB, p_after JSONB)
+RETURNS TEXT AS $$
+  WITH
+    before_scopes AS (
+      SELECT s->>'dataTypeId' AS data_type_id, s->'purposes' AS purposes
+      FROM jsonb_array_elements(p_before) s
+    ),
+    after_scopes AS (
+      SELECT s->>'dataTypeId' AS data_type_id, s->'purposes' AS purposes
+      FROM jsonb_array_elements(p_after) s
+    ),
+    counts AS (
+      SELECT
+        (SELECT count(*) FROM after_scopes a
+          WHERE NOT EXISTS (SELECT 1 FROM before_scopes b WHERE b.data_type_id = a.data_type_id)) AS added,
+        (SELECT count(*) FROM before_scopes b
+          WHERE NOT EXISTS (SELECT 1 FROM after_scopes a WHERE a.data_type_id = b.data_type_id)) AS removed,
+        (SELECT count(*) FROM after_scopes a
+          JOIN before_scopes b ON b.data_type_id = a.data_type_id
+          WHERE NOT (a.purposes @> b.purposes AND b.purposes @> a.purposes)) AS changed
+    )
+  SELECT CASE
+    WHEN added = 0 AND removed = 0 AND changed = 0 THEN NULL
+    WHEN changed > 0 THEN 'modify'
+    WHEN removed = 0 THEN 'grant'
+    WHEN added = 0 THEN 'revoke'
+    ELSE 'modify'
+  END
+  FROM counts;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Batched consent changes, and the consent page's changes to one provider,
+-- for the caller or a user they manage consent for
+DROP FUNCTION IF EXISTS apply_consent_batch(TEXT, UUID[], UUID, TEXT[], UUID);
+
+CREATE OR REPLACE FUNCTION apply_consent_batch(
+  p_action TEXT,
+  p_provider_ids UUID[],
+  p_data_type_id UUID DEFAULT NULL,
+  p_purposes TEXT[] DEFAULT ARRAY['treatment'],
+  p_user_id UUID DEFAULT NULL,
+  p_changes JSONB DEFAULT NULL,
+  p_restart BOOLEAN DEFAULT FALSE,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (provider_id UUID, succeeded BOOLEAN, error TEXT) AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+  v_provider_id UUID;
+  v_before JSONB;
+  v_after JSONB;
+  v_previous TEXT[];
+  v_end_date TIMESTAMP WITH TIME ZONE;
+  v_event_type TEXT;
+  v_change RECORD;
+BEGIN
+  IF v_actor_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  -- RLS would silently skip another user's rows, so refuse up front
+  IF v_user_id <> v_actor_id AND NOT has_delegated_role(v_user_id, ARRAY['manage_consent']) THEN
+    RAISE EXCEPTION 'You cannot manage consent for this account';
+  END IF;
+
+  IF p_action NOT IN ('revoke', 'grant', 'disconnect', 'update') THEN
+    RAISE EXCEPTION 'Unknown consent action: %', p_action;
+  END IF;
+
+  IF p_action = 'grant' AND (p_data_type_id IS NULL OR COALESCE(cardinality(p_purposes), 0) = 0) THEN
+    RAISE EXCEPTION 'Granting access needs a data type and at least one purpose';
+  END IF;
+
+  FOREACH v_provider_id IN ARRAY p_provider_ids LOOP
+    provider_id := v_provider_id;
+
+    BEGIN
+      v_before := consent_scopes(v_user_id, v_provider_id);
+      v_event_type := NULL;
+
+      SELECT c.end_date INTO v_end_date
+      FROM user_provider_consents c
+      WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+      IF p_action = 'revoke' THEN
+        UPDATE user_consent_grants g
+        SET granted = FALSE, purposes = '{}', updated_at = NOW()
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id AND g.granted;
+
+        UPDATE user_provider_consents c
+        SET approved = FALSE, updated_at = NOW()
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        IF v_before <> '[]'::jsonb THEN
+          v_event_type := 'revoke';
+        END IF;
+
+      ELSIF p_action = 'grant' THEN
+        IF v_end_date IS NOT NULL AND v_end_date <= NOW() THEN
+          RAISE EXCEPTION 'Consent has expired; renew it before granting access';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM provider_data_types pdt
+          WHERE pdt.provider_id = v_provider_id AND pdt.data_type_id = p_data_type_id
+        ) THEN
+          RAISE EXCEPTION 'Provider does not offer this data type';
+        END IF;
+
+        SELECT g.purposes INTO v_previous
+        FROM user_consent_grants g
+        WHERE g.user_id = v_user_id
+          AND g.provider_id = v_provider_id
+          AND g.data_type_id = p_data_type_id
+          AND g.granted;
+
+        INSERT INTO user_consent_grants (user_id, provider_id, data_type_id, granted, purposes)
+        VALUES (v_user_id, v_provider_id, p_data_type_id, TRUE, p_purposes)
+        ON CONFLICT ON CONSTRAINT user_consent_grants_pkey
+        DO UPDATE SET granted = TRUE, purposes = EXCLUDED.purposes, updated_at = NOW();
+
+        INSERT INTO user_provider_consents (user_id, provider_id, approved, start_date)
+        VALUES (v_user_id, v_provider_id, TRUE, NOW())
+        ON CONFLICT ON CONSTRAINT user_provider_consents_pkey
+        DO UPDATE SET approved = TRUE, updated_at = NOW();
+
+        IF v_previous IS NULL THEN
+          v_event_type := 'grant';
+        ELSIF NOT (v_previous @> p_purposes AND p_purposes @> v_previous) THEN
+          v_event_type := 'modify';
+        END IF;
+
+      ELSIF p_action = 'update' THEN
+        IF v_end_date IS NOT NULL AND v_end_date <= NOW() AND NOT p_restart AND EXISTS (
+          SELECT 1 FROM jsonb_each(COALESCE(p_changes, '{}'::jsonb)) c
+          WHERE jsonb_array_length(c.value) > 0
+        ) THEN
+          RAISE EXCEPTION 'This consent has expired; renew it before granting access';
+        END IF;
+
+        FOR v_change IN
+          SELECT c.key::UUID AS data_type_id, ARRAY(SELECT jsonb_array_elements_text(c.value)) AS purposes
+          FROM jsonb_each(COALESCE(p_changes, '{}'::jsonb)) c
+        LOOP
+          IF cardinality(v_change.purposes) > 0 AND NOT EXISTS (
+            SELECT 1 FROM provider_data_types pdt
+            WHERE pdt.provider_id = v_provider_id AND pdt.data_type_id = v_change.data_type_id
+          ) THEN
+            RAISE EXCEPTION 'Provider does not offer this data type';
+          END IF;
+
+          INSERT INTO user_consent_grants (user_id, provider_id, data_type_id, granted, purposes)
+          VALUES (v_user_id, v_provider_id, v_change.data_type_id, cardinality(v_change.purposes) > 0, v_change.purposes)
+          ON CONFLICT ON CONSTRAINT user_consent_grants_pkey
+          DO UPDATE SET granted = EXCLUDED.granted, purposes = EXCLUDED.purposes, updated_at = NOW();
+        END LOOP;
+
+        IF p_restart THEN
+          v_end_date := p_end_date;
+        END IF;
+
+        -- Approval follows whether any data type is still granted
+        INSERT INTO user_provider_consents (user_id, provider_id, approved, start_date, end_date)
+        VALUES (
+          v_user_id,
+          v_provider_id,
+          EXISTS (
+            SELECT 1 FROM user_consent_grants g
+            WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id AND g.granted
+          ),
+          NOW(),
+          v_end_date
+        )
+        ON CONFLICT ON CONSTRAINT user_provider_consents_pkey
+        DO UPDATE SET
+          approved = EXCLUDED.approved,
+          start_date = CASE WHEN p_restart THEN NOW() ELSE user_provider_consents.start_date END,
+          end_date = CASE WHEN p_restart THEN p_end_date ELSE user_provider_consents.end_date END,
+          updated_at = NOW();
+
+        v_event_type := consent_event_type(v_before, consent_scopes(v_user_id, v_provider_id));
+        -- Restarting a consent grants its data types again
+        IF v_event_type IS NULL AND p_restart AND consent_scopes(v_user_id, v_provider_id) <> '[]'::jsonb THEN
+          v_event_type := 'grant';
+        END IF;
+
+      ELSE
+        DELETE FROM user_consent_grants g
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id;
+
+        DELETE FROM user_provider_consents c
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        v_event_type := 'disconnect';
+        v_end_date := NULL;
+      END IF;
+
+      v_after := consent_scopes(v_user_id, v_provider_id);
+
+      IF v_event_type IS NOT NULL THEN
+        INSERT INTO consent_events (user_id, provider_id, actor_id, event_type, scopes_before, scopes_after, expires_at)
+        VALUES (v_user_id, v_provider_id, v_actor_id, v_event_type, v_before, v_after, v_end_date);
+      END IF;
+
+      succeeded := TRUE;
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      succeeded := FALSE;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
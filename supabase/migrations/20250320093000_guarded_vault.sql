@@ -0,0 +1,78 @@
+/*
+  # Require a verified second factor for health and consent data
+
+  1. New Tables:
+    - None
+
+  2. Changes:
+    - Add `has_required_aal` to tell whether the session has the assurance
+      level the user's account needs: AAL2 once they have a verified
+      authenticator, AAL1 otherwise
+
+  3. Security:
+    - Add restrictive policies on `health_records`, `appointments`,
+      `user_provider_consents`, `user_consent_grants` and `consent_events`
+      - Users with a verified authenticator can only read or change them from
+        an AAL2 session, however the request reaches the database; until now
+        only the app's protected routes asked for the second factor
+      - Caregivers are held to their own factors, not the user's
+    - Add restrictive update and delete policies on `mfa_recovery_codes`, so a
+      stolen password cannot clear a user's recovery codes
+      - `redeem_mfa_recovery_code` runs as the definer and still works from
+        the AAL1 session it exists for
+    - `has_required_aal` runs as the definer to reach `auth.mfa_factors`, and
+      only ever looks at `auth.uid()`
+*/
+
+CREATE OR REPLACE FUNCTION has_required_aal()
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    OR NOT EXISTS (
+      SELECT 1 FROM auth.mfa_factors
+      WHERE user_id = auth.uid()
+        AND status = 'verified'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION has_required_aal() FROM anon;
+
+CREATE POLICY "Health records need the second factor once enrolled"
+ON health_records AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (has_required_aal())
+WITH CHECK (has_required_aal());
+
+CREATE POLICY "Appointments need the second factor once enrolled"
+ON appointments AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (has_required_aal())
+WITH CHECK (has_required_aal());
+
+CREATE POLICY "Consents need the second factor once enrolled"
+ON user_provider_consents AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (has_required_aal())
+WITH CHECK (has_required_aal());
+
+CREATE POLICY "Consent grants need the second factor once enrolled"
+ON user_consent_grants AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (has_required_aal())
+WITH CHECK (has_required_aal());
+
+CREATE POLICY "Consent events need the second factor once enrolled"
+ON consent_events AS RESTRICTIVE FOR ALL
+TO authenticated
+USING (has_required_aal())
+WITH CHECK (has_required_aal());
+
+CREATE POLICY "Changing recovery codes needs the second factor"
+ON mfa_recovery_codes AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (has_required_aal())
+WITH CHECK (has_required_aal());
+
+CREATE POLICY "Deleting recovery codes needs the second factor"
+ON mfa_recovery_codes AS RESTRICTIVE FOR DELETE
+TO authenticated
+USING (has_required_aal());
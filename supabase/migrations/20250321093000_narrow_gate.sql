@@ -0,0 +1,57 @@
+/*
+  # Scope emailed-action rate limits to the caller
+
+  1. New Tables:
+    - None
+
+  2. Changes:
+    - Add `request_client_address` to read the caller's address from the
+      request headers PostgREST passes on
+    - Recreate `consume_rate_limit` so it counts attempts per address and
+      caller, rather than per address alone
+
+  3. Security:
+    - `consume_rate_limit` is callable before signing in, so anyone could
+      spend another user's attempts by naming their email address and lock
+      them out of resetting their password. The subject now also includes the
+      caller's address as the API gateway saw it, so callers only spend their
+      own attempts; Supabase Auth's own email limits still cap the total sent
+*/
+
+-- The caller's IP address: Cloudflare's header when present, otherwise the
+-- address the gateway appended to X-Forwarded-For, which the caller cannot set
+CREATE OR REPLACE FUNCTION request_client_address()
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    NULLIF(current_setting('request.headers', true)::JSONB ->> 'cf-connecting-ip', ''),
+    NULLIF(trim(split_part(current_setting('request.headers', true)::JSONB ->> 'x-forwarded-for', ',', -1)), ''),
+    'unknown'
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION consume_rate_limit(p_action TEXT, p_identifier TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_subject TEXT;
+  v_retry_after INTEGER;
+BEGIN
+  -- Sign-in limits are only counted by the auth hooks
+  IF p_action NOT IN ('resend_verification', 'password_reset') THEN
+    RAISE EXCEPTION 'Unknown rate limit action: %', p_action;
+  END IF;
+
+  v_subject := encode(
+    extensions.digest(lower(trim(p_identifier)) || '|' || request_client_address(), 'sha256'),
+    'hex'
+  );
+  v_retry_after := rate_limit_retry_after(p_action, v_subject);
+  IF v_retry_after > 0 THEN
+    RETURN v_retry_after;
+  END IF;
+
+  PERFORM rate_limit_record(p_action, v_subject);
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_client_address() FROM public, anon, authenticated;
@@ -0,0 +1,34 @@
+/*
+  # Add WebAuthn challenges for the webauthn Edge Function
+
+  1. New Tables:
+    - `webauthn_challenges` - Challenges the relying party has issued and not
+      yet seen answered
+      - `challenge` (text, primary key, the base64url challenge)
+      - `user_id` (uuid, the user registering or stepping up; null when
+        signing in, as the passkey picks the account)
+      - `purpose` (text, registration, sign-in or step-up)
+      - `expires_at` (timestamp)
+
+  2. Changes:
+    - None
+
+  3. Security:
+    - Enable RLS on `webauthn_challenges` with no policies; only the
+      `webauthn` Edge Function reads and writes it, with the service role
+    - Each challenge is deleted when it is answered, so it cannot be replayed
+*/
+
+-- Create webauthn_challenges table
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+  challenge TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('registration', 'sign-in', 'step-up')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS webauthn_challenges_expires_at_idx
+ON webauthn_challenges (expires_at);
+
+-- Enable RLS; the table has no policies
+ALTER TABLE webauthn_challenges ENABLE ROW LEVEL SECURITY;
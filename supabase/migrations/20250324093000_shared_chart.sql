@@ -0,0 +1,19 @@
+/*
+  # Let caregivers view health metrics
+
+  1. New Tables:
+    - None
+
+  2. Changes:
+    - None
+
+  3. Security:
+    - Add a policy letting caregivers with `view_records` view the health
+      metrics of the user they act for, as they can their health records;
+      only the user can still add, change or remove them
+*/
+
+CREATE POLICY "Caregivers can view health metrics"
+ON health_metrics FOR SELECT
+TO authenticated
+USING (has_delegated_role(user_id, ARRAY['view_records']));
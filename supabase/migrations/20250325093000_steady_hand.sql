@@ -0,0 +1,313 @@
+/*
+  # Check step-up verification in the database
+
+  1. New Tables:
+    - `step_up_verifications` - When each session last confirmed it is still
+      its user, with a password or a passkey
+      - `session_id` (uuid, primary key, the session from `auth.sessions`)
+      - `user_id` (uuid, foreign key)
+      - `verified_at` (timestamp)
+
+  2. Changes:
+    - Add `verify_my_password` to check the signed-in user's password
+      without signing in again
+      - Signing in again started a new session on every step-up, which reset
+        the session's sign-in time and the maximum session lifetime with it,
+        and left the old session in the list of devices
+      - Counts wrong passwords against the same sign-in lockout as the
+        password verification hook, and refuses every attempt while it lasts
+    - Add `has_recent_step_up`: whether the calling session confirmed it is
+      its user in the last 5 minutes, with a password or passkey recorded
+      here or an authenticator code in the token's `amr` claim
+    - Recreate `apply_consent_batch` and `revoke_my_session` to require a
+      recent step-up before disconnecting a provider or signing out another
+      session; until now only the app asked for one
+
+  3. Security:
+    - Enable RLS on `step_up_verifications` with no policies; only
+      `verify_my_password` and the `webauthn` Edge Function, with the service
+      role, record verifications
+*/
+
+-- Create step_up_verifications table
+CREATE TABLE IF NOT EXISTS step_up_verifications (
+  session_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS; the table has no policies
+ALTER TABLE step_up_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Check the caller's password for step-up verification. Returns whether it
+-- was right; a lockout is raised with the same message as the sign-in hook.
+CREATE OR REPLACE FUNCTION verify_my_password(p_password TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_retry_after INTEGER;
+  v_valid BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  v_retry_after := rate_limit_retry_after('login', v_user_id::TEXT);
+  IF v_retry_after > 0 THEN
+    RAISE EXCEPTION '%', rate_limit_message(v_retry_after);
+  END IF;
+
+  SELECT u.encrypted_password = extensions.crypt(p_password, u.encrypted_password) INTO v_valid
+  FROM auth.users u
+  WHERE u.id = v_user_id;
+
+  IF NOT COALESCE(v_valid, FALSE) THEN
+    PERFORM rate_limit_record('login', v_user_id::TEXT);
+    RETURN FALSE;
+  END IF;
+
+  PERFORM rate_limit_reset('login', v_user_id::TEXT);
+
+  INSERT INTO step_up_verifications (session_id, user_id, verified_at)
+  VALUES ((auth.jwt() ->> 'session_id')::UUID, v_user_id, NOW())
+  ON CONFLICT (session_id) DO UPDATE SET verified_at = NOW();
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same window as STEP_UP_WINDOW_MS in src/services/stepUp.ts
+CREATE OR REPLACE FUNCTION has_recent_step_up()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM step_up_verifications v
+    WHERE v.session_id = (auth.jwt() ->> 'session_id')::UUID
+      AND v.user_id = auth.uid()
+      AND v.verified_at > NOW() - INTERVAL '5 minutes'
+  ) OR EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(auth.jwt() -> 'amr', '[]'::JSONB)) a
+    WHERE a ->> 'method' = 'totp'
+      AND to_timestamp((a ->> 'timestamp')::BIGINT) > NOW() - INTERVAL '5 minutes'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Batched consent changes, and the consent page's changes to one provider,
+-- for the caller or a user they manage consent for
+CREATE OR REPLACE FUNCTION apply_consent_batch(
+  p_action TEXT,
+  p_provider_ids UUID[],
+  p_data_type_id UUID DEFAULT NULL,
+  p_purposes TEXT[] DEFAULT ARRAY['treatment'],
+  p_user_id UUID DEFAULT NULL,
+  p_changes JSONB DEFAULT NULL,
+  p_restart BOOLEAN DEFAULT FALSE,
+  p_end_date TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (provider_id UUID, succeeded BOOLEAN, error TEXT) AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_user_id UUID := COALESCE(p_user_id, auth.uid());
+  v_provider_id UUID;
+  v_before JSONB;
+  v_after JSONB;
+  v_previous TEXT[];
+  v_end_date TIMESTAMP WITH TIME ZONE;
+  v_event_type TEXT;
+  v_change RECORD;
+BEGIN
+  IF v_actor_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  -- Running as the definer skips RLS, so these checks are the only ones
+  IF v_user_id <> v_actor_id AND NOT has_delegated_role(v_user_id, ARRAY['manage_consent']) THEN
+    RAISE EXCEPTION 'You cannot manage consent for this account';
+  END IF;
+
+  -- The guarded_vault migration's restrictive policies, which no longer apply
+  IF NOT has_required_aal() THEN
+    RAISE EXCEPTION 'Verify your second factor before changing consent' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action NOT IN ('revoke', 'grant', 'disconnect', 'update') THEN
+    RAISE EXCEPTION 'Unknown consent action: %', p_action;
+  END IF;
+
+  -- Disconnecting removes every grant and the consent record, so the app
+  -- asks the user to confirm it is them first; hold the caller to that
+  IF p_action = 'disconnect' AND NOT has_recent_step_up() THEN
+    RAISE EXCEPTION 'Confirm it is you before disconnecting a provider' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action = 'grant' AND (p_data_type_id IS NULL OR COALESCE(cardinality(p_purposes), 0) = 0) THEN
+    RAISE EXCEPTION 'Granting access needs a data type and at least one purpose';
+  END IF;
+
+  FOREACH v_provider_id IN ARRAY p_provider_ids LOOP
+    provider_id := v_provider_id;
+
+    BEGIN
+      v_before := consent_scopes(v_user_id, v_provider_id);
+      v_event_type := NULL;
+
+      SELECT c.end_date INTO v_end_date
+      FROM user_provider_consents c
+      WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+      IF p_action = 'revoke' THEN
+        UPDATE user_consent_grants g
+        SET granted = FALSE, purposes = '{}', updated_at = NOW()
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id AND g.granted;
+
+        UPDATE user_provider_consents c
+        SET approved = FALSE, updated_at = NOW()
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        IF v_before <> '[]'::jsonb THEN
+          v_event_type := 'revoke';
+        END IF;
+
+      ELSIF p_action = 'grant' THEN
+        IF v_end_date IS NOT NULL AND v_end_date <= NOW() THEN
+          RAISE EXCEPTION 'Consent has expired; renew it before granting access';
+        END IF;
+
+        IF NOT EXISTS (
+          SELECT 1 FROM provider_data_types pdt
+          WHERE pdt.provider_id = v_provider_id AND pdt.data_type_id = p_data_type_id
+        ) THEN
+          RAISE EXCEPTION 'Provider does not offer this data type';
+        END IF;
+
+        SELECT g.purposes INTO v_previous
+        FROM user_consent_grants g
+        WHERE g.user_id = v_user_id
+          AND g.provider_id = v_provider_id
+          AND g.data_type_id = p_data_type_id
+          AND g.granted;
+
+        INSERT INTO user_consent_grants (user_id, provider_id, data_type_id, granted, purposes)
+        VALUES (v_user_id, v_provider_id, p_data_type_id, TRUE, p_purposes)
+        ON CONFLICT ON CONSTRAINT user_consent_grants_pkey
+        DO UPDATE SET granted = TRUE, purposes = EXCLUDED.purposes, updated_at = NOW();
+
+        INSERT INTO user_provider_consents (user_id, provider_id, approved, start_date)
+        VALUES (v_user_id, v_provider_id, TRUE, NOW())
+        ON CONFLICT ON CONSTRAINT user_provider_consents_pkey
+        DO UPDATE SET approved = TRUE, updated_at = NOW();
+
+        IF v_previous IS NULL THEN
+          v_event_type := 'grant';
+        ELSIF NOT (v_previous @> p_purposes AND p_purposes @> v_previous) THEN
+          v_event_type := 'modify';
+        END IF;
+
+      ELSIF p_action = 'update' THEN
+        IF v_end_date IS NOT NULL AND v_end_date <= NOW() AND NOT p_restart AND EXISTS (
+          SELECT 1 FROM jsonb_each(COALESCE(p_changes, '{}'::jsonb)) c
+          WHERE jsonb_array_length(c.value) > 0
+        ) THEN
+          RAISE EXCEPTION 'This consent has expired; renew it before granting access';
+        END IF;
+
+        FOR v_change IN
+          SELECT c.key::UUID AS data_type_id, ARRAY(SELECT jsonb_array_elements_text(c.value)) AS purposes
+          FROM jsonb_each(COALESCE(p_changes, '{}'::jsonb)) c
+        LOOP
+          IF cardinality(v_change.purposes) > 0 AND NOT EXISTS (
+            SELECT 1 FROM provider_data_types pdt
+            WHERE pdt.provider_id = v_provider_id AND pdt.data_type_id = v_change.data_type_id
+          ) THEN
+            RAISE EXCEPTION 'Provider does not offer this data type';
+          END IF;
+
+          INSERT INTO user_consent_grants (user_id, provider_id, data_type_id, granted, purposes)
+          VALUES (v_user_id, v_provider_id, v_change.data_type_id, cardinality(v_change.purposes) > 0, v_change.purposes)
+          ON CONFLICT ON CONSTRAINT user_consent_grants_pkey
+          DO UPDATE SET granted = EXCLUDED.granted, purposes = EXCLUDED.purposes, updated_at = NOW();
+        END LOOP;
+
+        IF p_restart THEN
+          v_end_date := p_end_date;
+        END IF;
+
+        -- Approval follows whether any data type is still granted
+        INSERT INTO user_provider_consents (user_id, provider_id, approved, start_date, end_date)
+        VALUES (
+          v_user_id,
+          v_provider_id,
+          EXISTS (
+            SELECT 1 FROM user_consent_grants g
+            WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id AND g.granted
+          ),
+          NOW(),
+          v_end_date
+        )
+        ON CONFLICT ON CONSTRAINT user_provider_consents_pkey
+        DO UPDATE SET
+          approved = EXCLUDED.approved,
+          start_date = CASE WHEN p_restart THEN NOW() ELSE user_provider_consents.start_date END,
+          end_date = CASE WHEN p_restart THEN p_end_date ELSE user_provider_consents.end_date END,
+          updated_at = NOW();
+
+        v_event_type := consent_event_type(v_before, consent_scopes(v_user_id, v_provider_id));
+        -- Restarting a consent grants its data types again
+        IF v_event_type IS NULL AND p_restart AND consent_scopes(v_user_id, v_provider_id) <> '[]'::jsonb THEN
+          v_event_type := 'grant';
+        END IF;
+
+      ELSE
+        DELETE FROM user_consent_grants g
+        WHERE g.user_id = v_user_id AND g.provider_id = v_provider_id;
+
+        DELETE FROM user_provider_consents c
+        WHERE c.user_id = v_user_id AND c.provider_id = v_provider_id;
+
+        v_event_type := 'disconnect';
+        v_end_date := NULL;
+      END IF;
+
+      v_after := consent_scopes(v_user_id, v_provider_id);
+
+      IF v_event_type IS NOT NULL THEN
+        INSERT INTO consent_events (user_id, provider_id, actor_id, event_type, scopes_before, scopes_after, expires_at)
+        VALUES (v_user_id, v_provider_id, v_actor_id, v_event_type, v_before, v_after, v_end_date);
+      END IF;
+
+      succeeded := TRUE;
+      error := NULL;
+    EXCEPTION WHEN OTHERS THEN
+      succeeded := FALSE;
+      error := SQLERRM;
+    END;
+
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_my_session(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_session_id = (auth.jwt() ->> 'session_id')::UUID THEN
+    RAISE EXCEPTION 'Sign out to end the current session';
+  END IF;
+
+  IF NOT has_recent_step_up() THEN
+    RAISE EXCEPTION 'Confirm it is you before signing out another device' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE id = p_session_id
+    AND user_id = auth.uid();
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION verify_my_password(TEXT) FROM anon;
+REVOKE EXECUTE ON FUNCTION has_recent_step_up() FROM anon;
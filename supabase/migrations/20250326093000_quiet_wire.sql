@@ -0,0 +1,15 @@
+/*
+  # Stop publishing deletes over Realtime
+
+  1. Changes
+    - Publish only inserts and updates on `supabase_realtime`; the app
+      subscribes to those two events and picks up deleted rows when its tab
+      is focused instead
+
+  2. Security
+    - Realtime does not apply RLS to delete events, so any signed-in
+      subscriber to them received the primary keys of other users' deleted
+      rows from the tables added in the `lively_signal` migration
+*/
+
+ALTER PUBLICATION supabase_realtime SET (publish = 'insert, update');
@@ -13,6 +13,14 @@ export default {
         'h4-body': ['14px', { lineHeight: '1.5', fontWeight: '500' }],
         'h5-body': ['10px', { lineHeight: '1.5', fontWeight: '500' }],
       },
+      // Set per tenant by TenantProvider, as space-separated RGB channels
+      colors: {
+        brand: {
+          DEFAULT: 'rgb(var(--brand-primary) / <alpha-value>)',
+          hover: 'rgb(var(--brand-primary-hover) / <alpha-value>)',
+          light: 'rgb(var(--brand-primary-light) / <alpha-value>)',
+        },
+      },
       fontFamily: {
         heading: ["Raleway", "sans-serif"],
         content: ["Poppins", "sans-serif"],